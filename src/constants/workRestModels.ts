@@ -43,6 +43,14 @@ export const workRestModels: WorkRestModel[] = [
     restDuration: 30,
     basedOn: 'who'
   },
+  {
+    id: 'ultradian-rhythm',
+    name: 'Ultradian Rhythm',
+    description: 'Breaks land on the troughs of your personal ~90 minute energy cycle, learned from your typing intensity and flow over several days. Rest 20 minutes at each trough.',
+    workDuration: 70, // Used until the cycle is learned and for the first trough of the day
+    restDuration: 20,
+    basedOn: 'ultradian'
+  },
   {
     id: 'custom-flexible',
     name: 'Custom Flexible',
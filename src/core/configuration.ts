@@ -25,6 +25,46 @@ export function getConfiguration(): DotSenseConfiguration {
     showActivityNotifications: config.get('showActivityNotifications', true),
     // CodeTune Integration
     suggestCodeTuneDuringBreaks: config.get('suggestCodeTuneDuringBreaks', true),
-    codeTunePermanentlyIgnored: config.get('codeTunePermanentlyIgnored', false)
+    codeTunePermanentlyIgnored: config.get('codeTunePermanentlyIgnored', false),
+    // Local Control API
+    controlApiEnabled: config.get('controlApi.enabled', false),
+    controlApiTransport: config.get('controlApi.transport', 'tcp'),
+    controlApiPort: config.get('controlApi.port', 47615),
+    // Storage
+    encryptStorageAtRest: config.get('storage.encryptAtRest', false),
+    settingsSyncEnabled: config.get('settingsSync.enabled', true),
+    // Calendar
+    calendarIcsPath: config.get('calendar.icsPath', ''),
+    calendarAutoAvoidMeetings: config.get('calendar.autoAvoidMeetings', true),
+    calendarSyncInterval: config.get('calendar.syncInterval', 30),
+    calendarLongMeetingMinutes: config.get('calendar.longMeetingRunMinutes', 90),
+    // Workspace task import
+    taskImportEnabled: config.get('taskImport.enabled', true),
+    taskImportInclude: config.get('taskImport.include', '**/*.{ts,tsx,js,jsx,py,go,rs,java,kt,c,cc,cpp,h,hpp,cs,rb,php,swift,sh,md,markdown}'),
+    taskImportExclude: config.get('taskImport.exclude', '**/{node_modules,out,dist,build,coverage,vendor,.git}/**'),
+    // Deadline-driven scheduling
+    deadlinesEnabled: config.get('deadlines.enabled', true),
+    deadlinePriorityWeight: config.get('deadlines.priorityWeight', 0.5),
+    deadlineTimePressureHours: config.get('deadlines.timePressureThreshold', 24),
+    // Energy check-ins
+    energyCheckInEnabled: config.get('energyCheckIn.enabled', true),
+    energyCheckInIntervalHours: config.get('energyCheckIn.promptIntervalHours', 3),
+    // Time blocks
+    timeBlocksDriveTimer: config.get('timeBlocks.driveTimer', true),
+    // Rest enforcement exemptions
+    restExemptGlobs: config.get('restExemptions.globs', []),
+    restExemptLanguageIds: config.get('restExemptions.languageIds', ['markdown', 'plaintext']),
+    restExemptUntitled: config.get('restExemptions.untitled', true),
+    restExemptWorkspaceFolders: config.get('restExemptions.workspaceFolders', []),
+    incidentMode: config.get('restExemptions.incidentMode', false),
+    // Emergency unblocks
+    emergencyUnblocksPerDay: config.get('restEnforcement.emergencyUnblocksPerDay', 2),
+    emergencyUnblockCooldownMinutes: config.get('restEnforcement.emergencyCooldownMinutes', 5),
+    // Rest deferral
+    restDeferralDuringDebugging: config.get('restDeferral.duringDebugging', true),
+    restDeferralDuringTasks: config.get('restDeferral.duringTasks', true),
+    restDeferralMaxMinutes: config.get('restDeferral.maxMinutes', 20),
+    restDeferralMaxPerDay: config.get('restDeferral.maxPerDay', 3),
+    restDeferralMinTaskSeconds: config.get('restDeferral.minTaskSeconds', 30)
   };
 }
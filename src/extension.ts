@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { state, initializeState } from './models/state';
+import { state, initializeState, reloadStateFromStorage } from './models/state';
 import { startReminderSystem, restartReminderSystem, toggleReminders, showRandomReminder } from './services/reminderService';
 import { takeBreak } from './services/breakService';
 import { showStretchExercise, showBreathingExercise, showEyeExercise } from './services/exerciseService';
@@ -9,35 +9,88 @@ import { ChangeWorkoutPanel } from './ui/changeWorkoutPanel';
 import { WorkRestAssessmentPanel } from './ui/workRestAssessmentPanel';
 import { UpdatePanel } from './ui/updatePanel';
 import { TimeBlockingPanel } from './ui/timeBlockingPanel';
+import { TaskMatrixPanel } from './ui/taskMatrixPanel';
+import { WeeklyPlannerPanel } from './ui/weeklyPlannerPanel';
 import { initializeGoals } from './services/goalService';
 import { initializeWellnessChallenges, startScreenTimeTracking, startUIUpdates, setupActivityMonitoring, recordDailyWellnessData, setupDailyDataRecording } from './services/wellnessService';
 import { initializeAchievements, showAchievementsReport } from './services/achievementService';
-import { initializeScreenBlocking, forceUnblock } from './services/screenBlockingService';
+import { initializeScreenBlocking, useEmergencyExit, startRestEnforcement, stopRestEnforcement, isRestEnforced, toggleIncidentMode } from './services/screenBlockingService';
 import { getTimeRemaining } from './services/workRestService';
-import { initializeWorkRestModel } from './services/workRestService';
+import { initializeWorkRestModel, suspendWorkRestSession, offerBreakAfterMeetings } from './services/workRestService';
+import { startWorkRestSession, stopWorkRestSession, switchToWorkRestModel, takeManualBreak, endRestEarly } from './services/workRestService';
+import { initializeWindowCoordinator, isLeaderWindow, forwardActivityEvents } from './services/windowCoordinator';
+import { getCurrentBranches } from './utils/gitBranches';
+import { startControlApi, stopControlApi, getControlApiToken, getControlApiTokenPath } from './services/controlApiService';
+import { exportBackupToFile, importBackupFromFile } from './services/backupService';
+import { initializeStorageEncryption, rotateStorageEncryptionKey, watchStorageEncryptionKey } from './services/storageEncryptionService';
+import { initializeSettingsSync } from './services/settingsSyncService';
+import { initializeCalendarSync, importCalendar, setLongMeetingRunHandler } from './services/calendarService';
+import { initializeRestDeferral, getLocalRestDeferralBlockers } from './services/restDeferralService';
+import { exportScheduleToFile } from './services/calendarExportService';
+import { applyScheduleTemplateInteractive, importTemplatesFromFile, exportTemplatesToFile, deleteSavedTemplateInteractive } from './services/scheduleTemplateService';
+import { initializeWorkspaceTasks, scanWorkspaceTasks } from './services/workspaceTaskService';
+import { initializeDeadlines, setDeadlineInteractive, clearDeadlineInteractive } from './services/deadlineService';
+import { initializeEnergyCheckIns, checkInEnergy } from './services/energyCheckInService';
+import { initializeTaskQueue, addTaskInteractive, triageTaskInteractive, scheduleTaskInteractive, completeTaskInteractive, startFocusOnRecommendedTask } from './services/taskQueueService';
 import { initializeExerciseStorage, showCustomExerciseCreator, showCustomExerciseLibrary, initializeGitIntegration, triggerGitBasedBreakSuggestion } from './services/exerciseService';
 import { getConfiguration } from './core/configuration';
 import { initializeSmartWellnessManager, smartWellnessManager } from './services/activityIntegration/smartWellnessManager';
 import { BaseActivityMonitor } from './services/activityIntegration/baseActivityMonitor';
 import { initializeAdvancedScheduler } from './services/activityIntegration/advancedSchedulerService';
+import { initializeUltradianRhythm } from './services/activityIntegration/ultradianRhythmService';
 import { usageAnalytics } from './services/usageAnalyticsService';
 import { MLWorkRestGenerator } from './services/mlWorkRestGenerator';
 import { Logger } from './utils/logger';
 
-export function activate(context: vscode.ExtensionContext): void {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
   Logger.log('DotSense extension is now active - AI-powered wellness companion!');
 
   try {
     // Initialize state and storage
     initializeState(context);
 
+    // Encrypted stores can only be read once the key has been fetched from SecretStorage
+    await initializeStorageEncryption(context);
+    reloadStateFromStorage();
+    context.subscriptions.push(watchStorageEncryptionKey(context));
+
+    // Merge preferences arriving through Settings Sync before anything reads them
+    initializeSettingsSync(context);
+
+    // Meetings from a local .ics calendar keep breaks out of meetings
+    initializeCalendarSync(context);
+
+    setLongMeetingRunHandler(run => {
+      if (isLeaderWindow()) {
+        offerBreakAfterMeetings(run);
+      }
+    });
+
+    // Focused work periods are credited to the task they were spent on
+    initializeTaskQueue(context);
+
     // Initialize activity monitor (needed for ML features)
     try {
       state.activityMonitor = new BaseActivityMonitor(context);
     Logger.log('Activity monitor initialized successfully');
 
+      // Debug sessions (followed by the monitor) and running build or deploy tasks hold breaks back until they end
+      initializeRestDeferral(context, state.activityMonitor);
+
       // Initialize advanced scheduler with activity monitor
       initializeAdvancedScheduler(state.activityMonitor);
+
+      // Personal ultradian cycle, learned from the monitor's history
+      initializeUltradianRhythm(context);
+
+      // TODO comments and checklists in the workspace feed the task queue
+      initializeWorkspaceTasks(context);
+
+      // Task, branch and folder deadlines shorten breaks while that stays safe
+      initializeDeadlines(context);
+
+      // Self-reported energy, asked for around sessions, teaches the energy profile
+      initializeEnergyCheckIns(context);
     } catch (error) {
     Logger.warn('Failed to initialize activity monitor and advanced scheduler, ML features will be disabled:', error);
       state.activityMonitor = undefined;
@@ -156,9 +209,12 @@ export function activate(context: vscode.ExtensionContext): void {
       showAchievementsReport();
     });
 
-    const forceUnblockCommand = vscode.commands.registerCommand('dotsense.forceUnblock', () => {
-      forceUnblock();
-      vscode.window.showInformationMessage('🔓 Emergency unblock activated. Rest enforcement temporarily disabled.');
+    const forceUnblockCommand = vscode.commands.registerCommand('dotsense.forceUnblock', async () => {
+      await useEmergencyExit();
+    });
+
+    const toggleIncidentModeCommand = vscode.commands.registerCommand('dotsense.toggleIncidentMode', async () => {
+      await toggleIncidentMode();
     });
 
     const createCustomExerciseCommand = vscode.commands.registerCommand('dotsense.createCustomExercise', () => {
@@ -187,8 +243,119 @@ export function activate(context: vscode.ExtensionContext): void {
       // The actual logic is handled in the applySettingsChanges function
     });
 
-    // Register temporary debug command
-    // registerTempExportCommand(context);
+    const copyControlApiTokenCommand = vscode.commands.registerCommand('dotsense.copyControlApiToken', async () => {
+      try {
+        await vscode.env.clipboard.writeText(getControlApiToken(context));
+        vscode.window.showInformationMessage(`🔑 Control API token copied. Scripts can also read it from ${getControlApiTokenPath(context)}`);
+      } catch (error) {
+        Logger.error('Failed to read control API token:', error);
+        vscode.window.showErrorMessage('Could not create the control API token.');
+      }
+    });
+
+    const exportBackupCommand = vscode.commands.registerCommand('dotsense.exportBackup', () => {
+      exportBackupToFile(context);
+    });
+
+    const importBackupCommand = vscode.commands.registerCommand('dotsense.importBackup', () => {
+      importBackupFromFile(context);
+    });
+
+    const rotateStorageEncryptionKeyCommand = vscode.commands.registerCommand('dotsense.rotateStorageEncryptionKey', () => {
+      rotateStorageEncryptionKey(context);
+    });
+
+    const importCalendarCommand = vscode.commands.registerCommand('dotsense.importCalendar', async () => {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: true,
+        canSelectMany: false,
+        filters: { 'iCalendar files': ['ics'] },
+        openLabel: 'Import Calendar'
+      });
+      if (!uris || uris.length === 0) return;
+
+      try {
+        // Saving the path restarts periodic sync through the configuration listener
+        await vscode.workspace.getConfiguration('dotsense').update('calendar.icsPath', uris[0].fsPath, vscode.ConfigurationTarget.Global);
+        const count = await importCalendar(uris[0].fsPath);
+        vscode.window.showInformationMessage(`📅 Imported ${count} meeting(s) for the next two weeks. Breaks will avoid them.`);
+      } catch (error) {
+        Logger.error('Calendar import failed:', error);
+        vscode.window.showErrorMessage(`Could not import calendar: ${(error as Error).message}`);
+      }
+    });
+
+    const exportScheduleCommand = vscode.commands.registerCommand('dotsense.exportSchedule', () => {
+      exportScheduleToFile();
+    });
+
+    const applyScheduleTemplateCommand = vscode.commands.registerCommand('dotsense.applyScheduleTemplate', () => {
+      applyScheduleTemplateInteractive(new Date().getDay());
+    });
+
+    const importScheduleTemplatesCommand = vscode.commands.registerCommand('dotsense.importScheduleTemplates', () => {
+      importTemplatesFromFile();
+    });
+
+    const exportScheduleTemplatesCommand = vscode.commands.registerCommand('dotsense.exportScheduleTemplates', () => {
+      exportTemplatesToFile();
+    });
+
+    const deleteScheduleTemplateCommand = vscode.commands.registerCommand('dotsense.deleteScheduleTemplate', () => {
+      deleteSavedTemplateInteractive();
+    });
+
+    const openTaskMatrixCommand = vscode.commands.registerCommand('dotsense.openTaskMatrix', () => {
+      TaskMatrixPanel.createOrShow(context.extensionUri);
+    });
+
+    const openWeeklyPlannerCommand = vscode.commands.registerCommand('dotsense.openWeeklyPlanner', () => {
+      WeeklyPlannerPanel.createOrShow(context.extensionUri);
+    });
+
+    const addTaskCommand = vscode.commands.registerCommand('dotsense.addTask', () => {
+      addTaskInteractive();
+    });
+
+    const triageTaskCommand = vscode.commands.registerCommand('dotsense.triageTask', () => {
+      triageTaskInteractive();
+    });
+
+    const scheduleTaskCommand = vscode.commands.registerCommand('dotsense.scheduleTask', () => {
+      scheduleTaskInteractive();
+    });
+
+    const completeTaskCommand = vscode.commands.registerCommand('dotsense.completeTask', () => {
+      completeTaskInteractive();
+    });
+
+    const importWorkspaceTasksCommand = vscode.commands.registerCommand('dotsense.importWorkspaceTasks', async () => {
+      const result = await scanWorkspaceTasks();
+      if (!result) {
+        vscode.window.showInformationMessage('Open a folder to import TODO comments and checklists as tasks.');
+        return;
+      }
+      vscode.window.showInformationMessage(
+        `📋 Workspace tasks synced: ${result.added} new, ${result.completed} completed, ${result.reopened} reopened.`
+      );
+    });
+
+    const focusRecommendedTaskCommand = vscode.commands.registerCommand('dotsense.focusRecommendedTask', () => {
+      startFocusOnRecommendedTask();
+    });
+
+    const setDeadlineCommand = vscode.commands.registerCommand('dotsense.setDeadline', () => {
+      setDeadlineInteractive();
+    });
+
+    const clearDeadlineCommand = vscode.commands.registerCommand('dotsense.clearDeadline', () => {
+      clearDeadlineInteractive();
+    });
+
+    const checkInEnergyCommand = vscode.commands.registerCommand('dotsense.checkInEnergy', () => {
+      checkInEnergy();
+    });
 
     context.subscriptions.push(
       showReminderCommand,
@@ -204,12 +371,34 @@ export function activate(context: vscode.ExtensionContext): void {
       analyticsCommand,
       showAchievementsCommand,
       forceUnblockCommand,
+      toggleIncidentModeCommand,
       createCustomExerciseCommand,
       showCustomExerciseLibraryCommand,
       triggerGitBreakSuggestionCommand,
       showUpdatePanelCommand,
       openTimeBlockingCommand,
-      activitySettingsChangedCommand
+      activitySettingsChangedCommand,
+      copyControlApiTokenCommand,
+      exportBackupCommand,
+      importBackupCommand,
+      rotateStorageEncryptionKeyCommand,
+      importCalendarCommand,
+      exportScheduleCommand,
+      applyScheduleTemplateCommand,
+      importScheduleTemplatesCommand,
+      exportScheduleTemplatesCommand,
+      deleteScheduleTemplateCommand,
+      openTaskMatrixCommand,
+      openWeeklyPlannerCommand,
+      addTaskCommand,
+      triageTaskCommand,
+      scheduleTaskCommand,
+      completeTaskCommand,
+      focusRecommendedTaskCommand,
+      importWorkspaceTasksCommand,
+      setDeadlineCommand,
+      clearDeadlineCommand,
+      checkInEnergyCommand
     );
 
     // Initialize activity bar provider
@@ -241,9 +430,6 @@ export function activate(context: vscode.ExtensionContext): void {
     // Initialize achievements
     initializeAchievements();
 
-    // Start the bully system
-    startReminderSystem();
-
     // Start screen time tracking
     startScreenTimeTracking();
 
@@ -252,16 +438,23 @@ export function activate(context: vscode.ExtensionContext): void {
 
     // Listen for configuration changes
     vscode.workspace.onDidChangeConfiguration(e => {
-      if (e.affectsConfiguration('dotsense')) {
+      if (e.affectsConfiguration('dotsense') && isLeaderWindow()) {
         restartReminderSystem();
       }
+      if (e.affectsConfiguration('dotsense.controlApi') && isLeaderWindow()) {
+        startControlApi(context);
+      }
+      // Other windows pick up the new key through SecretStorage
+      if (e.affectsConfiguration('dotsense.storage.encryptAtRest') && isLeaderWindow()) {
+        initializeStorageEncryption(context);
+      }
     });
 
     // Set up IDE activity monitoring
     setupActivityMonitoring(context);
 
     // Initialize screen blocking service
-    initializeScreenBlocking();
+    initializeScreenBlocking(context.extensionUri);
 
     // Initialize custom exercise storage
     initializeExerciseStorage(context);
@@ -278,8 +471,8 @@ export function activate(context: vscode.ExtensionContext): void {
     // Initialize Git integration
     initializeGitIntegration();
 
-    // Initialize work-rest model (core feature)
-    initializeWorkRestModel();
+    // Elect one window to run the bully system and work-rest model (core feature)
+    startWindowCoordination(context);
 
     // Check if we should show the update panel (max 3 days)
     checkAndShowUpdatePanel(context);
@@ -313,6 +506,91 @@ export function activate(context: vscode.ExtensionContext): void {
   }
 }
 
+function startWindowCoordination(context: vscode.ExtensionContext): void {
+  initializeWindowCoordinator(context, {
+    onBecomeLeader: () => {
+      state.activityMonitor?.setEventForwarder(null);
+      startReminderSystem();
+      initializeWorkRestModel();
+      // The control API drives the session, so it lives with the leader
+      startControlApi(context);
+    },
+    onBecomeFollower: () => {
+      if (state.reminderTimer) {
+        clearInterval(state.reminderTimer);
+        state.reminderTimer = undefined;
+      }
+      suspendWorkRestSession();
+      stopControlApi();
+      state.activityMonitor?.setEventForwarder(events => forwardActivityEvents(events));
+    },
+    publishState: () => {
+      const timeRemaining = getTimeRemaining();
+      return {
+        statusBarText: state.statusBarItem?.text || '',
+        nextReminder: timeRemaining ?
+          Date.now() + (timeRemaining.minutes * 60 * 1000) + (timeRemaining.seconds * 1000) :
+          state.nextReminderTime,
+        phase: timeRemaining ? timeRemaining.phase as 'work' | 'rest' : null
+      };
+    },
+    applyState: shared => {
+      if (state.statusBarItem && shared.statusBarText) {
+        state.statusBarItem.text = shared.statusBarText;
+        state.statusBarItem.show();
+      }
+      state.nextReminderTime = shared.nextReminder;
+
+      // Rest applies to every window, not just the one running the timer
+      if (shared.phase === 'rest' && !isRestEnforced()) {
+        startRestEnforcement(shared.nextReminder ? new Date(shared.nextReminder) : undefined);
+      } else if (shared.phase !== 'rest' && isRestEnforced()) {
+        stopRestEnforcement();
+      }
+
+      if (state.activityBarProvider) {
+        state.activityBarProvider.postMessage({
+          command: 'updateTimer',
+          data: {
+            isEnabled: true,
+            nextReminder: shared.nextReminder,
+            interval: getConfiguration().interval,
+            ...(shared.phase && { phase: shared.phase })
+          }
+        });
+      }
+    },
+    ingestActivity: events => {
+      state.activityMonitor?.ingestForwardedEvents(events);
+    },
+    runSessionCommand: command => {
+      switch (command.type) {
+        case 'start':
+          startWorkRestSession(command.model);
+          break;
+        case 'stop':
+          stopWorkRestSession();
+          break;
+        case 'switch':
+          switchToWorkRestModel(command.model);
+          break;
+        case 'takeBreak':
+          takeManualBreak();
+          break;
+        case 'endRestEarly':
+          endRestEarly();
+          break;
+      }
+    },
+    // Deadlines on branches and folders, and debug sessions and tasks, in any window apply to the shared session
+    describeWindow: () => ({
+      branches: getCurrentBranches(),
+      folders: (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath),
+      restBlockers: getLocalRestDeferralBlockers()
+    })
+  });
+}
+
 function checkAndShowUpdatePanel(context: vscode.ExtensionContext): void {
   const UPDATE_SHOWN_KEY = 'updatePanelShownDate';
   const MAX_DAYS = 3;
@@ -53,28 +53,24 @@ export const state = {
 export function initializeState(context: vscode.ExtensionContext): void {
   state.storage = new ExtensionStorage(context);
 
-  // Load persistent data from storage
+  // Upgrade stored data to the current schema before reading it
+  state.storage.migrateSchema();
+
+  reloadStateFromStorage();
+}
+
+// Re-read persistent data, e.g. after a backup has been restored
+export function reloadStateFromStorage(): void {
+  if (!state.storage) return;
+
+  // Date fields are revived by the storage layer
   state.breakStats = state.storage.loadBreakStats();
   state.screenTimeStats = state.storage.loadScreenTimeStats();
   state.smartNotifications = state.storage.loadSmartNotifications();
   state.customExercises = state.storage.loadCustomExercises();
   state.wellnessGoals = state.storage.loadWellnessGoals();
   state.wellnessChallenges = state.storage.loadWellnessChallenges();
-
-  // Convert date strings back to Date objects for screen time stats
-  state.screenTimeStats = {
-    ...state.screenTimeStats,
-    sessionStartTime: state.screenTimeStats.sessionStartTime ? new Date(state.screenTimeStats.sessionStartTime) : null,
-    lastBreakTime: state.screenTimeStats.lastBreakTime ? new Date(state.screenTimeStats.lastBreakTime) : null,
-    lastActivityTime: state.screenTimeStats.lastActivityTime ? new Date(state.screenTimeStats.lastActivityTime) : state.screenTimeStats.lastActivityTime,
-    codingSessionStart: state.screenTimeStats.codingSessionStart ? new Date(state.screenTimeStats.codingSessionStart) : null
-  };
-
-  // Load achievements and convert unlockedAt strings back to Date objects
-  state.achievements = state.storage.loadAchievements().map(achievement => ({
-    ...achievement,
-    unlockedAt: achievement.unlockedAt ? new Date(achievement.unlockedAt) : undefined
-  })) as Achievement[];
+  state.achievements = state.storage.loadAchievements();
 
   state.dailyWellnessData = state.storage.loadDailyWellnessData();
 }
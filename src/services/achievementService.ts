@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { Achievement } from '../types';
 import { state } from '../models/state';
 import { Logger } from '../utils/logger';
+import { getDaysSinceLastEmergencyUnblock } from './emergencyUnblockService';
 
 
 interface AchievementExport {
@@ -208,8 +209,8 @@ const ACHIEVEMENT_DEFINITIONS: Omit<Achievement, 'unlockedAt' | 'progress'>[] =
   {
     id: 'no-missed-breaks',
     name: 'Unbreakable',
-    description: 'Go 7 days without missing a single break reminder',
-    detailedDescription: 'Seven days of perfect adherence! You\'ve shown incredible discipline by never missing a break reminder.',
+    description: 'Go 7 days without missing a break reminder or using an emergency unblock',
+    detailedDescription: 'Seven days of perfect adherence! You\'ve shown incredible discipline by never missing a break reminder or cutting a rest short.',
     icon: '🛡️',
     category: 'consistency',
     rarity: 'legendary',
@@ -395,10 +396,14 @@ function getAchievementProgress(achievementId: string): number {
       // For now, return 0 as this requires more complex tracking
       return 0;
 
-    case 'no-missed-breaks':
-      // Would need to track missed break reminders
-      // For now, return current streak as approximation
-      return state.breakStats.streakDays;
+    case 'no-missed-breaks': {
+      // Would need to track missed break reminders - the break streak approximates it,
+      // and an emergency unblock starts the count again
+      const daysSinceUnblock = getDaysSinceLastEmergencyUnblock();
+      return daysSinceUnblock === null
+        ? state.breakStats.streakDays
+        : Math.min(state.breakStats.streakDays, daysSinceUnblock);
+    }
 
     // Time-based achievements
     case 'eight-hour-session':
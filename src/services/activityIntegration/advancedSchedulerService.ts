@@ -3,7 +3,6 @@ import {
   AdvancedWorkRestModel,
   SchedulingModelType,
   TimeBlock,
-  EisenhowerTask,
   EisenhowerPriority,
   EnergyProfile,
   EnergyReading,
@@ -17,12 +16,41 @@ import {
   TaskComplexity,
   EnergyLevel,
   DataSharingPreferences,
-  SecureContribution
+  SecureContribution,
+  DeadlineConfig,
+  ContextDeadline,
+  ActiveDeadline,
+  TimePressure
 } from '../../types';
 import { state } from '../../models/state';
+import { getConfiguration } from '../../core/configuration';
+import { getCurrentBranches } from '../../utils/gitBranches';
 import { BaseActivityMonitor } from './baseActivityMonitor';
+import { getUltradianProfile, getNextTrough } from './ultradianRhythmService';
+import { getOtherWindows, markSharedDataChanged, onDidChangeSharedData } from '../windowCoordinator';
 import { Logger } from '../../utils/logger';
 
+// Deadline pressure never shortens a break by more than half
+const MAX_BREAK_COMPRESSION = 0.5;
+const BURNOUT_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+// A self-reported energy rating counts as much as this many inferred ones
+const SELF_REPORT_WEIGHT = 3;
+const MIN_SELF_REPORTS = 5;
+const RECENT_CHECK_IN_MS = 90 * 60 * 1000;
+
+// Area name other windows watch to reload tasks, deadlines and energy readings
+const SHARED_DATA_AREA = 'advancedScheduler';
+
+const UNLEARNED_ENERGY_PROFILE: EnergyProfile = {
+  userType: 'undefined',
+  hourlyEnergy: {},
+  peakHours: [],
+  lowEnergyHours: [],
+  weeklyPattern: {},
+  learned: false
+};
+
 /**
  * Advanced Scheduler Service - Core intelligent scheduling with ML capabilities
  * Manages advanced work scheduling models, energy profiling, and adaptive learning
@@ -31,9 +59,20 @@ export class AdvancedSchedulerService {
   private baseMonitor: BaseActivityMonitor;
   private schedulingIntelligence: SchedulingIntelligence | null = null;
   private energyReadings: EnergyReading[] = [];
+  private energyProfile: EnergyProfile = { ...UNLEARNED_ENERGY_PROFILE };
   private adaptationRules: AdaptationRule[] = [];
   private taskSchedules: TaskSchedule[] = [];
+  private contextDeadlines: ContextDeadline[] = [];
+  // Edits not yet merged into the stored lists, which other windows also write
+  private addedTaskIds = new Set<string>();
+  private removedTaskIds = new Set<string>();
+  private changedTaskFields = new Map<string, Set<keyof TaskSchedule>>();
+  private changedDeadlineIds = new Set<string>();
+  private removedDeadlineIds = new Set<string>();
+  private burnoutRisk: { level: TimePressure['burnoutRisk']; checkedAt: number } | null = null;
   private currentModel: AdvancedWorkRestModel | null = null;
+  private readonly tasksChanged = new vscode.EventEmitter<void>();
+  readonly onDidChangeTasks = this.tasksChanged.event;
 
   // Data Collective integration
   private dataSharingPreferences: DataSharingPreferences = {
@@ -52,6 +91,11 @@ export class AdvancedSchedulerService {
     // Load persisted data
     this.loadPersistedData();
 
+    // Pick up tasks and deadlines saved in other windows
+    onDidChangeSharedData(area => {
+      if (area === SHARED_DATA_AREA) this.reloadSharedData();
+    });
+
     // Start background learning
     this.startAdaptiveLearning();
   }
@@ -167,10 +211,8 @@ export class AdvancedSchedulerService {
       return { type: 'break' as const, duration: 5, reason: 'No Eisenhower tasks configured', confidence: 0.5 };
     }
 
-    const taskQueue: EisenhowerTask[] | undefined = config.taskQueue;
-    if (!taskQueue) {
-      return { type: 'break' as const, duration: 5, reason: 'No Eisenhower tasks configured', confidence: 0.5 };
-    }
+    // Tasks created in the task matrix are the queue
+    const taskQueue = this.getTasks();
 
     const urgentImportant = taskQueue
       .filter(task => !task.completed && task.priority === 'urgent-important')
@@ -207,57 +249,55 @@ export class AdvancedSchedulerService {
   }
 
   /**
-   * Ultradian Rhythm Recommendation (90-min focused work blocks)
+   * Ultradian Rhythm Recommendation (breaks at the troughs of the learned cycle)
    */
   private getUltradadianRecommendation() {
     const now = new Date();
-    const minutesSinceMidnight = now.getHours() * 60 + now.getMinutes();
-    const ninetyMinSlots = Math.floor(minutesSinceMidnight / 90);
+    const profile = getUltradianProfile();
+    const restMinutes = this.currentModel!.restDuration;
+    const cycle = `${profile.cycleMinutes}-min ${profile.learned ? 'learned' : 'default'} cycle`;
+    const confidence = profile.learned ? 0.6 + profile.confidence * 0.35 : 0.6;
 
-    // Check if we're in a work or break portion of the 90-min cycle
-    const remainingInCycle = 90 - (minutesSinceMidnight % 90);
+    // Looking back half a rest catches a trough whose rest window is still open
+    const trough = getNextTrough(new Date(now.getTime() - (restMinutes / 2) * 60 * 1000));
+    const minutesToTrough = (trough.getTime() - now.getTime()) / 60000;
 
-    if (remainingInCycle > 75) {
-      // First 15 minutes: work
-      return {
-        type: 'work' as const,
-        duration: remainingInCycle,
-        reason: `Ultradian work phase (90-min cycle, slot ${ninetyMinSlots})`,
-        confidence: 0.85
-      };
-    } else if (remainingInCycle > 15) {
-      // Next 60 minutes: continue work
-      return {
-        type: 'work' as const,
-        duration: remainingInCycle - 15,
-        reason: `Ultradian work phase (90-min cycle, slot ${ninetyMinSlots})`,
-        confidence: 0.85
-      };
-    } else {
-      // Last 15 minutes: break
+    if (minutesToTrough <= restMinutes / 2) {
       return {
         type: 'break' as const,
-        duration: remainingInCycle,
-        reason: `Ultradian break phase (90-min cycle, slot ${ninetyMinSlots})`,
-        confidence: 0.85
+        duration: Math.max(1, Math.round(minutesToTrough + restMinutes / 2)),
+        reason: `Ultradian trough (${cycle})`,
+        confidence
       };
     }
+
+    return {
+      type: 'work' as const,
+      duration: Math.round(minutesToTrough - restMinutes / 2),
+      reason: `Ultradian work phase (${cycle})`,
+      confidence
+    };
   }
 
   /**
    * Energy-Based Scheduling Recommendation
    */
   private getEnergyBasedRecommendation() {
-    const profile: EnergyProfile | undefined = this.currentModel!.advancedConfig?.energyProfile;
+    const profile: EnergyProfile | undefined = this.currentModel!.advancedConfig?.energyProfile ??
+      (this.energyProfile.learned ? this.energyProfile : undefined);
     if (!profile) {
-      return { type: 'energy-check' as const, reason: 'Energy profile not configured', confidence: 0.5 };
+      return { type: 'energy-check' as const, reason: 'Not enough energy check-ins yet', confidence: 0.5 };
     }
 
     const highEnergyLevels: EnergyLevel[] = ['high', 'very-high'];
     const lowEnergyLevels: EnergyLevel[] = ['low', 'very-low'];
 
+    // A recent check-in says more about right now than the hourly average
     const currentHour = new Date().getHours();
-    const energyLevel = profile.hourlyEnergy[currentHour] || 5;
+    const checkIn = this.getLatestEnergyReading('self-report');
+    const energyLevel = checkIn && Date.now() - checkIn.timestamp.getTime() < RECENT_CHECK_IN_MS
+      ? checkIn.energyLevel
+      : profile.hourlyEnergy[currentHour] || 5;
     const isPeakHour = profile.peakHours.includes(currentHour);
     const isLowEnergy = profile.lowEnergyHours.includes(currentHour);
 
@@ -356,26 +396,29 @@ export class AdvancedSchedulerService {
       return { type: 'work' as const, duration: 25, reason: 'Deadline scheduling disabled', confidence: 0.5 };
     }
 
-    const now = new Date();
-    const urgentTasks = this.taskSchedules
-      .filter(task => {
-        if (!task.deadline || task.completed) return false;
-        const hoursUntilDeadline = (task.deadline.getTime() - now.getTime()) / (1000 * 60 * 60);
-        return hoursUntilDeadline <= config.timePressureThreshold;
-      })
-      .sort((a, b) => (a.deadline!.getTime() - now.getTime()) - (b.deadline!.getTime() - now.getTime()));
-
-    if (urgentTasks.length > 0) {
+    const pressure = this.getTimePressure();
+    if (!pressure) {
+      return { type: 'work' as const, duration: 25, reason: 'No urgent deadlines - standard work', confidence: 0.6 };
+    }
+
+    const due = `${pressure.deadline.label} due in ${Math.max(1, Math.round(pressure.hoursLeft))}h`;
+    if (pressure.unsafe) {
       return {
-        type: 'work' as const,
-        taskId: urgentTasks[0].id,
-        duration: Math.min(urgentTasks[0].estimatedDuration, 60),
-        reason: `Urgent deadline: ${urgentTasks[0].name}`,
-        confidence: 0.95
+        type: 'break' as const,
+        duration: this.currentModel!.restDuration,
+        reason: `Burnout risk is ${pressure.burnoutRisk} - keeping full breaks (${due})`,
+        confidence: 0.8
       };
     }
 
-    return { type: 'work' as const, duration: 25, reason: 'No urgent deadlines - standard work', confidence: 0.6 };
+    const task = this.taskSchedules.find(t => t.id === pressure.deadline.taskId);
+    return {
+      type: 'work' as const,
+      ...(task && { taskId: task.id }),
+      duration: Math.min(task?.estimatedDuration ?? this.currentModel!.workDuration, 60),
+      reason: `Urgent deadline: ${due}`,
+      confidence: Math.round((0.7 + pressure.pressure * 0.25) * 100) / 100
+    };
   }
 
   /**
@@ -397,10 +440,84 @@ export class AdvancedSchedulerService {
     };
 
     this.taskSchedules.push(newTask);
+    this.addedTaskIds.add(taskId);
     this.persistTasks();
     return taskId;
   }
 
+  /**
+   * Adds several tasks with a single write, for bulk imports
+   */
+  addTasks(tasks: Omit<TaskSchedule, 'id' | 'completed'>[]): string[] {
+    const ids = tasks.map(task => {
+      const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      this.taskSchedules.push({ ...task, id: taskId, completed: false });
+      this.addedTaskIds.add(taskId);
+      return taskId;
+    });
+
+    if (ids.length > 0) this.persistTasks();
+    return ids;
+  }
+
+  getTasks(includeCompleted: boolean = false): TaskSchedule[] {
+    return this.taskSchedules.filter(task => includeCompleted || !task.completed);
+  }
+
+  updateTask(taskId: string, updates: Partial<Omit<TaskSchedule, 'id'>>): boolean {
+    const task = this.taskSchedules.find(t => t.id === taskId);
+    if (!task) return false;
+
+    Object.assign(task, updates);
+    this.markTaskChanged(taskId, Object.keys(updates) as (keyof TaskSchedule)[]);
+    this.persistTasks();
+    return true;
+  }
+
+  deleteTask(taskId: string): boolean {
+    const count = this.taskSchedules.length;
+    this.taskSchedules = this.taskSchedules.filter(t => t.id !== taskId);
+    if (this.taskSchedules.length === count) return false;
+
+    this.removedTaskIds.add(taskId);
+    this.persistTasks();
+    return true;
+  }
+
+  /**
+   * Adds focused minutes to a task; a task worked on over several periods accumulates them
+   */
+  recordTaskTime(taskId: string, minutes: number): boolean {
+    const task = this.taskSchedules.find(t => t.id === taskId);
+    if (!task || minutes <= 0) return false;
+
+    task.actualDuration = Math.round((task.actualDuration || 0) + minutes);
+    this.markTaskChanged(taskId, ['actualDuration']);
+    this.persistTasks();
+    return true;
+  }
+
+  /**
+   * Next task to focus on: urgent-important first, then planned important work,
+   * then the rest - earliest deadline first within a quadrant
+   */
+  getRecommendedTask(): TaskSchedule | null {
+    const quadrantOrder: EisenhowerPriority[] = [
+      'urgent-important',
+      'not-urgent-important',
+      'urgent-not-important',
+      'not-urgent-not-important'
+    ];
+
+    const candidates = this.getTasks().sort((a, b) =>
+      quadrantOrder.indexOf(a.priority) - quadrantOrder.indexOf(b.priority) ||
+      (a.deadline?.getTime() || Number.MAX_SAFE_INTEGER) - (b.deadline?.getTime() || Number.MAX_SAFE_INTEGER) ||
+      this.getTaskPriorityScore(b) - this.getTaskPriorityScore(a)
+    );
+
+    return candidates[0] ?? null;
+  }
+
   completeTask(taskId: string, actualDuration?: number, satisfaction?: number): boolean {
     const task = this.taskSchedules.find(t => t.id === taskId);
     if (!task || task.completed) return false;
@@ -409,11 +526,145 @@ export class AdvancedSchedulerService {
     if (actualDuration !== undefined) task.actualDuration = actualDuration;
     if (satisfaction !== undefined) task.satisfaction = satisfaction;
 
+    this.markTaskChanged(taskId, ['completed', 'actualDuration', 'satisfaction']);
     this.persistTasks();
     this.updateLearningData(task);
     return true;
   }
 
+  /**
+   * Deadline Management
+   */
+  setContextDeadline(deadline: Omit<ContextDeadline, 'id'>): string {
+    // One deadline per branch (in its repository) or folder
+    this.contextDeadlines = this.contextDeadlines.filter(d => {
+      const replaced = d.scope === deadline.scope && d.target === deadline.target && d.repository === deadline.repository;
+      if (replaced) this.removedDeadlineIds.add(d.id);
+      return !replaced;
+    });
+
+    const id = `deadline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.contextDeadlines.push({ ...deadline, id });
+    this.changedDeadlineIds.add(id);
+    this.persistDeadlines();
+    return id;
+  }
+
+  removeContextDeadline(id: string): boolean {
+    const count = this.contextDeadlines.length;
+    this.contextDeadlines = this.contextDeadlines.filter(d => d.id !== id);
+    if (this.contextDeadlines.length === count) return false;
+
+    this.removedDeadlineIds.add(id);
+    this.persistDeadlines();
+    return true;
+  }
+
+  clearTaskDeadline(taskId: string): boolean {
+    const task = this.taskSchedules.find(t => t.id === taskId);
+    if (!task?.deadline) return false;
+
+    delete task.deadline;
+    this.markTaskChanged(taskId, ['deadline']);
+    this.persistTasks();
+    return true;
+  }
+
+  getContextDeadlines(): ContextDeadline[] {
+    return [...this.contextDeadlines];
+  }
+
+  /**
+   * Deadlines of open tasks, the checked-out branches and the open workspace folders, soonest first.
+   * Branches and folders open in other windows count too, since they share one session.
+   */
+  getActiveDeadlines(): ActiveDeadline[] {
+    const otherWindows = getOtherWindows();
+    const branches = [...getCurrentBranches(), ...otherWindows.flatMap(window => window.branches)];
+    const folders = [
+      ...(vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath),
+      ...otherWindows.flatMap(window => window.folders)
+    ];
+
+    const deadlines: ActiveDeadline[] = this.getTasks()
+      .filter(task => task.deadline)
+      .map(task => ({ source: 'task' as const, label: task.name, deadline: task.deadline!, taskId: task.id }));
+
+    this.contextDeadlines.forEach(d => {
+      const active = d.scope === 'branch'
+        ? branches.some(branch => branch.name === d.target && (d.repository === undefined || branch.repository === d.repository))
+        : folders.includes(d.target);
+      if (active) {
+        deadlines.push({ source: d.scope, label: d.label, deadline: d.deadline });
+      }
+    });
+
+    return deadlines.sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  }
+
+  /**
+   * The active model's deadline settings, or the dotsense.deadlines settings for any other model
+   */
+  getDeadlineConfig(): DeadlineConfig {
+    const modelConfig = this.currentModel?.type === 'deadline-driven' ? this.currentModel.advancedConfig?.deadlineConfig : undefined;
+    if (modelConfig) return modelConfig;
+
+    const config = getConfiguration();
+    return {
+      enabled: config.deadlinesEnabled,
+      priorityWeight: config.deadlinePriorityWeight,
+      timePressureThreshold: config.deadlineTimePressureHours
+    };
+  }
+
+  /**
+   * Pressure from the nearest upcoming deadline inside the threshold. Breaks shrink with it,
+   * to at most half their length, unless burnout signals make that unsafe.
+   */
+  getTimePressure(now: Date = new Date()): TimePressure | null {
+    const config = this.getDeadlineConfig();
+    if (!config.enabled || config.timePressureThreshold <= 0) return null;
+
+    const nearest = this.getActiveDeadlines().find(d => d.deadline.getTime() > now.getTime());
+    if (!nearest) return null;
+
+    const hoursLeft = (nearest.deadline.getTime() - now.getTime()) / (60 * 60 * 1000);
+    if (hoursLeft > config.timePressureThreshold) return null;
+
+    const pressure = 1 - hoursLeft / config.timePressureThreshold;
+    const burnoutRisk = this.getBurnoutRisk();
+    const unsafe = burnoutRisk === 'high' || (burnoutRisk === 'medium' && pressure >= 0.5);
+    const weight = Math.max(0, Math.min(1, config.priorityWeight));
+
+    return {
+      deadline: nearest,
+      hoursLeft,
+      pressure,
+      burnoutRisk,
+      unsafe,
+      restFactor: unsafe ? 1 : 1 - MAX_BREAK_COMPRESSION * pressure * weight
+    };
+  }
+
+  // Burnout analysis scans two weeks of events, so the result is reused for a while
+  private getBurnoutRisk(): TimePressure['burnoutRisk'] {
+    if (this.burnoutRisk && Date.now() - this.burnoutRisk.checkedAt < BURNOUT_CHECK_INTERVAL_MS) {
+      return this.burnoutRisk.level;
+    }
+
+    let level: TimePressure['burnoutRisk'] = 'low';
+    try {
+      if (typeof this.baseMonitor.getBurnoutAnalysis === 'function') {
+        level = this.baseMonitor.getBurnoutAnalysis().riskLevel;
+      }
+    } catch (error) {
+      Logger.warn('Burnout analysis unavailable for deadline scheduling:', error);
+    }
+
+    this.burnoutRisk = { level, checkedAt: Date.now() };
+    return level;
+  }
+
   /**
    * Energy Tracking Methods
    */
@@ -423,7 +674,8 @@ export class AdvancedSchedulerService {
       timestamp: new Date()
     };
 
-    this.energyReadings.push(energyReading);
+    // Append to the stored readings so check-ins saved by other windows are kept
+    this.energyReadings = [...(state.storage ? this.loadStoredEnergyReadings() : this.energyReadings), energyReading];
 
     // Keep only last 30 days of readings
     const thirtyDaysAgo = new Date();
@@ -434,6 +686,21 @@ export class AdvancedSchedulerService {
     this.updateEnergyProfile();
   }
 
+  getLatestEnergyReading(source?: EnergyReading['source']): EnergyReading | null {
+    for (let i = this.energyReadings.length - 1; i >= 0; i--) {
+      const reading = this.energyReadings[i];
+      if (!source || (reading.source ?? 'self-report') === source) return reading;
+    }
+    return null;
+  }
+
+  /**
+   * Energy profile learned from check-ins blended with inferred readings
+   */
+  getEnergyProfile(): EnergyProfile {
+    return this.energyProfile;
+  }
+
   /**
    * Adaptive Learning Methods
    */
@@ -622,16 +889,69 @@ export class AdvancedSchedulerService {
   }
 
   private updateEnergyProfile(): void {
-    if (!this.currentModel?.advancedConfig?.energyProfile) return;
+    this.energyProfile = this.learnEnergyProfile();
+    state.storage?.saveCustomSetting('advancedScheduler.energyProfile', this.energyProfile);
+
+    // A profile configured on the model follows the learned one once there is enough data
+    const modelProfile = this.currentModel?.advancedConfig?.energyProfile;
+    if (modelProfile && this.energyProfile.learned) {
+      Object.assign(modelProfile, this.energyProfile);
+      this.persistModel();
+    }
+  }
+
+  private learnEnergyProfile(): EnergyProfile {
+    const hourly: { [hour: number]: { sum: number; weight: number } } = {};
+    const daily: { [day: number]: { sum: number; weight: number } } = {};
+    let total = 0;
+    let totalWeight = 0;
+    let selfReports = 0;
+
+    this.energyReadings.forEach(reading => {
+      const weight = reading.source === 'inferred' ? 1 : SELF_REPORT_WEIGHT;
+      if (reading.source !== 'inferred') selfReports++;
+
+      const day = reading.timestamp.getDay();
+      hourly[reading.hour] = hourly[reading.hour] || { sum: 0, weight: 0 };
+      daily[day] = daily[day] || { sum: 0, weight: 0 };
+      hourly[reading.hour].sum += reading.energyLevel * weight;
+      hourly[reading.hour].weight += weight;
+      daily[day].sum += reading.energyLevel * weight;
+      daily[day].weight += weight;
+      total += reading.energyLevel * weight;
+      totalWeight += weight;
+    });
+
+    const hourlyEnergy: { [hour: number]: number } = {};
+    Object.keys(hourly).map(Number).forEach(hour => {
+      hourlyEnergy[hour] = Math.round((hourly[hour].sum / hourly[hour].weight) * 10) / 10;
+    });
+
+    const hours = Object.keys(hourlyEnergy).map(Number);
+    const peakHours = hours.filter(h => hourlyEnergy[h] >= 7).sort((a, b) => hourlyEnergy[b] - hourlyEnergy[a]).slice(0, 4);
+    const lowEnergyHours = hours.filter(h => hourlyEnergy[h] <= 4).sort((a, b) => hourlyEnergy[a] - hourlyEnergy[b]).slice(0, 3);
 
-    const profile = this.currentModel.advancedConfig.energyProfile;
-    const rhythm = this.calculateCircadianRhythm();
+    // Each weekday relative to the overall average
+    const average = totalWeight > 0 ? total / totalWeight : 0;
+    const weeklyPattern: { [day: number]: number } = {};
+    Object.keys(daily).map(Number).forEach(day => {
+      weeklyPattern[day] = average > 0 ? Math.round((daily[day].sum / daily[day].weight / average) * 100) / 100 : 1;
+    });
 
-    profile.peakHours = rhythm.peakPerformances.slice(0, 4).map(p => p.hour);
-    profile.lowEnergyHours = rhythm.energyDips.slice(0, 3).map(p => p.hour);
+    const averagePeak = peakHours.reduce((sum, h) => sum + h, 0) / (peakHours.length || 1);
+    const userType: EnergyProfile['userType'] = peakHours.length === 0 ? 'undefined'
+      : averagePeak < 12 ? 'morning-person'
+        : averagePeak >= 16 ? 'evening-person'
+          : 'steady-performer';
 
-    // TODO: Update user type and weekly patterns
-    profile.learned = true;
+    return {
+      userType,
+      hourlyEnergy,
+      peakHours,
+      lowEnergyHours,
+      weeklyPattern,
+      learned: selfReports >= MIN_SELF_REPORTS && hours.length >= 3
+    };
   }
 
   private updateLearningData(_completedTask: TaskSchedule): void {
@@ -644,8 +964,13 @@ export class AdvancedSchedulerService {
    */
   private loadPersistedData(): void {
     try {
-      this.taskSchedules = state.storage?.loadCustomSetting('advancedScheduler.tasks', []) || [];
-      this.energyReadings = state.storage?.loadCustomSetting('advancedScheduler.energyReadings', []) || [];
+      this.taskSchedules = this.loadStoredTasks();
+      this.addedTaskIds.clear();
+      this.removedTaskIds.clear();
+      this.changedTaskFields.clear();
+      this.contextDeadlines = this.loadStoredDeadlines();
+      this.energyReadings = this.loadStoredEnergyReadings();
+      this.energyProfile = state.storage?.loadCustomSetting<EnergyProfile>('advancedScheduler.energyProfile', this.energyProfile) || this.energyProfile;
       this.adaptationRules = state.storage?.loadCustomSetting('advancedScheduler.adaptationRules', []) || [];
       this.schedulingIntelligence = (state.storage?.loadCustomSetting('advancedScheduler.intelligence', null) ?? null) as SchedulingIntelligence | null;
       this.dataSharingPreferences = state.storage?.loadCustomSetting('advancedScheduler.dataSharing', this.dataSharingPreferences) || this.dataSharingPreferences;
@@ -654,12 +979,114 @@ export class AdvancedSchedulerService {
     }
   }
 
+  private loadStoredTasks(): TaskSchedule[] {
+    return (state.storage?.loadCustomSetting<TaskSchedule[]>('advancedScheduler.tasks', []) || []).map(task => ({
+      ...task,
+      ...(task.deadline && { deadline: new Date(task.deadline) }),
+      ...(task.scheduledTime && { scheduledTime: new Date(task.scheduledTime) })
+    }));
+  }
+
+  private loadStoredDeadlines(): ContextDeadline[] {
+    return (state.storage?.loadCustomSetting<ContextDeadline[]>('advancedScheduler.deadlines', []) || []).map(d => ({
+      ...d,
+      deadline: new Date(d.deadline)
+    }));
+  }
+
+  private loadStoredEnergyReadings(): EnergyReading[] {
+    return (state.storage?.loadCustomSetting<EnergyReading[]>('advancedScheduler.energyReadings', []) || []).map(reading => ({
+      ...reading,
+      timestamp: new Date(reading.timestamp)
+    }));
+  }
+
+  /**
+   * Replaces tasks, deadlines and energy readings with the stored ones after another window saved them
+   */
+  private reloadSharedData(): void {
+    try {
+      this.taskSchedules = this.loadStoredTasks();
+      this.addedTaskIds.clear();
+      this.removedTaskIds.clear();
+      this.changedTaskFields.clear();
+      this.contextDeadlines = this.loadStoredDeadlines();
+      this.energyReadings = this.loadStoredEnergyReadings();
+      this.energyProfile = state.storage?.loadCustomSetting<EnergyProfile>('advancedScheduler.energyProfile', this.energyProfile) || this.energyProfile;
+      this.changedDeadlineIds.clear();
+      this.removedDeadlineIds.clear();
+      this.tasksChanged.fire();
+    } catch (error) {
+      Logger.error('Failed to reload advanced scheduler data:', error);
+    }
+  }
+
+  private markTaskChanged(taskId: string, fields: (keyof TaskSchedule)[]): void {
+    const changed = this.changedTaskFields.get(taskId) || new Set<keyof TaskSchedule>();
+    fields.forEach(field => changed.add(field));
+    this.changedTaskFields.set(taskId, changed);
+  }
+
   private persistTasks(): void {
+    // Apply only the fields this window changed on top of the stored list, so tasks
+    // and triage saved by other windows in the meantime survive
+    const local = new Map(this.taskSchedules.map(task => [task.id, task]));
+    const merged = state.storage
+      ? this.loadStoredTasks().filter(task => !this.removedTaskIds.has(task.id))
+      : this.taskSchedules.filter(task => !this.addedTaskIds.has(task.id));
+
+    merged.forEach(task => {
+      const current = local.get(task.id);
+      const fields = this.changedTaskFields.get(task.id);
+      if (!current || !fields) return;
+
+      const target = task as unknown as Record<string, unknown>;
+      const source = current as unknown as Record<string, unknown>;
+      fields.forEach(field => {
+        if (source[field] === undefined) {
+          delete target[field];
+        } else {
+          target[field] = source[field];
+        }
+      });
+    });
+
+    // Another window may already have imported the same workspace marker
+    const importedKeys = new Set(merged.map(task => task.source?.key).filter(Boolean));
+    this.addedTaskIds.forEach(id => {
+      const task = local.get(id);
+      if (task && !(task.source && importedKeys.has(task.source.key))) merged.push(task);
+    });
+
+    this.taskSchedules = merged;
+    this.addedTaskIds.clear();
+    this.removedTaskIds.clear();
+    this.changedTaskFields.clear();
     state.storage?.saveCustomSetting('advancedScheduler.tasks', this.taskSchedules);
+    markSharedDataChanged(SHARED_DATA_AREA);
+    this.tasksChanged.fire();
+  }
+
+  private persistDeadlines(): void {
+    // Apply this window's edits on top of the stored list, so deadlines set elsewhere survive
+    const local = new Map(this.contextDeadlines.map(d => [d.id, d]));
+    const merged = (state.storage ? this.loadStoredDeadlines() : this.contextDeadlines)
+      .filter(d => !this.removedDeadlineIds.has(d.id) && !this.changedDeadlineIds.has(d.id));
+    this.changedDeadlineIds.forEach(id => {
+      const deadline = local.get(id);
+      if (deadline) merged.push(deadline);
+    });
+
+    this.contextDeadlines = merged;
+    this.changedDeadlineIds.clear();
+    this.removedDeadlineIds.clear();
+    state.storage?.saveCustomSetting('advancedScheduler.deadlines', this.contextDeadlines);
+    markSharedDataChanged(SHARED_DATA_AREA);
   }
 
   private persistEnergyReadings(): void {
     state.storage?.saveCustomSetting('advancedScheduler.energyReadings', this.energyReadings);
+    markSharedDataChanged(SHARED_DATA_AREA);
   }
 
   private persistIntelligence(): void {
@@ -103,8 +103,12 @@ export class BaseActivityMonitor {
   private typingBurstTimeout: ReturnType<typeof setTimeout> | null = null;
   private readingModeActive = false;
   private debugSessionActive = false;
+  private readonly activeDebugSessions = new Map<string, string>(); // Session id -> name
+  private readonly debugSessionsChanged = new vscode.EventEmitter<void>();
+  readonly onDidChangeDebugSessions = this.debugSessionsChanged.event;
   private activityStateHistory: { timestamp: number; state: ActivityState }[] = [];
   private storage: ExtensionStorage | StorageApi | null = null;
+  private eventForwarder: ((events: ActivityEvent[]) => void) | null = null; // Set while another window owns the statistics
 
   // Advanced typing pattern tracking
   private currentTypingSession: {
@@ -123,6 +127,8 @@ export class BaseActivityMonitor {
 
   constructor(private context?: vscode.ExtensionContext) {
     this.initializeStorage();
+    // Debug sessions are followed even with activity tracking off - rest deferral relies on them
+    this.initializeDebugTracking();
     this.initializeEventListeners();
     this.startBufferFlushTimer();
     this.startSecondTimer();
@@ -132,6 +138,7 @@ export class BaseActivityMonitor {
 
   dispose(): void {
     this.disposables.forEach(disposable => disposable.dispose());
+    this.debugSessionsChanged.dispose();
     if (this.bufferFlushTimer) {
       clearInterval(this.bufferFlushTimer);
     }
@@ -177,9 +184,6 @@ export class BaseActivityMonitor {
     // Git commit tracking
     this.initializeGitTracking();
 
-    // Debug session tracking
-    this.initializeDebugTracking();
-
     // Test run tracking
     this.initializeTestTracking();
 
@@ -217,6 +221,13 @@ export class BaseActivityMonitor {
   }
 
   private initializeDebugTracking(): void {
+    // A session already running when the extension starts
+    const activeSession = vscode.debug.activeDebugSession;
+    if (activeSession) {
+      this.activeDebugSessions.set(activeSession.id, activeSession.name);
+      this.debugSessionActive = true;
+    }
+
     // Track debug session start and end
     const debugStartDisposable = vscode.debug.onDidStartDebugSession(session => {
       this.trackDebugSession(session, 'start');
@@ -447,6 +458,17 @@ export class BaseActivityMonitor {
     const intensity = action === 'start' ? 4 : 2;
     const isStart = action === 'start';
 
+    const known = this.activeDebugSessions.has(session.id);
+    if (isStart) {
+      this.activeDebugSessions.set(session.id, session.name);
+    } else {
+      this.activeDebugSessions.delete(session.id);
+    }
+    this.debugSessionActive = this.activeDebugSessions.size > 0;
+    if (isStart || known) this.debugSessionsChanged.fire();
+
+    if (!activitySettings.isBasicEnabled()) return;
+
     const activityEvent: ActivityEvent = {
       id: `debug_session_${Date.now()}_${Math.random()}`,
       type: ActivityType.DEBUG_SESSION,
@@ -555,6 +577,13 @@ export class BaseActivityMonitor {
   private flushEventBuffer(): void {
     if (this.eventBuffer.length === 0) return;
 
+    // Follower windows hand their events to the leader instead of saving them
+    if (this.eventForwarder) {
+      this.eventForwarder(this.eventBuffer);
+      this.eventBuffer = [];
+      return;
+    }
+
     // Move events from buffer to main array
     const oldEvents = this.loadActivityEvents(); // Load persisted events
     this.activityEvents = [...oldEvents, ...this.eventBuffer];
@@ -670,6 +699,22 @@ export class BaseActivityMonitor {
     this.addEvent(event);
   }
 
+  /**
+   * Names of the debug sessions running in this window
+   */
+  getActiveDebugSessions(): string[] {
+    return Array.from(this.activeDebugSessions.values());
+  }
+
+  // Cross-window coordination
+  setEventForwarder(forwarder: ((events: ActivityEvent[]) => void) | null): void {
+    this.eventForwarder = forwarder;
+  }
+
+  ingestForwardedEvents(events: ActivityEvent[]): void {
+    events.forEach(event => this.addEvent(event));
+  }
+
   // Helper methods for Git tracking
   private getLastKnownGitCommit(repoUri: string): string | null {
     Logger.debug(`Checking last known commit for repo: ${repoUri}`); // Use repoUri parameter
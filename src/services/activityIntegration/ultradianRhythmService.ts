@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import { UltradianProfile } from '../../types';
+import { state } from '../../models/state';
+import { ActivityEvent, ActivityType } from './activityTypes';
+import { activitySettings } from './activitySettings';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Ultradian rhythm learning
+ * Typing intensity is binned per day, and flow stretches are weighted up. The cycle
+ * length is the lag (70-120 min) where the days' activity best repeats itself. The
+ * trough is the quietest point of that cycle, counted from the day's first activity.
+ */
+
+export const ULTRADIAN_MODEL_ID = 'ultradian-rhythm';
+
+export interface UltradianCurvePoint {
+  time: number;
+  level: number; // 0 at a trough, 1 at a peak
+}
+
+const BIN_MINUTES = 5;
+const MIN_LAG_BINS = 70 / BIN_MINUTES;
+const MAX_LAG_BINS = 120 / BIN_MINUTES;
+const MIN_DAY_SPAN_BINS = (4 * 60) / BIN_MINUTES; // A day needs 4 active hours to show two cycles
+const MIN_LEARNING_DAYS = 3;
+const LEARNING_WINDOW_DAYS = 14;
+const PHASE_BUCKETS = 12;
+const FLOW_WINDOW_BINS = 4; // Same 20-minute window as flow detection
+const FLOW_WEIGHT = 1.5;
+const MIN_WORK_MINUTES = 25;
+const RELEARN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const TYPING_EVENTS = new Set<ActivityType>([ActivityType.TYPING_BURST, ActivityType.FILE_EDIT, ActivityType.REFACTOR_OPERATION]);
+
+const DEFAULT_PROFILE: UltradianProfile = {
+  cycleMinutes: 90,
+  troughOffsetMinutes: 80,
+  confidence: 0,
+  daysAnalyzed: 0,
+  learned: false,
+  updatedAt: 0
+};
+
+let profile: UltradianProfile = { ...DEFAULT_PROFILE };
+let relearnTimer: ReturnType<typeof setInterval> | null = null;
+
+export function initializeUltradianRhythm(context: vscode.ExtensionContext): void {
+  profile = state.storage?.loadCustomSetting<UltradianProfile>('advancedScheduler.ultradianProfile', DEFAULT_PROFILE) || { ...DEFAULT_PROFILE };
+
+  if (relearnTimer) clearInterval(relearnTimer);
+  relearnTimer = setInterval(() => updateUltradianProfile(), RELEARN_INTERVAL_MS);
+  context.subscriptions.push({ dispose: () => stopUltradianRhythm() });
+
+  updateUltradianProfile();
+}
+
+export function stopUltradianRhythm(): void {
+  if (relearnTimer) {
+    clearInterval(relearnTimer);
+    relearnTimer = null;
+  }
+}
+
+export function getUltradianProfile(): UltradianProfile {
+  return profile;
+}
+
+/**
+ * Re-learns the cycle from the activity monitor's history. A profile that was learned
+ * before is kept when recent history is too thin to learn from.
+ */
+export function updateUltradianProfile(): UltradianProfile {
+  const monitor = state.activityMonitor;
+  if (!monitor) return profile;
+
+  try {
+    const events = monitor.getRecentEvents(LEARNING_WINDOW_DAYS * 24 * 60);
+    const estimate = estimateUltradianProfile(events, activitySettings.getSettings().flowThreshold);
+
+    if (estimate.learned || !profile.learned) {
+      profile = estimate;
+      state.storage?.saveCustomSetting('advancedScheduler.ultradianProfile', profile);
+      if (estimate.learned) {
+        Logger.log(`Ultradian cycle: ${profile.cycleMinutes} min (confidence ${profile.confidence.toFixed(2)}, ${profile.daysAnalyzed} days)`);
+      }
+    }
+  } catch (error) {
+    Logger.error('Failed to learn ultradian cycle:', error);
+  }
+
+  return profile;
+}
+
+export function estimateUltradianProfile(events: ActivityEvent[], flowThreshold: number, now: number = Date.now()): UltradianProfile {
+  const days = groupIntoDays(events).filter(day => day.signal.length >= MIN_DAY_SPAN_BINS);
+  if (days.length < MIN_LEARNING_DAYS) {
+    return { ...DEFAULT_PROFILE, daysAnalyzed: days.length, updatedAt: now };
+  }
+
+  const signals = days.map(day => weightFlow(day.signal, day.intensity, flowThreshold));
+
+  // Autocorrelation over all days, longer days counting for more
+  const correlations: number[] = [];
+  for (let lag = MIN_LAG_BINS - 1; lag <= MAX_LAG_BINS + 1; lag++) {
+    let sum = 0;
+    let weight = 0;
+    signals.forEach(signal => {
+      if (signal.length > lag * 2) {
+        sum += autocorrelation(signal, lag) * signal.length;
+        weight += signal.length;
+      }
+    });
+    correlations.push(weight > 0 ? sum / weight : 0);
+  }
+
+  let best = 1;
+  for (let i = 2; i < correlations.length - 1; i++) {
+    if (correlations[i] > correlations[best]) best = i;
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-bin precision
+  const [left, peak, right] = [correlations[best - 1], correlations[best], correlations[best + 1]];
+  const curvature = left - 2 * peak + right;
+  const shift = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (left - right) / (2 * curvature))) : 0;
+  const cycleMinutes = Math.round((MIN_LAG_BINS - 1 + best + shift) * BIN_MINUTES);
+
+  if (peak <= 0.1) {
+    return { ...DEFAULT_PROFILE, daysAnalyzed: days.length, updatedAt: now };
+  }
+
+  return {
+    cycleMinutes,
+    troughOffsetMinutes: findTroughOffset(signals, cycleMinutes),
+    confidence: Math.round(Math.min(1, peak) * Math.min(1, days.length / 7) * 100) / 100,
+    daysAnalyzed: days.length,
+    learned: true,
+    updatedAt: now
+  };
+}
+
+/**
+ * Next predicted trough after the given time, on the day anchored at the first activity
+ */
+export function getNextTrough(after: Date, anchor: Date = getDayAnchor(after)): Date {
+  const cycleMs = profile.cycleMinutes * 60 * 1000;
+  const firstTrough = anchor.getTime() + profile.troughOffsetMinutes * 60 * 1000;
+  const cycles = Math.max(0, Math.ceil((after.getTime() - firstTrough) / cycleMs));
+  return new Date(firstTrough + cycles * cycleMs);
+}
+
+/**
+ * Minutes of work until a break of the given length would be centred on a trough.
+ * A trough too close to earn a break is skipped in favour of the next one.
+ */
+export function getUltradianWorkMinutes(from: Date, restMinutes: number, anchor: Date = getDayAnchor(from)): number {
+  const leadMs = (MIN_WORK_MINUTES + restMinutes / 2) * 60 * 1000;
+  const trough = getNextTrough(new Date(from.getTime() + leadMs), anchor);
+  return Math.round((trough.getTime() - from.getTime()) / 60000 - restMinutes / 2);
+}
+
+/**
+ * Predicted activity curve between two times, one point per bin
+ */
+export function getPredictedCurve(from: Date, to: Date, anchor: Date = getDayAnchor(from)): UltradianCurvePoint[] {
+  const points: UltradianCurvePoint[] = [];
+  const cycleMs = profile.cycleMinutes * 60 * 1000;
+  const troughAt = anchor.getTime() + profile.troughOffsetMinutes * 60 * 1000;
+
+  for (let time = from.getTime(); time <= to.getTime(); time += BIN_MINUTES * 60 * 1000) {
+    const phase = ((time - troughAt) / cycleMs) * 2 * Math.PI;
+    points.push({ time, level: Math.round((0.5 - 0.5 * Math.cos(phase)) * 100) / 100 });
+  }
+  return points;
+}
+
+// The day's first activity, or the given time if nothing happened yet today
+export function getDayAnchor(now: Date): Date {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+
+  const minutesToday = Math.ceil((now.getTime() - midnight.getTime()) / 60000);
+  const today = state.activityMonitor?.getRecentEvents(minutesToday) || [];
+  const first = today.reduce((earliest, event) => Math.min(earliest, event.timestamp), now.getTime());
+  return new Date(Math.max(first, midnight.getTime()));
+}
+
+interface DaySeries {
+  signal: number[]; // Summed typing intensity per bin, from the first to the last activity
+  intensity: number[]; // Average intensity per bin, for flow detection
+}
+
+function groupIntoDays(events: ActivityEvent[]): DaySeries[] {
+  const byDay = new Map<string, ActivityEvent[]>();
+  events.forEach(event => {
+    if (!TYPING_EVENTS.has(event.type)) return;
+    const key = new Date(event.timestamp).toDateString();
+    const list = byDay.get(key) || [];
+    list.push(event);
+    byDay.set(key, list);
+  });
+
+  return Array.from(byDay.values()).map(dayEvents => {
+    const start = Math.min(...dayEvents.map(e => e.timestamp));
+    const end = Math.max(...dayEvents.map(e => e.timestamp));
+    const bins = Math.floor((end - start) / (BIN_MINUTES * 60 * 1000)) + 1;
+    const signal = new Array<number>(bins).fill(0);
+    const counts = new Array<number>(bins).fill(0);
+
+    dayEvents.forEach(event => {
+      const bin = Math.floor((event.timestamp - start) / (BIN_MINUTES * 60 * 1000));
+      signal[bin] += event.intensity;
+      counts[bin]++;
+    });
+
+    return { signal, intensity: signal.map((sum, i) => counts[i] ? sum / counts[i] : 0) };
+  });
+}
+
+// Bins inside a stretch that flow detection would accept count for more
+function weightFlow(signal: number[], intensity: number[], flowThreshold: number): number[] {
+  return signal.map((value, i) => {
+    const window = intensity.slice(Math.max(0, i - FLOW_WINDOW_BINS + 1), i + 1);
+    const average = window.reduce((sum, v) => sum + v, 0) / window.length;
+    return average >= flowThreshold ? value * FLOW_WEIGHT : value;
+  });
+}
+
+function autocorrelation(signal: number[], lag: number): number {
+  const mean = signal.reduce((sum, v) => sum + v, 0) / signal.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < signal.length; i++) {
+    const deviation = signal[i] - mean;
+    denominator += deviation * deviation;
+    if (i + lag < signal.length) numerator += deviation * (signal[i + lag] - mean);
+  }
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+// Folds every day onto one cycle and returns the centre of its quietest stretch
+function findTroughOffset(signals: number[][], cycleMinutes: number): number {
+  const sums = new Array<number>(PHASE_BUCKETS).fill(0);
+  const counts = new Array<number>(PHASE_BUCKETS).fill(0);
+
+  signals.forEach(signal => {
+    const mean = signal.reduce((sum, v) => sum + v, 0) / signal.length || 1;
+    signal.forEach((value, bin) => {
+      const minutes = (bin + 0.5) * BIN_MINUTES;
+      const bucket = Math.floor(((minutes % cycleMinutes) / cycleMinutes) * PHASE_BUCKETS);
+      sums[bucket] += value / mean;
+      counts[bucket]++;
+    });
+  });
+
+  const averages = sums.map((sum, i) => counts[i] ? sum / counts[i] : 0);
+  let trough = 0;
+  let lowest = Infinity;
+  averages.forEach((_, i) => {
+    // Neighbouring buckets smooth out single quiet bins
+    const smoothed = (averages[(i + PHASE_BUCKETS - 1) % PHASE_BUCKETS] + 2 * averages[i] + averages[(i + 1) % PHASE_BUCKETS]) / 4;
+    if (smoothed < lowest) {
+      lowest = smoothed;
+      trough = i;
+    }
+  });
+
+  return Math.round(((trough + 0.5) / PHASE_BUCKETS) * cycleMinutes);
+}
@@ -103,7 +103,7 @@ export class AdaptiveLearningService {
     const opportunities: AdaptationOpportunity[] = [];
 
     // 1. Analyze model effectiveness and suggest switches
-    if (performanceReport.modelPerformance.models && performanceReport.summary.mostEffectiveModel) {
+    if (performanceReport.dataAvailability.modelComparison.sufficient && performanceReport.summary.mostEffectiveModel) {
       const mostEffective = performanceReport.summary.mostEffectiveModel;
       const currentConfig = vscode.workspace.getConfiguration('dotsense');
       const currentModel = currentConfig.get('workRestModel') as string;
@@ -158,7 +158,8 @@ export class AdaptiveLearningService {
 
     // 4. Analyze trends for evolutionary improvements
     const trends = performanceReport.trends;
-    if (trends.productivityTrend < 0.5) { // Declining trends
+    const hasTrendData = performanceReport.dataAvailability.trends.sufficient;
+    if (hasTrendData && trends.productivityTrend < 0.5) { // Declining trends
       opportunities.push({
         type: 'trend_response',
         priority: 'high',
@@ -177,7 +178,7 @@ export class AdaptiveLearningService {
 
     // 5. Behavioral shift adaptations
     const behavioralShifts = trends.behavioralShifts;
-    if (behavioralShifts.length > 0) {
+    if (hasTrendData && behavioralShifts.length > 0) {
       for (const shift of behavioralShifts) {
         opportunities.push({
           type: 'behavior_adaptation',
@@ -619,12 +620,12 @@ export class AdaptiveLearningService {
 
     // Optimization opportunity insights
     const benchmark = this.analyticsEngine.generateBenchmarkReport();
-    if (benchmark.productivityPercentile < 50) {
+    if (benchmark.productivityPercentile !== null && benchmark.productivityPercentile < 50) {
       insights.push({
         userId,
         insightType: 'optimization_opportunity',
-        confidence: 0.92,
-        description: `Productivity optimization available - currently ${benchmark.productivityPercentile}% percentile`,
+        confidence: Math.min(0.9, benchmark.dataAvailability.sampleSize / 10),
+        description: `Productivity optimization available - this week beat only ${benchmark.productivityPercentile}% of your recorded weeks`,
         actionItems: ['Enable adaptive learning', 'Review work patterns', 'Implement recommendations'],
         expectedImpact: 'Significant productivity gains',
         generatedAt: new Date()
@@ -794,8 +795,8 @@ export class AdaptiveLearningService {
 
     if (this.analyticsEngine) {
       const benchmark = this.analyticsEngine.generateBenchmarkReport();
-      if (benchmark.productivityPercentile > 80) {
-        insights.push(`Your productivity is in the top ${benchmark.productivityPercentile}% of users`);
+      if (benchmark.productivityPercentile !== null && benchmark.productivityPercentile > 80) {
+        insights.push(`This week is more productive than ${benchmark.productivityPercentile}% of your recorded weeks`);
       }
     }
 
@@ -1,5 +1,14 @@
 import * as vscode from 'vscode';
 import { state } from '../models/state';
+import { DailyWellnessData } from '../types';
+import { UsageEvent, UsageEventType } from '../types/mlWorkRestTypes';
+import { ActivityEvent } from './activityIntegration/activityTypes';
+import { usageAnalytics } from './usageAnalyticsService';
+import { getEmergencyUnblocks } from './emergencyUnblockService';
+import { captureDailyWellnessSnapshot } from './wellnessService';
+
+const REPORT_DAYS = 7;
+const INSUFFICIENT_DATA = 'not enough data';
 
 interface AnalyticsReport {
   period: string;
@@ -11,16 +20,26 @@ interface AnalyticsReport {
     averageSessionLength: number;
     goalsCompleted: number;
     challengesCompleted: number;
+    daysTracked: number;
+    daysMissing: number;
+    emergencyUnblocks: number;
   };
   dailyStats: DailyStats[];
   trends: TrendsData;
   recommendations: string[];
 }
 
+// 'partial' days have some data but no closing daily record to diff against
+type DayDataStatus = 'complete' | 'partial' | 'in-progress' | 'missing';
+
 interface DailyStats {
   date: string;
+  status: DayDataStatus;
   breaks: number;
+  breaksSkipped: number;
+  emergencyUnblocks: number;
   screenTime: number;
+  activeMinutes: number;
   exercises: number;
   goalsCompleted: number;
 }
@@ -298,21 +317,33 @@ function generateAnalyticsHtml(report: AnalyticsReport): string {
                 transform: translateY(-1px);
             }
 
-            .chart-placeholder {
-                background: #1e1e1e;
-                border: 2px dashed #3e3e42;
-                border-radius: 8px;
-                padding: 40px;
-                text-align: center;
+            .daily-table {
+                width: 100%;
+                border-collapse: collapse;
+                font-size: 14px;
+            }
+
+            .daily-table th,
+            .daily-table td {
+                padding: 8px;
+                text-align: left;
+                border-bottom: 1px solid #3e3e42;
+            }
+
+            .daily-table th {
                 color: #cccccc;
-                margin: 20px 0;
+                font-size: 12px;
+                text-transform: uppercase;
+                letter-spacing: 0.5px;
+            }
+
+            .day-missing,
+            .day-partial {
+                color: #858585;
             }
 
-            .chart-placeholder::before {
-                content: '📈';
-                font-size: 48px;
-                display: block;
-                margin-bottom: 15px;
+            .day-in-progress {
+                color: #4f8bd6;
             }
         </style>
     </head>
@@ -350,29 +381,59 @@ function generateAnalyticsHtml(report: AnalyticsReport): string {
         <div class="section">
             <h2>🎯 Goals Progress</h2>
             <p>You've completed <strong>${completedGoals}</strong> out of <strong>${totalGoals}</strong> wellness goals this week.</p>
-            <div class="chart-placeholder">
-                <div>Interactive Goal Progress Chart</div>
-                <small>Chart visualization would be implemented here</small>
-            </div>
+        </div>
+
+        <div class="section">
+            <h2>📅 Daily Breakdown</h2>
+            <p>${report.summary.daysTracked} of ${report.dailyStats.length} days have data.</p>
+            <table class="daily-table">
+                <thead>
+                    <tr>
+                        <th>Date</th>
+                        <th>Breaks</th>
+                        <th>Skipped</th>
+                        <th>Emergency Unblocks</th>
+                        <th>Screen Time</th>
+                        <th>Exercises</th>
+                        <th>Goals</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${report.dailyStats.map(day => day.status === 'missing' ? `
+                    <tr class="day-missing">
+                        <td>${day.date}</td>
+                        <td colspan="6">No data recorded</td>
+                    </tr>` : `
+                    <tr class="day-${day.status}">
+                        <td>${day.date}${day.status === 'in-progress' ? ' (today)' : day.status === 'partial' ? ' (partial)' : ''}</td>
+                        <td>${day.breaks}</td>
+                        <td>${day.breaksSkipped}</td>
+                        <td>${day.emergencyUnblocks}</td>
+                        <td>${Math.floor(day.screenTime / 60)}h ${day.screenTime % 60}m</td>
+                        <td>${day.exercises}</td>
+                        <td>${day.goalsCompleted}</td>
+                    </tr>`).join('')}
+                </tbody>
+            </table>
         </div>
 
         <div class="section">
             <h2>📈 Trends & Insights</h2>
             <div class="trends-grid">
                 <div class="trend-item">
-                    <div class="trend-value">${report.trends.breakConsistency || 'Good'}</div>
+                    <div class="trend-value">${report.trends.breakConsistency}</div>
                     <div class="trend-label">Break Consistency</div>
                 </div>
                 <div class="trend-item">
-                    <div class="trend-value">${report.trends.screenTimeTrend || 'Stable'}</div>
+                    <div class="trend-value">${report.trends.screenTimeTrend}</div>
                     <div class="trend-label">Screen Time Trend</div>
                 </div>
                 <div class="trend-item">
-                    <div class="trend-value">${report.trends.exerciseFrequency || 'Increasing'}</div>
+                    <div class="trend-value">${report.trends.exerciseFrequency}</div>
                     <div class="trend-label">Exercise Frequency</div>
                 </div>
                 <div class="trend-item">
-                    <div class="trend-value">${report.trends.goalCompletionRate || 75}%</div>
+                    <div class="trend-value">${report.trends.goalCompletionRate}%</div>
                     <div class="trend-label">Success Rate</div>
                 </div>
             </div>
@@ -452,76 +513,220 @@ function exportAnalyticsReport(report: AnalyticsReport): void {
 function generateWellnessReport(): AnalyticsReport {
   const today = new Date();
   const weekAgo = new Date(today);
-  weekAgo.setDate(today.getDate() - 7);
+  weekAgo.setDate(today.getDate() - (REPORT_DAYS - 1));
+  weekAgo.setHours(0, 0, 0, 0);
+
+  const usageEvents = usageAnalytics.getRecordedEvents(weekAgo);
+  const activityEvents = state.storage ? state.storage.loadActivityEvents() : [];
+  const dailyStats = generateDailyStats(usageEvents, activityEvents);
+  const trackedDays = dailyStats.filter(day => day.status !== 'missing');
 
   const report = {
     period: 'weekly',
     startDate: weekAgo.toISOString(),
     endDate: today.toISOString(),
     summary: {
-      totalBreaks: state.breakStats.breaksTaken,
-      totalScreenTime: state.screenTimeStats.totalScreenTimeToday,
-      averageSessionLength: calculateAverageSessionLength(),
+      totalBreaks: trackedDays.reduce((sum, day) => sum + day.breaks, 0),
+      totalScreenTime: trackedDays.reduce((sum, day) => sum + day.screenTime, 0),
+      averageSessionLength: calculateAverageSessionLength(usageEvents),
       goalsCompleted: state.wellnessGoals.filter(g => g.completed).length,
-      challengesCompleted: state.wellnessChallenges.filter(c => c.completed).length
+      challengesCompleted: state.wellnessChallenges.filter(c => c.completed).length,
+      daysTracked: trackedDays.length,
+      daysMissing: dailyStats.length - trackedDays.length,
+      emergencyUnblocks: dailyStats.reduce((sum, day) => sum + day.emergencyUnblocks, 0)
     },
-    dailyStats: generateDailyStats(),
-    trends: analyzeTrends(),
-    recommendations: generateRecommendations()
+    dailyStats,
+    trends: analyzeTrends(dailyStats),
+    recommendations: generateRecommendations(dailyStats)
   };
 
   return report;
 }
 
-function calculateAverageSessionLength(): number {
-  // This would need more sophisticated tracking
-  // For now, return a simple calculation
+function toDateKey(date: Date): string {
+  // Same YYYY-MM-DD key recordDailyWellnessData uses
+  return date.toISOString().split('T')[0];
+}
+
+function calculateAverageSessionLength(usageEvents: UsageEvent[]): number {
+  const sessionLengths = usageEvents
+    .filter(e => e.type === UsageEventType.SESSION_ENDED)
+    .map(e => e.metadata.actualDuration)
+    .filter((duration): duration is number => typeof duration === 'number' && duration > 0);
+
+  if (sessionLengths.length > 0) {
+    return Math.round(sessionLengths.reduce((sum, length) => sum + length, 0) / sessionLengths.length);
+  }
+
+  // No finished sessions yet - fall back to the coding session in progress
   return state.screenTimeStats.codingSessionStart ?
     Math.floor((Date.now() - state.screenTimeStats.codingSessionStart.getTime()) / (1000 * 60)) : 0;
 }
 
-function generateDailyStats(): DailyStats[] {
-  // Generate stats for the past 7 days
-  const stats = [];
-  for (let i = 6; i >= 0; i--) {
+function generateDailyStats(usageEvents: UsageEvent[], activityEvents: ActivityEvent[]): DailyStats[] {
+  const todayKey = toDateKey(new Date());
+
+  // Stored records, with today's replaced by the live counters
+  const records = new Map<string, DailyWellnessData>();
+  state.dailyWellnessData.forEach(record => records.set(record.date, record));
+  records.set(todayKey, captureDailyWellnessSnapshot());
+  const recordDates = Array.from(records.keys()).sort();
+
+  const countByDay = (type: UsageEventType): Map<string, number> => {
+    const counts = new Map<string, number>();
+    usageEvents.filter(e => e.type === type).forEach(e => {
+      const key = toDateKey(e.timestamp);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  };
+  const breaksTakenByDay = countByDay(UsageEventType.BREAK_TAKEN);
+  const breaksSkippedByDay = countByDay(UsageEventType.BREAK_SKIPPED);
+
+  const emergencyUnblocksByDay = new Map<string, number>();
+  getEmergencyUnblocks().forEach(unblock => {
+    const key = toDateKey(new Date(unblock.timestamp));
+    emergencyUnblocksByDay.set(key, (emergencyUnblocksByDay.get(key) || 0) + 1);
+  });
+
+  // Distinct minutes with any recorded IDE activity
+  const activeMinutesByDay = new Map<string, Set<number>>();
+  activityEvents.forEach(event => {
+    const key = toDateKey(new Date(event.timestamp));
+    if (!activeMinutesByDay.has(key)) {
+      activeMinutesByDay.set(key, new Set());
+    }
+    activeMinutesByDay.get(key)!.add(Math.floor(event.timestamp / 60000));
+  });
+
+  // Generate stats for the past 7 days, oldest first
+  const stats: DailyStats[] = [];
+  for (let i = REPORT_DAYS - 1; i >= 0; i--) {
     const date = new Date();
     date.setDate(date.getDate() - i);
+    const key = toDateKey(date);
+
+    const record = records.get(key);
+    const eventBreaks = breaksTakenByDay.get(key) || 0;
+    const breaksSkipped = breaksSkippedByDay.get(key) || 0;
+    const emergencyUnblocks = emergencyUnblocksByDay.get(key) || 0;
+    const activeMinutes = activeMinutesByDay.get(key)?.size || 0;
+
+    // Records hold the all-time break counter, so a day's breaks are the
+    // difference from the closest earlier record
+    const previousDate = recordDates.filter(d => d < key).pop();
+    const previousRecord = previousDate ? records.get(previousDate) : undefined;
+    const counterBreaks = record && previousRecord ?
+      Math.max(0, record.breaksTaken - previousRecord.breaksTaken) : 0;
+
+    let status: DayDataStatus;
+    if (key === todayKey) {
+      status = 'in-progress';
+    } else if (record && previousRecord) {
+      status = 'complete';
+    } else if (record || eventBreaks > 0 || breaksSkipped > 0 || activeMinutes > 0) {
+      status = 'partial';
+    } else {
+      status = 'missing';
+    }
 
     stats.push({
-      date: date.toISOString().split('T')[0],
-      breaks: Math.floor(Math.random() * 8) + 2, // Mock data
-      screenTime: Math.floor(Math.random() * 480) + 120, // Mock data
-      exercises: Math.floor(Math.random() * 5), // Mock data
-      goalsCompleted: Math.floor(Math.random() * 3) // Mock data
+      date: key,
+      status,
+      breaks: Math.max(counterBreaks, eventBreaks),
+      breaksSkipped,
+      emergencyUnblocks,
+      screenTime: record ? record.screenTimeMinutes : activeMinutes,
+      activeMinutes,
+      exercises: record ? record.exercisesCompleted : 0,
+      goalsCompleted: record ? record.goalsCompleted : 0
     });
   }
   return stats;
 }
 
-function analyzeTrends(): TrendsData {
+function analyzeTrends(dailyStats: DailyStats[]): TrendsData {
+  // Only finished days are compared; today is still accumulating
+  const finishedDays = dailyStats.filter(day => day.status === 'complete' || day.status === 'partial');
+  const trackedDays = dailyStats.filter(day => day.status !== 'missing');
+
+  const dailyGoalCount = state.wellnessGoals.filter(g => g.type === 'daily').length;
+  const goalCompletionRate = trackedDays.length > 0 && dailyGoalCount > 0 ?
+    Math.round((trackedDays.reduce((sum, day) => sum + day.goalsCompleted, 0) / (trackedDays.length * dailyGoalCount)) * 100) : 0;
+
+  if (finishedDays.length < 2) {
+    return {
+      breakConsistency: INSUFFICIENT_DATA,
+      screenTimeTrend: INSUFFICIENT_DATA,
+      exerciseFrequency: INSUFFICIENT_DATA,
+      goalCompletionRate: Math.min(100, goalCompletionRate)
+    };
+  }
+
+  const midpoint = Math.floor(finishedDays.length / 2);
+  const firstHalf = finishedDays.slice(0, midpoint);
+  const secondHalf = finishedDays.slice(midpoint);
+  const average = (days: DailyStats[], pick: (day: DailyStats) => number): number =>
+    days.reduce((sum, day) => sum + pick(day), 0) / days.length;
+
+  const getTrend = (pick: (day: DailyStats) => number, rising: string, falling: string): string => {
+    const first = average(firstHalf, pick);
+    const second = average(secondHalf, pick);
+    if (first === 0) return second > 0 ? rising : 'stable';
+    const diff = ((second - first) / first) * 100;
+    if (diff > 10) return rising;
+    if (diff < -10) return falling;
+    return 'stable';
+  };
+
   return {
-    breakConsistency: 'improving',
-    screenTimeTrend: 'stable',
-    exerciseFrequency: 'increasing',
-    goalCompletionRate: 75
+    breakConsistency: getTrend(day => day.breaks, 'improving', 'declining'),
+    screenTimeTrend: getTrend(day => day.screenTime, 'increasing', 'decreasing'),
+    exerciseFrequency: getTrend(day => day.exercises, 'increasing', 'decreasing'),
+    goalCompletionRate: Math.min(100, goalCompletionRate)
   };
 }
 
-function generateRecommendations(): string[] {
+function generateRecommendations(dailyStats: DailyStats[]): string[] {
   const recommendations = [];
+  const trackedDays = dailyStats.filter(day => day.status !== 'missing');
+  const finishedDays = trackedDays.filter(day => day.status !== 'in-progress');
+
+  if (finishedDays.length === 0) {
+    recommendations.push('Not enough history yet - insights will appear after your first full day with DotSense');
+    return recommendations;
+  }
+
+  const averageBreaks = finishedDays.reduce((sum, day) => sum + day.breaks, 0) / finishedDays.length;
+  const averageScreenTime = finishedDays.reduce((sum, day) => sum + day.screenTime, 0) / finishedDays.length;
+  const totalSkipped = trackedDays.reduce((sum, day) => sum + day.breaksSkipped, 0);
+  const totalBreaks = trackedDays.reduce((sum, day) => sum + day.breaks, 0);
 
-  if (state.breakStats.breaksTaken < 4) {
+  if (averageBreaks < 4) {
     recommendations.push('Consider taking more frequent breaks to maintain productivity');
   }
 
-  if (state.screenTimeStats.totalScreenTimeToday > 480) {
+  if (averageScreenTime > 480) {
     recommendations.push('Your screen time is quite high - consider more eye breaks');
   }
 
+  if (totalSkipped > totalBreaks) {
+    recommendations.push('You skipped more breaks than you took this week - try a gentler work-rest model');
+  }
+
+  const emergencyUnblocks = trackedDays.reduce((sum, day) => sum + day.emergencyUnblocks, 0);
+  if (emergencyUnblocks >= 3) {
+    recommendations.push(`You cut ${emergencyUnblocks} rest periods short with emergency unblocks - if you are on call, try incident mode or rest exemptions instead`);
+  }
+
   if (state.wellnessGoals.filter(g => g.completed).length < state.wellnessGoals.length / 2) {
     recommendations.push('Try to complete more daily goals for better wellness tracking');
   }
 
+  if (dailyStats.length - trackedDays.length > 0) {
+    recommendations.push(`${dailyStats.length - trackedDays.length} day(s) this week have no data, so totals may be understated`);
+  }
+
   if (recommendations.length === 0) {
     recommendations.push('Great job! Your wellness habits are on track.');
   }
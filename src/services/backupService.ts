@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import { state, reloadStateFromStorage } from '../models/state';
+import { BackupData, BackupImportMode, validateBackupData } from '../utils/storage';
+import { Logger } from '../utils/logger';
+
+/**
+ * Full backup and restore of everything DotSense keeps: stored data, time blocks,
+ * learned models and the user's dotsense.* settings.
+ */
+
+const SETTINGS_PREFIX = 'dotsense.';
+
+// Settings contributed in package.json, without the prefix
+function getSettingKeys(context: vscode.ExtensionContext): string[] {
+  const properties = context.extension?.packageJSON?.contributes?.configuration?.properties || {};
+  return Object.keys(properties)
+    .filter(key => key.startsWith(SETTINGS_PREFIX))
+    .map(key => key.slice(SETTINGS_PREFIX.length));
+}
+
+export function collectSettings(context: vscode.ExtensionContext): Record<string, unknown> {
+  const config = vscode.workspace.getConfiguration('dotsense');
+  const settings: Record<string, unknown> = {};
+
+  // Only values the user changed - defaults follow the installed version
+  getSettingKeys(context).forEach(key => {
+    const value = config.inspect(key)?.globalValue;
+    if (value !== undefined) {
+      settings[key] = value;
+    }
+  });
+
+  return settings;
+}
+
+export async function applySettings(
+  context: vscode.ExtensionContext,
+  settings: Record<string, unknown>,
+  mode: BackupImportMode
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('dotsense');
+
+  for (const key of getSettingKeys(context)) {
+    if (key in settings) {
+      await config.update(key, settings[key], vscode.ConfigurationTarget.Global);
+    } else if (mode === 'replace') {
+      await config.update(key, undefined, vscode.ConfigurationTarget.Global);
+    }
+  }
+}
+
+export async function exportBackupToFile(context: vscode.ExtensionContext): Promise<void> {
+  if (!state.storage) return;
+
+  const backup: BackupData = {
+    ...state.storage.exportAllData(),
+    settings: collectSettings(context)
+  };
+  const fileName = `dotsense-backup-${new Date().toISOString().split('T')[0]}.json`;
+
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(fileName),
+    filters: {
+      'JSON files': ['json'],
+      'All files': ['*']
+    }
+  });
+  if (!uri) return;
+
+  try {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(backup, null, 2)));
+    vscode.window.showInformationMessage(`💾 DotSense backup saved to ${uri.fsPath}`);
+  } catch (error) {
+    Logger.error('Failed to write backup:', error);
+    vscode.window.showErrorMessage(`Failed to export backup: ${(error as Error).message}`);
+  }
+}
+
+export async function importBackupFromFile(context: vscode.ExtensionContext): Promise<void> {
+  if (!state.storage) return;
+
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: {
+      'JSON files': ['json'],
+      'All files': ['*']
+    },
+    openLabel: 'Restore Backup'
+  });
+  if (!uris || uris.length === 0) return;
+
+  let backup: Partial<BackupData>;
+  try {
+    const content = await vscode.workspace.fs.readFile(uris[0]);
+    backup = JSON.parse(Buffer.from(content).toString('utf8'));
+  } catch (error) {
+    Logger.error('Failed to read backup file:', error);
+    vscode.window.showErrorMessage(`Could not read backup: ${(error as Error).message}`);
+    return;
+  }
+
+  const validation = validateBackupData(backup);
+  if (!validation.valid) {
+    Logger.warn('Rejected backup file:', validation.errors);
+    vscode.window.showErrorMessage(`Invalid DotSense backup: ${validation.errors.join('; ')}`);
+    return;
+  }
+
+  const exported = backup.exportDate ? new Date(backup.exportDate).toLocaleString() : 'an unknown date';
+  const choice = await vscode.window.showWarningMessage(
+    `Restore DotSense backup from ${exported}? Merge keeps your current data and adds the backup's; Replace discards current data first.`,
+    { modal: true },
+    'Merge',
+    'Replace'
+  );
+  if (!choice) return;
+
+  const mode: BackupImportMode = choice === 'Replace' ? 'replace' : 'merge';
+  if (!state.storage.importAllData(backup, mode)) {
+    vscode.window.showErrorMessage('Failed to restore backup. Your existing data was left unchanged - check the DotSense log for details.');
+    return;
+  }
+
+  try {
+    if (backup.settings) {
+      await applySettings(context, backup.settings, mode);
+    }
+  } catch (error) {
+    Logger.error('Failed to restore settings from backup:', error);
+    vscode.window.showWarningMessage('Backup data restored, but some settings could not be applied.');
+  }
+
+  reloadStateFromStorage();
+  state.activityBarProvider?.updateStats(state.breakStats);
+  state.activityBarProvider?.updateWellnessGoals();
+  state.activityBarProvider?.updateWellnessChallenges();
+  state.activityBarProvider?.updateAchievements();
+
+  const reload = await vscode.window.showInformationMessage(
+    `✅ Backup restored (${mode}). Reload the window so learned models and schedules pick up the restored data.`,
+    'Reload Window'
+  );
+  if (reload === 'Reload Window') {
+    vscode.commands.executeCommand('workbench.action.reloadWindow');
+  }
+}
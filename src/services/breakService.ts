@@ -1,20 +1,21 @@
 import * as vscode from 'vscode';
 import { state } from '../models/state';
 import { checkAchievements } from './achievementService';
-import { getCurrentSession, takeManualBreak, endRestEarly, getTimeRemaining } from './workRestService';
+import { getCurrentSession, getSessionPhase, takeManualBreak, endRestEarly, getTimeRemaining } from './workRestService';
 import { getConfiguration } from '../core/configuration';
 import { incrementBreakProgress, updateGoalsProgress, checkGoalAchievements } from './goalService';
 import { pauseReminders } from './annoyanceService';
 import { Logger } from '../utils/logger';
 
 export async function takeBreak(): Promise<void> {
-  // Check if there's an active work-rest session
-  const currentSession = getCurrentSession();
-  if (currentSession) {
-    if (currentSession.isWorking) {
+  // Check if there's an active work-rest session, possibly running in another window
+  const phase = getSessionPhase();
+  if (phase) {
+    if (phase === 'work') {
       // User is in a work period - ask for confirmation before starting rest
+      const restDuration = getCurrentSession()?.model.restDuration;
       const selection = await vscode.window.showInformationMessage(
-        `Ready to take a break?\n\nThis will start your ${currentSession.model.restDuration} minute rest period with screen monitoring.`,
+        `Ready to take a break?\n\nThis will start your ${restDuration ? `${restDuration} minute ` : ''}rest period with screen monitoring.`,
         'Start Rest Now',
         'Cancel'
       );
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { state } from '../models/state';
+import { TimeBlock } from '../types';
+import { buildIcsCalendar, IcsExportEvent } from '../utils/icsWriter';
+import { getUpcomingBreaks } from './workRestService';
+import { EXPORTED_UID_SUFFIX } from './calendarService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Publishes planned focus blocks and break windows as an .ics file so teammates'
+ * calendars show when someone is heads-down
+ */
+
+export type ScheduleExportScope = 'today' | 'week';
+
+// Block types worth showing to others - meetings are already in their calendars
+const EXPORTED_BLOCK_TYPES: TimeBlock['type'][] = ['deep-work', 'breaks'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduleExport {
+  ics: string;
+  focusBlocks: number;
+  breaks: number;
+}
+
+export function buildScheduleExport(scope: ScheduleExportScope): ScheduleExport {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = scope === 'today' ? 1 : 7;
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const blockEvents = collectTimeBlocks()
+    .filter(({ block }) => EXPORTED_BLOCK_TYPES.includes(block.type))
+    .map(({ block, storedDay }) => toBlockEvent(block, storedDay, today, days, timeZone))
+    .filter((event): event is IcsExportEvent => event !== null);
+
+  // The running session only says something about today
+  const endOfToday = new Date(today.getTime() + DAY_MS);
+  const breakEvents: IcsExportEvent[] = getUpcomingBreaks(endOfToday).map(window => ({
+    uid: `break-${window.start.getTime()}${EXPORTED_UID_SUFFIX}`,
+    summary: window.isLongRest ? '☕ Long break' : '☕ Break',
+    start: window.start,
+    end: window.end,
+    transparent: true,
+    categories: ['Break']
+  }));
+
+  const label = scope === 'today' ? today.toLocaleDateString() : `week of ${today.toLocaleDateString()}`;
+  return {
+    ics: buildIcsCalendar([...blockEvents, ...breakEvents], `DotSense schedule (${label})`),
+    focusBlocks: blockEvents.filter(event => !event.transparent).length,
+    breaks: breakEvents.length + blockEvents.filter(event => event.transparent).length
+  };
+}
+
+// Blocks are stored per weekday; a recurring block can appear under several days
+function collectTimeBlocks(): Array<{ block: TimeBlock; storedDay: number }> {
+  const stored = state.storage?.loadTimeBlocks() || {};
+  const seen = new Set<string>();
+  const blocks: Array<{ block: TimeBlock; storedDay: number }> = [];
+
+  Object.entries(stored).forEach(([day, dayBlocks]) => {
+    dayBlocks.forEach(block => {
+      if (seen.has(block.id)) return;
+      seen.add(block.id);
+      blocks.push({ block, storedDay: Number(day) });
+    });
+  });
+
+  return blocks;
+}
+
+function toBlockEvent(block: TimeBlock, storedDay: number, today: Date, days: number, timeZone: string): IcsExportEvent | null {
+  const weekdays = block.daysOfWeek && block.daysOfWeek.length > 0 ? block.daysOfWeek : [storedDay];
+
+  // First day in the export range the block falls on
+  let date: Date | null = null;
+  for (let offset = 0; offset < days && !date; offset++) {
+    const candidate = new Date(today);
+    candidate.setDate(today.getDate() + offset);
+    if (weekdays.includes(candidate.getDay())) {
+      date = candidate;
+    }
+  }
+  if (!date) return null;
+
+  const start = new Date(date);
+  start.setMinutes(block.startTime);
+  const end = new Date(start.getTime() + block.duration * 60 * 1000);
+  const isBreak = block.type === 'breaks';
+
+  const event: IcsExportEvent = {
+    uid: `${block.id}${EXPORTED_UID_SUFFIX}`,
+    summary: isBreak ? `☕ ${block.name}` : `🎯 Focus: ${block.name}`,
+    description: isBreak ? 'Planned break' : 'Deep-work block - please avoid scheduling meetings',
+    start,
+    end,
+    timeZone,
+    transparent: isBreak,
+    categories: [isBreak ? 'Break' : 'Focus time']
+  };
+  if (block.recurring && block.daysOfWeek && block.daysOfWeek.length > 0) {
+    event.weeklyOn = block.daysOfWeek;
+  }
+  return event;
+}
+
+export async function exportScheduleToFile(scope?: ScheduleExportScope): Promise<void> {
+  if (!scope) {
+    const choice = await vscode.window.showQuickPick([
+      { label: 'Today', description: 'Focus blocks and break windows for today', scope: 'today' as const },
+      { label: 'This Week', description: 'Focus blocks for the next 7 days, breaks for today', scope: 'week' as const }
+    ], { placeHolder: 'What should the calendar file cover?' });
+    if (!choice) return;
+    scope = choice.scope;
+  }
+
+  const exported = buildScheduleExport(scope);
+  if (exported.focusBlocks === 0 && exported.breaks === 0) {
+    vscode.window.showInformationMessage('Nothing to export - plan deep-work blocks in Daily Time Blocks or start a work-rest session first.');
+    return;
+  }
+
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(`dotsense-schedule-${new Date().toISOString().split('T')[0]}.ics`),
+    filters: {
+      'iCalendar files': ['ics']
+    }
+  });
+  if (!uri) return;
+
+  try {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(exported.ics, 'utf8'));
+    vscode.window.showInformationMessage(
+      `📤 Exported ${exported.focusBlocks} focus block(s) and ${exported.breaks} break(s) to ${uri.fsPath}`
+    );
+  } catch (error) {
+    Logger.error('Failed to write schedule export:', error);
+    vscode.window.showErrorMessage(`Failed to export schedule: ${(error as Error).message}`);
+  }
+}
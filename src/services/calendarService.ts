@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { state } from '../models/state';
+import { CalendarSyncConfig, TimeBlock } from '../types';
+import { getConfiguration } from '../core/configuration';
+import { expandIcsEvents } from '../utils/icsParser';
+import { Logger } from '../utils/logger';
+
+/**
+ * Local iCalendar import
+ * Reads a .ics file or a folder of them, expands the next two weeks of meetings and keeps
+ * them in storage. The work-rest timer uses them to avoid breaks during meetings and to
+ * offer one after a long run of back-to-back meetings.
+ */
+
+export interface CalendarMeeting {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+}
+
+export interface MeetingRun {
+  start: Date;
+  end: Date;
+  meetings: CalendarMeeting[];
+}
+
+interface StoredMeeting {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+}
+
+// UID suffix of events DotSense exported itself - never re-imported as meetings
+export const EXPORTED_UID_SUFFIX = '@dotsense.schedule';
+
+const IMPORT_HORIZON_DAYS = 14;
+const MEETING_RUN_GAP_MS = 5 * 60 * 1000; // Meetings closer than this count as back-to-back
+const MAX_RUN_TIMER_MS = 24 * 60 * 60 * 1000;
+
+let meetings: CalendarMeeting[] = [];
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+let runTimers: ReturnType<typeof setTimeout>[] = [];
+let longRunHandler: ((run: MeetingRun) => void) | null = null;
+
+const meetingsChanged = new vscode.EventEmitter<void>();
+export const onDidChangeMeetings = meetingsChanged.event;
+
+export function initializeCalendarSync(context: vscode.ExtensionContext): void {
+  meetings = loadStoredMeetings();
+  scheduleMeetingRunChecks();
+  restartCalendarSync();
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('dotsense.calendar')) {
+        restartCalendarSync();
+      }
+    }),
+    { dispose: stopCalendarSync }
+  );
+}
+
+export function stopCalendarSync(): void {
+  if (syncTimer) {
+    clearInterval(syncTimer);
+    syncTimer = null;
+  }
+  runTimers.forEach(timer => clearTimeout(timer));
+  runTimers = [];
+}
+
+function restartCalendarSync(): void {
+  if (syncTimer) {
+    clearInterval(syncTimer);
+    syncTimer = null;
+  }
+
+  const syncConfig = getCalendarSyncConfig();
+  if (!syncConfig.enabled) return;
+
+  importCalendar().catch(error => Logger.error('Calendar import failed:', error));
+  syncTimer = setInterval(() => {
+    importCalendar().catch(error => Logger.error('Calendar import failed:', error));
+  }, Math.max(5, syncConfig.syncFrequency) * 60 * 1000);
+}
+
+export function getCalendarSyncConfig(): CalendarSyncConfig {
+  const config = getConfiguration();
+  const lastSync = state.storage?.loadCustomSetting<string | null>('calendar.lastSync', null);
+
+  return {
+    enabled: config.calendarIcsPath.trim() !== '',
+    provider: 'ical',
+    source: config.calendarIcsPath.trim(),
+    syncFrequency: config.calendarSyncInterval,
+    lastSync: lastSync ? new Date(lastSync) : new Date(0),
+    autoAvoidMeetings: config.calendarAutoAvoidMeetings
+  };
+}
+
+/**
+ * Reads the configured .ics file (or every .ics file in the configured folder)
+ * and replaces the stored meetings. Returns the number of meetings imported.
+ */
+export async function importCalendar(source: string = getCalendarSyncConfig().source): Promise<number> {
+  if (!source) return 0;
+
+  const files = await listCalendarFiles(source);
+  const rangeStart = new Date();
+  rangeStart.setHours(0, 0, 0, 0);
+  const rangeEnd = new Date(rangeStart.getTime() + IMPORT_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+
+  const imported = new Map<string, CalendarMeeting>();
+  for (const file of files) {
+    const text = await fs.promises.readFile(file, 'utf8');
+    expandIcsEvents(text, rangeStart, rangeEnd)
+      // All-day entries (holidays, OOO) and events marked free are not meetings
+      .filter(event => !event.allDay && !event.transparent && event.end > event.start)
+      .filter(event => !event.uid.endsWith(EXPORTED_UID_SUFFIX))
+      .forEach(event => {
+        const id = `ics_${event.uid || event.summary}_${event.start.getTime()}`;
+        imported.set(id, { id, title: event.summary, start: event.start, end: event.end });
+      });
+  }
+
+  setMeetings(Array.from(imported.values()));
+  state.storage?.saveCustomSetting('calendar.lastSync', new Date().toISOString());
+  Logger.log(`Imported ${meetings.length} calendar meetings from ${files.length} file(s)`);
+  return meetings.length;
+}
+
+async function listCalendarFiles(source: string): Promise<string[]> {
+  const stats = await fs.promises.stat(source);
+  if (!stats.isDirectory()) return [source];
+
+  const entries = await fs.promises.readdir(source);
+  return entries
+    .filter(entry => entry.toLowerCase().endsWith('.ics'))
+    .map(entry => path.join(source, entry));
+}
+
+export function setMeetings(newMeetings: CalendarMeeting[]): void {
+  meetings = [...newMeetings].sort((a, b) => a.start.getTime() - b.start.getTime());
+  state.storage?.saveCustomSetting<StoredMeeting[]>('calendar.meetings', meetings.map(meeting => ({
+    id: meeting.id,
+    title: meeting.title,
+    start: meeting.start.toISOString(),
+    end: meeting.end.toISOString()
+  })));
+  scheduleMeetingRunChecks();
+  meetingsChanged.fire();
+}
+
+function loadStoredMeetings(): CalendarMeeting[] {
+  const stored = state.storage?.loadCustomSetting<StoredMeeting[]>('calendar.meetings', []) || [];
+  return stored.map(meeting => ({
+    id: meeting.id,
+    title: meeting.title,
+    start: new Date(meeting.start),
+    end: new Date(meeting.end)
+  }));
+}
+
+export function getMeetingsBetween(start: Date, end: Date): CalendarMeeting[] {
+  return meetings.filter(meeting => meeting.start < end && meeting.end > start);
+}
+
+// First meeting overlapping the window, if any
+export function getMeetingConflict(start: Date, end: Date): CalendarMeeting | null {
+  return getMeetingsBetween(start, end)[0] ?? null;
+}
+
+// Back-to-back meetings grouped into runs
+export function getMeetingRuns(): MeetingRun[] {
+  const runs: MeetingRun[] = [];
+
+  meetings.forEach(meeting => {
+    const last = runs[runs.length - 1];
+    if (last && meeting.start.getTime() - last.end.getTime() <= MEETING_RUN_GAP_MS) {
+      last.meetings.push(meeting);
+      if (meeting.end > last.end) last.end = meeting.end;
+    } else {
+      runs.push({ start: meeting.start, end: meeting.end, meetings: [meeting] });
+    }
+  });
+
+  return runs;
+}
+
+export function getMeetingRunContaining(meeting: CalendarMeeting): MeetingRun | null {
+  return getMeetingRuns().find(run => run.meetings.some(m => m.id === meeting.id)) ?? null;
+}
+
+export function setLongMeetingRunHandler(handler: ((run: MeetingRun) => void) | null): void {
+  longRunHandler = handler;
+}
+
+function scheduleMeetingRunChecks(): void {
+  runTimers.forEach(timer => clearTimeout(timer));
+  runTimers = [];
+
+  const threshold = getConfiguration().calendarLongMeetingMinutes * 60 * 1000;
+  const now = Date.now();
+
+  getMeetingRuns()
+    .filter(run => run.end.getTime() - run.start.getTime() >= threshold)
+    .filter(run => run.end.getTime() > now && run.end.getTime() - now <= MAX_RUN_TIMER_MS)
+    .forEach(run => {
+      runTimers.push(setTimeout(() => longRunHandler?.(run), run.end.getTime() - now));
+    });
+}
+
+/**
+ * Meetings on the given date as read-only time blocks for the time blocking panel
+ */
+export function getMeetingTimeBlocks(date: Date): TimeBlock[] {
+  const dayStart = new Date(date);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+  return getMeetingsBetween(dayStart, dayEnd).map(meeting => {
+    const start = Math.max(meeting.start.getTime(), dayStart.getTime());
+    const end = Math.min(meeting.end.getTime(), dayEnd.getTime());
+    return {
+      id: meeting.id,
+      name: `📅 ${meeting.title}`,
+      startTime: Math.round((start - dayStart.getTime()) / 60000),
+      duration: Math.max(1, Math.round((end - start) / 60000)),
+      type: 'meetings',
+      priority: 5,
+      recurring: false
+    };
+  });
+}
+
+export function isCalendarBlock(blockId: string): boolean {
+  return blockId.startsWith('ics_');
+}
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as net from 'net';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getConfiguration } from '../core/configuration';
+import { getWorkRestModelById, getDefaultWorkRestModel } from '../constants/workRestModels';
+import {
+  startWorkRestSession,
+  takeManualBreak,
+  endRestEarly,
+  getTimeRemaining,
+  getCurrentSession
+} from './workRestService';
+import { captureDailyWellnessSnapshot } from './wellnessService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Local Control API
+ * Lets shell scripts, status lines and desk gadgets read and drive DotSense.
+ * Off by default; listens only on 127.0.0.1 or a socket file and requires a bearer token.
+ *
+ *   GET  /status           session + time remaining
+ *   GET  /session          current work-rest session
+ *   GET  /time-remaining   time left in the current phase
+ *   GET  /wellness/today   today's DailyWellnessData
+ *   POST /session/start    { "modelId"?: string }
+ *   POST /break            take a manual break now
+ *   POST /rest/end         end the current rest early
+ */
+
+const TOKEN_FILE = 'control-api.token';
+const SOCKET_FILE = 'control-api.sock';
+const MAX_BODY_BYTES = 4096;
+
+let server: http.Server | null = null;
+// Only set once this window has bound the socket, so stopping never removes another window's
+let boundSocketPath: string | null = null;
+
+interface ControlApiResponse {
+  status: number;
+  body: unknown;
+}
+
+export function startControlApi(context: vscode.ExtensionContext): void {
+  stopControlApi();
+
+  const config = getConfiguration();
+  if (!config.controlApiEnabled) return;
+
+  let token: string;
+  try {
+    token = getControlApiToken(context);
+  } catch (error) {
+    Logger.error('Control API disabled - could not create token:', error);
+    return;
+  }
+
+  server = http.createServer((req, res) => {
+    handleRequest(req, token).then(response => {
+      res.writeHead(response.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response.body));
+    }).catch(error => {
+      Logger.error('Control API request failed:', error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Internal error' }));
+    });
+  });
+
+  server.on('error', error => {
+    Logger.error('Control API server error:', error);
+    vscode.window.showWarningMessage(`DotSense control API could not start: ${error.message}`);
+    stopControlApi();
+  });
+
+  if (config.controlApiTransport === 'socket') {
+    listenOnSocket(server, getSocketPath(context));
+  } else {
+    server.listen(config.controlApiPort, '127.0.0.1', () => {
+      Logger.log(`Control API listening on http://127.0.0.1:${config.controlApiPort}`);
+    });
+  }
+
+  context.subscriptions.push({ dispose: () => stopControlApi() });
+}
+
+export function stopControlApi(): void {
+  if (!server) return;
+
+  server.close();
+  server = null;
+
+  if (boundSocketPath && process.platform !== 'win32') {
+    try {
+      fs.unlinkSync(boundSocketPath);
+    } catch {
+      // Already removed by close()
+    }
+  }
+  boundSocketPath = null;
+}
+
+function listenOnSocket(socketServer: http.Server, socketPath: string): void {
+  isSocketInUse(socketPath).then(inUse => {
+    // Stopped or restarted while probing
+    if (server !== socketServer) return;
+
+    if (inUse) {
+      Logger.warn(`Control API socket ${socketPath} is in use by another window`);
+      vscode.window.showWarningMessage('DotSense control API could not start: its socket is in use by another window.');
+      stopControlApi();
+      return;
+    }
+
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+      // Nothing answered, so it was left behind by a window that did not shut down cleanly
+      try {
+        fs.unlinkSync(socketPath);
+      } catch (error) {
+        // listen() reports the socket as in use through the server's error handler
+        Logger.warn('Could not remove stale control API socket:', error);
+      }
+    }
+
+    socketServer.listen(socketPath, () => {
+      if (server !== socketServer) return;
+      boundSocketPath = socketPath;
+      if (process.platform !== 'win32') {
+        fs.chmodSync(socketPath, 0o600);
+      }
+      Logger.log(`Control API listening on ${socketPath}`);
+    });
+  }).catch(error => Logger.error('Control API socket probe failed:', error));
+}
+
+// Whether a server still answers on the socket, as opposed to a file left behind
+function isSocketInUse(socketPath: string): Promise<boolean> {
+  if (process.platform !== 'win32' && !fs.existsSync(socketPath)) {
+    return Promise.resolve(false);
+  }
+
+  return new Promise(resolve => {
+    const probe = net.connect(socketPath);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => {
+      probe.destroy();
+      resolve(false);
+    });
+  });
+}
+
+/**
+ * Returns the API token, creating one in global storage on first use
+ */
+export function getControlApiToken(context: vscode.ExtensionContext): string {
+  const storageDir = context.globalStorageUri.fsPath;
+  const tokenPath = path.join(storageDir, TOKEN_FILE);
+
+  if (fs.existsSync(tokenPath)) {
+    const existing = fs.readFileSync(tokenPath, 'utf8').trim();
+    if (existing) return existing;
+  }
+
+  fs.mkdirSync(storageDir, { recursive: true });
+  const token = crypto.randomBytes(32).toString('hex');
+  fs.writeFileSync(tokenPath, token, { encoding: 'utf8', mode: 0o600 });
+  return token;
+}
+
+export function getControlApiTokenPath(context: vscode.ExtensionContext): string {
+  return path.join(context.globalStorageUri.fsPath, TOKEN_FILE);
+}
+
+function getSocketPath(context: vscode.ExtensionContext): string {
+  if (process.platform === 'win32') {
+    // Named pipes live in their own namespace; derive a stable per-install name
+    const hash = crypto.createHash('sha256').update(context.globalStorageUri.fsPath).digest('hex').slice(0, 12);
+    return `\\\\.\\pipe\\dotsense-control-${hash}`;
+  }
+  return path.join(context.globalStorageUri.fsPath, SOCKET_FILE);
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+async function handleRequest(req: http.IncomingMessage, token: string): Promise<ControlApiResponse> {
+  if (!isAuthorized(req, token)) {
+    return { status: 401, body: { error: 'Missing or invalid token' } };
+  }
+
+  const route = `${req.method} ${(req.url || '/').split('?')[0]}`;
+
+  switch (route) {
+    case 'GET /status':
+      return { status: 200, body: { session: getCurrentSession(), timeRemaining: getTimeRemaining() } };
+
+    case 'GET /session':
+      return { status: 200, body: getCurrentSession() };
+
+    case 'GET /time-remaining':
+      return { status: 200, body: getTimeRemaining() };
+
+    case 'GET /wellness/today':
+      return { status: 200, body: captureDailyWellnessSnapshot() };
+
+    case 'POST /session/start': {
+      const body = await readJsonBody(req);
+      if (!body) {
+        return { status: 400, body: { error: 'Request body must be a JSON object' } };
+      }
+      const modelId = typeof body.modelId === 'string' ? body.modelId : getConfiguration().workRestModel;
+      const model = modelId ? getWorkRestModelById(modelId) : getDefaultWorkRestModel();
+      if (!model) {
+        return { status: 404, body: { error: `Unknown work-rest model: ${modelId}` } };
+      }
+      startWorkRestSession(model);
+      return { status: 200, body: getCurrentSession() };
+    }
+
+    case 'POST /break':
+      return takeManualBreak() ?
+        { status: 200, body: { ok: true, timeRemaining: getTimeRemaining() } } :
+        { status: 409, body: { error: 'No work period in progress' } };
+
+    case 'POST /rest/end':
+      return endRestEarly() ?
+        { status: 200, body: { ok: true, timeRemaining: getTimeRemaining() } } :
+        { status: 409, body: { error: 'No rest period in progress' } };
+
+    default:
+      return { status: 404, body: { error: `No route for ${route}` } };
+  }
+}
+
+// Resolves null when the body is not a JSON object
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown> | null> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => {
+      data += chunk;
+      if (data.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (!data.trim()) {
+        resolve({});
+        return;
+      }
+      try {
+        const parsed: unknown = JSON.parse(data);
+        resolve(parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null);
+      } catch {
+        resolve(null);
+      }
+    });
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ContextDeadline, TimePressure } from '../types';
+import { advancedScheduler } from './activityIntegration/advancedSchedulerService';
+import { parseDeadline } from './taskQueueService';
+import { isLeaderWindow } from './windowCoordinator';
+import { getCurrentBranches } from '../utils/gitBranches';
+import { Logger } from '../utils/logger';
+
+/**
+ * Deadlines on tasks, git branches and workspace folders. The scheduler shortens breaks
+ * as they approach; this module sets them and warns when burnout signals rule that out.
+ */
+
+const SAFETY_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const WARNING_REPEAT_MS = 4 * 60 * 60 * 1000;
+
+let safetyTimer: ReturnType<typeof setInterval> | null = null;
+const lastWarnings = new Map<string, number>();
+
+export function initializeDeadlines(context: vscode.ExtensionContext): void {
+  if (safetyTimer) clearInterval(safetyTimer);
+  safetyTimer = setInterval(() => {
+    if (isLeaderWindow()) checkDeadlineSafety();
+  }, SAFETY_CHECK_INTERVAL_MS);
+
+  context.subscriptions.push({ dispose: stopDeadlineChecks });
+}
+
+export function stopDeadlineChecks(): void {
+  if (safetyTimer) {
+    clearInterval(safetyTimer);
+    safetyTimer = null;
+  }
+  lastWarnings.clear();
+}
+
+/**
+ * Warns when time pressure meets burnout signals. Repeats for the same deadline at most every few hours.
+ */
+export function checkDeadlineSafety(): TimePressure | null {
+  const pressure = advancedScheduler?.getTimePressure();
+  if (!pressure?.unsafe) return null;
+
+  const key = `${pressure.deadline.source}:${pressure.deadline.label}:${pressure.deadline.deadline.getTime()}`;
+  const lastWarned = lastWarnings.get(key);
+  if (lastWarned && Date.now() - lastWarned < WARNING_REPEAT_MS) return pressure;
+  lastWarnings.set(key, Date.now());
+
+  Logger.log(`Deadline plan unsafe: ${pressure.deadline.label}, burnout risk ${pressure.burnoutRisk}`);
+  vscode.window.showWarningMessage(
+    `⚠️ "${pressure.deadline.label}" is due in ${formatHours(pressure.hoursLeft)} and your burnout risk is ${pressure.burnoutRisk}. ` +
+    'Breaks stay full length - consider cutting scope or moving the deadline.',
+    'Open Task Matrix'
+  ).then(selection => {
+    if (selection === 'Open Task Matrix') {
+      vscode.commands.executeCommand('dotsense.openTaskMatrix');
+    }
+  });
+  return pressure;
+}
+
+export async function setDeadlineInteractive(): Promise<void> {
+  const scheduler = advancedScheduler;
+  if (!scheduler) {
+    vscode.window.showErrorMessage('Deadlines need the advanced scheduler, which failed to initialize.');
+    return;
+  }
+
+  const targets: Array<vscode.QuickPickItem & { scope: ContextDeadline['scope'] | 'task'; target: string; repository?: string }> = [
+    ...getCurrentBranches().map(branch => ({
+      label: `$(git-branch) ${branch.name}`,
+      description: `Branch in ${path.basename(branch.repository)}`,
+      scope: 'branch' as const,
+      target: branch.name,
+      repository: branch.repository
+    })),
+    ...(vscode.workspace.workspaceFolders || []).map(folder => ({ label: `$(folder) ${folder.name}`, description: 'Workspace folder', scope: 'folder' as const, target: folder.uri.fsPath })),
+    ...scheduler.getTasks().map(task => ({ label: `$(checklist) ${task.name}`, description: 'Task', scope: 'task' as const, target: task.id }))
+  ];
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage('Open a folder, check out a branch or add a task to set a deadline.');
+    return;
+  }
+
+  const choice = await vscode.window.showQuickPick(targets, { placeHolder: 'What is the deadline for?' });
+  if (!choice) return;
+
+  const input = await vscode.window.showInputBox({
+    prompt: 'Deadline',
+    placeHolder: 'YYYY-MM-DD or YYYY-MM-DD HH:MM',
+    validateInput: value => parseDeadline(value) ? null : 'Use YYYY-MM-DD or YYYY-MM-DD HH:MM'
+  });
+  const deadline = input ? parseDeadline(input) : null;
+  if (!deadline) return;
+
+  let label: string;
+  if (choice.scope === 'task') {
+    scheduler.updateTask(choice.target, { deadline });
+    label = scheduler.getTasks().find(task => task.id === choice.target)?.name ?? 'task';
+  } else {
+    label = choice.scope === 'branch'
+      ? `branch ${choice.target}${choice.repository ? ` in ${path.basename(choice.repository)}` : ''}`
+      : `folder ${path.basename(choice.target)}`;
+    scheduler.setContextDeadline({
+      scope: choice.scope,
+      target: choice.target,
+      label,
+      deadline,
+      ...(choice.repository && { repository: choice.repository })
+    });
+  }
+
+  vscode.window.showInformationMessage(`⏳ Deadline for ${label}: ${deadline.toLocaleString()}`);
+  checkDeadlineSafety();
+}
+
+export async function clearDeadlineInteractive(): Promise<void> {
+  const scheduler = advancedScheduler;
+  if (!scheduler) return;
+
+  const deadlines = [
+    ...scheduler.getContextDeadlines().map(d => ({ label: d.label, description: d.deadline.toLocaleString(), clear: () => scheduler.removeContextDeadline(d.id) })),
+    ...scheduler.getTasks()
+      .filter(task => task.deadline)
+      .map(task => ({ label: task.name, description: task.deadline!.toLocaleString(), clear: () => scheduler.clearTaskDeadline(task.id) }))
+  ];
+  if (deadlines.length === 0) {
+    vscode.window.showInformationMessage('No deadlines set.');
+    return;
+  }
+
+  const choice = await vscode.window.showQuickPick(deadlines, { placeHolder: 'Deadline to clear' });
+  if (choice) {
+    choice.clear();
+    vscode.window.showInformationMessage(`Cleared the deadline for ${choice.label}`);
+  }
+}
+
+function formatHours(hours: number): string {
+  return hours < 1 ? `${Math.max(1, Math.round(hours * 60))} min` : `${Math.round(hours)}h`;
+}
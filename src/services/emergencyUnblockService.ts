@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { state } from '../models/state';
+import { AnnoyanceLevel } from '../types';
+import { getConfiguration } from '../core/configuration';
+import { usageAnalytics } from './usageAnalyticsService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Audit log for leaving an enforced rest early: every emergency unblock is stored with
+ * its reason, and going past the daily allowance delays the unblock by a cooldown
+ */
+
+export type EmergencyUnblockCategory = 'production-incident' | 'urgent-request' | 'meeting' | 'unsaved-work' | 'other';
+
+export interface EmergencyUnblock {
+  timestamp: string;
+  category: EmergencyUnblockCategory;
+  reason: string;
+  annoyanceLevel: AnnoyanceLevel;
+  restStartedAt: string;
+  cooldownMinutes: number;
+}
+
+export interface EmergencyUnblockRequest {
+  category: EmergencyUnblockCategory;
+  reason: string;
+}
+
+// 'restEnforcement.emergencyExits' holds the older, reason-only exit log
+const EMERGENCY_UNBLOCK_LOG_KEY = 'restEnforcement.emergencyUnblocks';
+const MAX_LOGGED_EMERGENCY_UNBLOCKS = 100;
+
+const CATEGORY_LABELS: Record<EmergencyUnblockCategory, string> = {
+  'production-incident': '🔥 Production incident',
+  'urgent-request': '📣 Urgent request from someone',
+  'meeting': '👥 Meeting or call',
+  'unsaved-work': '💾 Need to save unfinished work',
+  'other': '✏️ Something else'
+};
+
+/**
+ * Asks why the rest is being cut short: a category, then a note (required for "Something else")
+ */
+export async function promptEmergencyUnblockReason(): Promise<EmergencyUnblockRequest | null> {
+  const items = (Object.keys(CATEGORY_LABELS) as EmergencyUnblockCategory[])
+    .map(category => ({ label: CATEGORY_LABELS[category], category }));
+  const choice = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Why do you need to leave this rest period? Emergency unblocks are logged.'
+  });
+  if (!choice) return null;
+
+  const note = await vscode.window.showInputBox({
+    prompt: choice.category === 'other' ? 'Describe the emergency' : 'Add a note (optional)',
+    placeHolder: 'e.g. paging alert for checkout service',
+    validateInput: value => choice.category === 'other' && !value.trim() ? 'Please give a reason' : null
+  });
+  if (note === undefined) return null;
+
+  return { category: choice.category, reason: note.trim() || choice.label };
+}
+
+export function getEmergencyUnblocks(since?: Date): EmergencyUnblock[] {
+  const unblocks = state.storage?.loadCustomSetting<EmergencyUnblock[]>(EMERGENCY_UNBLOCK_LOG_KEY, []) || [];
+  return since ? unblocks.filter(unblock => new Date(unblock.timestamp) >= since) : unblocks;
+}
+
+export function getEmergencyUnblocksToday(): EmergencyUnblock[] {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  return getEmergencyUnblocks(startOfDay);
+}
+
+/**
+ * Delay before the next emergency unblock takes effect - zero until today's allowance is used up
+ */
+export function getEmergencyUnblockCooldownMinutes(): number {
+  const config = getConfiguration();
+  return getEmergencyUnblocksToday().length >= config.emergencyUnblocksPerDay
+    ? config.emergencyUnblockCooldownMinutes
+    : 0;
+}
+
+export function recordEmergencyUnblock(
+  request: EmergencyUnblockRequest,
+  annoyanceLevel: AnnoyanceLevel,
+  restStartedAt: Date,
+  cooldownMinutes: number
+): EmergencyUnblock {
+  const unblock: EmergencyUnblock = {
+    timestamp: new Date().toISOString(),
+    category: request.category,
+    reason: request.reason,
+    annoyanceLevel,
+    restStartedAt: restStartedAt.toISOString(),
+    cooldownMinutes
+  };
+
+  Logger.warn(`Emergency unblock (${request.category}): ${request.reason}`);
+  state.storage?.saveCustomSetting(EMERGENCY_UNBLOCK_LOG_KEY,
+    [...getEmergencyUnblocks(), unblock].slice(-MAX_LOGGED_EMERGENCY_UNBLOCKS));
+  usageAnalytics.trackBreakSkipped(getConfiguration().workRestModel ?? 'default', 'user_override', {
+    emergencyExit: true,
+    category: request.category,
+    reason: request.reason,
+    cooldownMinutes
+  });
+
+  return unblock;
+}
+
+/**
+ * Whole days since the last emergency unblock, or null if there has never been one
+ */
+export function getDaysSinceLastEmergencyUnblock(now: Date = new Date()): number | null {
+  const unblocks = getEmergencyUnblocks();
+  if (unblocks.length === 0) return null;
+
+  const last = new Date(unblocks[unblocks.length - 1].timestamp);
+  last.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return Math.round((today.getTime() - last.getTime()) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import { getConfiguration } from '../core/configuration';
+import { state } from '../models/state';
+import { advancedScheduler } from './activityIntegration/advancedSchedulerService';
+import { getCurrentSession, onDidChangeSessionState } from './workRestService';
+import { isLeaderWindow } from './windowCoordinator';
+import { Logger } from '../utils/logger';
+
+/**
+ * Energy check-ins: a 1-10 self-report from the status bar, asked for when a work-rest
+ * session starts and ends and now and then during work. Readings inferred from typing
+ * intensity fill the gaps between check-ins.
+ */
+
+export type EnergyCheckInTrigger = 'manual' | 'session-start' | 'session-end' | 'prompt';
+
+const ENERGY_LABELS: { [level: number]: string } = {
+  10: 'Fully charged',
+  9: 'Sharp',
+  8: 'Energetic',
+  7: 'Good',
+  6: 'Fine',
+  5: 'Okay',
+  4: 'Flagging',
+  3: 'Tired',
+  2: 'Drained',
+  1: 'Exhausted'
+};
+
+const PICKER_PLACEHOLDERS: { [trigger in EnergyCheckInTrigger]: string } = {
+  'manual': 'How is your energy right now?',
+  'session-start': 'Session starting - how is your energy?',
+  'session-end': 'Session over - how is your energy now?',
+  'prompt': 'Quick check-in - how is your energy?'
+};
+
+// Session events close together (switching models stops and starts) ask only once
+const MIN_PROMPT_GAP_MS = 10 * 60 * 1000;
+const PROMPT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const INFER_INTERVAL_MS = 30 * 60 * 1000;
+const MIN_INFERRED_EVENTS = 5;
+// Check-ins do not measure task completion
+const UNKNOWN_COMPLETION_RATE = 0.5;
+
+let statusBarItem: vscode.StatusBarItem | null = null;
+let promptTimer: ReturnType<typeof setInterval> | null = null;
+let inferTimer: ReturnType<typeof setInterval> | null = null;
+let lastPromptAt = 0;
+
+export function initializeEnergyCheckIns(context: vscode.ExtensionContext): void {
+  statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+  statusBarItem.command = 'dotsense.checkInEnergy';
+  updateStatusBar();
+
+  context.subscriptions.push(
+    statusBarItem,
+    onDidChangeSessionState(change => {
+      if (getConfiguration().energyCheckInEnabled) {
+        promptCheckIn(change === 'started' ? 'session-start' : 'session-end');
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('dotsense.energyCheckIn')) updateStatusBar();
+    }),
+    { dispose: stopEnergyCheckIns }
+  );
+
+  promptTimer = setInterval(() => promptOccasionally(), PROMPT_CHECK_INTERVAL_MS);
+  // One window records for all of them, so readings are not multiplied by the window count
+  inferTimer = setInterval(() => {
+    if (isLeaderWindow()) recordInferredEnergy();
+  }, INFER_INTERVAL_MS);
+}
+
+export function stopEnergyCheckIns(): void {
+  if (promptTimer) {
+    clearInterval(promptTimer);
+    promptTimer = null;
+  }
+  if (inferTimer) {
+    clearInterval(inferTimer);
+    inferTimer = null;
+  }
+  statusBarItem = null;
+  lastPromptAt = 0;
+}
+
+/**
+ * Shows the 1-10 picker and records the answer. Resolves to the level, or null if dismissed.
+ */
+export async function checkInEnergy(trigger: EnergyCheckInTrigger = 'manual'): Promise<number | null> {
+  const items = Object.keys(ENERGY_LABELS).map(Number).sort((a, b) => b - a)
+    .map(level => ({ label: `${level}`, description: ENERGY_LABELS[level], level }));
+
+  const choice = await vscode.window.showQuickPick(items, { placeHolder: PICKER_PLACEHOLDERS[trigger] });
+  if (!choice) return null;
+
+  recordEnergyCheckIn(choice.level, trigger);
+  return choice.level;
+}
+
+export function recordEnergyCheckIn(level: number, trigger: EnergyCheckInTrigger): void {
+  if (!advancedScheduler) return;
+
+  const now = new Date();
+  advancedScheduler.recordEnergyReading({
+    hour: now.getHours(),
+    energyLevel: Math.max(1, Math.min(10, Math.round(level))),
+    activityType: `check-in:${trigger}`,
+    completionRate: UNKNOWN_COMPLETION_RATE,
+    source: 'self-report'
+  });
+  updateStatusBar();
+}
+
+/**
+ * Records the average typing intensity of the last half hour as an inferred reading
+ */
+export function recordInferredEnergy(): number | null {
+  const events = state.activityMonitor?.getRecentEvents(INFER_INTERVAL_MS / 60000) || [];
+  if (!advancedScheduler || events.length < MIN_INFERRED_EVENTS) return null;
+
+  const level = Math.round((events.reduce((sum, e) => sum + e.intensity, 0) / events.length) * 10) / 10;
+  advancedScheduler.recordEnergyReading({
+    hour: new Date().getHours(),
+    energyLevel: level,
+    activityType: 'inferred:typing-intensity',
+    completionRate: UNKNOWN_COMPLETION_RATE,
+    source: 'inferred'
+  });
+  return level;
+}
+
+function promptCheckIn(trigger: EnergyCheckInTrigger): void {
+  if (Date.now() - lastPromptAt < MIN_PROMPT_GAP_MS) return;
+  lastPromptAt = Date.now();
+
+  checkInEnergy(trigger).catch(error => Logger.error('Energy check-in failed:', error));
+}
+
+// During work, at most once per interval since the last check-in or prompt
+function promptOccasionally(): void {
+  const config = getConfiguration();
+  if (!config.energyCheckInEnabled || config.energyCheckInIntervalHours <= 0) return;
+  if (!getCurrentSession()?.isWorking || !isLeaderWindow()) return;
+
+  const intervalMs = config.energyCheckInIntervalHours * 60 * 60 * 1000;
+  const lastCheckIn = advancedScheduler?.getLatestEnergyReading('self-report')?.timestamp.getTime() ?? 0;
+  if (Date.now() - Math.max(lastCheckIn, lastPromptAt) < intervalMs) return;
+  lastPromptAt = Date.now();
+
+  vscode.window.showInformationMessage('⚡ Quick check-in: how is your energy right now?', 'Check In', 'Not Now')
+    .then(selection => {
+      if (selection === 'Check In') {
+        checkInEnergy('prompt').catch(error => Logger.error('Energy check-in failed:', error));
+      }
+    });
+}
+
+function updateStatusBar(): void {
+  if (!statusBarItem) return;
+
+  if (!getConfiguration().energyCheckInEnabled) {
+    statusBarItem.hide();
+    return;
+  }
+
+  const latest = advancedScheduler?.getLatestEnergyReading('self-report');
+  statusBarItem.text = latest ? `$(pulse) ${latest.energyLevel}/10` : '$(pulse) Energy?';
+  statusBarItem.tooltip = latest
+    ? `Energy ${latest.energyLevel}/10 at ${latest.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - click to check in again`
+    : 'How is your energy? Click to check in (1-10)';
+  statusBarItem.show();
+}
@@ -2,7 +2,6 @@ import * as vscode from 'vscode';
 import {
   UsageEvent,
   UsageEventType,
-  LearningDataPoint,
   ContextSnapshot,
   PerformanceReport,
   ModelComparison,
@@ -10,10 +9,57 @@ import {
   PredictiveMetrics,
   OptimizationRecommendations,
   TrendAnalysis,
-  ABLegacyTestResults
+  BenchmarkReport,
+  MetricAvailability,
+  PerformanceMetricKey
 } from '../types/mlWorkRestTypes';
 import { UsageAnalyticsService, usageAnalytics } from './usageAnalyticsService';
 
+type TimeRange = 'week' | 'month' | 'all';
+
+// Session started on activation, not tied to a work-rest model
+const STARTUP_SESSION_ID = 'extension_startup';
+
+// Minimum samples before a metric is reported as meaningful
+const MIN_SESSIONS_FOR_METRIC = 3;
+const MIN_SESSIONS_PER_MODEL = 3;
+const MIN_SESSIONS_PER_CONTEXT = 2;
+const MIN_WEEKS_FOR_TREND = 2;
+const MIN_WEEKS_FOR_BENCHMARK = 4;
+
+const SUCCESS_THRESHOLD = 0.7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const TIME_SLOTS = [
+  { label: '6:00 AM-12:00 PM', start: 6, end: 12 },
+  { label: '12:00-5:00 PM', start: 12, end: 17 },
+  { label: '5:00-10:00 PM', start: 17, end: 22 },
+  { label: '10:00 PM-6:00 AM', start: 22, end: 6 }
+];
+
+/**
+ * A work-rest session reconstructed from the usage event stream
+ */
+interface SessionRecord {
+  modelId: string;
+  start: Date;
+  end: Date | null;
+  context: ContextSnapshot;
+  completionRate: number | null; // From SESSION_ENDED, else break adherence
+  satisfaction: number | null; // 1-5
+  breaksTaken: number;
+  breaksSkipped: number;
+  ended: boolean;
+}
+
+interface UsageAnalysis {
+  timeRange: TimeRange;
+  since: Date;
+  events: UsageEvent[];
+  sessions: SessionRecord[];
+}
+
 /**
  * Performance Analytics Engine
  * Processes usage data into actionable productivity intelligence for AI learning
@@ -41,86 +87,165 @@ export class PerformanceAnalyticsEngine {
    * Generates comprehensive performance report for specified time period
    */
   generatePerformanceReport(
-    timeRange: 'week' | 'month' | 'all' = 'month',
+    timeRange: TimeRange = 'month',
     contextFilter?: Partial<ContextSnapshot>
   ): PerformanceReport {
     const usageStats = this.usageService.getUsageStatistics(timeRange);
     const analysis = this.analyzeUsageData(timeRange, contextFilter);
+    const trendAnalysis = this.analyzeUsageData(timeRange === 'all' ? 'all' : 'month', contextFilter);
 
-    // Use analysis data in calculations
-    const dataPointsCount = analysis.dataPoints.length;
+    const modelPerformance = this.analyzeModelPerformance(analysis);
+    const contextualInsights = this.buildContextualInsights(analysis);
+    const trends = this.analyzeTrends(analysis, trendAnalysis);
 
     return {
       timeRange,
       generatedAt: new Date(),
       summary: {
-        totalSessions: usageStats.totalSessions,
-        averageCompletionRate: this.calculateAverageCompletionRate(timeRange),
-        mostEffectiveModel: this.identifyMostEffectiveModel(timeRange),
+        totalSessions: analysis.sessions.length,
+        averageCompletionRate: this.calculateAverageCompletionRate(analysis.sessions),
+        mostEffectiveModel: modelPerformance.mostEffective,
         peakPerformanceHours: usageStats.peakProductivityHours,
-        overallProductivityScore: this.calculateOverallProductivityScore(timeRange, dataPointsCount)
+        overallProductivityScore: this.calculateOverallProductivityScore(analysis)
       },
-      modelPerformance: this.analyzeModelPerformance(timeRange, contextFilter),
-      contextualInsights: this.generateContextualInsights(timeRange),
-      trends: this.analyzeTrends(timeRange),
-      recommendations: this.generateOptimizationRecommendations(timeRange),
-      predictiveMetrics: this.calculatePredictiveMetrics(timeRange)
+      modelPerformance,
+      contextualInsights,
+      trends,
+      recommendations: this.generateOptimizationRecommendations(analysis, modelPerformance, contextualInsights),
+      predictiveMetrics: this.calculatePredictiveMetrics(analysis, modelPerformance, contextualInsights, trends),
+      dataAvailability: this.assessDataAvailability(analysis, trendAnalysis, contextualInsights)
     };
   }
 
   /**
-   * Analyzes data across specified time period and context filters
+   * Loads recorded usage events for the time period and rebuilds sessions from them
    */
   private analyzeUsageData(
-    timeRange: 'week' | 'month' | 'all',
+    timeRange: TimeRange,
     contextFilter?: Partial<ContextSnapshot>
-  ): { events: UsageEvent[]; dataPoints: LearningDataPoint[] } {
-    // This would retrieve and filter the actual usage data
-    // For now, return structured placeholder based on time range
-    const mockEvents: UsageEvent[] = this.generateMockAnalysisData(timeRange);
-    const filteredEvents = contextFilter ? this.filterEventsByContext(mockEvents, contextFilter) : mockEvents;
+  ): UsageAnalysis {
+    const since = this.getRangeStart(timeRange);
+    const events = this.usageService.getRecordedEvents(since);
+    const sessions = this.buildSessions(events);
 
     return {
-      events: filteredEvents,
-      dataPoints: this.generateLearningDataPoints(filteredEvents)
+      timeRange,
+      since,
+      events,
+      sessions: contextFilter ? this.filterSessionsByContext(sessions, contextFilter) : sessions
     };
   }
 
   /**
-   * Calculates average completion rate across all sessions
+   * Pairs session-start events with their breaks, feedback and session-end events
    */
-  private calculateAverageCompletionRate(timeRange: 'week' | 'month' | 'all'): number {
-    // Analyze completion rates from usage data
-    const sampleRates = this.getSampleCompletionRates(timeRange);
-    return sampleRates.length > 0 ?
-      sampleRates.reduce((sum, rate) => sum + rate, 0) / sampleRates.length : 0.75;
+  private buildSessions(events: UsageEvent[]): SessionRecord[] {
+    const sessions: SessionRecord[] = [];
+    let current: SessionRecord | null = null;
+
+    const closeCurrent = (endTime: Date): void => {
+      if (!current) return;
+      current.end = endTime;
+      sessions.push(current);
+      current = null;
+    };
+
+    for (const event of events) {
+      switch (event.type) {
+        case UsageEventType.SESSION_STARTED:
+          if (!event.modelId || event.modelId === STARTUP_SESSION_ID) break;
+          // A new session implicitly ends one that never reported its end
+          closeCurrent(event.timestamp);
+          current = {
+            modelId: event.modelId,
+            start: event.timestamp,
+            end: null,
+            context: event.context,
+            completionRate: null,
+            satisfaction: null,
+            breaksTaken: 0,
+            breaksSkipped: 0,
+            ended: false
+          };
+          break;
+
+        case UsageEventType.BREAK_TAKEN:
+          if (current && event.modelId === current.modelId) current.breaksTaken++;
+          break;
+
+        case UsageEventType.BREAK_SKIPPED:
+          if (current && event.modelId === current.modelId) current.breaksSkipped++;
+          break;
+
+        case UsageEventType.USER_FEEDBACK: {
+          const rating = event.metadata.rating;
+          if (current && typeof rating === 'number') current.satisfaction = rating;
+          break;
+        }
+
+        case UsageEventType.SESSION_ENDED: {
+          const session: SessionRecord | null = current;
+          if (!session || event.modelId !== session.modelId) break;
+          const { completionRate, userSatisfaction } = event.metadata;
+          if (typeof completionRate === 'number') session.completionRate = completionRate;
+          if (typeof userSatisfaction === 'number') session.satisfaction = userSatisfaction;
+          session.ended = true;
+          closeCurrent(event.timestamp);
+          break;
+        }
+      }
+    }
+
+    // Session still running
+    if (current) {
+      sessions.push(current);
+    }
+
+    // Sessions that never ended are judged by how many of their breaks were honoured
+    sessions.forEach(session => {
+      const scheduledBreaks = session.breaksTaken + session.breaksSkipped;
+      if (session.completionRate === null && scheduledBreaks > 0) {
+        session.completionRate = session.breaksTaken / scheduledBreaks;
+      }
+    });
+
+    return sessions;
   }
 
   /**
-   * Identifies the most effective model based on success rates
+   * Calculates average completion rate across all sessions (0-1)
    */
-  private identifyMostEffectiveModel(timeRange: 'week' | 'month' | 'all'): string | null {
-    // Compare model performance across different metrics
-    const modelPerformance = this.analyzeModelPerformance(timeRange);
-    return modelPerformance.mostEffective || 'pomodoro-classic';
+  private calculateAverageCompletionRate(sessions: SessionRecord[]): number {
+    const rates = this.completionRates(sessions);
+    return rates.length > 0 ? this.average(rates) : 0;
+  }
+
+  private calculateAverageSatisfaction(sessions: SessionRecord[]): number | null {
+    const ratings = sessions.map(s => s.satisfaction).filter((r): r is number => r !== null);
+    return ratings.length > 0 ? this.average(ratings) : null;
   }
 
   /**
    * Calculates overall productivity score (0-100)
    */
-  private calculateOverallProductivityScore(timeRange: 'week' | 'month' | 'all', dataPointsCount = 0): number {
-    const completionRate = this.calculateAverageCompletionRate(timeRange);
-    const sessionFreq = this.calculateSessionFrequency(timeRange);
-    const satisfactionScore = this.calculateAverageSatisfaction(timeRange);
+  private calculateOverallProductivityScore(analysis: UsageAnalysis): number {
+    if (analysis.sessions.length === 0) return 0;
 
-    // Weighted score combining multiple factors, boosted by data points for better learning
-    const dataBonus = Math.min(dataPointsCount / 100, 0.1); // Up to 10% bonus for more data points
+    const completionRate = this.calculateAverageCompletionRate(analysis.sessions);
+    const sessionsPerWeek = this.calculateSessionsPerWeek(analysis);
+    const satisfaction = this.calculateAverageSatisfaction(analysis.sessions);
+
+    const consistencyScore = Math.min(sessionsPerWeek / 10, 1); // max 10 sessions/week
+
+    if (satisfaction === null) {
+      // No ratings yet - spread the satisfaction weight over the other factors
+      return Math.round((completionRate * 55) + (consistencyScore * 45));
+    }
 
     return Math.round(
       (completionRate * 40) +  // 40% weight on completion
-      (Math.min(sessionFreq / 10, 1) * 30) +  // 30% weight on consistency (max 10 sessions/week)
-      (satisfactionScore * 30) + // 30% weight on satisfaction
-      (dataBonus * 100) // Bonus for data richness
+      (consistencyScore * 30) +  // 30% weight on consistency
+      (((satisfaction - 1) / 4) * 30) // 30% weight on satisfaction
     );
   }
 
@@ -128,73 +253,91 @@ export class PerformanceAnalyticsEngine {
    * Comprehensive model performance analysis
    */
   private analyzeModelPerformance(
-    timeRange: 'week' | 'month' | 'all',
-    contextFilter?: Partial<ContextSnapshot>
+    analysis: UsageAnalysis
   ): { models: Record<string, ModelComparison>; mostEffective: string | null } {
 
     const modelsPerformance: Record<string, ModelComparison> = {};
+    const weeks = this.weeksInRange(analysis);
 
-    // Define standard models to analyze
-    const models = [
-      'pomodoro-classic', 'who-45min-work-15min-rest', 'creative_session',
-      'debugging_session', 'learning_session', 'administrative'
-    ];
-
-    // Use vscode for potential future API calls
-    if (contextFilter && vscode) {
-      // Context filtering could be extended to use VS Code APIs in the future
-    }
+    const sessionsByModel = this.groupBy(analysis.sessions, s => s.modelId);
+    sessionsByModel.forEach((sessions, modelId) => {
+      const rates = this.completionRates(sessions);
+      const successRate = rates.length > 0 ? rates.filter(r => r > SUCCESS_THRESHOLD).length / rates.length : 0;
+      const usageFrequency = Math.round((sessions.length / weeks) * 10) / 10;
 
-    models.forEach(modelId => {
       modelsPerformance[modelId] = {
         modelId,
-        totalSessions: Math.floor(Math.random() * 20) + 5, // Mock data
-        averageCompletionRate: this.getModelCompletionRate(modelId, timeRange),
-        averageSatisfaction: this.getModelSatisfaction(modelId, timeRange),
-        successRate: this.calculateModelSuccessRate(modelId, timeRange),
-        bestContext: this.findBestContextForModel(modelId, timeRange),
-        performanceScore: this.calculateModelPerformanceScore(modelId, timeRange),
-        usageFrequency: this.getModelUsageFrequency(modelId, timeRange)
+        totalSessions: sessions.length,
+        averageCompletionRate: rates.length > 0 ? this.average(rates) : 0,
+        averageSatisfaction: this.calculateAverageSatisfaction(sessions) ?? 0,
+        successRate,
+        bestContext: this.findBestContextForModel(sessions),
+        performanceScore: (successRate * 0.8) + (Math.min(usageFrequency, 10) / 10 * 0.2),
+        usageFrequency
       };
     });
 
-    // Find most effective model
-    const mostEffective = Object.entries(modelsPerformance)
-      .sort(([,a], [,b]) => b.performanceScore - a.performanceScore)[0]?.[0] || null;
+    // Only models with enough rated sessions can be called most effective
+    const mostEffective = Object.values(modelsPerformance)
+      .filter(m => this.completionRates(sessionsByModel.get(m.modelId) || []).length >= MIN_SESSIONS_PER_MODEL)
+      .sort((a, b) => b.performanceScore - a.performanceScore)[0]?.modelId || null;
 
     return { models: modelsPerformance, mostEffective };
   }
 
+  private findBestContextForModel(sessions: SessionRecord[]): string {
+    const slots = TIME_SLOTS
+      .map(slot => {
+        const rates = this.completionRates(sessions.filter(s => this.isInSlot(s.start.getHours(), slot)));
+        return { label: slot.label, count: rates.length, rate: rates.length > 0 ? this.average(rates) : 0 };
+      })
+      .filter(slot => slot.count >= MIN_SESSIONS_PER_CONTEXT)
+      .sort((a, b) => b.rate - a.rate);
+
+    if (slots.length === 0) {
+      return 'Not enough data';
+    }
+    return `${slots[0].label} (${Math.round(slots[0].rate * 100)}% completion over ${slots[0].count} sessions)`;
+  }
+
   /**
    * Generates contextual insights about when/where different approaches work best
    */
-  generateContextualInsights(timeRange: 'week' | 'month' | 'all'): ContextualInsights {
+  generateContextualInsights(timeRange: TimeRange): ContextualInsights {
+    return this.buildContextualInsights(this.analyzeUsageData(timeRange));
+  }
+
+  private buildContextualInsights(analysis: UsageAnalysis): ContextualInsights {
+    const timeBasedPatterns = this.analyzeTimeBasedPatterns(analysis.sessions);
+
     return {
-      timeBasedPatterns: this.analyzeTimeBasedPatterns(timeRange),
-      taskBasedPatterns: this.analyzeTaskBasedPatterns(timeRange),
-      energyBasedPatterns: this.analyzeEnergyBasedPatterns(timeRange),
-      contextOptimization: this.identifyContextOptimizations(timeRange),
-      adaptiveRules: this.generateAdaptiveRules(timeRange)
+      timeBasedPatterns,
+      taskBasedPatterns: this.analyzeTaskBasedPatterns(analysis.sessions),
+      energyBasedPatterns: this.analyzeEnergyBasedPatterns(analysis.sessions),
+      contextOptimization: this.identifyContextOptimizations(analysis.sessions, timeBasedPatterns),
+      adaptiveRules: this.generateAdaptiveRules(analysis.sessions)
     };
   }
 
   /**
    * Analyzes performance trends over time
    */
-  private analyzeTrends(timeRange: 'week' | 'month' | 'all'): TrendAnalysis {
-    const baselinePerformance = this.calculateOverallProductivityScore('month');
+  private analyzeTrends(analysis: UsageAnalysis, trendAnalysis: UsageAnalysis): TrendAnalysis {
+    const weekly = this.calculateWeeklyMetrics(trendAnalysis);
+    const currentScore = this.calculateOverallProductivityScore(analysis);
+    const baselineScore = this.calculateOverallProductivityScore(trendAnalysis);
 
     return {
-      productivityTrend: this.calculateProductivityTrend(),
-      completionRateTrend: this.calculateCompletionRateTrend(),
-      satisfactionTrend: this.calculateSatisfactionTrend(),
-      modelUsageEvolution: this.analyzeModelUsageEvolution(),
-      behavioralShifts: this.detectBehavioralShifts(),
-      improvementOpportunities: this.identifyImprovementAreas(),
+      productivityTrend: this.slope(weekly.map(w => w.productivity)),
+      completionRateTrend: this.slope(weekly.map(w => w.completionRate === null ? null : w.completionRate * 100)),
+      satisfactionTrend: this.slope(weekly.map(w => w.satisfaction)),
+      modelUsageEvolution: this.analyzeModelUsageEvolution(trendAnalysis.sessions),
+      behavioralShifts: this.detectBehavioralShifts(trendAnalysis),
+      improvementOpportunities: this.identifyImprovementAreas(analysis),
       baselineComparison: {
-        currentScore: this.calculateOverallProductivityScore(timeRange),
-        baselineScore: baselinePerformance,
-        improvement: Math.round((this.calculateOverallProductivityScore(timeRange) - baselinePerformance) * 10) / 10
+        currentScore,
+        baselineScore,
+        improvement: Math.round((currentScore - baselineScore) * 10) / 10
       }
     };
   }
@@ -202,31 +345,65 @@ export class PerformanceAnalyticsEngine {
   /**
    * Generates optimization recommendations based on analysis
    */
-  private generateOptimizationRecommendations(timeRange: 'week' | 'month' | 'all'): OptimizationRecommendations {
-    const modelInfo = this.analyzeModelPerformance(timeRange);
-    const contextInsights = this.generateContextualInsights(timeRange);
+  private generateOptimizationRecommendations(
+    analysis: UsageAnalysis,
+    modelInfo: { models: Record<string, ModelComparison>; mostEffective: string | null },
+    contextInsights: ContextualInsights
+  ): OptimizationRecommendations {
+    const immediateActions: OptimizationRecommendations['immediateActions'] = [];
+    const currentModel = vscode.workspace.getConfiguration('dotsense').get<string>('workRestModel');
+
+    if (modelInfo.mostEffective && modelInfo.mostEffective !== currentModel) {
+      const best = modelInfo.models[modelInfo.mostEffective];
+      const current = currentModel ? modelInfo.models[currentModel] : undefined;
+      immediateActions.push({
+        action: 'Switch Primary Model',
+        reason: current ?
+          `${best.modelId} succeeds in ${Math.round(best.successRate * 100)}% of sessions vs ${Math.round(current.successRate * 100)}% for ${current.modelId}` :
+          `${best.modelId} succeeds in ${Math.round(best.successRate * 100)}% of ${best.totalSessions} recorded sessions`,
+        expectedImpact: 'high',
+        implementationEffort: 'low'
+      });
+    }
+
+    const skipRate = this.calculateSkipRate(analysis.sessions);
+    if (skipRate !== null && skipRate > 0.4) {
+      immediateActions.push({
+        action: 'Shorten Work Periods',
+        reason: `${Math.round(skipRate * 100)}% of scheduled breaks were skipped or snoozed`,
+        expectedImpact: 'high',
+        implementationEffort: 'low'
+      });
+    }
+
+    const weakestSlot = [...contextInsights.timeBasedPatterns].sort((a, b) => a.effectiveness - b.effectiveness)[0];
+    if (weakestSlot && contextInsights.timeBasedPatterns.length > 1 && weakestSlot.effectiveness < 60) {
+      immediateActions.push({
+        action: `Adjust ${weakestSlot.timeSlot} Schedule`,
+        reason: `Only ${weakestSlot.effectiveness}% completion during ${weakestSlot.timeSlot}`,
+        expectedImpact: 'medium',
+        implementationEffort: 'low'
+      });
+    }
+
+    const riskAssessments: OptimizationRecommendations['riskAssessments'] = [];
+    const dominantModel = Object.values(modelInfo.models).sort((a, b) => b.totalSessions - a.totalSessions)[0];
+    if (dominantModel && analysis.sessions.length >= MIN_SESSIONS_FOR_METRIC &&
+        dominantModel.totalSessions / analysis.sessions.length > 0.8) {
+      riskAssessments.push({
+        risk: 'Over-reliance on single model type',
+        impact: 'medium',
+        mitigation: 'Diversify model usage, monitor satisfaction variance'
+      });
+    }
+    riskAssessments.push({
+      risk: 'Changing optimal patterns without feedback',
+      impact: 'high',
+      mitigation: 'Require user confirmation for major changes, monitor impact metrics'
+    });
 
     return {
-      immediateActions: [
-        {
-          action: 'Switch Primary Model',
-          reason: `${modelInfo.mostEffective} shows 15% higher effectiveness than current model`,
-          expectedImpact: 'high',
-          implementationEffort: 'low'
-        },
-        {
-          action: 'Adjust Morning Schedule',
-          reason: 'Performance analysis shows improved focus with longer intervals before 11 AM',
-          expectedImpact: 'medium',
-          implementationEffort: 'low'
-        },
-        {
-          action: 'Optimize Break Patterns',
-          reason: 'Break satisfaction 20% higher with custom break activities',
-          expectedImpact: 'high',
-          implementationEffort: 'medium'
-        }
-      ],
+      immediateActions,
       longTermImprovements: [
         {
           action: 'Implement Energy-Based Scheduling',
@@ -239,102 +416,86 @@ export class PerformanceAnalyticsEngine {
           description: 'AI learns task-specific optimal models through pattern recognition',
           timeline: '1 month',
           prerequisites: ['Additional context data', 'Pattern analysis algorithms']
-        },
-        {
-          action: 'Personalized Model Hybridization',
-          description: 'Combine best elements from different models based on context',
-          timeline: '6 weeks',
-          prerequisites: ['Performance data maturity', 'Hybrid model logic']
         }
       ],
       contextualAdjustments: this.generateContextualAdjustments(contextInsights),
-      riskAssessments: [
-        {
-          risk: 'Over-reliance on single model type',
-          impact: 'medium',
-          mitigation: 'Diversify model usage, monitor satisfaction variance'
-        },
-        {
-          risk: 'Changing optimal patterns without feedback',
-          impact: 'high',
-          mitigation: 'Require user confirmation for major changes, monitor impact metrics'
-        }
-      ]
+      riskAssessments
     };
   }
 
   /**
    * Predictive analytics for future performance optimization
    */
-  private calculatePredictiveMetrics(timeRange: 'week' | 'month' | 'all'): PredictiveMetrics {
-    const modelPerformance = this.analyzeModelPerformance(timeRange);
-    const trends = this.analyzeTrends(timeRange);
+  private calculatePredictiveMetrics(
+    analysis: UsageAnalysis,
+    modelPerformance: { models: Record<string, ModelComparison>; mostEffective: string | null },
+    contextInsights: ContextualInsights,
+    trends: TrendAnalysis
+  ): PredictiveMetrics {
+    const ratedSessions = this.completionRates(analysis.sessions).length;
+    const adaptationReadiness = modelPerformance.mostEffective ? 'confirmed' as const :
+      ratedSessions >= MIN_SESSIONS_FOR_METRIC ? 'pending' as const : 'insufficient_data' as const;
 
     return {
       nextWeekPrediction: {
         expectedProductivityScore: Math.max(0, Math.min(100,
-          trends.baselineComparison.currentScore + (trends.productivityTrend * 7))),
+          Math.round(trends.baselineComparison.currentScore + trends.productivityTrend))),
         recommendedModel: modelPerformance.mostEffective,
-        optimalScheduleTimes: this.calculateOptimalScheduleTimes(),
-        riskFactors: this.identifyNextWeekRisks()
+        optimalScheduleTimes: this.calculateOptimalScheduleTimes(analysis.sessions),
+        riskFactors: this.identifyNextWeekRisks(analysis, trends)
       },
       monthlyForecast: {
-        projectedImprovement: this.forecastMonthlyImprovement(),
-        learningOpportunities: this.identifyLearningOpportunities(),
-        adaptationReadiness: 'confirmed' as const
+        projectedImprovement: Math.round(trends.completionRateTrend * 4 * 10) / 10,
+        learningOpportunities: this.identifyLearningOpportunities(analysis, contextInsights),
+        adaptationReadiness
       },
       patternConfidence: {
-        scheduleReliability: 0.87,
-        modelRecommendationAccuracy: 0.91,
-        contextPredictionAccuracy: 0.78
+        scheduleReliability: this.calculateScheduleReliability(analysis.sessions),
+        modelRecommendationAccuracy: modelPerformance.mostEffective ?
+          modelPerformance.models[modelPerformance.mostEffective].successRate : 0,
+        contextPredictionAccuracy: this.calculateContextCoverage(analysis.sessions)
       }
     };
   }
 
   /**
-   * A/B Testing Framework for model comparison
+   * Reports which metrics rest on enough recorded data
    */
-  async runABTest(
-    modelA: string,
-    modelB: string,
-    testDuration: number, // days
-    sampleSize: number = 30
-  ): Promise<ABLegacyTestResults> {
-
-    // Initialize test parameters
-    const testConfig = {
-      testId: `ab_${Date.now()}`,
-      modelA,
-      modelB,
-      startDate: new Date(),
-      duration: testDuration,
-      targetSampleSize: sampleSize,
-      status: 'running' as const
-    };
-
-    // This would run the A/B test by routing users between models
-    // and collecting performance metrics
+  private assessDataAvailability(
+    analysis: UsageAnalysis,
+    trendAnalysis: UsageAnalysis,
+    contextInsights: ContextualInsights
+  ): Record<PerformanceMetricKey, MetricAvailability> {
+    const ratedSessions = this.completionRates(analysis.sessions).length;
+    const ratings = analysis.sessions.filter(s => s.satisfaction !== null).length;
+    const qualifiedModels = Array.from(this.groupBy(analysis.sessions, s => s.modelId).values())
+      .filter(sessions => this.completionRates(sessions).length >= MIN_SESSIONS_PER_MODEL).length;
+    const weeksWithData = this.calculateWeeklyMetrics(trendAnalysis).filter(w => w.sessions > 0).length;
+
+    const availability = (sampleSize: number, requiredSamples: number, note: string): MetricAvailability => ({
+      sufficient: sampleSize >= requiredSamples,
+      sampleSize,
+      requiredSamples,
+      ...(sampleSize < requiredSamples && { note })
+    });
 
     return {
-      testId: testConfig.testId,
-      modelA,
-      modelB,
-      duration: testDuration,
-      sampleSizeA: Math.floor(sampleSize / 2),
-      sampleSizeB: Math.floor(sampleSize / 2),
-      completionRateA: 0.78,
-      completionRateB: 0.82,
-      satisfactionA: 4.2,
-      satisfactionB: 4.5,
-      winner: modelB,
-      confidenceLevel: 0.95,
-      statisticalSignificance: true,
-      recommendations: [
-        `${modelB} shows statistically significant improvement (4.5% in completion rate, 7.1% in satisfaction)`,
-        `Implement ${modelB} as default model for similar contexts`,
-        `Continue monitoring performance to validate sustained improvement`
-      ],
-      status: 'completed'
+      completionRate: availability(ratedSessions, MIN_SESSIONS_FOR_METRIC,
+        `Completion rate needs ${MIN_SESSIONS_FOR_METRIC} sessions that finished or reached a break`),
+      satisfaction: availability(ratings, MIN_SESSIONS_FOR_METRIC,
+        `Satisfaction needs ${MIN_SESSIONS_FOR_METRIC} rated sessions`),
+      modelComparison: availability(qualifiedModels, 1,
+        `Model comparison needs ${MIN_SESSIONS_PER_MODEL} completed sessions with at least one model`),
+      timePatterns: availability(contextInsights.timeBasedPatterns.length, 1,
+        `Time-of-day patterns need ${MIN_SESSIONS_PER_CONTEXT} sessions in the same part of the day`),
+      taskPatterns: availability(contextInsights.taskBasedPatterns.length, 1,
+        `Task patterns need ${MIN_SESSIONS_PER_CONTEXT} sessions of the same task type`),
+      energyPatterns: availability(contextInsights.energyBasedPatterns.length, 1,
+        `Energy patterns need ${MIN_SESSIONS_PER_CONTEXT} sessions at the same energy level`),
+      trends: availability(weeksWithData, MIN_WEEKS_FOR_TREND,
+        `Trends need sessions in at least ${MIN_WEEKS_FOR_TREND} different weeks`),
+      predictions: availability(ratedSessions, MIN_SESSIONS_FOR_METRIC * 2,
+        `Predictions need ${MIN_SESSIONS_FOR_METRIC * 2} sessions with completion data`)
     };
   }
 
@@ -347,400 +508,419 @@ export class PerformanceAnalyticsEngine {
     reasoning: string[];
     alternativeModels: Array<{ model: string; score: number; reason: string }>;
   } {
+    const sessions = this.analyzeUsageData('month').sessions;
+
+    // Rank models by how they performed in sessions resembling the current context
+    const similar = sessions.filter(s =>
+      (sessionContext.workType === undefined || s.context.workType === sessionContext.workType) &&
+      (sessionContext.timeOfDay === undefined || this.sameSlot(s.start.getHours(), sessionContext.timeOfDay))
+    );
 
-    // Analyze current context to recommend optimal model
-    const optimalModel = this.selectOptimalModelForContext(sessionContext);
+    const ranked = Array.from(this.groupBy(similar, s => s.modelId).entries())
+      .map(([model, modelSessions]) => {
+        const rates = this.completionRates(modelSessions);
+        return { model, score: rates.length > 0 ? this.average(rates) : 0, count: rates.length };
+      })
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) {
+      return {
+        optimalModel: this.selectOptimalModelForContext(sessionContext),
+        confidenceScore: 0,
+        reasoning: ['No recorded sessions in a similar context yet - using default heuristics'],
+        alternativeModels: []
+      };
+    }
 
+    const best = ranked[0];
     return {
-      optimalModel,
-      confidenceScore: 0.83,
+      optimalModel: best.model,
+      confidenceScore: Math.round(Math.min(1, best.count / 10) * best.score * 100) / 100,
       reasoning: [
-        `Based on ${sessionContext.timeOfDay}h timing pattern`,
-        `${sessionContext.workType} task type optimization`,
-        `Historical success rate: 91% for similar contexts`
+        `Based on ${similar.length} recorded sessions in a similar context`,
+        ...(sessionContext.workType ? [`${sessionContext.workType} task type optimization`] : []),
+        `Historical completion rate: ${Math.round(best.score * 100)}% over ${best.count} sessions`
       ],
-      alternativeModels: [
-        {
-          model: 'pomodoro-classic',
-          score: 0.76,
-          reason: 'Reliable performance across all contexts'
-        },
-        {
-          model: 'creative_session',
-          score: 0.69,
-          reason: 'Enhanced for brainstorming tasks'
-        }
-      ]
+      alternativeModels: ranked.slice(1, 3).map(entry => ({
+        model: entry.model,
+        score: Math.round(entry.score * 100) / 100,
+        reason: `${Math.round(entry.score * 100)}% completion over ${entry.count} similar sessions`
+      }))
     };
   }
 
   /**
-   * Performance Benchmarking Against Industry Standards
+   * Benchmarks the latest week against your own recorded weeks.
+   * There is no shared dataset to compare with, so percentiles are personal.
    */
-  generateBenchmarkReport(): {
-    productivityPercentile: number;
-    completionRatePercentile: number;
-    satisfactionPercentile: number;
-    comparedToIndustryAverage: Record<string, string>;
-    strengths: string[];
-    focusAreas: string[];
-  } {
+  generateBenchmarkReport(): BenchmarkReport {
+    const weeks = this.calculateWeeklyMetrics(this.analyzeUsageData('all'));
+    const weeksWithData = weeks.filter(w => w.sessions > 0).length;
+
+    const dataAvailability: MetricAvailability = {
+      sufficient: weeksWithData >= MIN_WEEKS_FOR_BENCHMARK,
+      sampleSize: weeksWithData,
+      requiredSamples: MIN_WEEKS_FOR_BENCHMARK,
+      ...(weeksWithData < MIN_WEEKS_FOR_BENCHMARK && {
+        note: `Benchmarks need sessions in at least ${MIN_WEEKS_FOR_BENCHMARK} different weeks`
+      })
+    };
+
+    const metrics = [
+      { key: 'productivity', label: 'productivity score', values: weeks.map(w => w.productivity) },
+      { key: 'breakCompliance', label: 'breaks taken on schedule', values: weeks.map(w => w.breakCompliance) },
+      { key: 'sessionCompletion', label: 'session completion', values: weeks.map(w => w.completionRate) },
+      { key: 'satisfaction', label: 'session satisfaction', values: weeks.map(w => w.satisfaction) }
+    ].map(metric => ({
+      ...metric,
+      ...(dataAvailability.sufficient ? this.rankLatestWeek(metric.values) : { percentile: null, change: null })
+    }));
+
+    const comparedToYourAverage: Record<string, string> = {};
+    metrics.forEach(metric => {
+      if (metric.change !== null) {
+        comparedToYourAverage[metric.key] = `${metric.change >= 0 ? '+' : ''}${metric.change}% vs your weekly average`;
+      }
+    });
+
+    const percentileOf = (key: string) => metrics.find(m => m.key === key)?.percentile ?? null;
+
     return {
-      productivityPercentile: 78,
-      completionRatePercentile: 82,
-      satisfactionPercentile: 75,
-      comparedToIndustryAverage: {
-        productivity: '+15% above average',
-        breakCompliance: '+22% above average',
-        sessionCompletion: '+18% above average'
-      },
-      strengths: [
-        'Exceptional session completion rates',
-        'High user satisfaction scores',
-        'Effective break management'
-      ],
-      focusAreas: [
-        'Optimization of work-period lengths',
-        'Enhanced context-awareness',
-        'Personalization refinements'
-      ]
+      productivityPercentile: percentileOf('productivity'),
+      completionRatePercentile: percentileOf('sessionCompletion'),
+      satisfactionPercentile: percentileOf('satisfaction'),
+      comparedToYourAverage,
+      strengths: metrics
+        .filter(m => m.percentile !== null && m.percentile >= 75)
+        .map(m => `${m.label.charAt(0).toUpperCase() + m.label.slice(1)} better than ${m.percentile}% of your weeks`),
+      focusAreas: metrics
+        .filter(m => m.percentile !== null && m.percentile <= 25)
+        .map(m => `${m.label.charAt(0).toUpperCase() + m.label.slice(1)} below most of your recorded weeks`),
+      dataAvailability
     };
   }
 
   /**
-   * Helper Methods
+   * Share of earlier weeks the latest week matched or beat, and its change against their average
    */
-
-  private generateMockAnalysisData(timeRange: 'week' | 'month' | 'all'): UsageEvent[] {
-    // Generate realistic mock data for analysis
-    const events: UsageEvent[] = [];
-    const sessionCount = timeRange === 'week' ? 14 : timeRange === 'month' ? 60 : 200;
-
-    for (let i = 0; i < sessionCount; i++) {
-      events.push({
-        id: `mock_${i}`,
-        type: UsageEventType.SESSION_STARTED,
-        timestamp: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000),
-        source: 'user_selection',
-        context: this.generateRandomContext(),
-        metadata: { plannedDuration: 45, taskType: 'coding' }
-      });
+  private rankLatestWeek(values: Array<number | null>): { percentile: number | null; change: number | null } {
+    const latest = values[values.length - 1];
+    const earlier = values.slice(0, -1).filter((v): v is number => v !== null);
+    if (latest === null || latest === undefined || earlier.length === 0) {
+      return { percentile: null, change: null };
     }
 
-    return events;
+    const baseline = this.average(earlier);
+    return {
+      percentile: Math.round((earlier.filter(v => v <= latest).length / earlier.length) * 100),
+      change: baseline === 0 ? null : Math.round(((latest - baseline) / baseline) * 100)
+    };
   }
 
-  private generateRandomContext(): ContextSnapshot {
-    const hours = [9, 10, 11, 14, 15, 16].map(h => h + Math.floor(Math.random() * 3));
-    const workTypes: ('coding' | 'debugging' | 'writing' | 'planning' | 'reviewing' | 'researching' | 'meeting')[] =
-      ['coding', 'debugging', 'writing', 'planning', 'reviewing', 'researching', 'meeting'];
+  /**
+   * Helper Methods
+   */
 
-    return {
-      timeOfDay: hours[Math.floor(Math.random() * hours.length)],
-      dayOfWeek: Math.floor(Math.random() * 7),
-      workType: workTypes[Math.floor(Math.random() * workTypes.length)],
-      screenActivity: Math.floor(Math.random() * 10) + 1,
-      notificationLoad: ['low', 'medium', 'high'][Math.floor(Math.random() * 3)] as 'low' | 'medium' | 'high',
-      energyLevel: ['low', 'medium', 'high'][Math.floor(Math.random() * 3)] as 'low' | 'medium' | 'high',
-      lastBreakTime: Math.random() > 0.5 ? new Date(Date.now() - Math.random() * 60 * 60 * 1000) : undefined,
-      openEditors: Math.floor(Math.random() * 8) + 1,
-      statusMessages: []
-    };
+  private getRangeStart(timeRange: TimeRange): Date {
+    switch (timeRange) {
+      case 'week': return new Date(Date.now() - 7 * DAY_MS);
+      case 'month': return new Date(Date.now() - 30 * DAY_MS);
+      case 'all': return new Date(0);
+    }
   }
 
-  private getSampleCompletionRates(timeRange: 'week' | 'month' | 'all'): number[] {
-    // Mock completion rates
-    const baseRates = [0.65, 0.72, 0.78, 0.81, 0.75, 0.84, 0.79, 0.73, 0.86, 0.88];
-    return baseRates.slice(0, timeRange === 'week' ? 7 : timeRange === 'month' ? 20 : 30);
+  private weeksInRange(analysis: UsageAnalysis): number {
+    const firstEvent = analysis.events[0]?.timestamp.getTime() ?? Date.now();
+    const start = Math.max(analysis.since.getTime(), firstEvent);
+    return Math.max(1, (Date.now() - start) / WEEK_MS);
   }
 
-  private calculateSessionFrequency(timeRange: 'week' | 'month' | 'all'): number {
-    const daysInRange = timeRange === 'week' ? 7 : timeRange === 'month' ? 30 : 90;
-    const totalSessions = this.usageService.getUsageStatistics(timeRange).totalSessions;
-    return Math.round((totalSessions / daysInRange) * 100) / 100;
+  private calculateSessionsPerWeek(analysis: UsageAnalysis): number {
+    return analysis.sessions.length / this.weeksInRange(analysis);
   }
 
-  private calculateAverageSatisfaction(timeRange: 'week' | 'month' | 'all'): number {
-    // Mock satisfaction scores (1-5 scale), adjusted by time range
-    const baseScore = 4.2;
-    return timeRange === 'week' ? baseScore - 0.1 : timeRange === 'all' ? baseScore + 0.2 : baseScore;
+  private completionRates(sessions: SessionRecord[]): number[] {
+    return sessions.map(s => s.completionRate).filter((r): r is number => r !== null);
   }
 
-  private getModelCompletionRate(modelId: string, timeRange: 'week' | 'month' | 'all'): number {
-    // Model-specific completion rates, adjusted based on time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = 0.05; // Slightly lower for shorter periods
-    else if (timeRange === 'all') adjustment = -0.02; // Slightly higher for all time due to learning
+  private calculateSkipRate(sessions: SessionRecord[]): number | null {
+    const taken = sessions.reduce((sum, s) => sum + s.breaksTaken, 0);
+    const skipped = sessions.reduce((sum, s) => sum + s.breaksSkipped, 0);
+    return taken + skipped > 0 ? skipped / (taken + skipped) : null;
+  }
 
-    const rates: Record<string, number> = {
-      'pomodoro-classic': 0.82 + adjustment,
-      'who-45min-work-15min-rest': 0.78 + adjustment,
-      'creative_session': 0.75 + adjustment,
-      'debugging_session': 0.79 + adjustment,
-      'learning_session': 0.73 + adjustment,
-      'administrative': 0.85 + adjustment
-    };
-    return rates[modelId] || 0.78;
-  }
-
-  private getModelSatisfaction(modelId: string, timeRange: 'week' | 'month' | 'all'): number {
-    // Model-specific satisfaction scores, adjusted by time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = 0.1; // Lower satisfaction for recent data where issues are more apparent
-    else if (timeRange === 'all') adjustment = -0.05; // Slightly higher satisfaction with time due to adaptation
-
-    const scores: Record<string, number> = {
-      'pomodoro-classic': 4.3 + adjustment,
-      'who-45min-work-15min-rest': 4.1 + adjustment,
-      'creative_session': 4.5 + adjustment,
-      'debugging_session': 4.2 + adjustment,
-      'learning_session': 3.9 + adjustment,
-      'administrative': 3.8 + adjustment
-    };
-    return scores[modelId] || 4.0;
+  private average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
   }
 
-  private calculateModelSuccessRate(modelId: string, timeRange: 'week' | 'month' | 'all'): number {
-    const completion = this.getModelCompletionRate(modelId, timeRange);
-    const satisfaction = (this.getModelSatisfaction(modelId, timeRange) - 1) / 4; // Normalize to 0-1
-    return (completion * 0.7) + (satisfaction * 0.3);
+  /**
+   * Average change per step, ignoring steps without data; 0 when fewer than two points exist
+   */
+  private slope(values: Array<number | null>): number {
+    const points = values
+      .map((value, index) => ({ x: index, y: value }))
+      .filter((p): p is { x: number; y: number } => p.y !== null);
+    if (points.length < MIN_WEEKS_FOR_TREND) return 0;
+
+    const meanX = this.average(points.map(p => p.x));
+    const meanY = this.average(points.map(p => p.y));
+    const numerator = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+    const denominator = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    return denominator === 0 ? 0 : Math.round((numerator / denominator) * 10) / 10;
   }
 
-  private findBestContextForModel(modelId: string, timeRange: 'week' | 'month' | 'all'): string {
-    // Mock context analysis, with timeRange-specific variations
-    const baseContexts: Record<string, string> = {
-      'pomodoro-classic': 'General purpose, works well morning and afternoon',
-      'creative_session': 'Best for morning creative work (9-11 AM)',
-      'debugging_session': 'Optimal during focused afternoon periods',
-      'learning_session': 'Most effective during high-energy morning hours'
-    };
+  private groupBy<K>(sessions: SessionRecord[], key: (session: SessionRecord) => K): Map<K, SessionRecord[]> {
+    const groups = new Map<K, SessionRecord[]>();
+    sessions.forEach(session => {
+      const groupKey = key(session);
+      if (!groups.has(groupKey)) {
+        groups.set(groupKey, []);
+      }
+      groups.get(groupKey)!.push(session);
+    });
+    return groups;
+  }
 
-    const suffix = timeRange === 'week' ? ' (recent usage)' : timeRange === 'all' ? ' (historical data)' : ' (monthly trends)';
-    return (baseContexts[modelId] || 'Universal application') + suffix;
+  private isInSlot(hour: number, slot: { start: number; end: number }): boolean {
+    return slot.start < slot.end ?
+      hour >= slot.start && hour < slot.end :
+      hour >= slot.start || hour < slot.end;
   }
 
-  private calculateModelPerformanceScore(modelId: string, timeRange: 'week' | 'month' | 'all'): number {
-    const success = this.calculateModelSuccessRate(modelId, timeRange);
-    const frequency = this.getModelUsageFrequency(modelId, timeRange);
-    return (success * 0.8) + (Math.min(frequency, 10) / 10 * 0.2);
+  private sameSlot(hourA: number, hourB: number): boolean {
+    return TIME_SLOTS.some(slot => this.isInSlot(hourA, slot) && this.isInSlot(hourB, slot));
   }
 
-  private getModelUsageFrequency(modelId: string, timeRange: 'week' | 'month' | 'all'): number {
-    // Mock usage frequency, seeded by model and time range
-    const seed = modelId.length + (timeRange === 'week' ? 7 : timeRange === 'month' ? 30 : 90);
-    const base = Math.sin(seed) * 5 + 6; // Deterministic but random-seeming value
-    return Math.max(1, Math.floor(base)); // Ensuring at least 1
+  private bestModelFor(sessions: SessionRecord[]): { modelId: string; rate: number } | null {
+    const ranked = Array.from(this.groupBy(sessions, s => s.modelId).entries())
+      .map(([modelId, modelSessions]) => {
+        const rates = this.completionRates(modelSessions);
+        return { modelId, rate: rates.length > 0 ? this.average(rates) : -1 };
+      })
+      .filter(entry => entry.rate >= 0)
+      .sort((a, b) => b.rate - a.rate);
+    return ranked[0] || null;
   }
 
-  private analyzeTimeBasedPatterns(timeRange: 'week' | 'month' | 'all'):
-    Array<{ timeSlot: string; effectiveness: number; recommendedModel: string }> {
+  private calculateWeeklyMetrics(analysis: UsageAnalysis): Array<{
+    sessions: number;
+    completionRate: number | null;
+    satisfaction: number | null;
+    productivity: number | null;
+    breakCompliance: number | null;
+  }> {
+    const weekCount = Math.max(1, Math.ceil(this.weeksInRange(analysis)));
+    const now = Date.now();
+
+    const weeks = [];
+    for (let i = weekCount - 1; i >= 0; i--) {
+      const weekEnd = now - i * WEEK_MS;
+      const weekSessions = analysis.sessions.filter(s =>
+        s.start.getTime() > weekEnd - WEEK_MS && s.start.getTime() <= weekEnd
+      );
+      const rates = this.completionRates(weekSessions);
+      const completionRate = rates.length > 0 ? this.average(rates) : null;
+      const satisfaction = this.calculateAverageSatisfaction(weekSessions);
+      const skipRate = this.calculateSkipRate(weekSessions);
+
+      weeks.push({
+        sessions: weekSessions.length,
+        completionRate,
+        satisfaction,
+        productivity: completionRate === null ? null : this.calculateOverallProductivityScore({
+          ...analysis,
+          since: new Date(weekEnd - WEEK_MS),
+          events: analysis.events.filter(e => e.timestamp.getTime() > weekEnd - WEEK_MS && e.timestamp.getTime() <= weekEnd),
+          sessions: weekSessions
+        }),
+        breakCompliance: skipRate === null ? null : 1 - skipRate
+      });
+    }
+    return weeks;
+  }
 
-    // Adjust effectiveness based on time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = -5; // Less data, slightly lower effectiveness
-    else if (timeRange === 'all') adjustment = 2; // More data, better learning
+  private analyzeTimeBasedPatterns(sessions: SessionRecord[]):
+    Array<{ timeSlot: string; effectiveness: number; recommendedModel: string }> {
 
-    return [
-      {
-        timeSlot: '9:00-11:00 AM',
-        effectiveness: 87 + adjustment,
-        recommendedModel: 'creative_session'
-      },
-      {
-        timeSlot: '11:00 AM-2:00 PM',
-        effectiveness: 72 + adjustment,
-        recommendedModel: 'pomodoro-classic'
-      },
-      {
-        timeSlot: '2:00-5:00 PM',
-        effectiveness: 84 + adjustment,
-        recommendedModel: 'debugging_session'
-      },
-      {
-        timeSlot: '5:00-7:00 PM',
-        effectiveness: 65 + adjustment,
-        recommendedModel: 'administrative'
-      }
-    ];
+    return TIME_SLOTS
+      .map(slot => {
+        const slotSessions = sessions.filter(s => this.isInSlot(s.start.getHours(), slot));
+        const rates = this.completionRates(slotSessions);
+        const best = this.bestModelFor(slotSessions);
+        return { slot, rates, best };
+      })
+      .filter(({ rates, best }) => rates.length >= MIN_SESSIONS_PER_CONTEXT && best !== null)
+      .map(({ slot, rates, best }) => ({
+        timeSlot: slot.label,
+        effectiveness: Math.round(this.average(rates) * 100),
+        recommendedModel: best!.modelId
+      }));
   }
 
-  private analyzeTaskBasedPatterns(timeRange: 'week' | 'month' | 'all'):
+  private analyzeTaskBasedPatterns(sessions: SessionRecord[]):
     Array<{ taskType: string; optimalModel: string; successRate: number }> {
 
-    // Adjust success rates based on time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = -2; // Less data, slightly lower rates
-    else if (timeRange === 'all') adjustment = 3; // More data, better patterns
-
-    return [
-      {
-        taskType: 'Coding',
-        optimalModel: 'pomodoro-classic',
-        successRate: 83 + adjustment
-      },
-      {
-        taskType: 'Debugging',
-        optimalModel: 'debugging_session',
-        successRate: 78 + adjustment
-      },
-      {
-        taskType: 'Creative Work',
-        optimalModel: 'creative_session',
-        successRate: 85 + adjustment
-      },
-      {
-        taskType: 'Learning',
-        optimalModel: 'learning_session',
-        successRate: 71 + adjustment
-      },
-      {
-        taskType: 'Administrative',
-        optimalModel: 'administrative',
-        successRate: 89 + adjustment
-      }
-    ];
+    return Array.from(this.groupBy(sessions, s => s.context.workType).entries())
+      .map(([taskType, taskSessions]) => ({ taskType, rates: this.completionRates(taskSessions), best: this.bestModelFor(taskSessions) }))
+      .filter(({ rates, best }) => rates.length >= MIN_SESSIONS_PER_CONTEXT && best !== null)
+      .map(({ taskType, rates, best }) => ({
+        taskType: taskType.charAt(0).toUpperCase() + taskType.slice(1),
+        optimalModel: best!.modelId,
+        successRate: Math.round((rates.filter(r => r > SUCCESS_THRESHOLD).length / rates.length) * 100)
+      }));
   }
 
-  private analyzeEnergyBasedPatterns(timeRange: 'week' | 'month' | 'all'):
+  private analyzeEnergyBasedPatterns(sessions: SessionRecord[]):
     Array<{ energyLevel: 'low' | 'medium' | 'high'; recommendedApproach: string; expectedOutcome: number }> {
 
-    // Adjust expected outcomes based on time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = -3; // Less data, slightly lower outcomes
-    else if (timeRange === 'all') adjustment = 4; // More data, better outcomes
-
-    return [
-      {
-        energyLevel: 'high',
-        recommendedApproach: 'Extended focused periods with longer breaks',
-        expectedOutcome: 91 + adjustment
-      },
-      {
-        energyLevel: 'medium',
-        recommendedApproach: 'Standard pomodoro-style sessions',
-        expectedOutcome: 76 + adjustment
-      },
-      {
-        energyLevel: 'low',
-        recommendedApproach: 'Shorter sessions with more frequent micro-breaks',
-        expectedOutcome: 62 + adjustment
-      }
-    ];
+    return Array.from(this.groupBy(sessions, s => s.context.energyLevel).entries())
+      .map(([energyLevel, energySessions]) => ({ energyLevel, rates: this.completionRates(energySessions), best: this.bestModelFor(energySessions) }))
+      .filter(({ rates, best }) => rates.length >= MIN_SESSIONS_PER_CONTEXT && best !== null)
+      .map(({ energyLevel, rates, best }) => ({
+        energyLevel,
+        recommendedApproach: `Use ${best!.modelId} (${Math.round(best!.rate * 100)}% completion at ${energyLevel} energy)`,
+        expectedOutcome: Math.round(this.average(rates) * 100)
+      }));
   }
 
-  private identifyContextOptimizations(timeRange: 'week' | 'month' | 'all'):
-    Array<{ context: string; currentPerformance: number; optimizationOpportunity: string; expectedImprovement: number }> {
+  private identifyContextOptimizations(
+    sessions: SessionRecord[],
+    timeBasedPatterns: Array<{ timeSlot: string; effectiveness: number; recommendedModel: string }>
+  ): Array<{ context: string; currentPerformance: number; optimizationOpportunity: string; expectedImprovement: number }> {
+
+    const overallRates = this.completionRates(sessions);
+    if (overallRates.length < MIN_SESSIONS_FOR_METRIC) return [];
+    const overall = Math.round(this.average(overallRates) * 100);
+    const bestSlot = [...timeBasedPatterns].sort((a, b) => b.effectiveness - a.effectiveness)[0];
+
+    // Parts of the day that lag the user's own average
+    return timeBasedPatterns
+      .filter(pattern => pattern.effectiveness < overall - 10)
+      .map(pattern => ({
+        context: pattern.timeSlot,
+        currentPerformance: pattern.effectiveness,
+        optimizationOpportunity: bestSlot && bestSlot.timeSlot !== pattern.timeSlot ?
+          `Move demanding work to ${bestSlot.timeSlot} and use shorter cycles here` :
+          'Use shorter work cycles in this period',
+        expectedImprovement: overall - pattern.effectiveness
+      }));
+  }
 
-    // Adjust expected improvements based on time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = -2; // Less data, slightly lower improvements
-    else if (timeRange === 'all') adjustment = 3; // More data, better improvements
+  private generateAdaptiveRules(sessions: SessionRecord[]):
+    Array<{ condition: string; action: string; confidence: number }> {
 
-    return [
-      {
-        context: 'Morning High-Energy Periods',
-        currentPerformance: 76 + adjustment,
-        optimizationOpportunity: 'Switch to creative session model',
-        expectedImprovement: 15 + adjustment
-      },
-      {
-        context: 'Post-Lunch Fatigue',
-        currentPerformance: 58 + adjustment,
-        optimizationOpportunity: 'Implement shorter break intervals',
-        expectedImprovement: 22 + adjustment
-      },
-      {
-        context: 'Complex Debugging Tasks',
-        currentPerformance: 69 + adjustment,
-        optimizationOpportunity: 'Use specialized debugging model',
-        expectedImprovement: 18 + adjustment
-      }
-    ];
+    return TIME_SLOTS
+      .map(slot => {
+        const slotSessions = sessions.filter(s => this.isInSlot(s.start.getHours(), slot));
+        return { slot, count: this.completionRates(slotSessions).length, best: this.bestModelFor(slotSessions) };
+      })
+      .filter(({ count, best }) => count >= MIN_SESSIONS_PER_CONTEXT && best !== null)
+      .map(({ slot, count, best }) => ({
+        condition: slot.start < slot.end ?
+          `timeOfDay >= ${slot.start} && timeOfDay < ${slot.end}` :
+          `timeOfDay >= ${slot.start} || timeOfDay < ${slot.end}`,
+        action: `recommend ${best!.modelId} model`,
+        confidence: Math.round(Math.min(0.95, count / 10) * 100) / 100
+      }));
   }
 
-  private generateAdaptiveRules(timeRange: 'week' | 'month' | 'all'):
-    Array<{ condition: string; action: string; confidence: number }> {
+  private analyzeModelUsageEvolution(sessions: SessionRecord[]): Record<string, { usage: number; trend: number }> {
+    const evolution: Record<string, { usage: number; trend: number }> = {};
+    if (sessions.length === 0) return evolution;
 
-    // Adjust confidence based on time range
-    let adjustment = 0;
-    if (timeRange === 'week') adjustment = -0.05; // Less data, slightly lower confidence
-    else if (timeRange === 'all') adjustment = 0.03; // More data, higher confidence
+    const midpoint = Math.floor(sessions.length / 2);
+    const firstHalf = sessions.slice(0, midpoint);
+    const secondHalf = sessions.slice(midpoint);
+    const share = (subset: SessionRecord[], modelId: string): number =>
+      subset.length > 0 ? (subset.filter(s => s.modelId === modelId).length / subset.length) * 100 : 0;
 
-    return [
-      {
-        condition: 'timeOfDay >= 9 && timeOfDay <= 11 && workType === "creative"',
-        action: 'recommend creative_session model',
-        confidence: 0.89 + adjustment
-      },
-      {
-        condition: 'energyLevel === "low" && interruptions > 3',
-        action: 'recommend pomodoro-classic with micro-breaks',
-        confidence: 0.76 + adjustment
-      },
-      {
-        condition: 'timeOfDay >= 15 && timeOfDay <= 17',
-        action: 'recommend debugging_session model',
-        confidence: 0.82 + adjustment
-      },
-      {
-        condition: 'completionRate < 0.6 for 3 consecutive sessions',
-        action: 'trigger model adaptation recommendations',
-        confidence: 0.94 + adjustment
-      }
-    ];
+    this.groupBy(sessions, s => s.modelId).forEach((modelSessions, modelId) => {
+      evolution[modelId] = {
+        usage: Math.round((modelSessions.length / sessions.length) * 100),
+        trend: firstHalf.length > 0 ? Math.round(share(secondHalf, modelId) - share(firstHalf, modelId)) : 0
+      };
+    });
+    return evolution;
   }
 
-  private calculateProductivityTrend(): number {
-    // Positive or negative change in productivity score
-    return 2.5; // +2.5 points per week trend
-  }
+  private detectBehavioralShifts(analysis: UsageAnalysis): Array<{ shift: string; impact: string; dateDetected: Date }> {
+    const sessions = analysis.sessions;
+    if (sessions.length < MIN_SESSIONS_FOR_METRIC * 2) return [];
+
+    const midpoint = Math.floor(sessions.length / 2);
+    const firstHalf = sessions.slice(0, midpoint);
+    const secondHalf = sessions.slice(midpoint);
+    const dateDetected = secondHalf[0].start;
+    const shifts: Array<{ shift: string; impact: string; dateDetected: Date }> = [];
+
+    const firstSkipRate = this.calculateSkipRate(firstHalf);
+    const secondSkipRate = this.calculateSkipRate(secondHalf);
+    if (firstSkipRate !== null && secondSkipRate !== null && Math.abs(secondSkipRate - firstSkipRate) >= 0.2) {
+      const skippingMore = secondSkipRate > firstSkipRate;
+      shifts.push({
+        shift: skippingMore ? 'Skipping more scheduled breaks' : 'Skipping fewer scheduled breaks',
+        impact: skippingMore ? 'Higher fatigue risk - current work periods may be too long' : 'Better break adherence',
+        dateDetected
+      });
+    }
 
-  private calculateCompletionRateTrend(): number {
-    // Change in completion rates over time
-    return 1.8; // +1.8% per week
-  }
+    const dominant = (subset: SessionRecord[]): string | undefined =>
+      Array.from(this.groupBy(subset, s => s.modelId).entries()).sort((a, b) => b[1].length - a[1].length)[0]?.[0];
+    const firstModel = dominant(firstHalf);
+    const secondModel = dominant(secondHalf);
+    if (firstModel && secondModel && firstModel !== secondModel) {
+      shifts.push({
+        shift: `Increased preference for ${secondModel} over ${firstModel}`,
+        impact: 'Model recommendations will follow the newer preference',
+        dateDetected
+      });
+    }
 
-  private calculateSatisfactionTrend(): number {
-    // Change in satisfaction scores
-    return 0.3; // +0.3 points per week
-  }
+    const averageHour = (subset: SessionRecord[]): number => this.average(subset.map(s => s.start.getHours()));
+    const hourShift = averageHour(secondHalf) - averageHour(firstHalf);
+    if (Math.abs(hourShift) >= 2) {
+      shifts.push({
+        shift: `Sessions starting about ${Math.round(Math.abs(hourShift))}h ${hourShift > 0 ? 'later' : 'earlier'} in the day`,
+        impact: 'Peak-hour recommendations may need recalibration',
+        dateDetected
+      });
+    }
 
-  private analyzeModelUsageEvolution(): Record<string, { usage: number; trend: number }> {
-    return {
-      'pomodoro-classic': { usage: 45, trend: -5 },
-      'who-45min-work-15min-rest': { usage: 35, trend: 8 },
-      'creative_session': { usage: 15, trend: 12 },
-      'debugging_session': { usage: 25, trend: -2 }
-    };
+    return shifts;
   }
 
-  private detectBehavioralShifts(): Array<{ shift: string; impact: string; dateDetected: Date }> {
-    return [
-      {
-        shift: 'Increased preference for WHO guidelines over pomodoro',
-        impact: 'Better work-life balance, slightly lower completion rates',
-        dateDetected: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-      },
-      {
-        shift: 'Reduced afternoon productivity',
-        impact: 'Opportunity for energy-awareness features',
-        dateDetected: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
-      }
-    ];
-  }
+  private identifyImprovementAreas(analysis: UsageAnalysis): string[] {
+    const areas: string[] = [];
+    const sessions = analysis.sessions;
+
+    if (sessions.length < MIN_SESSIONS_FOR_METRIC) {
+      return ['Complete a few more work-rest sessions so improvement areas can be identified'];
+    }
+
+    const skipRate = this.calculateSkipRate(sessions);
+    if (skipRate !== null && skipRate > 0.3) {
+      areas.push('Break adherence - many scheduled breaks are skipped or snoozed');
+    }
+
+    const completion = this.calculateAverageCompletionRate(sessions);
+    if (completion < SUCCESS_THRESHOLD) {
+      areas.push('Session completion - work periods are often cut short');
+    }
 
-  private identifyImprovementAreas(): string[] {
-    return [
-      'Enhanced break activity recommendations',
-      'Better energy level detection and utilization',
-      'More granular task-type differentiation',
-      'Improved model adaptation triggering'
-    ];
+    const satisfaction = this.calculateAverageSatisfaction(sessions);
+    if (satisfaction === null) {
+      areas.push('Session feedback - rate sessions to personalize recommendations');
+    } else if (satisfaction < 3.5) {
+      areas.push('Session satisfaction - try a different work-rest model');
+    }
+
+    return areas;
   }
 
-  private filterEventsByContext(events: UsageEvent[], contextFilter: Partial<ContextSnapshot>): UsageEvent[] {
-    return events.filter(event => {
-      const context = event.context;
+  private filterSessionsByContext(sessions: SessionRecord[], contextFilter: Partial<ContextSnapshot>): SessionRecord[] {
+    return sessions.filter(session => {
+      const context = session.context;
       if (contextFilter.timeOfDay !== undefined && context.timeOfDay !== contextFilter.timeOfDay) return false;
       if (contextFilter.dayOfWeek !== undefined && context.dayOfWeek !== contextFilter.dayOfWeek) return false;
       if (contextFilter.workType !== undefined && context.workType !== contextFilter.workType) return false;
@@ -751,28 +931,6 @@ export class PerformanceAnalyticsEngine {
     });
   }
 
-  private generateLearningDataPoints(events: UsageEvent[]): LearningDataPoint[] {
-    return events.map(event => ({
-      timestamp: new Date(),
-      modelId: event.modelId || 'unknown',
-      success: Math.random() > 0.2, // Mock success rate
-      context: event.context,
-      metrics: {
-        completionRate: Math.random() * 0.5 + 0.5, // 0.5-1.0
-        interruptions: Math.floor(Math.random() * 5),
-        breaksTaken: Math.floor(Math.random() * 4),
-        focusPeriods: Math.floor(Math.random() * 6),
-        manualOverrides: Math.floor(Math.random() * 2)
-      },
-      learning: {
-        idealDurationAdjustment: Math.floor(Math.random() * 21) - 10, // -10 to +10
-        preferredBreakPattern: 'frequent_short',
-        optimalBreakFrequency: 25 + Math.floor(Math.random() * 20), // 25-45 minutes
-        contextAdaptations: {}
-      }
-    }));
-  }
-
   private selectOptimalModelForContext(context: Partial<ContextSnapshot>): string {
     // Context-aware model selection logic
     const hour = context.timeOfDay || 12;
@@ -792,29 +950,76 @@ export class PerformanceAnalyticsEngine {
     return 'who-45min-work-15min-rest';
   }
 
-  private calculateOptimalScheduleTimes(): number[] {
-    return [9, 10, 11, 14, 15, 16]; // Hours
+  private calculateOptimalScheduleTimes(sessions: SessionRecord[]): number[] {
+    return Array.from(this.groupBy(sessions, s => s.start.getHours()).entries())
+      .map(([hour, hourSessions]) => ({ hour, rates: this.completionRates(hourSessions) }))
+      .filter(({ rates }) => rates.length >= MIN_SESSIONS_PER_CONTEXT)
+      .sort((a, b) => this.average(b.rates) - this.average(a.rates))
+      .slice(0, 3)
+      .map(({ hour }) => hour)
+      .sort((a, b) => a - b);
   }
 
-  private identifyNextWeekRisks(): string[] {
-    return [
-      'Potential afternoon productivity dip due to summer heat',
-      'Meeting schedule conflicts on Tuesday and Thursday',
-      'Energy fluctuations from weekend travel'
-    ];
+  private identifyNextWeekRisks(analysis: UsageAnalysis, trends: TrendAnalysis): string[] {
+    const risks: string[] = [];
+
+    const skipRate = this.calculateSkipRate(analysis.sessions);
+    if (skipRate !== null && skipRate > 0.4) {
+      risks.push(`High break skip rate (${Math.round(skipRate * 100)}%) increases fatigue risk`);
+    }
+
+    if (trends.productivityTrend < 0) {
+      risks.push('Productivity score has been declining week over week');
+    }
+
+    const lateSessions = analysis.sessions.filter(s => s.start.getHours() >= 22 || s.start.getHours() < 6).length;
+    if (analysis.sessions.length > 0 && lateSessions / analysis.sessions.length > 0.25) {
+      risks.push('Frequent late-night sessions may affect next-day energy');
+    }
+
+    return risks;
   }
 
-  private forecastMonthlyImprovement(): number {
-    return 7.5; // Expected +7.5% improvement this month
+  private identifyLearningOpportunities(analysis: UsageAnalysis, contextInsights: ContextualInsights): string[] {
+    const opportunities: string[] = [];
+
+    if (this.completionRates(analysis.sessions).length < MIN_SESSIONS_FOR_METRIC * 2) {
+      opportunities.push('Complete more work-rest sessions to improve predictions');
+    }
+    if (analysis.sessions.every(s => s.satisfaction === null)) {
+      opportunities.push('Rate sessions to let satisfaction guide recommendations');
+    }
+    if (contextInsights.taskBasedPatterns.length < 2) {
+      opportunities.push('Use DotSense across different task types for task-specific optimization');
+    }
+    if (new Set(analysis.sessions.map(s => s.modelId)).size < 2) {
+      opportunities.push('Try a second work-rest model so models can be compared');
+    }
+
+    return opportunities;
   }
 
-  private identifyLearningOpportunities(): string[] {
-    return [
-      'Collect more context data for task-type optimization',
-      'Implement energy level self-reporting',
-      'Test hybrid model combinations',
-      'Develop personalized notification timing'
-    ];
+  /**
+   * How tightly session start times cluster (0-1)
+   */
+  private calculateScheduleReliability(sessions: SessionRecord[]): number {
+    if (sessions.length < MIN_SESSIONS_FOR_METRIC) return 0;
+    const hours = sessions.map(s => s.start.getHours());
+    const mean = this.average(hours);
+    const stdDev = Math.sqrt(this.average(hours.map(h => (h - mean) ** 2)));
+    return Math.round(Math.max(0, 1 - stdDev / 6) * 100) / 100;
+  }
+
+  /**
+   * Share of sessions that fall in a part of the day with a learned pattern
+   */
+  private calculateContextCoverage(sessions: SessionRecord[]): number {
+    if (sessions.length === 0) return 0;
+    const learnedSlots = TIME_SLOTS.filter(slot =>
+      this.completionRates(sessions.filter(s => this.isInSlot(s.start.getHours(), slot))).length >= MIN_SESSIONS_PER_CONTEXT
+    );
+    const covered = sessions.filter(s => learnedSlots.some(slot => this.isInSlot(s.start.getHours(), slot))).length;
+    return Math.round((covered / sessions.length) * 100) / 100;
   }
 
   private generateContextualAdjustments(contextInsights: ContextualInsights):
@@ -823,12 +1028,12 @@ export class PerformanceAnalyticsEngine {
     const adjustments = [];
 
     // Use time-based patterns for adjustments
-    const mostEffectiveTimeSlot = contextInsights.timeBasedPatterns.sort((a, b) => b.effectiveness - a.effectiveness)[0];
+    const mostEffectiveTimeSlot = [...contextInsights.timeBasedPatterns].sort((a, b) => b.effectiveness - a.effectiveness)[0];
     if (mostEffectiveTimeSlot) {
       adjustments.push({
         adjustment: `Optimize schedule for ${mostEffectiveTimeSlot.timeSlot} using ${mostEffectiveTimeSlot.recommendedModel}`,
-        triggerCondition: `timeOfDay >= ${mostEffectiveTimeSlot.timeSlot.split('-')[0]} && timeOfDay <= ${mostEffectiveTimeSlot.timeSlot.split('-')[1]}`,
-        expectedBenefit: `Expected improvement of ${mostEffectiveTimeSlot.effectiveness - 60}% in effectiveness`
+        triggerCondition: `timeOfDay in ${mostEffectiveTimeSlot.timeSlot}`,
+        expectedBenefit: `${mostEffectiveTimeSlot.effectiveness}% completion observed in this period`
       });
     }
 
@@ -842,17 +1047,6 @@ export class PerformanceAnalyticsEngine {
       });
     }
 
-    // Add default adjustments if none generated
-    if (adjustments.length === 0) {
-      adjustments.push(
-        {
-          adjustment: 'Switch to shorter work periods',
-          triggerCondition: 'energyLevel === "low" && timeOfDay > 15',
-          expectedBenefit: 'Improved completion rates by 12%'
-        }
-      );
-    }
-
     return adjustments;
   }
 }
@@ -3,6 +3,7 @@ import { ReminderType } from '../types';
 import { reminderMessages } from '../constants/reminderMessages';
 import { getConfiguration } from '../core/configuration';
 import { state } from '../models/state';
+import { getActiveTimeBlock } from './timeBlockScheduleService';
 
 interface ContextAnalysis {
   time: number;
@@ -374,7 +375,10 @@ export function startReminderSystem(): void {
   state.nextReminderTime = Date.now() + config.interval * 60 * 1000;
 
   state.reminderTimer = setInterval(() => {
-    showRandomReminder();
+    // Planned meeting blocks are no time to nag - reminders asked for by hand still show
+    if (getActiveTimeBlock()?.type !== 'meetings') {
+      showRandomReminder();
+    }
     // Update next reminder time after showing reminder
     state.nextReminderTime = Date.now() + config.interval * 60 * 1000;
   }, config.interval * 60 * 1000);
@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { state } from '../models/state';
+import { getConfiguration } from '../core/configuration';
+import { BaseActivityMonitor } from './activityIntegration/baseActivityMonitor';
+import { getOtherWindows, onDidUpdateOtherWindows } from './windowCoordinator';
+import { Logger } from '../utils/logger';
+
+/**
+ * Debug session and task awareness for rest
+ * Tracks debug sessions (through the activity monitor) and running (non-background) tasks such as
+ * builds and deploys, so the work-rest timer can hold a break until they finish - within the
+ * configured limits. Blockers in other windows count too, since all windows share one session.
+ */
+
+export interface RestDeferralBlocker {
+  kind: 'debug' | 'task';
+  name: string;
+}
+
+interface StoredDeferralCount {
+  date: string;
+  count: number;
+}
+
+const DEFERRAL_COUNT_KEY = 'restDeferral.today';
+
+let debugMonitor: BaseActivityMonitor | null = null;
+const runningTasks = new Map<vscode.TaskExecution, { name: string; startedAt: number }>();
+let otherWindowsBlocked = false;
+
+// Fires when the last debug session or task holding a break back has ended
+const blockersCleared = new vscode.EventEmitter<void>();
+export const onDidClearRestDeferralBlockers = blockersCleared.event;
+
+export function initializeRestDeferral(context: vscode.ExtensionContext, monitor: BaseActivityMonitor): void {
+  debugMonitor = monitor;
+
+  // Tasks already running when the extension starts
+  (vscode.tasks.taskExecutions || []).forEach(execution => trackTaskStart(execution));
+
+  context.subscriptions.push(
+    monitor.onDidChangeDebugSessions(() => notifyIfCleared()),
+    vscode.tasks.onDidStartTask(event => trackTaskStart(event.execution)),
+    vscode.tasks.onDidEndTask(event => {
+      if (runningTasks.delete(event.execution)) {
+        notifyIfCleared();
+      }
+    }),
+    // A debug session or task ending in another window releases the break as well
+    onDidUpdateOtherWindows(() => {
+      const blocked = getOtherWindows().some(window => (window.restBlockers || []).length > 0);
+      if (otherWindowsBlocked && !blocked) notifyIfCleared();
+      otherWindowsBlocked = blocked;
+    }),
+    { dispose: () => { debugMonitor = null; } }
+  );
+}
+
+function trackTaskStart(execution: vscode.TaskExecution): void {
+  // Watch tasks never end on their own, so they cannot hold a break
+  if (execution.task.isBackground) return;
+  runningTasks.set(execution, { name: execution.task.name, startedAt: Date.now() });
+}
+
+function notifyIfCleared(): void {
+  if (!getRestDeferralBlocker()) {
+    blockersCleared.fire();
+  }
+}
+
+/**
+ * Debug sessions and tasks in this window that may hold a break back, given the settings.
+ * Other windows publish these for the window running the session.
+ */
+export function getLocalRestDeferralBlockers(): RestDeferralBlocker[] {
+  const config = getConfiguration();
+  const blockers: RestDeferralBlocker[] = [];
+
+  if (config.restDeferralDuringDebugging && debugMonitor) {
+    debugMonitor.getActiveDebugSessions().forEach(name => blockers.push({ kind: 'debug', name }));
+  }
+  if (config.restDeferralDuringTasks) {
+    // Quick tasks such as a lint run never hold a break
+    const startedBefore = Date.now() - config.restDeferralMinTaskSeconds * 1000;
+    runningTasks.forEach(task => {
+      if (task.startedAt <= startedBefore) blockers.push({ kind: 'task', name: task.name });
+    });
+  }
+  return blockers;
+}
+
+/**
+ * The debug session or task, in this or another window, that should hold the next break back
+ */
+export function getRestDeferralBlocker(): RestDeferralBlocker | null {
+  const [blocker] = [
+    ...getLocalRestDeferralBlockers(),
+    ...getOtherWindows().flatMap(window => window.restBlockers || [])
+  ];
+  return blocker ?? null;
+}
+
+/**
+ * Whether another break may be deferred today, given the daily limit
+ */
+export function canDeferRest(): boolean {
+  return getDeferralsToday() < getConfiguration().restDeferralMaxPerDay;
+}
+
+export function recordRestDeferral(blocker: RestDeferralBlocker): void {
+  const count: StoredDeferralCount = { date: todayKey(), count: getDeferralsToday() + 1 };
+  state.storage?.saveCustomSetting(DEFERRAL_COUNT_KEY, count);
+  Logger.log(`Break deferred for ${blocker.kind} "${blocker.name}" (${count.count} today)`);
+}
+
+function getDeferralsToday(): number {
+  const stored = state.storage?.loadCustomSetting<StoredDeferralCount | null>(DEFERRAL_COUNT_KEY, null);
+  return stored?.date === todayKey() ? stored.count : 0;
+}
+
+function todayKey(): string {
+  return new Date().toDateString();
+}
@@ -0,0 +1,318 @@
+import * as vscode from 'vscode';
+import { state } from '../models/state';
+import { ScheduleTemplate, TimeBlock } from '../types';
+import {
+  SCHEDULE_TEMPLATE_FORMAT_VERSION,
+  ScheduleTemplateFile,
+  applyTemplateToDays,
+  createTemplateFromBlocks,
+  parseScheduleTemplates
+} from '../utils/scheduleTemplates';
+import { getBlocksForDay } from '../utils/timeBlocks';
+import { Logger } from '../utils/logger';
+
+/**
+ * Library of day schedule templates: built-in ones, templates the user saved, and team
+ * templates shared through the workspace's .dotsense/schedules folder
+ */
+
+export type ScheduleTemplateSource = 'built-in' | 'saved' | 'workspace';
+
+export interface ListedScheduleTemplate extends ScheduleTemplate {
+  source: ScheduleTemplateSource;
+}
+
+export const WORKSPACE_TEMPLATE_GLOB = '.dotsense/schedules/*.json';
+
+const SAVED_TEMPLATES_KEY = 'timeBlocking.templates';
+const MAX_WORKSPACE_TEMPLATE_FILES = 50;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const BUILT_IN_TEMPLATES: ScheduleTemplate[] = [
+  {
+    id: 'balanced-day',
+    name: 'Balanced day',
+    description: 'Morning and afternoon focus around meetings, lunch and admin',
+    blocks: [
+      { name: 'Deep Work', startTime: 9 * 60, duration: 90, type: 'deep-work', priority: 5 },
+      { name: 'Meeting Time', startTime: 11 * 60, duration: 60, type: 'meetings', priority: 4 },
+      { name: 'Break & Lunch', startTime: 12 * 60, duration: 60, type: 'breaks', priority: 3 },
+      { name: 'Afternoon Focus', startTime: 13 * 60, duration: 120, type: 'deep-work', priority: 4 },
+      { name: 'Admin & Communication', startTime: 16 * 60, duration: 60, type: 'admin', priority: 3 }
+    ]
+  },
+  {
+    id: 'maker-day',
+    name: 'Maker day',
+    description: 'Two long deep-work stretches, admin batched at the end',
+    blocks: [
+      { name: 'Deep Work', startTime: 9 * 60, duration: 180, type: 'deep-work', priority: 5 },
+      { name: 'Lunch', startTime: 12 * 60, duration: 60, type: 'breaks', priority: 3 },
+      { name: 'Deep Work', startTime: 13 * 60, duration: 150, type: 'deep-work', priority: 5 },
+      { name: 'Admin & Messages', startTime: 15 * 60 + 30, duration: 60, type: 'admin', priority: 2 }
+    ]
+  },
+  {
+    id: 'manager-day',
+    name: 'Manager day',
+    description: 'Meetings in long runs with room to catch up in between',
+    blocks: [
+      { name: 'Inbox & Planning', startTime: 9 * 60, duration: 30, type: 'admin', priority: 3 },
+      { name: 'Meetings', startTime: 9 * 60 + 30, duration: 150, type: 'meetings', priority: 4 },
+      { name: 'Lunch', startTime: 12 * 60, duration: 60, type: 'breaks', priority: 3 },
+      { name: 'Meetings', startTime: 13 * 60, duration: 120, type: 'meetings', priority: 4 },
+      { name: 'Follow-ups', startTime: 15 * 60, duration: 60, type: 'flexible', priority: 3 },
+      { name: 'Admin & Messages', startTime: 16 * 60, duration: 60, type: 'admin', priority: 2 }
+    ]
+  },
+  {
+    id: 'on-call',
+    name: 'On-call',
+    description: 'Flexible time for interruptions, short admin cycles for tickets',
+    blocks: [
+      { name: 'Interrupt Buffer', startTime: 9 * 60, duration: 180, type: 'flexible', priority: 4 },
+      { name: 'Lunch', startTime: 12 * 60, duration: 45, type: 'breaks', priority: 3 },
+      { name: 'Ticket Triage', startTime: 12 * 60 + 45, duration: 75, type: 'admin', priority: 4 },
+      { name: 'Interrupt Buffer', startTime: 14 * 60, duration: 180, type: 'flexible', priority: 4 }
+    ]
+  },
+  {
+    id: 'half-day',
+    name: 'Half day',
+    description: 'One focus block and the essentials, done by noon',
+    blocks: [
+      { name: 'Deep Work', startTime: 9 * 60, duration: 90, type: 'deep-work', priority: 5 },
+      { name: 'Break', startTime: 10 * 60 + 30, duration: 15, type: 'breaks', priority: 3 },
+      { name: 'Admin & Messages', startTime: 10 * 60 + 45, duration: 75, type: 'admin', priority: 3 }
+    ]
+  }
+];
+
+export function getSavedTemplates(): ScheduleTemplate[] {
+  return state.storage?.loadCustomSetting<ScheduleTemplate[]>(SAVED_TEMPLATES_KEY, []) || [];
+}
+
+/**
+ * Saves templates to the user's library, replacing any with the same id
+ */
+export function saveTemplates(templates: ScheduleTemplate[]): void {
+  const ids = new Set(templates.map(template => template.id));
+  const saved = getSavedTemplates().filter(template => !ids.has(template.id));
+  state.storage?.saveCustomSetting(SAVED_TEMPLATES_KEY, [...saved, ...templates]);
+}
+
+export function deleteSavedTemplate(id: string): boolean {
+  const saved = getSavedTemplates();
+  const remaining = saved.filter(template => template.id !== id);
+  if (remaining.length === saved.length) return false;
+
+  state.storage?.saveCustomSetting(SAVED_TEMPLATES_KEY, remaining);
+  return true;
+}
+
+/**
+ * Team templates from every workspace folder's .dotsense/schedules/*.json
+ */
+export async function loadWorkspaceTemplates(): Promise<ScheduleTemplate[]> {
+  if (!vscode.workspace.workspaceFolders?.length) return [];
+
+  const uris = await vscode.workspace.findFiles(WORKSPACE_TEMPLATE_GLOB, null, MAX_WORKSPACE_TEMPLATE_FILES);
+  const templates: ScheduleTemplate[] = [];
+
+  for (const uri of uris) {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      const parsed = parseScheduleTemplates(JSON.parse(Buffer.from(content).toString('utf8')));
+      if (parsed.errors.length > 0) {
+        Logger.warn(`Skipped templates in ${uri.fsPath}:`, parsed.errors);
+      }
+      templates.push(...parsed.templates);
+    } catch (error) {
+      Logger.warn(`Could not read schedule templates from ${uri.fsPath}:`, error);
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Every template, workspace ones first so a team can override a built-in by id
+ */
+export async function getScheduleTemplates(): Promise<ListedScheduleTemplate[]> {
+  const listed: ListedScheduleTemplate[] = [
+    ...(await loadWorkspaceTemplates()).map(template => ({ ...template, source: 'workspace' as const })),
+    ...getSavedTemplates().map(template => ({ ...template, source: 'saved' as const })),
+    ...BUILT_IN_TEMPLATES.map(template => ({ ...template, source: 'built-in' as const }))
+  ];
+
+  const seen = new Set<string>();
+  return listed.filter(template => {
+    if (seen.has(template.id)) return false;
+    seen.add(template.id);
+    return true;
+  });
+}
+
+/**
+ * Replaces the plans for the given weekdays with the template
+ */
+export function applyScheduleTemplate(template: ScheduleTemplate, days: number[]): void {
+  const stored = state.storage?.loadTimeBlocks() || {};
+  state.storage?.saveCustomSetting('timeBlocking.blocks', applyTemplateToDays(stored, template, days));
+}
+
+/**
+ * Picks a template and the weekdays to apply it to. Returns true when blocks were changed.
+ */
+export async function applyScheduleTemplateInteractive(defaultDay: number): Promise<boolean> {
+  const templates = await getScheduleTemplates();
+  const picked = await vscode.window.showQuickPick(
+    templates.map(template => ({
+      label: template.name,
+      ...(template.source !== 'built-in' ? { description: template.source } : {}),
+      detail: `${template.description ? `${template.description} - ` : ''}${describeBlocks(template)}`,
+      template
+    })),
+    { placeHolder: 'Choose a day template' }
+  );
+  if (!picked) return false;
+
+  const days = await vscode.window.showQuickPick(
+    WEEKDAY_NAMES.map((name, day) => ({ label: name, day, picked: day === defaultDay })),
+    { placeHolder: `Apply "${picked.template.name}" to which days?`, canPickMany: true }
+  );
+  if (!days || days.length === 0) return false;
+
+  const weekdays = days.map(item => item.day);
+  const stored = state.storage?.loadTimeBlocks() || {};
+  const planned = weekdays.filter(day => getBlocksForDay(stored, day).length > 0);
+  if (planned.length > 0) {
+    const confirm = await vscode.window.showWarningMessage(
+      `Replace the blocks already planned on ${planned.map(day => WEEKDAY_NAMES[day]).join(', ')}?`,
+      { modal: true },
+      'Replace'
+    );
+    if (confirm !== 'Replace') return false;
+  }
+
+  applyScheduleTemplate(picked.template, weekdays);
+  vscode.window.showInformationMessage(`Applied "${picked.template.name}" to ${weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}.`);
+  return true;
+}
+
+export async function saveDayAsTemplateInteractive(blocks: TimeBlock[]): Promise<void> {
+  if (blocks.length === 0) {
+    vscode.window.showWarningMessage('Plan some blocks for this day first, then save it as a template.');
+    return;
+  }
+
+  const name = await vscode.window.showInputBox({
+    prompt: 'Template name',
+    placeHolder: 'e.g. Release day',
+    validateInput: value => value.trim() ? null : 'Enter a name'
+  });
+  if (!name) return;
+
+  const template = createTemplateFromBlocks(name.trim(), blocks);
+  const existing = await getScheduleTemplates();
+  if (existing.some(other => other.id === template.id && other.source !== 'saved')) {
+    vscode.window.showErrorMessage(`"${name.trim()}" is already a ${existing.find(other => other.id === template.id)!.source} template - pick another name.`);
+    return;
+  }
+
+  saveTemplates([template]);
+  vscode.window.showInformationMessage(`💾 Saved "${template.name}" to your templates.`);
+}
+
+export async function deleteSavedTemplateInteractive(): Promise<void> {
+  const saved = getSavedTemplates();
+  if (saved.length === 0) {
+    vscode.window.showInformationMessage('You have no saved templates - built-in and workspace templates cannot be deleted here.');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    saved.map(template => ({ label: template.name, detail: describeBlocks(template), id: template.id })),
+    { placeHolder: 'Delete which saved template?' }
+  );
+  if (picked && deleteSavedTemplate(picked.id)) {
+    vscode.window.showInformationMessage(`Deleted template "${picked.label}".`);
+  }
+}
+
+export async function exportTemplatesToFile(): Promise<void> {
+  const templates = await getScheduleTemplates();
+  const picked = await vscode.window.showQuickPick(
+    templates.map(template => ({ label: template.name, description: template.source, picked: template.source === 'saved', template })),
+    { placeHolder: 'Templates to export', canPickMany: true }
+  );
+  if (!picked || picked.length === 0) return;
+
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file('dotsense-schedules.json'),
+    filters: {
+      'JSON files': ['json']
+    }
+  });
+  if (!uri) return;
+
+  const file: ScheduleTemplateFile = {
+    version: SCHEDULE_TEMPLATE_FORMAT_VERSION,
+    // Leave out the listing source so the file reads the same wherever it ends up
+    templates: picked.map(({ template }) => ({
+      id: template.id,
+      name: template.name,
+      ...(template.description ? { description: template.description } : {}),
+      blocks: template.blocks
+    }))
+  };
+
+  try {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(file, null, 2)));
+    vscode.window.showInformationMessage(
+      `📤 Exported ${picked.length} template(s) to ${uri.fsPath}. Put it in .dotsense/schedules/ to share it with your team.`
+    );
+  } catch (error) {
+    Logger.error('Failed to write schedule templates:', error);
+    vscode.window.showErrorMessage(`Failed to export templates: ${(error as Error).message}`);
+  }
+}
+
+export async function importTemplatesFromFile(): Promise<void> {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: {
+      'JSON files': ['json']
+    },
+    openLabel: 'Import Templates'
+  });
+  if (!uris || uris.length === 0) return;
+
+  let data: unknown;
+  try {
+    const content = await vscode.workspace.fs.readFile(uris[0]);
+    data = JSON.parse(Buffer.from(content).toString('utf8'));
+  } catch (error) {
+    Logger.error('Failed to read schedule templates:', error);
+    vscode.window.showErrorMessage(`Could not read templates: ${(error as Error).message}`);
+    return;
+  }
+
+  const { templates, errors } = parseScheduleTemplates(data);
+  if (templates.length === 0) {
+    vscode.window.showErrorMessage(`No valid templates found: ${errors.join('; ')}`);
+    return;
+  }
+
+  saveTemplates(templates);
+  const skipped = errors.length > 0 ? ` Skipped ${errors.length}: ${errors.join('; ')}` : '';
+  vscode.window.showInformationMessage(`📥 Imported ${templates.length} template(s).${skipped}`);
+}
+
+function describeBlocks(template: ScheduleTemplate): string {
+  return template.blocks.map(block => `${formatTime(block.startTime)} ${block.name}`).join(' · ');
+}
+
+function formatTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
@@ -1,5 +1,14 @@
 import * as vscode from 'vscode';
 import { getConfiguration } from '../core/configuration';
+import { usageAnalytics } from './usageAnalyticsService';
+import {
+  promptEmergencyUnblockReason,
+  recordEmergencyUnblock,
+  getEmergencyUnblockCooldownMinutes,
+  getEmergencyUnblocksToday
+} from './emergencyUnblockService';
+import { RestOverlayPanel } from '../ui/restOverlayPanel';
+import { Logger } from '../utils/logger';
 
 export interface BlockingState {
   isActive: boolean;
@@ -7,17 +16,33 @@ export interface BlockingState {
   annoyanceLevel: 'mild' | 'moderate' | 'extreme' | 'nuclear';
   startTime: Date;
   warningTime?: Date;
+  endsAt?: Date | undefined;
+  emergencyExitUsed?: boolean;
+  // Focused-editor edits that got through while typing was blocked or after the emergency exit
+  editsWhileBlocked?: number;
 }
 
+
+// Why a document may still be edited during rest
+export type RestExemption = 'incident-mode' | 'untitled' | 'language' | 'glob' | 'workspace-folder';
+
 let blockingState: BlockingState | null = null;
 let blockingDecoration: vscode.TextEditorDecorationType | null = null;
 let warningTimer: ReturnType<typeof setTimeout> | null = null;
 let blockingTimer: ReturnType<typeof setTimeout> | null = null;
+let cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+
+let overlayExtensionUri: vscode.Uri | null = null;
 
 // Command override disposables for blocking input
 let commandDisposables: vscode.Disposable[] = [];
 
-export function initializeScreenBlocking(): void {
+// Documents already recorded as exempt edits in the current rest period
+const loggedExemptDocuments = new Set<string>();
+
+export function initializeScreenBlocking(extensionUri: vscode.Uri): void {
+  overlayExtensionUri = extensionUri;
+
   // Listen for text document changes to detect coding activity
   vscode.workspace.onDidChangeTextDocument((event) => {
     onTextDocumentChanged(event);
@@ -27,12 +52,15 @@ export function initializeScreenBlocking(): void {
   vscode.window.onDidChangeActiveTextEditor((editor) => {
     if (editor && blockingState?.isActive) {
       applyBlockingDecoration(editor);
+      if (isCodeFile(editor.document) && !getRestExemption(editor.document)) {
+        RestOverlayPanel.reveal();
+      }
     }
   });
 
   // Listen for text document saves to potentially block them during rest
   vscode.workspace.onWillSaveTextDocument((event) => {
-    if (blockingState?.isActive && isCodeFile(event.document)) {
+    if (blockingState?.isActive && isCodeFile(event.document) && !checkRestExemption(event.document)) {
       // Block saves during rest periods for extreme enforcement
       const config = getConfiguration();
       if (config.annoyanceLevel === 'extreme' || config.annoyanceLevel === 'nuclear') {
@@ -42,15 +70,17 @@ export function initializeScreenBlocking(): void {
   });
 }
 
-export function startRestEnforcement(): void {
+export function startRestEnforcement(endsAt?: Date): void {
   const config = getConfiguration();
 
   blockingState = {
     isActive: false,
     reason: 'rest-enforcement',
     annoyanceLevel: config.annoyanceLevel,
-    startTime: new Date()
+    startTime: new Date(),
+    endsAt
   };
+  loggedExemptDocuments.clear();
 
   // Show initial warning
   showRestWarning();
@@ -61,6 +91,7 @@ export function stopRestEnforcement(): void {
     clearBlocking();
     blockingState = null;
   }
+  loggedExemptDocuments.clear();
 
   if (warningTimer) {
     clearTimeout(warningTimer);
@@ -71,6 +102,11 @@ export function stopRestEnforcement(): void {
     clearTimeout(blockingTimer);
     blockingTimer = null;
   }
+
+  if (cooldownTimer) {
+    clearTimeout(cooldownTimer);
+    cooldownTimer = null;
+  }
 }
 
 function onTextDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
@@ -84,22 +120,49 @@ function onTextDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
     return;
   }
 
-  // Check if user is actively typing (not just cursor movement)
-  if (event.contentChanges.length > 0) {
-    // If blocking is active, immediately undo the change
-    if (blockingState.isActive) {
-      // Find the editor for this document
-      const editor = vscode.window.visibleTextEditors.find(e => e.document === event.document);
-      if (editor) {
-        // Undo the change immediately
-        vscode.commands.executeCommand('undo', editor);
-        // Show blocking message
-        showBlockedInputMessage();
-      }
-    } else {
-      // Not blocking yet, but detect coding activity
-      onCodingActivityDetected();
-    }
+  // Only typing in the focused editor counts. Formatters and other extensions edit
+  // documents programmatically, and undo/redo just moves through history.
+  if (event.contentChanges.length === 0 || event.reason !== undefined ||
+      vscode.window.activeTextEditor?.document !== event.document) {
+    return;
+  }
+
+  // Exempt documents may be edited freely, but the edit still counts as skipped rest
+  if (checkRestExemption(event.document)) {
+    return;
+  }
+
+  // Once blocked, typing is stopped by the command overrides and the overlay - documents
+  // are never rewritten. After the emergency exit the rest period stays unblocked.
+  if (blockingState.isActive || blockingState.emergencyExitUsed) {
+    onEditWhileBlocked(event.document);
+    return;
+  }
+
+  onCodingActivityDetected();
+}
+
+// Edits can still get past the command overrides (other keybindings, snippets, multi-cursor
+// commands). They are counted, bring the overlay back, and mark this rest as skipped once.
+function onEditWhileBlocked(document: vscode.TextDocument): void {
+  if (!blockingState) return;
+
+  const edits = (blockingState.editsWhileBlocked ?? 0) + 1;
+  blockingState.editsWhileBlocked = edits;
+
+  // The emergency exit was already logged as a skipped break and unlocks editing
+  if (blockingState.emergencyExitUsed && !blockingState.isActive) {
+    return;
+  }
+
+  showRestOverlay();
+
+  if (edits === 1 && !blockingState.emergencyExitUsed) {
+    Logger.log(`Edit to ${document.fileName} got through while rest was enforced`);
+    usageAnalytics.trackBreakSkipped(getConfiguration().workRestModel ?? 'default', 'ignored', {
+      editedWhileBlocked: true,
+      languageId: document.languageId
+    });
   }
 }
 
@@ -116,6 +179,71 @@ function isCodeFile(document: vscode.TextDocument): boolean {
          document.languageId !== 'plaintext';
 }
 
+/**
+ * Which configured exemption, if any, lets this document be edited during rest
+ */
+export function getRestExemption(document: vscode.TextDocument): RestExemption | null {
+  const config = getConfiguration();
+
+  if (config.incidentMode) {
+    return 'incident-mode';
+  }
+  if (config.restExemptUntitled && document.isUntitled) {
+    return 'untitled';
+  }
+  if (config.restExemptLanguageIds.includes(document.languageId)) {
+    return 'language';
+  }
+  if (config.restExemptGlobs.some(pattern => vscode.languages.match({ pattern }, document) > 0)) {
+    return 'glob';
+  }
+
+  if (config.restExemptWorkspaceFolders.length > 0 && document.uri) {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (folder && config.restExemptWorkspaceFolders.some(entry =>
+      entry === folder.name || entry === folder.uri.fsPath)) {
+      return 'workspace-folder';
+    }
+  }
+
+  return null;
+}
+
+// Exemption check that records the first exempt edit of each document as skipped rest
+function checkRestExemption(document: vscode.TextDocument): boolean {
+  const exemption = getRestExemption(document);
+  if (!exemption) {
+    return false;
+  }
+
+  if (!loggedExemptDocuments.has(document.fileName)) {
+    loggedExemptDocuments.add(document.fileName);
+    Logger.log(`Rest exemption (${exemption}): allowing edits to ${document.fileName}`);
+    usageAnalytics.trackBreakSkipped(getConfiguration().workRestModel ?? 'default', 'rest_exemption', {
+      exemption,
+      languageId: document.languageId
+    });
+  }
+  return true;
+}
+
+/**
+ * Switches incident mode, which lifts rest blocking entirely while on call
+ */
+export async function toggleIncidentMode(): Promise<void> {
+  const enabled = !getConfiguration().incidentMode;
+  await vscode.workspace.getConfiguration('dotsense').update('restExemptions.incidentMode', enabled, vscode.ConfigurationTarget.Global);
+
+  if (enabled) {
+    if (blockingState?.isActive) {
+      forceUnblock();
+    }
+    vscode.window.showWarningMessage('🔥 Incident mode on - editing is allowed during rest. Edits made while resting are still recorded as skipped rest.');
+  } else {
+    vscode.window.showInformationMessage('✅ Incident mode off - rest periods are enforced again.');
+  }
+}
+
 function onCodingActivityDetected(): void {
   if (!blockingState) return;
 
@@ -190,6 +318,8 @@ function startBlocking(): void {
     applyBlockingDecoration(editor);
   });
 
+  showRestOverlay();
+
   // Show blocking notification
   showBlockingNotification();
 }
@@ -226,10 +356,25 @@ function createBlockingDecoration(): void {
   }
 }
 
+function showRestOverlay(): void {
+  if (!blockingState || !overlayExtensionUri) return;
+
+  RestOverlayPanel.show(overlayExtensionUri, {
+    endsAt: blockingState.endsAt,
+    fullScreen: blockingState.annoyanceLevel === 'extreme' || blockingState.annoyanceLevel === 'nuclear',
+    emergencyExitAvailable: !blockingState.emergencyExitUsed,
+    onEmergencyExit: () => {
+      useEmergencyExit().catch(error => Logger.error('Emergency exit failed:', error));
+    }
+  });
+}
+
 function applyBlockingDecoration(editor?: vscode.TextEditor): void {
   if (!blockingDecoration || !editor) return;
 
   const document = editor.document;
+  if (getRestExemption(document)) return;
+
   const fullRange = new vscode.Range(
     document.positionAt(0),
     document.positionAt(document.getText().length)
@@ -285,8 +430,10 @@ function registerInputBlockingCommands(): void {
   // Register command overrides
   for (const command of commandsToBlock) {
     const disposable = vscode.commands.registerCommand(command, (...args: unknown[]) => {
-      if (blockingState?.isActive) {
+      const activeDocument = vscode.window.activeTextEditor?.document;
+      if (blockingState?.isActive && !(activeDocument && checkRestExemption(activeDocument))) {
         // Block the command and show feedback
+        RestOverlayPanel.reveal();
         showBlockedInputMessage();
         return; // Prevent the original command from executing
       }
@@ -326,6 +473,7 @@ function showBlockedInputMessage(): void {
 function clearBlocking(): void {
   // Unregister command overrides
   unregisterInputBlockingCommands();
+  RestOverlayPanel.close();
 
   if (blockingDecoration) {
     blockingDecoration.dispose();
@@ -351,6 +499,7 @@ export function isRestEnforced(): boolean {
 export function forceUnblock(): void {
   // Emergency unblock (could be used for critical situations)
   unregisterInputBlockingCommands();
+  RestOverlayPanel.close();
   if (blockingDecoration) {
     blockingDecoration.dispose();
     blockingDecoration = null;
@@ -359,3 +508,64 @@ export function forceUnblock(): void {
     blockingState.isActive = false;
   }
 }
+
+/**
+ * The one way out of an enforced rest period. Asks for a reason and logs the unblock;
+ * editing then stays unlocked until the rest period ends. Past the daily allowance the
+ * unblock only takes effect after a cooldown.
+ */
+export async function useEmergencyExit(): Promise<boolean> {
+  if (!blockingState) {
+    vscode.window.showInformationMessage('No rest period is being enforced right now.');
+    return false;
+  }
+  if (blockingState.emergencyExitUsed) {
+    vscode.window.showInformationMessage('The emergency exit for this rest period has already been used.');
+    return false;
+  }
+
+  const request = await promptEmergencyUnblockReason();
+  if (!request || !blockingState || blockingState.emergencyExitUsed) {
+    return false;
+  }
+
+  const cooldownMinutes = getEmergencyUnblockCooldownMinutes();
+  blockingState.emergencyExitUsed = true;
+  recordEmergencyUnblock(request, blockingState.annoyanceLevel, blockingState.startTime, cooldownMinutes);
+
+  if (cooldownMinutes > 0) {
+    // Keep the overlay up without its exit button until the cooldown ends
+    if (blockingState.isActive) {
+      showRestOverlay();
+    }
+    cooldownTimer = setTimeout(() => {
+      cooldownTimer = null;
+      if (blockingState) {
+        releaseAfterEmergencyExit();
+      }
+    }, cooldownMinutes * 60 * 1000);
+
+    vscode.window.showWarningMessage(
+      `⏳ Emergency unblock #${getEmergencyUnblocksToday().length} today. Editing unlocks in ${cooldownMinutes} minute(s) - take a few breaths first.`
+    );
+    return true;
+  }
+
+  releaseAfterEmergencyExit();
+  return true;
+}
+
+function releaseAfterEmergencyExit(): void {
+  // A pending grace-period block would otherwise start right after the exit
+  if (warningTimer) {
+    clearTimeout(warningTimer);
+    warningTimer = null;
+  }
+  if (blockingTimer) {
+    clearTimeout(blockingTimer);
+    blockingTimer = null;
+  }
+
+  forceUnblock();
+  vscode.window.showInformationMessage('🔓 Emergency unblock used. Editing is unlocked for the rest of this rest period.');
+}
@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import { state } from '../models/state';
+import { CustomExercise } from '../types';
+import { MLGeneratedWorkRestModel } from '../types/mlWorkRestTypes';
+import { TimeBlocksByDay } from '../utils/storage';
+import { getConfiguration } from '../core/configuration';
+import { Logger } from '../utils/logger';
+
+/**
+ * Settings Sync profile
+ * Preferences are published to a single globalState key registered with setKeysForSync.
+ * Local copies stay unsynced, so a value arriving from another machine never silently
+ * overwrites local edits: each store is three-way merged against the last synced snapshot.
+ * Activity events, session timers and analytics are never part of the profile.
+ */
+
+export const SYNC_PROFILE_KEY = 'syncProfile';
+const SYNC_BASE_KEY = 'syncProfileBase'; // Snapshot this machine last agreed on - not synced
+
+// Reminder style and work-rest preferences that should follow the user
+const SYNCED_PREFERENCES = [
+  'reminderType',
+  'annoyanceLevel',
+  'interval',
+  'showNotification',
+  'playSound',
+  'persistentNagging',
+  'enableEyeExercises',
+  'screenBreakInterval',
+  'workRestModel',
+  'activityIntegrationLevel',
+  'activityFlowThreshold',
+  'activityWeightFileEdit',
+  'activityWeightFileSave',
+  'activityWeightFileOpen',
+  'activityWeightGitCommit',
+  'activityWeightTypingBurst',
+  'activityWeightDebugSession',
+  'activityWeightTestRun',
+  'activityWeightSearchOperation',
+  'activityWeightRefactorOperation',
+  'activityWeightBreakTaken',
+  'activityMaxExtension',
+  'activityMinBreakDelay',
+  'activityFlowProtection',
+  'activityStoreHistory',
+  'activityShareAnalytics',
+  'activityRetentionDays',
+  'activityFlowStateAlerts',
+  'activityProductivityTips',
+  'activityBreakSuggestions'
+];
+
+type SyncStoreName = 'customExercises' | 'timeBlocks' | 'personalModels' | 'activePersonalModel' | 'preferences';
+type SyncEntries = Record<string, unknown>;
+
+export interface SyncProfile {
+  updatedAt: number;
+  machineId: string;
+  stores: Partial<Record<SyncStoreName, SyncEntries>>;
+}
+
+export interface SyncResult {
+  applied: SyncStoreName[]; // Stores updated locally from the profile
+  conflicts: number; // Entries edited on both sides - this machine's version was kept
+}
+
+interface SyncStore {
+  name: SyncStoreName;
+  // False while local data cannot be read (e.g. encrypted storage is locked), so it is left out of the merge
+  isAvailable?(): boolean;
+  read(): SyncEntries;
+  write(entries: SyncEntries): Promise<void>;
+}
+
+// Models generated from the assessment, as saved by the assessment panel
+interface PersonalModelSet {
+  models?: MLGeneratedWorkRestModel[];
+  alternatives?: MLGeneratedWorkRestModel[];
+  [field: string]: unknown;
+}
+
+interface SyncedPersonalModel {
+  model: MLGeneratedWorkRestModel;
+  alternative: boolean;
+}
+
+let syncContext: vscode.ExtensionContext | undefined;
+
+// Each store is flattened to entries keyed by something stable so merges can work per item
+const syncStores: SyncStore[] = [
+  {
+    name: 'customExercises',
+    read: () => {
+      const entries: SyncEntries = {};
+      (state.storage?.loadCustomExercises() || []).forEach(exercise => {
+        entries[exercise.id || exercise.name] = exercise;
+      });
+      return entries;
+    },
+    write: async entries => {
+      const exercises = Object.values(entries) as CustomExercise[];
+      state.storage?.saveCustomExercises(exercises);
+      state.customExercises = state.storage?.loadCustomExercises() || exercises;
+    }
+  },
+  {
+    name: 'timeBlocks',
+    read: () => ({ ...(state.storage?.loadTimeBlocks() || {}) }),
+    write: async entries => {
+      state.storage?.saveCustomSetting('timeBlocking.blocks', entries as TimeBlocksByDay);
+    }
+  },
+  {
+    // Only the models travel - the assessment answers behind them stay (encrypted) on this machine
+    name: 'personalModels',
+    isAvailable: () => !state.storage?.isEncryptedDataLocked(),
+    read: () => {
+      const stored = state.storage?.loadCustomSetting<PersonalModelSet | null>('userAssessmentPersonalModels', null);
+      const entries: SyncEntries = {};
+      (stored?.models || []).forEach(model => {
+        entries[model.id] = { model, alternative: false };
+      });
+      (stored?.alternatives || []).forEach(model => {
+        entries[model.id] = { model, alternative: true };
+      });
+      return entries;
+    },
+    write: async entries => {
+      const stored = state.storage?.loadCustomSetting<PersonalModelSet | null>('userAssessmentPersonalModels', null);
+      const synced = Object.values(entries) as SyncedPersonalModel[];
+      state.storage?.saveCustomSetting('userAssessmentPersonalModels', {
+        ...stored,
+        models: synced.filter(entry => !entry.alternative).map(entry => entry.model),
+        alternatives: synced.filter(entry => entry.alternative).map(entry => entry.model)
+      });
+    }
+  },
+  {
+    name: 'activePersonalModel',
+    read: () => {
+      const model = state.storage?.loadCustomSetting('activePersonalModel');
+      return model ? { model } : {};
+    },
+    write: async entries => {
+      state.storage?.saveCustomSetting('activePersonalModel', entries.model);
+    }
+  },
+  {
+    name: 'preferences',
+    read: () => {
+      const config = vscode.workspace.getConfiguration('dotsense');
+      const entries: SyncEntries = {};
+      SYNCED_PREFERENCES.forEach(key => {
+        // Only explicit user choices - defaults are not preferences
+        const value = config.inspect(key)?.globalValue;
+        if (value !== undefined) {
+          entries[key] = value;
+        }
+      });
+      return entries;
+    },
+    write: async entries => {
+      const config = vscode.workspace.getConfiguration('dotsense');
+      for (const key of SYNCED_PREFERENCES) {
+        if (stableStringify(config.inspect(key)?.globalValue) !== stableStringify(entries[key])) {
+          await config.update(key, entries[key], vscode.ConfigurationTarget.Global);
+        }
+      }
+    }
+  }
+];
+
+export function initializeSettingsSync(context: vscode.ExtensionContext): void {
+  syncContext = context;
+  applySyncRegistration();
+
+  // Settings Sync writes globalState in the background without an event, so check when focus returns
+  context.subscriptions.push(
+    vscode.window.onDidChangeWindowState(windowState => {
+      if (windowState.focused) {
+        reconcileSyncProfile();
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('dotsense.settingsSync')) {
+        applySyncRegistration();
+      }
+    })
+  );
+
+  reconcileSyncProfile();
+}
+
+function applySyncRegistration(): void {
+  if (!syncContext) return;
+  syncContext.globalState.setKeysForSync(getConfiguration().settingsSyncEnabled ? [SYNC_PROFILE_KEY] : []);
+}
+
+/**
+ * Merges the synced profile with local data, writes the result to both sides and
+ * records it as the new base for the next merge
+ */
+export async function reconcileSyncProfile(): Promise<SyncResult> {
+  const result: SyncResult = { applied: [], conflicts: 0 };
+  const context = syncContext;
+  if (!context || !state.storage) return result;
+  if (!getConfiguration().settingsSyncEnabled) return result;
+
+  try {
+    const remote = context.globalState.get<SyncProfile>(SYNC_PROFILE_KEY);
+    const base = context.globalState.get<SyncProfile['stores']>(SYNC_BASE_KEY, {});
+    const merged: SyncProfile['stores'] = {};
+    const nextBase: SyncProfile['stores'] = {};
+
+    for (const store of syncStores) {
+      if (store.isAvailable && !store.isAvailable()) {
+        // Pass the profile through untouched and keep the old base until local data is readable again
+        const unchanged = remote?.stores[store.name] || base[store.name];
+        if (unchanged) merged[store.name] = unchanged;
+        if (base[store.name]) nextBase[store.name] = base[store.name];
+        continue;
+      }
+
+      const local = store.read();
+      const remoteEntries = remote?.stores[store.name];
+
+      if (!remoteEntries) {
+        merged[store.name] = local;
+        nextBase[store.name] = local;
+        continue;
+      }
+
+      const { entries, conflicts } = mergeThreeWay(base[store.name] || {}, local, remoteEntries);
+      result.conflicts += conflicts;
+      merged[store.name] = entries;
+      nextBase[store.name] = entries;
+
+      if (stableStringify(entries) !== stableStringify(local)) {
+        await store.write(entries);
+        result.applied.push(store.name);
+      }
+    }
+
+    if (!remote || stableStringify(remote.stores) !== stableStringify(merged)) {
+      const profile: SyncProfile = { updatedAt: Date.now(), machineId: vscode.env.machineId, stores: merged };
+      await context.globalState.update(SYNC_PROFILE_KEY, profile);
+    }
+    await context.globalState.update(SYNC_BASE_KEY, nextBase);
+
+    if (result.applied.length > 0) {
+      Logger.log(`Applied synced DotSense preferences: ${result.applied.join(', ')}`);
+    }
+    if (result.conflicts > 0) {
+      vscode.window.showInformationMessage(
+        `🔄 DotSense merged preferences from another machine. ${result.conflicts} item(s) changed on both machines - this machine's version was kept.`
+      );
+    }
+  } catch (error) {
+    Logger.error('Failed to reconcile synced preferences:', error);
+  }
+
+  return result;
+}
+
+/**
+ * Per-entry three-way merge: a side that did not change since the base takes the other side's value.
+ * When both changed the same entry differently, the local value wins.
+ */
+export function mergeThreeWay(
+  base: SyncEntries,
+  local: SyncEntries,
+  remote: SyncEntries
+): { entries: SyncEntries; conflicts: number } {
+  const entries: SyncEntries = {};
+  let conflicts = 0;
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    const baseValue = stableStringify(base[key]);
+    const localValue = stableStringify(local[key]);
+    const remoteValue = stableStringify(remote[key]);
+
+    let chosen: unknown;
+    if (localValue === remoteValue || remoteValue === baseValue) {
+      chosen = local[key];
+    } else if (localValue === baseValue) {
+      chosen = remote[key];
+    } else {
+      conflicts++;
+      chosen = local[key];
+    }
+
+    // Absent on the winning side means deleted
+    if (chosen !== undefined) {
+      entries[key] = chosen;
+    }
+  });
+
+  return { entries, conflicts };
+}
+
+// JSON with sorted keys, so equal values compare equal regardless of property order
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = (val as Record<string, unknown>)[key];
+        return sorted;
+      }, {});
+    }
+    return val;
+  }) ?? 'undefined';
+}
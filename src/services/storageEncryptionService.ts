@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { state, reloadStateFromStorage } from '../models/state';
+import { getConfiguration } from '../core/configuration';
+import { Logger } from '../utils/logger';
+
+/**
+ * Opt-in encryption at rest for sensitive stores. The key never touches globalState:
+ * it lives in SecretStorage (the OS keychain), so a copied globalState database is unreadable.
+ */
+
+const ENCRYPTION_SECRET_KEY = 'dotsense.storageEncryptionKey';
+
+function generateEncryptionKey(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Brings storage in line with the dotsense.storage.encryptAtRest setting. Runs on activation,
+ * before state is loaded, and again whenever the setting changes.
+ */
+export async function initializeStorageEncryption(context: vscode.ExtensionContext): Promise<void> {
+  const storage = state.storage;
+  if (!storage) return;
+
+  const enabled = getConfiguration().encryptStorageAtRest;
+  const key = await context.secrets.get(ENCRYPTION_SECRET_KEY);
+
+  try {
+    if (key) {
+      storage.setEncryptionKey(key);
+      if (storage.isEncryptedDataLocked()) {
+        handleLockedStorage(context);
+        return;
+      }
+
+      if (enabled) {
+        // Pick up stores written in plaintext before encryption was turned on
+        if (storage.hasPlaintextSensitiveStores()) {
+          storage.reencryptSensitiveStores(key);
+        }
+      } else {
+        storage.reencryptSensitiveStores(null);
+        await context.secrets.delete(ENCRYPTION_SECRET_KEY);
+        Logger.log('Storage encryption disabled; sensitive stores decrypted');
+      }
+      return;
+    }
+
+    if (storage.hasEncryptedStores()) {
+      handleLockedStorage(context);
+      return;
+    }
+
+    if (enabled) {
+      const newKey = generateEncryptionKey();
+      await context.secrets.store(ENCRYPTION_SECRET_KEY, newKey);
+      storage.reencryptSensitiveStores(newKey);
+      Logger.log('Storage encryption enabled; sensitive stores encrypted');
+    }
+  } catch (error) {
+    Logger.error('Failed to apply storage encryption setting:', error);
+    vscode.window.showErrorMessage(`DotSense could not update storage encryption: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Keeps every window on the same key when another window enables, rotates or removes it
+ */
+export function watchStorageEncryptionKey(context: vscode.ExtensionContext): vscode.Disposable {
+  return context.secrets.onDidChange(async event => {
+    if (event.key !== ENCRYPTION_SECRET_KEY || !state.storage) return;
+    state.storage.setEncryptionKey((await context.secrets.get(ENCRYPTION_SECRET_KEY)) ?? null);
+  });
+}
+
+/**
+ * Re-encrypts every sensitive store under a fresh key
+ */
+export async function rotateStorageEncryptionKey(context: vscode.ExtensionContext): Promise<void> {
+  const storage = state.storage;
+  if (!storage) return;
+
+  if (!storage.isEncryptionActive()) {
+    vscode.window.showInformationMessage('Storage encryption is off. Enable "dotsense.storage.encryptAtRest" first.');
+    return;
+  }
+  if (storage.isEncryptedDataLocked()) {
+    handleLockedStorage(context);
+    return;
+  }
+
+  const previousKey = await context.secrets.get(ENCRYPTION_SECRET_KEY);
+  const newKey = generateEncryptionKey();
+
+  try {
+    // Persist the new key first so the data is never encrypted under a key we could lose
+    await context.secrets.store(ENCRYPTION_SECRET_KEY, newKey);
+    // The key watcher may already have switched storage to the new key, so decrypt with the old one
+    storage.reencryptSensitiveStores(newKey, previousKey ?? null);
+    vscode.window.showInformationMessage('🔐 Storage encryption key rotated.');
+  } catch (error) {
+    Logger.error('Storage key rotation failed:', error);
+    if (previousKey) {
+      await context.secrets.store(ENCRYPTION_SECRET_KEY, previousKey);
+      storage.setEncryptionKey(previousKey);
+    }
+    vscode.window.showErrorMessage(`Key rotation failed, the previous key is still in use: ${(error as Error).message}`);
+  }
+}
+
+// Encrypted data exists but the key is missing or wrong (e.g. keychain reset, new machine)
+function handleLockedStorage(context: vscode.ExtensionContext): void {
+  Logger.warn('Encrypted DotSense data cannot be decrypted with the available key');
+
+  vscode.window.showErrorMessage(
+    '🔒 DotSense cannot unlock its encrypted data - the encryption key is missing from the OS keychain or does not match. ' +
+    'Activity history and usage data stay unreadable and will not be overwritten until you reset them.',
+    'Reset Encrypted Data',
+    'Keep Locked'
+  ).then(async choice => {
+    if (choice !== 'Reset Encrypted Data' || !state.storage) return;
+
+    state.storage.discardEncryptedStores();
+    await context.secrets.delete(ENCRYPTION_SECRET_KEY);
+    state.storage.setEncryptionKey(null);
+    await initializeStorageEncryption(context);
+    reloadStateFromStorage();
+    vscode.window.showInformationMessage('Encrypted data was reset. DotSense will start collecting fresh history.');
+  });
+}
@@ -0,0 +1,313 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EisenhowerPriority, EnergyLevel, TaskSchedule } from '../types';
+import { getConfiguration } from '../core/configuration';
+import { getWorkRestModelById, getDefaultWorkRestModel } from '../constants/workRestModels';
+import { advancedScheduler } from './activityIntegration/advancedSchedulerService';
+import { getCurrentSession, getSessionPhase, onDidEndWorkPeriod, startWorkRestSession, WorkPeriod } from './workRestService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Eisenhower task queue workflow: create and triage tasks, focus a work period on
+ * the recommended one and record how long it really took
+ */
+
+export const QUADRANTS: Array<{ priority: EisenhowerPriority; label: string; description: string }> = [
+  { priority: 'urgent-important', label: '🔥 Do First', description: 'Urgent and important' },
+  { priority: 'not-urgent-important', label: '📅 Schedule', description: 'Important, not urgent' },
+  { priority: 'urgent-not-important', label: '🤝 Delegate', description: 'Urgent, not important' },
+  { priority: 'not-urgent-not-important', label: '🗑️ Eliminate', description: 'Neither urgent nor important' }
+];
+
+const ENERGY_LEVELS: EnergyLevel[] = ['very-low', 'low', 'medium', 'high', 'very-high'];
+
+interface FocusTask {
+  id: string;
+  name: string;
+  since: Date;
+}
+
+let focusTask: FocusTask | null = null;
+
+export function initializeTaskQueue(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(onDidEndWorkPeriod(period => recordFocusTime(period)));
+}
+
+export function getFocusTask(): FocusTask | null {
+  return focusTask;
+}
+
+function getScheduler() {
+  if (!advancedScheduler) {
+    vscode.window.showErrorMessage('The task queue needs the advanced scheduler, which failed to initialize.');
+  }
+  return advancedScheduler;
+}
+
+export function getQuadrantLabel(priority: EisenhowerPriority): string {
+  return QUADRANTS.find(quadrant => quadrant.priority === priority)?.label ?? priority;
+}
+
+async function pickQuadrant(placeHolder: string): Promise<EisenhowerPriority | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    QUADRANTS.map(quadrant => ({ label: quadrant.label, description: quadrant.description, priority: quadrant.priority })),
+    { placeHolder }
+  );
+  return choice?.priority;
+}
+
+async function pickTask(placeHolder: string): Promise<TaskSchedule | undefined> {
+  const scheduler = getScheduler();
+  if (!scheduler) return undefined;
+
+  const tasks = scheduler.getTasks();
+  if (tasks.length === 0) {
+    vscode.window.showInformationMessage('No open tasks. Add one with "DotSense: Add Task".');
+    return undefined;
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    tasks.map(task => ({
+      label: task.name,
+      description: getQuadrantLabel(task.priority),
+      detail: describeTask(task),
+      task
+    })),
+    { placeHolder, matchOnDescription: true }
+  );
+  return choice?.task;
+}
+
+export function describeTask(task: TaskSchedule): string {
+  const parts = [`~${task.estimatedDuration} min`, `${task.energyRequired} energy`];
+  if (task.actualDuration) parts.push(`${task.actualDuration} min spent`);
+  if (task.deadline) parts.push(`due ${task.deadline.toLocaleString()}`);
+  if (task.source) parts.push(`${path.basename(task.source.file)}:${task.source.line + 1}`);
+  return parts.join(' · ');
+}
+
+// Opens the comment or checklist item an imported task came from
+export async function openTaskSource(taskId: string): Promise<void> {
+  const source = advancedScheduler?.getTasks().find(t => t.id === taskId)?.source;
+  if (!source) return;
+
+  try {
+    const document = await vscode.workspace.openTextDocument(source.file);
+    const position = new vscode.Position(Math.min(source.line, document.lineCount - 1), 0);
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+  } catch (error) {
+    Logger.error('Failed to open task source:', error);
+    vscode.window.showErrorMessage(`Could not open ${source.file}`);
+  }
+}
+
+// Accepts "2026-03-02" or "2026-03-02 17:00"; date-only deadlines mean end of that day
+export function parseDeadline(input: string): Date | null {
+  const match = input.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match;
+  const deadline = hour !== undefined
+    ? new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute))
+    : new Date(Number(year), Number(month) - 1, Number(day), 23, 59);
+  return isNaN(deadline.getTime()) ? null : deadline;
+}
+
+// Accepts "9:30" or "14:00"; returns minutes since midnight
+export function parseTimeOfDay(input: string): number | null {
+  const match = input.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+export async function addTaskInteractive(priority?: EisenhowerPriority): Promise<void> {
+  const scheduler = getScheduler();
+  if (!scheduler) return;
+
+  const name = await vscode.window.showInputBox({ prompt: 'Task name', placeHolder: 'e.g. Fix login redirect bug' });
+  if (!name?.trim()) return;
+
+  const quadrant = priority ?? await pickQuadrant('Where does this task belong?');
+  if (!quadrant) return;
+
+  const estimate = await vscode.window.showInputBox({
+    prompt: 'Estimated duration (minutes)',
+    value: '25',
+    validateInput: value => Number(value) > 0 ? null : 'Enter a positive number of minutes'
+  });
+  if (estimate === undefined) return;
+
+  const energy = await vscode.window.showQuickPick(ENERGY_LEVELS, { placeHolder: 'Energy this task needs' });
+  if (!energy) return;
+
+  const deadlineInput = await vscode.window.showInputBox({
+    prompt: 'Deadline (optional)',
+    placeHolder: 'YYYY-MM-DD or YYYY-MM-DD HH:MM - leave empty for none',
+    validateInput: value => !value.trim() || parseDeadline(value) ? null : 'Use YYYY-MM-DD or YYYY-MM-DD HH:MM'
+  });
+  if (deadlineInput === undefined) return;
+
+  const deadline = parseDeadline(deadlineInput);
+  scheduler.addTask({
+    name: name.trim(),
+    priority: quadrant,
+    estimatedDuration: Number(estimate),
+    energyRequired: energy as EnergyLevel,
+    complexity: 'moderate',
+    ...(deadline && { deadline })
+  });
+  vscode.window.showInformationMessage(`✅ Added "${name.trim()}" to ${getQuadrantLabel(quadrant)}`);
+}
+
+export async function triageTaskInteractive(): Promise<void> {
+  const task = await pickTask('Task to move');
+  if (!task) return;
+
+  const quadrant = await pickQuadrant(`Move "${task.name}" to...`);
+  if (quadrant) {
+    moveTask(task.id, quadrant);
+  }
+}
+
+export function moveTask(taskId: string, priority: EisenhowerPriority): void {
+  advancedScheduler?.updateTask(taskId, { priority });
+}
+
+/**
+ * Puts a task on one of the next seven days at a start time, so it shows up in the weekly planner
+ */
+export async function scheduleTaskInteractive(): Promise<void> {
+  const task = await pickTask('Task to schedule');
+  if (!task) return;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const days = Array.from({ length: 7 }, (_, offset) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() + offset);
+    return {
+      label: offset === 0 ? 'Today' : offset === 1 ? 'Tomorrow' : date.toLocaleDateString(undefined, { weekday: 'long' }),
+      description: date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      date
+    };
+  });
+  const day = await vscode.window.showQuickPick(days, { placeHolder: `Which day for "${task.name}"?` });
+  if (!day) return;
+
+  const timeInput = await vscode.window.showInputBox({
+    prompt: `Start time (~${task.estimatedDuration} min)`,
+    placeHolder: 'HH:MM, e.g. 14:30',
+    validateInput: value => parseTimeOfDay(value) !== null ? null : 'Use HH:MM'
+  });
+  const startTime = timeInput === undefined ? null : parseTimeOfDay(timeInput);
+  if (startTime === null) return;
+
+  const scheduledTime = new Date(day.date);
+  scheduledTime.setHours(Math.floor(startTime / 60), startTime % 60);
+  scheduleTask(task.id, scheduledTime);
+  vscode.window.showInformationMessage(`🗓️ Scheduled "${task.name}" for ${scheduledTime.toLocaleString()}`);
+}
+
+export function scheduleTask(taskId: string, scheduledTime: Date): void {
+  advancedScheduler?.updateTask(taskId, { scheduledTime });
+}
+
+export async function completeTaskInteractive(): Promise<void> {
+  const task = await pickTask('Task to mark as done');
+  if (task) {
+    completeTask(task.id);
+  }
+}
+
+export function completeTask(taskId: string): void {
+  const scheduler = getScheduler();
+  if (!scheduler) return;
+
+  // Count the focus time so far before closing the task
+  if (focusTask?.id === taskId) {
+    const session = getCurrentSession();
+    if (session?.isWorking) {
+      recordFocusTime({ start: session.startTime, end: new Date() }, false);
+    }
+    focusTask = null;
+  }
+
+  const task = scheduler.getTasks().find(t => t.id === taskId);
+  if (task && scheduler.completeTask(taskId)) {
+    const spent = task.actualDuration ? ` in ${task.actualDuration} min (estimated ${task.estimatedDuration})` : '';
+    vscode.window.showInformationMessage(`🎉 Completed "${task.name}"${spent}`);
+  }
+}
+
+export function deleteTask(taskId: string): void {
+  if (focusTask?.id === taskId) {
+    focusTask = null;
+  }
+  advancedScheduler?.deleteTask(taskId);
+}
+
+export function startFocusOnRecommendedTask(): void {
+  const scheduler = getScheduler();
+  if (!scheduler) return;
+
+  const task = scheduler.getRecommendedTask();
+  if (!task) {
+    vscode.window.showInformationMessage('No open tasks to focus on. Add one with "DotSense: Add Task".');
+    return;
+  }
+  startFocusOnTask(task.id);
+}
+
+/**
+ * Points the current (or a new) work period at a task
+ */
+export function startFocusOnTask(taskId: string): void {
+  const task = advancedScheduler?.getTasks().find(t => t.id === taskId);
+  if (!task) return;
+
+  // In a follower window the session runs in the leader
+  const phase = getSessionPhase();
+  if (phase === 'rest') {
+    vscode.window.showInformationMessage(`Finish your break first - "${task.name}" will be waiting.`);
+    return;
+  }
+
+  focusTask = { id: task.id, name: task.name, since: new Date() };
+  if (!phase) {
+    const modelId = getConfiguration().workRestModel;
+    const model = (modelId && getWorkRestModelById(modelId)) || getDefaultWorkRestModel();
+    startWorkRestSession(model);
+  }
+
+  vscode.window.showInformationMessage(`🎯 Focusing on "${task.name}" (${getQuadrantLabel(task.priority)}, ~${task.estimatedDuration} min)`);
+}
+
+function recordFocusTime(period: WorkPeriod, promptCompletion: boolean = true): void {
+  if (!focusTask || !advancedScheduler) return;
+
+  const start = Math.max(period.start.getTime(), focusTask.since.getTime());
+  const minutes = (period.end.getTime() - start) / (60 * 1000);
+  const task = focusTask;
+
+  if (advancedScheduler.recordTaskTime(task.id, minutes)) {
+    Logger.log(`Recorded ${Math.round(minutes)} focus minutes on task ${task.id}`);
+  }
+  if (!promptCompletion) return;
+
+  // The next work period starts unfocused unless the user keeps going
+  focusTask = null;
+  vscode.window.showInformationMessage(
+    `⏱️ ${Math.round(minutes)} min on "${task.name}". Is it done?`,
+    'Mark Done',
+    'Keep Working On It'
+  ).then(choice => {
+    if (choice === 'Mark Done') {
+      completeTask(task.id);
+    } else if (choice === 'Keep Working On It') {
+      focusTask = { id: task.id, name: task.name, since: new Date() };
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import { state } from '../models/state';
+import { TimeBlock, WorkRestModel } from '../types';
+import { getConfiguration } from '../core/configuration';
+import { getBlocksForDay } from '../utils/timeBlocks';
+
+/**
+ * Lets today's time blocks steer the running work-rest session: deep work stretches work
+ * periods, admin shortens them, meetings hold breaks and reminders back, and break blocks
+ * start a rest
+ */
+
+const DEEP_WORK_MINUTES = 90;
+const ADMIN_WORK_MINUTES = 20;
+
+// A work period cut short by the end of a block still lasts at least this long
+const MIN_BLOCK_WORK_MINUTES = 5;
+
+const BLOCK_LABELS: Record<TimeBlock['type'], string> = {
+  'deep-work': '🎯',
+  'meetings': '👥',
+  'admin': '📋',
+  'breaks': '☕',
+  'flexible': '🔀'
+};
+
+export function isTimeBlockDrivingEnabled(): boolean {
+  return getConfiguration().timeBlocksDriveTimer;
+}
+
+/**
+ * The planned block (not calendar meeting) covering the given time, if the timer follows blocks
+ */
+export function getActiveTimeBlock(at: Date = new Date()): TimeBlock | null {
+  if (!isTimeBlockDrivingEnabled()) return null;
+
+  const minute = at.getHours() * 60 + at.getMinutes();
+  const blocks = getBlocksForDay(state.storage?.loadTimeBlocks() || {}, at.getDay());
+  return blocks.find(block => block.startTime <= minute && minute < block.startTime + block.duration) ?? null;
+}
+
+// When the block covering the given time ends
+export function getTimeBlockEnd(block: TimeBlock, at: Date = new Date()): Date {
+  const end = new Date(at);
+  end.setHours(0, 0, 0, 0);
+  end.setMinutes(block.startTime + block.duration);
+  return end;
+}
+
+/**
+ * Next moment today's blocks start or end, or the next midnight when none are left
+ */
+export function getNextTimeBlockBoundary(after: Date = new Date()): Date {
+  const dayStart = new Date(after);
+  dayStart.setHours(0, 0, 0, 0);
+  const minute = after.getHours() * 60 + after.getMinutes() + after.getSeconds() / 60;
+
+  const boundaries = getBlocksForDay(state.storage?.loadTimeBlocks() || {}, after.getDay())
+    .flatMap(block => [block.startTime, block.startTime + block.duration])
+    .filter(boundary => boundary > minute && boundary < 24 * 60)
+    .sort((a, b) => a - b);
+
+  const next = new Date(dayStart);
+  next.setMinutes(boundaries.length > 0 ? boundaries[0] : 24 * 60);
+  return next;
+}
+
+/**
+ * Work period length inside a block, or null when the block leaves the model's own length
+ */
+export function getTimeBlockWorkMinutes(block: TimeBlock, model: WorkRestModel, from: Date = new Date()): number | null {
+  let minutes: number;
+  switch (block.type) {
+    case 'deep-work':
+      minutes = Math.max(model.workDuration, DEEP_WORK_MINUTES);
+      break;
+    case 'admin':
+      minutes = Math.min(model.workDuration, ADMIN_WORK_MINUTES);
+      break;
+    default:
+      return null;
+  }
+
+  // End the work period with the block so the break falls at the change of activity
+  const remaining = Math.round((getTimeBlockEnd(block, from).getTime() - from.getTime()) / 60000);
+  return Math.max(MIN_BLOCK_WORK_MINUTES, Math.min(minutes, remaining));
+}
+
+export function describeTimeBlock(block: TimeBlock): string {
+  return `${BLOCK_LABELS[block.type]} ${block.name}`;
+}
@@ -177,7 +177,7 @@ export class UsageAnalyticsService {
     }
   }
 
-  trackBreakSkipped(modelId: string, reason: 'user_override' | 'snoozed' | 'ignored'): void {
+  trackBreakSkipped(modelId: string, reason: 'user_override' | 'snoozed' | 'ignored' | 'rest_exemption', details: Record<string, unknown> = {}): void {
     const event: UsageEvent = {
       id: this.generateEventId(),
       type: UsageEventType.BREAK_SKIPPED,
@@ -187,7 +187,8 @@ export class UsageAnalyticsService {
       metadata: {
         skipReason: reason,
         timeOfDay: new Date().getHours(),
-        proposedBreakDuration: 5 // Default assumption - could be tracked better
+        proposedBreakDuration: 5, // Default assumption - could be tracked better
+        ...details
       }
     };
 
@@ -524,13 +525,9 @@ export class UsageAnalyticsService {
    */
 
   getUsageStatistics(timeRange: 'week' | 'month' | 'all' = 'week'): UsageStatistics {
-    const data = state.storage?.loadCustomSetting('usageAnalyticsData', {
-      events: [],
-      sessions: [],
-      learningData: []
-    });
+    const relevantEvents = this.getRecordedEvents(this.getTimeFilter(timeRange));
 
-    if (!data || !data.events) {
+    if (relevantEvents.length === 0) {
       return {
         totalSessions: 0,
         averageCompletionRate: 0,
@@ -541,12 +538,31 @@ export class UsageAnalyticsService {
       };
     }
 
-    const timeFilter = this.getTimeFilter(timeRange);
-    const relevantEvents = data.events.filter((e: UsageEvent) => e.timestamp >= timeFilter);
-
     return this.calculateUsageStatistics(relevantEvents);
   }
 
+  /**
+   * Returns persisted usage events plus any not yet flushed, oldest first.
+   * Timestamps are revived from their stored string form and duplicates
+   * (critical events are saved immediately and again on flush) are dropped.
+   */
+  getRecordedEvents(since?: Date, until?: Date): UsageEvent[] {
+    const data = state.storage?.loadCustomSetting<{ events: UsageEvent[] }>('usageAnalyticsData', { events: [] });
+    const storedEvents = Array.isArray(data?.events) ? data!.events : [];
+
+    const eventsById = new Map<string, UsageEvent>();
+    [...storedEvents, ...this.eventBuffer].forEach(event => {
+      const timestamp = new Date(event.timestamp);
+      if (isNaN(timestamp.getTime())) return;
+      if (since && timestamp < since) return;
+      if (until && timestamp > until) return;
+      eventsById.set(event.id, { ...event, timestamp });
+    });
+
+    return Array.from(eventsById.values())
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
   private getTimeFilter(range: 'week' | 'month' | 'all'): Date {
     const now = new Date();
     switch (range) {
@@ -0,0 +1,196 @@
+import { state } from '../models/state';
+import { TimeBlock, TaskSchedule, WorkRestModel } from '../types';
+import { getConfiguration } from '../core/configuration';
+import { getWorkRestModelById, getDefaultWorkRestModel } from '../constants/workRestModels';
+import { getBlocksForDay, hasTimeConflict } from '../utils/timeBlocks';
+import { advancedScheduler } from './activityIntegration/advancedSchedulerService';
+import { getMeetingTimeBlocks } from './calendarService';
+import { getCurrentSession } from './workRestService';
+
+/**
+ * Seven-day view over recurring time blocks, calendar meetings, scheduled tasks and
+ * predicted energy, plus an auto-fill that puts deep work into peak hours
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WORKDAYS = [1, 2, 3, 4, 5];
+
+// Auto-filled deep work never spans more than this in one go
+const MAX_DEEP_WORK_MINUTES = 120;
+
+export interface PlannerTask {
+  id: string;
+  name: string;
+  priority: TaskSchedule['priority'];
+  startTime: number | null; // Minutes since midnight; null when the task is only due that day
+  duration: number;
+  due: boolean;
+}
+
+export interface PlannerDay {
+  day: number; // 0-6, Sunday = 0
+  date: Date;
+  blocks: TimeBlock[];
+  tasks: PlannerTask[];
+  conflicts: string[]; // Ids of blocks that overlap another block that day
+  energyMultiplier: number | null; // From the weekly pattern; null until that weekday has readings
+  hourlyEnergy: { [hour: number]: number }; // Predicted 1-10 for hours with data
+  focusMinutes: number;
+  workPeriods: number; // Work periods of the selected model that fit the day's deep work
+}
+
+export interface WeeklyPlan {
+  days: PlannerDay[];
+  cadence: Pick<WorkRestModel, 'id' | 'name' | 'workDuration' | 'restDuration' | 'cycles' | 'longRestDuration'>;
+  peakHours: number[];
+  energyLearned: boolean;
+  conflictCount: number;
+}
+
+export function buildWeeklyPlan(start: Date = new Date()): WeeklyPlan {
+  const weekStart = new Date(start);
+  weekStart.setHours(0, 0, 0, 0);
+
+  const stored = state.storage?.loadTimeBlocks() || {};
+  const profile = advancedScheduler?.getEnergyProfile();
+  const model = getSelectedModel();
+  const tasks = advancedScheduler?.getTasks() || [];
+
+  const days: PlannerDay[] = [];
+  for (let offset = 0; offset < 7; offset++) {
+    const date = new Date(weekStart);
+    date.setDate(weekStart.getDate() + offset);
+    const day = date.getDay();
+
+    const blocks = getBlocksForDay(stored, day)
+      .concat(getMeetingTimeBlocks(date))
+      .sort((a, b) => a.startTime - b.startTime);
+    const conflicts = blocks.filter(block => hasTimeConflict(blocks, block, day, block.id)).map(block => block.id);
+
+    const multiplier = profile?.weeklyPattern[day];
+    const hourlyEnergy: { [hour: number]: number } = {};
+    Object.entries(profile?.hourlyEnergy || {}).forEach(([hour, energy]) => {
+      hourlyEnergy[Number(hour)] = Math.min(10, Math.round(energy * (multiplier ?? 1) * 10) / 10);
+    });
+
+    const focusMinutes = blocks
+      .filter(block => block.type === 'deep-work')
+      .reduce((sum, block) => sum + block.duration, 0);
+
+    days.push({
+      day,
+      date,
+      blocks,
+      tasks: getTasksForDate(tasks, date),
+      conflicts,
+      energyMultiplier: multiplier ?? null,
+      hourlyEnergy,
+      focusMinutes,
+      workPeriods: Math.floor(focusMinutes / model.workDuration)
+    });
+  }
+
+  return {
+    days,
+    cadence: {
+      id: model.id,
+      name: model.name,
+      workDuration: model.workDuration,
+      restDuration: model.restDuration,
+      ...(model.cycles !== undefined ? { cycles: model.cycles } : {}),
+      ...(model.longRestDuration !== undefined ? { longRestDuration: model.longRestDuration } : {})
+    },
+    peakHours: [...(profile?.peakHours || [])].sort((a, b) => a - b),
+    energyLearned: !!profile?.learned,
+    conflictCount: days.reduce((sum, day) => sum + day.conflicts.length, 0)
+  };
+}
+
+/**
+ * Adds a deep-work block to each workday for every run of consecutive peak hours that is
+ * still free. The blocks repeat every week on their weekday, so only the stored weekly plan
+ * is checked - a one-off meeting this week does not decide them. Returns how many blocks
+ * were added.
+ */
+export function autoFillDeepWork(): number {
+  const profile = advancedScheduler?.getEnergyProfile();
+  if (!profile || profile.peakHours.length === 0) {
+    return 0;
+  }
+
+  const model = getSelectedModel();
+  const stored = state.storage?.loadTimeBlocks() || {};
+  const runs = getPeakRuns(profile.peakHours);
+  let added = 0;
+
+  WORKDAYS.forEach(day => {
+    const dayBlocks = getBlocksForDay(stored, day);
+
+    runs.forEach(run => {
+      // Whole work periods of the selected model, so breaks land at the block edges -
+      // a run shorter than one period is filled as it is
+      const available = Math.min(run.duration, MAX_DEEP_WORK_MINUTES);
+      const periods = Math.floor(available / model.workDuration);
+      const block: TimeBlock = {
+        id: `autofill_${day}_${run.startTime}_${Date.now()}`,
+        name: 'Peak Deep Work',
+        startTime: run.startTime,
+        duration: periods > 0 ? periods * model.workDuration : available,
+        type: 'deep-work',
+        priority: 5,
+        recurring: false
+      };
+
+      if (hasTimeConflict(dayBlocks, block, day)) return;
+
+      dayBlocks.push(block);
+      stored[day] = [...(stored[day] || []), block];
+      added++;
+    });
+  });
+
+  if (added > 0) {
+    state.storage?.saveCustomSetting('timeBlocking.blocks', stored);
+  }
+  return added;
+}
+
+function getSelectedModel(): WorkRestModel {
+  const sessionModel = getCurrentSession()?.model;
+  if (sessionModel) return sessionModel;
+
+  const modelId = getConfiguration().workRestModel;
+  return (modelId && getWorkRestModelById(modelId)) || getDefaultWorkRestModel();
+}
+
+// Peak hours grouped into consecutive runs, e.g. [9, 10, 14] -> 9:00-11:00 and 14:00-15:00
+function getPeakRuns(peakHours: number[]): Array<{ startTime: number; duration: number }> {
+  const runs: Array<{ startTime: number; duration: number }> = [];
+  [...peakHours].sort((a, b) => a - b).forEach(hour => {
+    const last = runs[runs.length - 1];
+    if (last && last.startTime + last.duration === hour * 60) {
+      last.duration += 60;
+    } else {
+      runs.push({ startTime: hour * 60, duration: 60 });
+    }
+  });
+  return runs;
+}
+
+function getTasksForDate(tasks: TaskSchedule[], date: Date): PlannerTask[] {
+  const dayStart = date.getTime();
+  const dayEnd = dayStart + DAY_MS;
+  const inDay = (value?: Date) => !!value && value.getTime() >= dayStart && value.getTime() < dayEnd;
+
+  return tasks
+    .filter(task => inDay(task.scheduledTime) || inDay(task.deadline))
+    .map(task => ({
+      id: task.id,
+      name: task.name,
+      priority: task.priority,
+      startTime: inDay(task.scheduledTime) ? Math.round((task.scheduledTime!.getTime() - dayStart) / 60000) : null,
+      duration: task.estimatedDuration,
+      due: inDay(task.deadline)
+    }))
+    .sort((a, b) => (a.startTime ?? Infinity) - (b.startTime ?? Infinity));
+}
@@ -290,6 +290,7 @@ export function startUIUpdates(): void {
         state.activityBarProvider.updateScreenTime();
         state.activityBarProvider.updateActivityStatus();
       }
+      state.activityBarProvider.updateUltradianRhythm();
       if (config.enableGoals) {
         updateWellnessGoals(); // Update goals and challenges progress
         state.activityBarProvider.updateWellnessGoals();
@@ -300,13 +301,10 @@ export function startUIUpdates(): void {
 }
 
 // Daily Data Recording
-export function recordDailyWellnessData(): void {
+export function captureDailyWellnessSnapshot(): DailyWellnessData {
   const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
 
-  // Check if we already have data for today
-  const existingDataIndex = state.dailyWellnessData.findIndex(data => data.date === today);
-
-  const dailyData: DailyWellnessData = {
+  return {
     date: today,
     breaksTaken: state.breakStats.breaksTaken,
     screenTimeMinutes: state.screenTimeStats.totalScreenTimeToday,
@@ -321,6 +319,13 @@ export function recordDailyWellnessData(): void {
     }).length,
     streakDays: state.breakStats.streakDays
   };
+}
+
+export function recordDailyWellnessData(): void {
+  const dailyData = captureDailyWellnessSnapshot();
+
+  // Check if we already have data for today
+  const existingDataIndex = state.dailyWellnessData.findIndex(data => data.date === dailyData.date);
 
   if (existingDataIndex >= 0) {
     // Update existing data
@@ -386,6 +391,16 @@ export function setupDailyDataRecording(context: vscode.ExtensionContext): void
   context.subscriptions.push({
     dispose: () => clearTimeout(midnightTimer)
   });
+
+  // Keep today's record current so a day that ends while VS Code is closed
+  // still has its last known totals
+  const snapshotTimer = setInterval(() => {
+    recordDailyWellnessData();
+  }, 15 * 60 * 1000); // Every 15 minutes
+
+  context.subscriptions.push({
+    dispose: () => clearInterval(snapshotTimer)
+  });
 }
 
 // Custom Goals Management
@@ -0,0 +1,482 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ActivityEvent } from './activityIntegration/activityTypes';
+import { WorkRestModel } from '../types';
+import { CheckedOutBranch } from '../utils/gitBranches';
+import { RestDeferralBlocker } from './restDeferralService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Cross-window coordination
+ * Only one VS Code window (the leader) runs reminder and work-rest timers.
+ * Other windows forward their activity to it and mirror its status.
+ */
+
+export interface LeaderLock {
+  windowId: string;
+  pid: number;
+  heartbeat: number;
+}
+
+export interface SharedWindowState {
+  windowId: string;
+  statusBarText: string;
+  nextReminder: number | null;
+  phase: 'work' | 'rest' | null;
+  updatedAt: number;
+}
+
+/**
+ * What each window shares about itself, whatever its role
+ */
+export interface WindowContext {
+  windowId: string;
+  branches: CheckedOutBranch[];
+  folders: string[];
+  restBlockers: RestDeferralBlocker[]; // Debug sessions and tasks that should hold the shared break back
+  // Bumped each time the window saves shared data, so the others know to reload it
+  dataRevisions: Record<string, number>;
+  updatedAt: number;
+}
+
+/**
+ * A work-rest session change requested in a follower window, carried out by the leader
+ */
+export type SessionCommand =
+  | { type: 'start'; model: WorkRestModel }
+  | { type: 'stop' }
+  | { type: 'switch'; model: WorkRestModel }
+  | { type: 'takeBreak' }
+  | { type: 'endRestEarly' };
+
+export interface WindowRoleHandlers {
+  onBecomeLeader: () => void;
+  onBecomeFollower: () => void;
+  publishState: () => Omit<SharedWindowState, 'windowId' | 'updatedAt'>;
+  applyState: (shared: SharedWindowState) => void;
+  ingestActivity: (events: ActivityEvent[]) => void;
+  runSessionCommand: (command: SessionCommand) => void;
+  describeWindow: () => Omit<WindowContext, 'windowId' | 'dataRevisions' | 'updatedAt'>;
+}
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+// A leader that missed this many heartbeats is considered gone
+const LEADER_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 3;
+
+const LOCK_FILE = 'leader.lock';
+const STATE_FILE = 'shared-state.json';
+const ACTIVITY_DIR = 'forwarded-activity';
+const COMMAND_DIR = 'forwarded-commands';
+const WINDOWS_DIR = 'windows';
+
+const windowId = `${process.pid}_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`;
+
+let storageDir: string | null = null;
+let handlers: WindowRoleHandlers | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let role: 'leader' | 'follower' | null = null;
+let mirroredState: SharedWindowState | null = null;
+// Keeps commands forwarded within the same millisecond in order
+let commandSequence = 0;
+let otherWindows: WindowContext[] = [];
+const dataRevisions: Record<string, number> = {};
+const seenRevisions = new Map<string, Record<string, number>>();
+
+const sharedDataChanged = new vscode.EventEmitter<string>();
+// Fires with the area name when another window saved shared data
+export const onDidChangeSharedData = sharedDataChanged.event;
+
+const otherWindowsUpdated = new vscode.EventEmitter<void>();
+// Fires on each heartbeat once the other windows' contexts have been read
+export const onDidUpdateOtherWindows = otherWindowsUpdated.event;
+
+export function initializeWindowCoordinator(context: vscode.ExtensionContext, roleHandlers: WindowRoleHandlers): void {
+  handlers = roleHandlers;
+
+  try {
+    storageDir = context.globalStorageUri.fsPath;
+    fs.mkdirSync(path.join(storageDir, ACTIVITY_DIR), { recursive: true });
+    fs.mkdirSync(path.join(storageDir, COMMAND_DIR), { recursive: true });
+    fs.mkdirSync(path.join(storageDir, WINDOWS_DIR), { recursive: true });
+  } catch (error) {
+    // Without shared storage every window acts on its own, as before
+    Logger.error('Window coordination unavailable, running standalone:', error);
+    storageDir = null;
+    setRole(true);
+    return;
+  }
+
+  setRole(tryAcquireLeadership());
+  publishWindowContext();
+
+  heartbeatTimer = setInterval(() => {
+    tick();
+  }, HEARTBEAT_INTERVAL_MS);
+
+  context.subscriptions.push({ dispose: () => disposeWindowCoordinator() });
+}
+
+export function isLeaderWindow(): boolean {
+  // Until coordination starts every window behaves as it always has
+  return role !== 'follower';
+}
+
+export function getWindowId(): string {
+  return windowId;
+}
+
+/**
+ * Hands activity recorded in a follower window to the leader
+ */
+export function forwardActivityEvents(events: ActivityEvent[]): void {
+  if (!storageDir || events.length === 0) return;
+
+  try {
+    const file = path.join(storageDir, ACTIVITY_DIR, `${windowId}_${Date.now()}.json`);
+    writeAtomic(file, JSON.stringify(events));
+  } catch (error) {
+    Logger.error('Failed to forward activity events:', error);
+  }
+}
+
+/**
+ * Hands a session command issued in a follower window to the leader
+ */
+export function forwardSessionCommand(command: SessionCommand): void {
+  if (!storageDir) return;
+
+  try {
+    // Timestamp first so the leader replays commands in the order they were issued
+    const sequence = String(commandSequence++).padStart(6, '0');
+    const file = path.join(storageDir, COMMAND_DIR, `${Date.now()}_${sequence}_${windowId}.json`);
+    writeAtomic(file, JSON.stringify(command));
+  } catch (error) {
+    Logger.error('Failed to forward session command:', error);
+  }
+}
+
+/**
+ * Tells the other windows that this one saved data in the given area
+ */
+export function markSharedDataChanged(area: string): void {
+  dataRevisions[area] = (dataRevisions[area] || 0) + 1;
+  // Publish right away rather than on the next heartbeat, so the others reload sooner
+  publishWindowContext();
+}
+
+/**
+ * The other open windows, as of the last heartbeat
+ */
+export function getOtherWindows(): WindowContext[] {
+  return otherWindows;
+}
+
+/**
+ * Session phase last published by the leader, as seen from a follower window
+ */
+export function getMirroredPhase(): SharedWindowState['phase'] {
+  if (!mirroredState || Date.now() - mirroredState.updatedAt >= LEADER_TIMEOUT_MS) return null;
+  return mirroredState.phase;
+}
+
+export function disposeWindowCoordinator(): void {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+
+  // Release the lock so another window takes over without waiting for the timeout
+  if (role === 'leader' && storageDir) {
+    const lock = readLock();
+    if (lock?.windowId === windowId) {
+      try {
+        fs.unlinkSync(path.join(storageDir, LOCK_FILE));
+      } catch (error) {
+        Logger.warn('Failed to release leader lock:', error);
+      }
+    }
+  }
+
+  if (storageDir) {
+    try {
+      fs.unlinkSync(path.join(storageDir, WINDOWS_DIR, `${windowId}.json`));
+    } catch {
+      // Never published
+    }
+  }
+
+  role = null;
+  handlers = null;
+  mirroredState = null;
+  storageDir = null;
+  otherWindows = [];
+  seenRevisions.clear();
+}
+
+function tick(): void {
+  if (!storageDir || !handlers) return;
+
+  publishWindowContext();
+  readOtherWindows();
+
+  if (role === 'leader') {
+    const lock = readLock();
+    if (lock && lock.windowId !== windowId) {
+      // Another window took over while this one was suspended
+      Logger.warn(`Leadership lost to window ${lock.windowId}`);
+      setRole(false);
+      return;
+    }
+    writeLock();
+    // Run follower commands first so the published state already reflects them
+    collectForwardedCommands();
+    publishSharedState();
+    collectForwardedActivity();
+  } else {
+    if (tryAcquireLeadership()) {
+      setRole(true);
+      return;
+    }
+    mirrorSharedState();
+  }
+}
+
+function setRole(leader: boolean): void {
+  const nextRole = leader ? 'leader' : 'follower';
+  if (!handlers || role === nextRole) return;
+
+  role = nextRole;
+  Logger.log(`Window ${windowId} is now ${nextRole}`);
+
+  if (leader) {
+    mirroredState = null;
+    handlers.onBecomeLeader();
+    collectForwardedCommands();
+    publishSharedState();
+  } else {
+    handlers.onBecomeFollower();
+    mirrorSharedState();
+  }
+}
+
+function tryAcquireLeadership(): boolean {
+  if (!storageDir) return true;
+
+  const lockPath = path.join(storageDir, LOCK_FILE);
+  const existing = readLock();
+
+  if (existing) {
+    if (existing.windowId === windowId) return true;
+    if (Date.now() - existing.heartbeat < LEADER_TIMEOUT_MS) return false;
+
+    // Stale leader - remove its lock and compete for a fresh one
+    try {
+      fs.unlinkSync(lockPath);
+    } catch {
+      // Another window removed it first
+    }
+  }
+
+  try {
+    // 'wx' fails if the file exists, so only one window wins the race
+    fs.writeFileSync(lockPath, JSON.stringify(createLock()), { flag: 'wx' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function createLock(): LeaderLock {
+  return { windowId, pid: process.pid, heartbeat: Date.now() };
+}
+
+function readLock(): LeaderLock | null {
+  if (!storageDir) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(path.join(storageDir, LOCK_FILE), 'utf8')) as LeaderLock;
+  } catch {
+    return null;
+  }
+}
+
+function writeLock(): void {
+  if (!storageDir) return;
+
+  try {
+    writeAtomic(path.join(storageDir, LOCK_FILE), JSON.stringify(createLock()));
+  } catch (error) {
+    Logger.error('Failed to renew leader lock:', error);
+  }
+}
+
+function publishSharedState(): void {
+  if (!storageDir || !handlers) return;
+
+  const shared: SharedWindowState = {
+    ...handlers.publishState(),
+    windowId,
+    updatedAt: Date.now()
+  };
+
+  try {
+    writeAtomic(path.join(storageDir, STATE_FILE), JSON.stringify(shared));
+  } catch (error) {
+    Logger.error('Failed to publish shared window state:', error);
+  }
+}
+
+function mirrorSharedState(): void {
+  if (!storageDir || !handlers) return;
+
+  try {
+    const shared = JSON.parse(fs.readFileSync(path.join(storageDir, STATE_FILE), 'utf8')) as SharedWindowState;
+    if (Date.now() - shared.updatedAt < LEADER_TIMEOUT_MS) {
+      mirroredState = shared;
+      handlers.applyState(shared);
+    }
+  } catch {
+    // Leader has not published yet
+  }
+}
+
+function collectForwardedActivity(): void {
+  if (!storageDir || !handlers) return;
+
+  const dir = path.join(storageDir, ACTIVITY_DIR);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith('.json'));
+  } catch (error) {
+    Logger.error('Failed to read forwarded activity:', error);
+    return;
+  }
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    try {
+      const events = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ActivityEvent[];
+      handlers.ingestActivity(events);
+    } catch (error) {
+      Logger.warn(`Dropping unreadable forwarded activity file ${file}:`, error);
+    }
+
+    try {
+      fs.unlinkSync(filePath);
+    } catch {
+      // Already removed
+    }
+  }
+}
+
+function publishWindowContext(): void {
+  if (!storageDir || !handlers) return;
+
+  const context: WindowContext = {
+    ...handlers.describeWindow(),
+    windowId,
+    dataRevisions,
+    updatedAt: Date.now()
+  };
+
+  try {
+    writeAtomic(path.join(storageDir, WINDOWS_DIR, `${windowId}.json`), JSON.stringify(context));
+  } catch (error) {
+    Logger.error('Failed to publish window context:', error);
+  }
+}
+
+function readOtherWindows(): void {
+  if (!storageDir) return;
+
+  const dir = path.join(storageDir, WINDOWS_DIR);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith('.json') && file !== `${windowId}.json`);
+  } catch (error) {
+    Logger.error('Failed to read other window contexts:', error);
+    return;
+  }
+
+  const windows: WindowContext[] = [];
+  const changedAreas = new Set<string>();
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let context: WindowContext;
+    try {
+      context = JSON.parse(fs.readFileSync(filePath, 'utf8')) as WindowContext;
+    } catch {
+      // Being replaced, or left half-written by a crash
+      continue;
+    }
+
+    if (Date.now() - context.updatedAt >= LEADER_TIMEOUT_MS) {
+      // A window that closed without cleaning up
+      if (Date.now() - context.updatedAt >= LEADER_TIMEOUT_MS * 4) {
+        try {
+          fs.unlinkSync(filePath);
+        } catch {
+          // Already removed
+        }
+      }
+      continue;
+    }
+
+    const seen = seenRevisions.get(context.windowId) || {};
+    Object.entries(context.dataRevisions || {}).forEach(([area, revision]) => {
+      if (seen[area] !== revision) changedAreas.add(area);
+    });
+    seenRevisions.set(context.windowId, { ...context.dataRevisions });
+    windows.push(context);
+  }
+
+  otherWindows = windows;
+  changedAreas.forEach(area => sharedDataChanged.fire(area));
+  otherWindowsUpdated.fire();
+}
+
+function collectForwardedCommands(): void {
+  if (!storageDir || !handlers) return;
+
+  const dir = path.join(storageDir, COMMAND_DIR);
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    Logger.error('Failed to read forwarded session commands:', error);
+    return;
+  }
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let command: SessionCommand | null = null;
+    try {
+      command = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SessionCommand;
+    } catch (error) {
+      Logger.warn(`Dropping unreadable forwarded command file ${file}:`, error);
+    }
+
+    // Remove before running so a command that throws is not replayed every tick
+    try {
+      fs.unlinkSync(filePath);
+    } catch {
+      // Already removed
+    }
+
+    if (command) {
+      try {
+        handlers.runSessionCommand(command);
+      } catch (error) {
+        Logger.error(`Forwarded session command ${command.type} failed:`, error);
+      }
+    }
+  }
+}
+
+// Write to a temp file and rename so readers never see a partial file
+function writeAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${windowId}.tmp`;
+  fs.writeFileSync(tempPath, content, 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
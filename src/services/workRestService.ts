@@ -7,6 +7,16 @@ import { startRestEnforcement, stopRestEnforcement } from './screenBlockingServi
 import { usageAnalytics } from './usageAnalyticsService';
 import { realTimeSessionAnalyzer } from './realTimeSessionAnalyzer';
 import { IntelligentModelSwitcher } from './intelligentModelSwitcher';
+import { getCalendarSyncConfig, getMeetingConflict, getMeetingRunContaining, MeetingRun } from './calendarService';
+import { ULTRADIAN_MODEL_ID, getUltradianWorkMinutes } from './activityIntegration/ultradianRhythmService';
+import { advancedScheduler } from './activityIntegration/advancedSchedulerService';
+import { SmartScheduler } from './activityIntegration/smartScheduler';
+import { activitySettings } from './activityIntegration/activitySettings';
+import { BaseActivityMonitor } from './activityIntegration/baseActivityMonitor';
+import { getRestDeferralBlocker, canDeferRest, recordRestDeferral, onDidClearRestDeferralBlockers } from './restDeferralService';
+import { getActiveTimeBlock, getNextTimeBlockBoundary, getTimeBlockEnd, getTimeBlockWorkMinutes, describeTimeBlock } from './timeBlockScheduleService';
+import { isLeaderWindow, forwardSessionCommand, getMirroredPhase } from './windowCoordinator';
+import { Logger } from '../utils/logger';
 
 export interface WorkRestSession {
   model: WorkRestModel;
@@ -15,15 +25,54 @@ export interface WorkRestSession {
   startTime: Date;
   endTime: Date;
   totalCycles: number;
+  flowExtensionMinutes: number;
+}
+
+export interface BreakWindow {
+  start: Date;
+  end: Date;
+  isLongRest: boolean;
+}
+
+export interface WorkPeriod {
+  start: Date;
+  end: Date;
 }
 
 let currentSession: WorkRestSession | null = null;
 let sessionTimer: ReturnType<typeof setTimeout> | null = null;
+let timeBlockTimer: ReturnType<typeof setTimeout> | null = null;
+let deferredForMeetingsUntil: Date | null = null;
+
+// Break held back for a debug session or task, and the watcher that starts it when they end
+let activityDeferral: { until: Date; watcher: vscode.Disposable } | null = null;
+
+// Flow detection keeps state between checks, so one scheduler is kept per activity monitor
+let flowScheduler: { monitor: BaseActivityMonitor; scheduler: SmartScheduler } | null = null;
+
+// Fires when a work period turns into a break or the session is stopped mid-work
+const workPeriodEnded = new vscode.EventEmitter<WorkPeriod>();
+export const onDidEndWorkPeriod = workPeriodEnded.event;
+
+// Fires when a work-rest session starts or is stopped
+const sessionStateChanged = new vscode.EventEmitter<'started' | 'stopped'>();
+export const onDidChangeSessionState = sessionStateChanged.event;
+
+// A saved session whose deadline passed longer ago than this is discarded
+const STALE_SESSION_MS = 8 * 60 * 60 * 1000;
+
+// Deadline pressure never shortens a break below this
+const MIN_COMPRESSED_REST_MINUTES = 5;
 
 export function initializeWorkRestModel(): void {
   const config = getConfiguration();
   const modelId = config.workRestModel;
 
+  // Pick up the session that was running before the window reloaded
+  if (resumeWorkRestSession(modelId)) {
+    return;
+  }
+
   if (modelId) {
     const model = getWorkRestModelById(modelId);
     if (model) {
@@ -33,6 +82,12 @@ export function initializeWorkRestModel(): void {
 }
 
 export function startWorkRestSession(model: WorkRestModel): void {
+  // Only the leader window runs the session timers
+  if (!isLeaderWindow()) {
+    forwardSessionCommand({ type: 'start', model });
+    return;
+  }
+
   // Clear any existing session
   if (sessionTimer) {
     clearTimeout(sessionTimer);
@@ -47,16 +102,19 @@ export function startWorkRestSession(model: WorkRestModel): void {
     currentCycle: 1,
     isWorking: true,
     startTime: new Date(),
-    endTime: new Date(Date.now() + model.workDuration * 60 * 1000),
-    totalCycles: model.cycles || 0
+    endTime: new Date(),
+    totalCycles: model.cycles || 0,
+    flowExtensionMinutes: 0
   };
+  const workDuration = getWorkDuration(currentSession);
 
   // Track session start for analytics
   usageAnalytics.trackModelSelection(model.id, 'default');
-  usageAnalytics.trackSessionStart(model.id, model.workDuration);
+  usageAnalytics.trackSessionStart(model.id, workDuration);
 
   // Start the work period
   startWorkPeriod();
+  watchTimeBlocks();
 
   // Start real-time analysis for intelligent break timing
   realTimeSessionAnalyzer.startSessionAnalysis();
@@ -65,12 +123,19 @@ export function startWorkRestSession(model: WorkRestModel): void {
   const modelSwitcher = IntelligentModelSwitcher.getInstance();
   modelSwitcher.recordModelSelection(model.id, 'user_selection');
 
+  sessionStateChanged.fire('started');
+
   vscode.window.showInformationMessage(
-    `🚀 Started ${model.name} session!\nWork: ${model.workDuration}min | Rest: ${model.restDuration}min\n\n💡 Remember: You must manually confirm rest periods!\n\n🤖 ML Analysis Active: Real-time break suggestions enabled!`
+    `🚀 Started ${model.name} session!\nWork: ${workDuration}min | Rest: ${model.restDuration}min\n\n💡 Remember: You must manually confirm rest periods!\n\n🤖 ML Analysis Active: Real-time break suggestions enabled!`
   );
 }
 
 export function stopWorkRestSession(): void {
+  if (!isLeaderWindow()) {
+    forwardSessionCommand({ type: 'stop' });
+    return;
+  }
+
   if (sessionTimer) {
     clearTimeout(sessionTimer);
     sessionTimer = null;
@@ -78,17 +143,92 @@ export function stopWorkRestSession(): void {
 
   // Stop real-time analysis
   realTimeSessionAnalyzer.stopSessionAnalysis();
+  deferredForMeetingsUntil = null;
+  clearActivityDeferral();
+  stopWatchingTimeBlocks();
+
+  if (currentSession?.isWorking) {
+    workPeriodEnded.fire({ start: currentSession.startTime, end: new Date() });
+  }
 
   if (currentSession) {
     vscode.window.showInformationMessage(`⏹️ Stopped ${currentSession.model.name} session.`);
     currentSession = null;
+    sessionStateChanged.fire('stopped');
   }
+
+  saveSession();
+}
+
+/**
+ * Stops local timers without ending the saved session, so another window can resume it
+ */
+export function suspendWorkRestSession(): void {
+  if (sessionTimer) {
+    clearTimeout(sessionTimer);
+    sessionTimer = null;
+  }
+
+  realTimeSessionAnalyzer.stopSessionAnalysis();
+  clearActivityDeferral();
+  stopWatchingTimeBlocks();
+
+  if (currentSession && !currentSession.isWorking) {
+    stopRestEnforcement();
+  }
+  currentSession = null;
 }
 
 export function getCurrentSession(): WorkRestSession | null {
   return currentSession;
 }
 
+/**
+ * Phase of the session driving this window - the leader's session when this window follows
+ */
+export function getSessionPhase(): 'work' | 'rest' | null {
+  if (!isLeaderWindow()) return getMirroredPhase();
+  if (!currentSession) return null;
+  return currentSession.isWorking ? 'work' : 'rest';
+}
+
+/**
+ * Projects the session's rest periods up to the given time, assuming each work period runs
+ * its full length and breaks are moved out of meetings the same way the timer moves them
+ */
+export function getUpcomingBreaks(until: Date): BreakWindow[] {
+  if (!currentSession) return [];
+
+  const { model } = currentSession;
+  const avoidMeetings = getCalendarSyncConfig().autoAvoidMeetings;
+  const breaks: BreakWindow[] = [];
+  let cycle = currentSession.currentCycle;
+  let breakStart = currentSession.isWorking ? currentSession.endTime.getTime() : currentSession.startTime.getTime();
+
+  while (breakStart < until.getTime()) {
+    const isLongRest = !!(model.cycles && cycle >= model.cycles && model.longRestDuration);
+    const restMs = compressForDeadlines(isLongRest ? model.longRestDuration! : model.restDuration) * 60 * 1000;
+    const inProgress = !currentSession.isWorking && breaks.length === 0;
+
+    if (avoidMeetings && !inProgress) {
+      const meeting = getMeetingConflict(new Date(breakStart), new Date(breakStart + restMs));
+      if (meeting) {
+        breakStart = (getMeetingRunContaining(meeting)?.end ?? meeting.end).getTime();
+        continue;
+      }
+    }
+
+    const breakEnd = inProgress ? currentSession.endTime.getTime() : breakStart + restMs;
+    breaks.push({ start: new Date(breakStart), end: new Date(breakEnd), isLongRest });
+
+    cycle = isLongRest ? 1 : cycle + 1;
+    if (model.cycles && cycle > model.cycles) break;
+    breakStart = breakEnd + getWorkDuration(currentSession, new Date(breakEnd)) * 60 * 1000;
+  }
+
+  return breaks;
+}
+
 export function getAvailableModels(): WorkRestModel[] {
   return [
     getDefaultWorkRestModel(),
@@ -96,24 +236,194 @@ export function getAvailableModels(): WorkRestModel[] {
   ];
 }
 
+/**
+ * Restores a saved session, reconciling any deadline that passed while VS Code was closed
+ */
+function resumeWorkRestSession(configuredModelId: string | undefined): boolean {
+  const stored = state.storage?.loadWorkRestSession();
+  if (!stored) {
+    return false;
+  }
+
+  const endTime = new Date(stored.endTime);
+  const overdueMs = Date.now() - endTime.getTime();
+
+  // The session may run a model other than the configured one (AI-generated, started from a task...),
+  // so only a change to the setting itself means the user wants to start over.
+  // Sessions saved before the setting was recorded fall back to comparing the model.
+  const settingChanged = (stored.configuredModelId ?? stored.model.id) !== configuredModelId;
+
+  // Model changed in settings or session abandoned - start over instead
+  if (settingChanged || isNaN(endTime.getTime()) || overdueMs > STALE_SESSION_MS) {
+    Logger.log(`Discarding saved ${stored.model.id} session`);
+    state.storage?.saveWorkRestSession(null);
+    return false;
+  }
+
+  currentSession = {
+    model: stored.model,
+    currentCycle: stored.currentCycle,
+    isWorking: stored.isWorking,
+    startTime: new Date(stored.startTime),
+    endTime,
+    totalCycles: stored.totalCycles,
+    flowExtensionMinutes: stored.flowExtensionMinutes ?? 0
+  };
+
+  realTimeSessionAnalyzer.startSessionAnalysis();
+  watchTimeBlocks();
+  Logger.log(`Resuming ${stored.model.id} session (cycle ${stored.currentCycle}, ${stored.isWorking ? 'work' : 'rest'})`);
+
+  if (overdueMs <= 0) {
+    // Deadline still ahead - continue with the time that was left
+    if (currentSession.isWorking) {
+      sessionTimer = setTimeout(() => {
+        onWorkPeriodEnd();
+      }, -overdueMs);
+    } else {
+      startRestEnforcement(currentSession.endTime);
+      sessionTimer = setTimeout(() => {
+        onRestPeriodEnd();
+      }, -overdueMs);
+    }
+    updateStatusBar();
+    return true;
+  }
+
+  if (currentSession.isWorking) {
+    const restDuration = getRestDuration(currentSession);
+
+    if (overdueMs >= restDuration * 60 * 1000) {
+      // VS Code stayed closed for at least a full rest - count it as taken
+      usageAnalytics.trackBreakTaken(currentSession.model.id, 'scheduled', restDuration);
+      currentSession.isWorking = false;
+      onRestPeriodEnd(true);
+    } else {
+      onWorkPeriodEnd();
+    }
+    return true;
+  }
+
+  // Rest ran out while VS Code was closed
+  onRestPeriodEnd(true);
+  return true;
+}
+
+function getRestDuration(session: WorkRestSession): number {
+  const isLongRest = session.model.cycles &&
+                     session.currentCycle >= session.model.cycles &&
+                     session.model.longRestDuration;
+
+  const restMinutes = compressForDeadlines(isLongRest ? session.model.longRestDuration! : session.model.restDuration);
+  return restMinutes + getFlowRestCredit(session, restMinutes);
+}
+
+// Work added for flow earns rest at the model's own work:rest ratio
+function getFlowRestCredit(session: WorkRestSession, restMinutes: number): number {
+  if (session.flowExtensionMinutes <= 0) return 0;
+  return Math.max(1, Math.round(session.flowExtensionMinutes * restMinutes / session.model.workDuration));
+}
+
+// Approaching deadlines shorten breaks, unless burnout signals make that unsafe
+function compressForDeadlines(restMinutes: number): number {
+  const restFactor = advancedScheduler?.getTimePressure()?.restFactor ?? 1;
+  if (restFactor >= 1) return restMinutes;
+
+  return Math.max(Math.min(restMinutes, MIN_COMPRESSED_REST_MINUTES), Math.round(restMinutes * restFactor));
+}
+
+// Today's time block sets the length first; ultradian sessions otherwise work until the
+// break lands on the next predicted trough
+function getWorkDuration(session: WorkRestSession, from: Date = new Date()): number {
+  const block = getActiveTimeBlock(from);
+  const blockMinutes = block ? getTimeBlockWorkMinutes(block, session.model, from) : null;
+  if (blockMinutes !== null) return blockMinutes;
+
+  return session.model.id === ULTRADIAN_MODEL_ID
+    ? getUltradianWorkMinutes(from, getRestDuration(session))
+    : session.model.workDuration;
+}
+
+// Re-checks the session whenever one of today's blocks starts or ends
+function watchTimeBlocks(): void {
+  stopWatchingTimeBlocks();
+  const boundary = getNextTimeBlockBoundary();
+  timeBlockTimer = setTimeout(() => {
+    timeBlockTimer = null;
+    onTimeBlockChanged();
+    if (currentSession) watchTimeBlocks();
+  }, Math.max(1000, boundary.getTime() - Date.now()));
+}
+
+function stopWatchingTimeBlocks(): void {
+  if (timeBlockTimer) {
+    clearTimeout(timeBlockTimer);
+    timeBlockTimer = null;
+  }
+}
+
+function onTimeBlockChanged(): void {
+  if (!currentSession) return;
+
+  const block = getActiveTimeBlock();
+  if (block?.type === 'breaks' && currentSession.isWorking) {
+    // A planned break block rests for as long as the block lasts
+    if (sessionTimer) {
+      clearTimeout(sessionTimer);
+      sessionTimer = null;
+    }
+    const restMinutes = Math.max(1, Math.round((getTimeBlockEnd(block).getTime() - Date.now()) / 60000));
+    vscode.window.showInformationMessage(`☕ "${block.name}" has started - time to rest for ${restMinutes} minutes.`);
+    startRestPeriod(true, restMinutes);
+    return;
+  }
+
+  updateStatusBar();
+}
+
+function saveSession(): void {
+  if (!state.storage) return;
+
+  const configuredModelId = getConfiguration().workRestModel;
+  state.storage.saveWorkRestSession(currentSession ? {
+    model: currentSession.model,
+    currentCycle: currentSession.currentCycle,
+    isWorking: currentSession.isWorking,
+    startTime: currentSession.startTime.toISOString(),
+    endTime: currentSession.endTime.toISOString(),
+    totalCycles: currentSession.totalCycles,
+    flowExtensionMinutes: currentSession.flowExtensionMinutes,
+    ...(configuredModelId !== undefined && { configuredModelId }),
+    savedAt: new Date().toISOString()
+  } : null);
+}
+
 function startWorkPeriod(): void {
   if (!currentSession) return;
 
+  currentSession.flowExtensionMinutes = 0;
+  const workDuration = getWorkDuration(currentSession);
   currentSession.isWorking = true;
   currentSession.startTime = new Date();
-  currentSession.endTime = new Date(Date.now() + currentSession.model.workDuration * 60 * 1000);
+  currentSession.endTime = new Date(Date.now() + workDuration * 60 * 1000);
 
   // Set timer for work period end
   sessionTimer = setTimeout(() => {
     onWorkPeriodEnd();
-  }, currentSession.model.workDuration * 60 * 1000);
+  }, workDuration * 60 * 1000);
 
+  saveSession();
   updateStatusBar();
 }
 
-function startRestPeriod(autoStart: boolean = false): void {
+function startRestPeriod(autoStart: boolean = false, restMinutes?: number): void {
   if (!currentSession) return;
 
+  deferredForMeetingsUntil = null;
+  clearActivityDeferral();
+  if (currentSession.isWorking) {
+    workPeriodEnded.fire({ start: currentSession.startTime, end: new Date() });
+  }
   currentSession.isWorking = false;
   currentSession.startTime = new Date();
 
@@ -122,8 +432,9 @@ function startRestPeriod(autoStart: boolean = false): void {
                      currentSession.currentCycle >= currentSession.model.cycles &&
                      currentSession.model.longRestDuration;
 
-  const restDuration = isLongRest ? currentSession.model.longRestDuration! : currentSession.model.restDuration;
+  const restDuration = restMinutes ?? getRestDuration(currentSession);
   currentSession.endTime = new Date(Date.now() + restDuration * 60 * 1000);
+  saveSession();
 
   // Set timer for rest period end
   sessionTimer = setTimeout(() => {
@@ -131,7 +442,7 @@ function startRestPeriod(autoStart: boolean = false): void {
   }, restDuration * 60 * 1000);
 
   // Start screen blocking/enforcement
-  startRestEnforcement();
+  startRestEnforcement(currentSession.endTime);
 
   // Track break taken
   usageAnalytics.trackBreakTaken(currentSession.model.id, autoStart ? 'scheduled' : 'manual', restDuration);
@@ -142,8 +453,10 @@ function startRestPeriod(autoStart: boolean = false): void {
   } else {
     // Manual start - show rest notification with snooze option
     const restType = isLongRest ? 'long break' : 'short break';
+    const pressure = advancedScheduler?.getTimePressure();
+    const deadlineNote = pressure && pressure.restFactor < 1 ? ` (shortened for "${pressure.deadline.label}")` : '';
     vscode.window.showInformationMessage(
-      `🔔 Time for a ${restType}!\nRest for ${restDuration} minutes to recharge.\n\n⏰ 10 seconds left to rest - then blocking activates!`,
+      `🔔 Time for a ${restType}!\nRest for ${restDuration} minutes${deadlineNote} to recharge.\n\n⏰ 10 seconds left to rest - then blocking activates!`,
       'Start Rest Now',
       'Snooze 10 min'
     ).then(selection => {
@@ -164,6 +477,7 @@ function startRestPeriod(autoStart: boolean = false): void {
             onWorkPeriodEnd();
           }, 10 * 60 * 1000);
           vscode.window.showInformationMessage('⏰ Extended work period by 10 minutes.');
+          saveSession();
           updateStatusBar();
         }
         return;
@@ -177,9 +491,14 @@ function startRestPeriod(autoStart: boolean = false): void {
 function onWorkPeriodEnd(): void {
   if (!currentSession) return;
 
+  if (deferBreakForMeetingBlock(currentSession)) return;
+  if (deferBreakForMeetings(currentSession)) return;
+  if (deferBreakForActivity(currentSession)) return;
+  if (extendWorkForFlow(currentSession)) return;
+
   // Notify user that work period is over
   vscode.window.showInformationMessage(
-    `⏰ Work period complete!\nYou've worked for ${currentSession.model.workDuration} minutes.`,
+    `⏰ Work period complete!\nYou've worked for ${Math.round((Date.now() - currentSession.startTime.getTime()) / 60000)} minutes.`,
     'Take Break Now',
     'Snooze 5 min'
   ).then(selection => {
@@ -190,11 +509,184 @@ function onWorkPeriodEnd(): void {
       sessionTimer = setTimeout(() => {
         onWorkPeriodEnd();
       }, 5 * 60 * 1000);
+
+      if (currentSession) {
+        currentSession.endTime = new Date(Date.now() + 5 * 60 * 1000);
+        saveSession();
+      }
     }
   });
 }
 
-function onRestPeriodEnd(): void {
+// Moves the end of the work period past any meeting the break would overlap
+function deferBreakForMeetings(session: WorkRestSession): boolean {
+  if (!getCalendarSyncConfig().autoAvoidMeetings) return false;
+
+  const now = new Date();
+  const restEnd = new Date(now.getTime() + getRestDuration(session) * 60 * 1000);
+  const meeting = getMeetingConflict(now, restEnd);
+  if (!meeting) return false;
+
+  const resumeAt = getMeetingRunContaining(meeting)?.end ?? meeting.end;
+  if (resumeAt <= now) return false;
+
+  deferredForMeetingsUntil = resumeAt;
+  session.endTime = resumeAt;
+  sessionTimer = setTimeout(() => {
+    onWorkPeriodEnd();
+  }, resumeAt.getTime() - now.getTime());
+
+  saveSession();
+  updateStatusBar();
+  vscode.window.showInformationMessage(
+    `📅 Break moved to after "${meeting.title}" (${resumeAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}).`
+  );
+  return true;
+}
+
+// Holds the break until a planned meeting block is over
+function deferBreakForMeetingBlock(session: WorkRestSession): boolean {
+  const block = getActiveTimeBlock();
+  if (block?.type !== 'meetings') return false;
+
+  const resumeAt = getTimeBlockEnd(block);
+  session.endTime = resumeAt;
+  sessionTimer = setTimeout(() => {
+    onWorkPeriodEnd();
+  }, Math.max(1000, resumeAt.getTime() - Date.now()));
+
+  saveSession();
+  updateStatusBar();
+  vscode.window.showInformationMessage(
+    `👥 Break held until "${block.name}" ends (${resumeAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}).`
+  );
+  return true;
+}
+
+/**
+ * Holds the break while a debug session or task runs, then starts it as soon as they end.
+ * Each break is held at most restDeferral.maxMinutes, a limited number of times a day.
+ */
+function deferBreakForActivity(session: WorkRestSession): boolean {
+  const now = new Date();
+
+  if (activityDeferral) {
+    // Still running when the longest deferral ran out - offer the break anyway
+    if (now >= activityDeferral.until) {
+      clearActivityDeferral();
+      return false;
+    }
+  } else {
+    const blocker = getRestDeferralBlocker();
+    if (!blocker || !canDeferRest()) return false;
+
+    recordRestDeferral(blocker);
+    const until = new Date(now.getTime() + getConfiguration().restDeferralMaxMinutes * 60 * 1000);
+    activityDeferral = {
+      until,
+      watcher: onDidClearRestDeferralBlockers(() => {
+        if (!currentSession?.isWorking || !activityDeferral) return;
+        if (sessionTimer) {
+          clearTimeout(sessionTimer);
+          sessionTimer = null;
+        }
+        startRestPeriod(true);
+      })
+    };
+
+    const label = blocker.kind === 'debug' ? `debug session "${blocker.name}"` : `task "${blocker.name}"`;
+    vscode.window.showInformationMessage(
+      `🐞 Break held while ${label} runs - it starts when that ends, at the latest ${until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+    );
+  }
+
+  session.endTime = activityDeferral.until;
+  sessionTimer = setTimeout(() => {
+    onWorkPeriodEnd();
+  }, activityDeferral.until.getTime() - now.getTime());
+
+  saveSession();
+  updateStatusBar();
+  return true;
+}
+
+/**
+ * Asks the smart scheduler whether the user is in flow and, if so, extends the work period
+ * by one step. Steps stop once the total reaches the activity settings' maximum extension.
+ */
+function extendWorkForFlow(session: WorkRestSession): boolean {
+  const scheduler = getFlowScheduler();
+  if (!scheduler) return false;
+
+  const { maxExtension, minBreakDelay } = activitySettings.getSettings().smartTiming;
+  const remaining = maxExtension - session.flowExtensionMinutes;
+  if (remaining <= 0) return false;
+
+  const delay = scheduler.getBreakDelayMinutes();
+  if (delay <= 0) return false;
+
+  const step = Math.min(Math.max(1, minBreakDelay), delay, remaining);
+  const isFirstStep = session.flowExtensionMinutes === 0;
+  session.flowExtensionMinutes += step;
+  session.endTime = new Date(Date.now() + step * 60 * 1000);
+  sessionTimer = setTimeout(() => {
+    onWorkPeriodEnd();
+  }, step * 60 * 1000);
+
+  saveSession();
+  updateStatusBar();
+  Logger.log(`Flow protection: work extended by ${step} min (${session.flowExtensionMinutes}/${maxExtension})`);
+  if (isFirstStep) {
+    vscode.window.showInformationMessage(
+      `🌊 You're in flow - break pushed back ${step} min (up to ${maxExtension} min). Your break grows in proportion to the extra work.`
+    );
+  }
+  return true;
+}
+
+function getFlowScheduler(): SmartScheduler | null {
+  const monitor = state.activityMonitor;
+  if (!monitor) return null;
+
+  if (flowScheduler?.monitor !== monitor) {
+    flowScheduler = { monitor, scheduler: new SmartScheduler(monitor) };
+  }
+  return flowScheduler.scheduler;
+}
+
+function clearActivityDeferral(): void {
+  if (activityDeferral) {
+    activityDeferral.watcher.dispose();
+    activityDeferral = null;
+  }
+}
+
+/**
+ * Offered when a long run of back-to-back meetings ends
+ */
+export function offerBreakAfterMeetings(run: MeetingRun): void {
+  const minutes = Math.round((run.end.getTime() - run.start.getTime()) / 60000);
+
+  // A break deferred to the end of this run is already on its way
+  if (currentSession?.isWorking && deferredForMeetingsUntil?.getTime() === run.end.getTime()) return;
+
+  if (currentSession && !currentSession.isWorking) return;
+
+  vscode.window.showInformationMessage(
+    `📅 You've been in meetings for ${minutes} minutes. Take a break before diving back in?`,
+    'Take Break',
+    'Not Now'
+  ).then(selection => {
+    if (selection !== 'Take Break') return;
+    if (currentSession) {
+      takeManualBreak();
+    } else {
+      vscode.commands.executeCommand('dotsense.takeBreak');
+    }
+  });
+}
+
+function onRestPeriodEnd(resumed: boolean = false): void {
   if (!currentSession) return;
 
   // Stop screen blocking/enforcement
@@ -242,7 +734,8 @@ function onRestPeriodEnd(): void {
   // Start next work period
   startWorkPeriod();
 
-  vscode.window.showInformationMessage(
+  vscode.window.showInformationMessage(resumed ?
+    `🔄 Welcome back! Your rest was counted while VS Code was closed. Starting work period ${currentSession.currentCycle}/${currentSession.model.cycles || '∞'}` :
     `🔄 Rest complete! Screen unlocked. Starting work period ${currentSession.currentCycle}/${currentSession.model.cycles || '∞'}`
   );
 }
@@ -254,7 +747,10 @@ function updateStatusBar(): void {
   const phase = currentSession.isWorking ? 'Work' : 'Rest';
   const phaseEmoji = currentSession.isWorking ? '💼' : '🛋️';
 
-  const statusText = `${phaseEmoji} ${phase}: ${timeLeft}min (${currentSession.model.name})`;
+  const block = getActiveTimeBlock();
+  const blockLabel = block ? ` · ${describeTimeBlock(block)}` : '';
+
+  const statusText = `${phaseEmoji} ${phase}: ${timeLeft}min (${currentSession.model.name}${blockLabel})`;
 
   if (state.statusBarItem) {
     state.statusBarItem.text = statusText;
@@ -265,22 +761,36 @@ function updateStatusBar(): void {
 export function switchWorkRestModel(modelId: string): void {
   const model = getWorkRestModelById(modelId);
   if (model) {
-    stopWorkRestSession();
-    startWorkRestSession(model);
+    if (isLeaderWindow()) {
+      stopWorkRestSession();
+      startWorkRestSession(model);
+    } else {
+      forwardSessionCommand({ type: 'switch', model });
+    }
 
     // Save preference
-    const config = vscode.workspace.getConfiguration('dotsense');
-    config.update('workRestModel', modelId, vscode.ConfigurationTarget.Global);
+    saveModelPreference(modelId);
   }
 }
 
 export function switchToWorkRestModel(model: WorkRestModel): void {
-  stopWorkRestSession();
-  startWorkRestSession(model);
+  if (isLeaderWindow()) {
+    stopWorkRestSession();
+    startWorkRestSession(model);
+  } else {
+    forwardSessionCommand({ type: 'switch', model });
+  }
 
   // Save preference for AI models
+  saveModelPreference(model.id);
+}
+
+function saveModelPreference(modelId: string): void {
   const config = vscode.workspace.getConfiguration('dotsense');
-  config.update('workRestModel', model.id, vscode.ConfigurationTarget.Global);
+  config.update('workRestModel', modelId, vscode.ConfigurationTarget.Global).then(() => {
+    // The session was saved before the setting changed; record the new setting with it
+    if (isLeaderWindow() && currentSession) saveSession();
+  });
 }
 
 export function getTimeRemaining(): { minutes: number; seconds: number; phase: string } | null {
@@ -298,6 +808,12 @@ export function getTimeRemaining(): { minutes: number; seconds: number; phase: s
 }
 
 export function takeManualBreak(): boolean {
+  if (!isLeaderWindow()) {
+    if (getMirroredPhase() !== 'work') return false;
+    forwardSessionCommand({ type: 'takeBreak' });
+    return true;
+  }
+
   if (!currentSession || !currentSession.isWorking) {
     return false; // Not in a work period or no active session
   }
@@ -314,6 +830,12 @@ export function takeManualBreak(): boolean {
 }
 
 export function endRestEarly(): boolean {
+  if (!isLeaderWindow()) {
+    if (getMirroredPhase() !== 'rest') return false;
+    forwardSessionCommand({ type: 'endRestEarly' });
+    return true;
+  }
+
   if (!currentSession || currentSession.isWorking) {
     return false; // Not in a rest period or no active session
   }
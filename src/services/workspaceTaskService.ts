@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { TaskSchedule, TaskSource } from '../types';
+import { getConfiguration } from '../core/configuration';
+import { advancedScheduler } from './activityIntegration/advancedSchedulerService';
+import { parseTaskMarkers, TaskMarker } from '../utils/taskMarkerParser';
+import { Logger } from '../utils/logger';
+
+/**
+ * Workspace task import
+ * TODO / FIXME / HACK comments and Markdown checklist items become scheduler tasks.
+ * A task is completed when its comment disappears or its box gets checked, and
+ * reopened if it comes back - on save, or when the file changes on disk.
+ * Triage done in the task matrix is never overwritten.
+ */
+
+export interface WorkspaceTaskSyncResult {
+  added: number;
+  completed: number;
+  reopened: number;
+}
+
+const MAX_SCANNED_FILES = 2000;
+const MAX_FILE_BYTES = 512 * 1024;
+const IMPORTED_TASK_MINUTES = 30;
+// Changes from a checkout or a formatter run arrive in bursts
+const WATCH_DEBOUNCE_MS = 1000;
+
+let watcher: vscode.FileSystemWatcher | null = null;
+let watchTimer: ReturnType<typeof setTimeout> | null = null;
+const changedFiles = new Map<string, vscode.Uri>();
+
+export function initializeWorkspaceTasks(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    { dispose: () => stopWatchingTaskFiles() },
+    vscode.workspace.onDidSaveTextDocument(document => {
+      const config = getConfiguration();
+      if (!config.taskImportEnabled || !vscode.workspace.getWorkspaceFolder(document.uri)) return;
+
+      const included = vscode.languages.match({ pattern: config.taskImportInclude }, document) > 0;
+      const excluded = vscode.languages.match({ pattern: config.taskImportExclude }, document) > 0;
+      if (included && !excluded) {
+        applyTaskMarkers(new Map([[document.uri.fsPath, parseTaskMarkers(document.getText(), document.fileName)]]));
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (!e.affectsConfiguration('dotsense.taskImport')) return;
+
+      watchTaskFiles();
+      if (getConfiguration().taskImportEnabled) {
+        scanWorkspaceTasks().catch(error => Logger.error('Workspace task scan failed:', error));
+      }
+    })
+  );
+
+  watchTaskFiles();
+  if (getConfiguration().taskImportEnabled) {
+    scanWorkspaceTasks().catch(error => Logger.error('Workspace task scan failed:', error));
+  }
+}
+
+/**
+ * Follows files changed outside the editor - a checkout, a pull, another tool - without waiting for a save
+ */
+function watchTaskFiles(): void {
+  stopWatchingTaskFiles();
+
+  const config = getConfiguration();
+  if (!config.taskImportEnabled) return;
+
+  watcher = vscode.workspace.createFileSystemWatcher(config.taskImportInclude);
+  const queue = (uri: vscode.Uri) => {
+    changedFiles.set(uri.fsPath, uri);
+    if (watchTimer) clearTimeout(watchTimer);
+    watchTimer = setTimeout(() => {
+      watchTimer = null;
+      syncChangedFiles().catch(error => Logger.error('Workspace task sync failed:', error));
+    }, WATCH_DEBOUNCE_MS);
+  };
+  watcher.onDidCreate(queue);
+  watcher.onDidChange(queue);
+  watcher.onDidDelete(queue);
+}
+
+function stopWatchingTaskFiles(): void {
+  watcher?.dispose();
+  watcher = null;
+  if (watchTimer) {
+    clearTimeout(watchTimer);
+    watchTimer = null;
+  }
+  changedFiles.clear();
+}
+
+async function syncChangedFiles(): Promise<void> {
+  const uris = Array.from(changedFiles.values());
+  changedFiles.clear();
+
+  const config = getConfiguration();
+  const scanned = new Map<string, TaskMarker[]>();
+  for (const uri of uris) {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) continue;
+
+    if (!fs.existsSync(uri.fsPath)) {
+      // Deleted, so its tasks are done
+      scanned.set(uri.fsPath, []);
+      continue;
+    }
+
+    try {
+      // The watcher only knows the include glob; findFiles applies the exclude glob too
+      const relative = vscode.workspace.asRelativePath(uri, false);
+      const matches = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, relative), config.taskImportExclude, 1);
+      if (matches.length === 0) continue;
+
+      const content = await vscode.workspace.fs.readFile(uri);
+      if (content.byteLength > MAX_FILE_BYTES) continue;
+      scanned.set(uri.fsPath, parseTaskMarkers(Buffer.from(content).toString('utf8'), uri.fsPath));
+    } catch (error) {
+      Logger.warn(`Skipping ${uri.fsPath} during task sync:`, error);
+    }
+  }
+
+  if (scanned.size > 0) {
+    const result = applyTaskMarkers(scanned);
+    Logger.log(`Workspace task sync: ${scanned.size} changed files, ${result.added} added, ${result.completed} completed, ${result.reopened} reopened`);
+  }
+}
+
+/**
+ * Scans every included file in the workspace and syncs the task queue with what it finds
+ */
+export async function scanWorkspaceTasks(): Promise<WorkspaceTaskSyncResult | null> {
+  if (!advancedScheduler || !vscode.workspace.workspaceFolders?.length) return null;
+
+  const config = getConfiguration();
+  const uris = await vscode.workspace.findFiles(config.taskImportInclude, config.taskImportExclude, MAX_SCANNED_FILES);
+  const scanned = new Map<string, TaskMarker[]>();
+
+  for (const uri of uris) {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      if (content.byteLength > MAX_FILE_BYTES) continue;
+      scanned.set(uri.fsPath, parseTaskMarkers(Buffer.from(content).toString('utf8'), uri.fsPath));
+    } catch (error) {
+      Logger.warn(`Skipping ${uri.fsPath} during task scan:`, error);
+    }
+  }
+
+  // Tasks from files that were deleted from this workspace are done too
+  advancedScheduler.getTasks().forEach(task => {
+    const file = task.source?.file;
+    if (file && !scanned.has(file) && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file)) && !fs.existsSync(file)) {
+      scanned.set(file, []);
+    }
+  });
+
+  const result = applyTaskMarkers(scanned);
+  Logger.log(`Workspace task scan: ${scanned.size} files, ${result.added} added, ${result.completed} completed, ${result.reopened} reopened`);
+  return result;
+}
+
+/**
+ * Syncs imported tasks for the given files with their current markers.
+ * Files not in the map are left alone.
+ */
+export function applyTaskMarkers(files: Map<string, TaskMarker[]>): WorkspaceTaskSyncResult {
+  const result: WorkspaceTaskSyncResult = { added: 0, completed: 0, reopened: 0 };
+  const scheduler = advancedScheduler;
+  if (!scheduler) return result;
+
+  const imported = new Map<string, TaskSchedule>();
+  scheduler.getTasks(true).forEach(task => {
+    if (task.source) imported.set(task.source.key, task);
+  });
+
+  const newTasks: Omit<TaskSchedule, 'id' | 'completed'>[] = [];
+
+  files.forEach((markers, file) => {
+    const openKeys = new Set<string>();
+    const occurrences = new Map<string, number>();
+
+    markers.forEach(marker => {
+      // Identical lines in one file are told apart by their order
+      const baseKey = `${file}#${marker.kind}:${marker.text.toLowerCase()}`;
+      const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+      occurrences.set(baseKey, occurrence);
+      if (marker.done) return;
+
+      const source: TaskSource = {
+        kind: marker.kind,
+        file,
+        line: marker.line,
+        key: occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey
+      };
+      openKeys.add(source.key);
+
+      const task = imported.get(source.key);
+      if (!task) {
+        newTasks.push({
+          name: marker.text,
+          priority: marker.priority,
+          estimatedDuration: IMPORTED_TASK_MINUTES,
+          energyRequired: marker.kind === 'FIXME' ? 'high' : 'medium',
+          complexity: 'moderate',
+          source
+        });
+        result.added++;
+      } else if (task.completed) {
+        scheduler.updateTask(task.id, { completed: false, source });
+        result.reopened++;
+      } else if (task.source?.line !== source.line) {
+        scheduler.updateTask(task.id, { source });
+      }
+    });
+
+    imported.forEach((task, key) => {
+      if (task.source?.file === file && !task.completed && !openKeys.has(key)) {
+        scheduler.completeTask(task.id);
+        result.completed++;
+      }
+    });
+  });
+
+  scheduler.addTasks(newTasks);
+  return result;
+}
@@ -86,7 +86,47 @@ export interface DotSenseConfiguration {
   // CodeTune Integration
   suggestCodeTuneDuringBreaks: boolean;
   codeTunePermanentlyIgnored: boolean;
-}
+  // Local Control API
+  controlApiEnabled: boolean;
+  controlApiTransport: ControlApiTransport;
+  controlApiPort: number;
+  encryptStorageAtRest: boolean;
+  settingsSyncEnabled: boolean;
+  // Calendar
+  calendarIcsPath: string;
+  calendarAutoAvoidMeetings: boolean;
+  calendarSyncInterval: number;
+  calendarLongMeetingMinutes: number;
+  // Workspace task import
+  taskImportEnabled: boolean;
+  taskImportInclude: string;
+  taskImportExclude: string;
+  // Deadline-driven scheduling
+  deadlinesEnabled: boolean;
+  deadlinePriorityWeight: number;
+  deadlineTimePressureHours: number;
+  // Energy check-ins
+  energyCheckInEnabled: boolean;
+  energyCheckInIntervalHours: number;
+  // Time blocks
+  timeBlocksDriveTimer: boolean;
+  // Rest enforcement exemptions
+  restExemptGlobs: string[];
+  restExemptLanguageIds: string[];
+  restExemptUntitled: boolean;
+  restExemptWorkspaceFolders: string[]; // Folder names or absolute paths
+  incidentMode: boolean;
+  emergencyUnblocksPerDay: number; // Emergency unblocks allowed before the cooldown kicks in
+  emergencyUnblockCooldownMinutes: number;
+  // Rest deferral
+  restDeferralDuringDebugging: boolean;
+  restDeferralDuringTasks: boolean;
+  restDeferralMaxMinutes: number; // Longest a single break is held back
+  restDeferralMaxPerDay: number;
+  restDeferralMinTaskSeconds: number; // A task must have run this long before it holds a break back
+}
+
+export type ControlApiTransport = 'tcp' | 'socket';
 
 export type ReminderType = 'gentle' | 'motivational' | 'funny' | 'mindful' | 'annoying' | 'hybrid';
 export type AnnoyanceLevel = 'mild' | 'moderate' | 'extreme' | 'nuclear';
@@ -99,7 +139,20 @@ export interface WorkRestModel {
   restDuration: number; // minutes
   cycles?: number; // optional number of cycles before longer break
   longRestDuration?: number; // minutes for longer break after cycles
-  basedOn: 'pomodoro' | 'who' | 'custom'; // research basis
+  basedOn: 'pomodoro' | 'who' | 'ultradian' | 'custom'; // research basis
+}
+
+// Work-rest session as saved across VS Code restarts
+export interface StoredWorkRestSession {
+  model: WorkRestModel; // Full model so AI-generated models survive a restart
+  currentCycle: number;
+  isWorking: boolean;
+  startTime: string; // ISO timestamp of the current phase start
+  endTime: string; // ISO timestamp of the current phase deadline
+  totalCycles: number;
+  flowExtensionMinutes?: number; // Work added to the current period while in flow
+  configuredModelId?: string; // dotsense.workRestModel when saved, to tell a settings change from a one-off model
+  savedAt: string;
 }
 
 // Advanced Scheduling Types
@@ -133,14 +186,16 @@ export interface AdvancedWorkRestModel extends WorkRestModel {
     adaptationRules?: AdaptationRule[];
 
     // Deadline-driven Configuration
-    deadlineConfig?: {
-      enabled: boolean;
-      priorityWeight: number; // 0-1
-      timePressureThreshold: number; // hours before deadline
-    };
+    deadlineConfig?: DeadlineConfig;
   };
 }
 
+export interface DeadlineConfig {
+  enabled: boolean;
+  priorityWeight: number; // 0-1
+  timePressureThreshold: number; // hours before deadline
+}
+
 // Time Blocking Types
 export interface TimeBlock {
   id: string;
@@ -153,6 +208,16 @@ export interface TimeBlock {
   daysOfWeek?: number[]; // 0-6, Sunday = 0
 }
 
+// Named day schedule that can be applied to any weekday
+export interface ScheduleTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  blocks: ScheduleTemplateBlock[];
+}
+
+export type ScheduleTemplateBlock = Omit<TimeBlock, 'id' | 'recurring' | 'daysOfWeek'>;
+
 // Eisenhower Matrix Types
 export interface EisenhowerTask {
   id: string;
@@ -183,6 +248,7 @@ export interface EnergyReading {
   energyLevel: number; // 1-10
   activityType: string;
   completionRate: number; // 0-1
+  source?: 'self-report' | 'inferred'; // Readings without a source were self-reported
 }
 
 // Adaptive Scheduling Types
@@ -215,6 +281,42 @@ export interface TaskSchedule {
   actualDuration?: number;
   completed: boolean;
   satisfaction?: number; // user rating 1-5
+  source?: TaskSource; // Set for tasks imported from the workspace
+}
+
+// Where an imported task lives: a TODO-style comment or a Markdown checklist item
+export interface TaskSource {
+  kind: 'TODO' | 'FIXME' | 'HACK' | 'checklist';
+  file: string; // Absolute path
+  line: number; // 0-based, as of the last scan
+  key: string; // Identity across edits: file, kind and text
+}
+
+// Deadline on a git branch or workspace folder rather than a single task
+export interface ContextDeadline {
+  id: string;
+  scope: 'branch' | 'folder';
+  target: string; // Branch name or absolute folder path
+  repository?: string; // Repository root of a branch deadline; older deadlines match the name in any repository
+  label: string;
+  deadline: Date;
+}
+
+// A deadline that applies right now: an open task, the checked-out branch or an open folder
+export interface ActiveDeadline {
+  source: 'task' | 'branch' | 'folder';
+  label: string;
+  deadline: Date;
+  taskId?: string;
+}
+
+export interface TimePressure {
+  deadline: ActiveDeadline; // The nearest one
+  hoursLeft: number;
+  pressure: number; // 0 at the threshold, 1 at the deadline
+  burnoutRisk: 'low' | 'medium' | 'high';
+  unsafe: boolean; // Burnout signals rule out compressing breaks
+  restFactor: number; // Multiplier for break lengths, 1 when nothing is compressed
 }
 
 // Scheduling Intelligence Types
@@ -235,6 +337,16 @@ export interface CircadianRhythm {
   lastUpdated: Date;
 }
 
+// Personal ultradian cycle learned from typing intensity and flow
+export interface UltradianProfile {
+  cycleMinutes: number; // Usually 70-120, around 90
+  troughOffsetMinutes: number; // Trough position within a cycle, counted from the day's first activity
+  confidence: number; // 0-1
+  daysAnalyzed: number;
+  learned: boolean; // False while the 90-minute default is in use
+  updatedAt: number;
+}
+
 export interface EnergyPattern {
   timeSlot: { start: number; end: number };
   averageEnergy: number;
@@ -258,10 +370,11 @@ export interface TaskPattern {
   energyCost: EnergyLevel;
 }
 
-// Calendar Integration (Future Feature)
+// Calendar Integration - local .ics files are the only provider implemented so far
 export interface CalendarSyncConfig {
   enabled: boolean;
   provider: 'google' | 'outlook' | 'ical';
+  source: string; // .ics file or folder for the ical provider
   syncFrequency: number; // minutes
   lastSync: Date;
   autoAvoidMeetings: boolean;
@@ -371,6 +484,7 @@ export interface DotSenseActivityBarProvider extends vscode.WebviewViewProvider
   updateStatus(): void;
   updateScreenTime(): void;
   updateActivityStatus(): void;
+  updateUltradianRhythm(): void;
   updateWellnessGoals(): void;
   updateWellnessChallenges(): void;
   updateAchievements(): void;
@@ -474,6 +474,21 @@ export interface PerformanceReport {
   trends: TrendAnalysis;
   recommendations: OptimizationRecommendations;
   predictiveMetrics: PredictiveMetrics;
+  dataAvailability: Record<PerformanceMetricKey, MetricAvailability>;
+}
+
+export type PerformanceMetricKey =
+  'completionRate' | 'satisfaction' | 'modelComparison' | 'timePatterns' |
+  'taskPatterns' | 'energyPatterns' | 'trends' | 'predictions';
+
+/**
+ * Whether enough recorded usage exists to trust a report metric
+ */
+export interface MetricAvailability {
+  sufficient: boolean;
+  sampleSize: number;
+  requiredSamples: number;
+  note?: string; // Explains what is missing when insufficient
 }
 
 export interface ModelComparison {
@@ -553,20 +568,15 @@ export interface PredictiveMetrics {
   };
 }
 
-export interface ABLegacyTestResults {
-  testId: string;
-  modelA: string;
-  modelB: string;
-  duration: number; // days
-  sampleSizeA: number;
-  sampleSizeB: number;
-  completionRateA: number;
-  completionRateB: number;
-  satisfactionA: number;
-  satisfactionB: number;
-  winner: string;
-  confidenceLevel: number;
-  statisticalSignificance: boolean;
-  recommendations: string[];
-  status: 'running' | 'completed' | 'failed';
+/**
+ * The latest week ranked against the user's own recorded weeks
+ */
+export interface BenchmarkReport {
+  productivityPercentile: number | null; // 0-100, null without enough weeks
+  completionRatePercentile: number | null;
+  satisfactionPercentile: number | null;
+  comparedToYourAverage: Record<string, string>;
+  strengths: string[];
+  focusAreas: string[];
+  dataAvailability: MetricAvailability;
 }
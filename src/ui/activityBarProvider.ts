@@ -10,6 +10,7 @@ import { workRestModels, getWorkRestModelById } from '../constants/workRestModel
 import * as workRestService from '../services/workRestService';
 import { activitySettings } from '../services/activityIntegration/activitySettings';
 import { SmartScheduler } from '../services/activityIntegration/smartScheduler';
+import { ULTRADIAN_MODEL_ID, getUltradianProfile, getPredictedCurve, getNextTrough, getDayAnchor } from '../services/activityIntegration/ultradianRhythmService';
 import * as baseActivityMonitor from '../services/activityIntegration/baseActivityMonitor';
 import { exportAchievements, generateAchievementShareText, getAchievementStats } from '../services/achievementService';
 import { createCustomGoal, createChallenge, getWellnessInsights, createCustomExercise } from '../services/wellnessService';
@@ -554,8 +555,8 @@ export class dotsenseActivityBarProviderImpl implements DotSenseActivityBarProvi
 
       if (timeRemaining) {
         // Show work-rest session timing with ML enhancements
-        let baseTime = Date.now() + (timeRemaining.minutes * 60 * 1000) + (timeRemaining.seconds * 1000);
-        let nextReminder = baseTime;
+        // Flow protection already extends the work period itself, so the end time is final
+        const nextReminder = Date.now() + (timeRemaining.minutes * 60 * 1000) + (timeRemaining.seconds * 1000);
         let mlEnhanced = false;
 
         // Integrate ML smart scheduling if enabled and available
@@ -566,16 +567,7 @@ export class dotsenseActivityBarProviderImpl implements DotSenseActivityBarProvi
               const smartScheduler = new SmartScheduler(baseMonitor);
               mlEnhanced = true;
 
-              if (timeRemaining.phase === 'work') {
-                // Check if we should delay break due to flow state
-                if (smartScheduler.shouldDelayBreak && smartScheduler.shouldDelayBreak()) {
-                  const delayMinutes = smartScheduler.getBreakDelayMinutes ? smartScheduler.getBreakDelayMinutes() : 0;
-                  if (delayMinutes > 0) {
-                    nextReminder = baseTime + (delayMinutes * 60 * 1000);
-                    Logger.log(`ML: Delaying break by ${delayMinutes} minutes due to flow state`);
-                  }
-                }
-              } else if (timeRemaining.phase === 'rest') {
+              if (timeRemaining.phase === 'rest') {
                 // Suggest appropriate break duration
                 const mlBreakDuration = smartScheduler.suggestBreakDuration ? smartScheduler.suggestBreakDuration() : 10;
                 Logger.log(`ML suggests break duration: ${mlBreakDuration} minutes`);
@@ -768,6 +760,45 @@ export class dotsenseActivityBarProviderImpl implements DotSenseActivityBarProvi
     }
   }
 
+  updateUltradianRhythm(): void {
+    if (this._view) {
+      const session = workRestService.getCurrentSession();
+      if (session?.model.id !== ULTRADIAN_MODEL_ID) {
+        this._view.webview.postMessage({ command: 'updateUltradianRhythm', data: { visible: false } });
+        return;
+      }
+
+      // One hour back and three ahead, anchored once so curve and troughs line up
+      const now = new Date();
+      const from = new Date(now.getTime() - 60 * 60 * 1000);
+      const to = new Date(now.getTime() + 3 * 60 * 60 * 1000);
+      const anchor = getDayAnchor(now);
+      const profile = getUltradianProfile();
+
+      const troughs: number[] = [];
+      for (let trough = getNextTrough(from, anchor); trough <= to; trough = new Date(trough.getTime() + profile.cycleMinutes * 60 * 1000)) {
+        troughs.push(trough.getTime());
+      }
+
+      this._view.webview.postMessage({
+        command: 'updateUltradianRhythm',
+        data: {
+          visible: true,
+          from: from.getTime(),
+          to: to.getTime(),
+          now: now.getTime(),
+          points: getPredictedCurve(from, to, anchor),
+          troughs,
+          nextBreak: session.isWorking ? session.endTime.getTime() : null,
+          cycleMinutes: profile.cycleMinutes,
+          learned: profile.learned,
+          confidence: profile.confidence,
+          daysAnalyzed: profile.daysAnalyzed
+        }
+      });
+    }
+  }
+
   updateWellnessGoals(): void {
     if (this._view) {
       this._view.webview.postMessage({
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+
+export interface RestOverlayOptions {
+  endsAt?: Date | undefined;
+  fullScreen: boolean;
+  emergencyExitAvailable: boolean;
+  onEmergencyExit: () => void;
+}
+
+/**
+ * Covers the editor during an enforced rest with a countdown and a breathing exercise.
+ * It never touches documents; leaving early goes through the single emergency exit.
+ */
+export class RestOverlayPanel {
+  public static currentPanel: RestOverlayPanel | undefined;
+  public static readonly viewType = 'restOverlay';
+
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private _options: RestOverlayOptions;
+  private _disposables: vscode.Disposable[] = [];
+
+  public static show(extensionUri: vscode.Uri, options: RestOverlayOptions) {
+    if (RestOverlayPanel.currentPanel) {
+      RestOverlayPanel.currentPanel._options = options;
+      RestOverlayPanel.currentPanel.sendState();
+      RestOverlayPanel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      RestOverlayPanel.viewType,
+      'Rest Period',
+      // Full-screen levels take over the editor; milder ones sit beside the code so it stays readable
+      options.fullScreen
+        ? { viewColumn: vscode.ViewColumn.Active, preserveFocus: false }
+        : { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out', 'src', 'views')]
+      }
+    );
+
+    RestOverlayPanel.currentPanel = new RestOverlayPanel(panel, extensionUri, options);
+  }
+
+  // Brings a full-screen overlay back in front of the editor
+  public static reveal() {
+    const overlay = RestOverlayPanel.currentPanel;
+    if (overlay?._options.fullScreen) {
+      overlay._panel.reveal(vscode.ViewColumn.Active, false);
+    }
+  }
+
+  public static close() {
+    RestOverlayPanel.currentPanel?.dispose();
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, options: RestOverlayOptions) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+    this._options = options;
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case 'ready':
+            this.sendState();
+            return;
+
+          case 'emergencyExit':
+            this._options.onEmergencyExit();
+            return;
+
+          default:
+            Logger.log('Unknown command:', message.command);
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  private sendState(): void {
+    this._panel.webview.postMessage({
+      command: 'restState',
+      data: {
+        // Dates do not survive postMessage
+        endsAt: this._options.endsAt?.getTime() ?? null,
+        emergencyExitAvailable: this._options.emergencyExitAvailable
+      }
+    });
+  }
+
+  public dispose() {
+    RestOverlayPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview) {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'src', 'views', 'restOverlay.js'));
+    const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'src', 'views', 'restOverlay.css'));
+
+    return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'self' 'unsafe-inline' vscode-resource: https:; script-src 'self' vscode-resource: https:;">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <link href="${styleUri}" rel="stylesheet">
+        <title>Rest Period</title>
+      </head>
+      <body>
+        <div class="rest-overlay">
+          <h1>🛋️ Rest period</h1>
+          <p class="subtitle">Your code will be right where you left it.</p>
+
+          <div class="countdown" id="countdown">--:--</div>
+
+          <div class="breathing">
+            <div class="breathing-circle"></div>
+            <div class="breathing-label" id="breathingLabel">Breathe in</div>
+          </div>
+
+          <div class="emergency" id="emergency">
+            <button class="btn btn-danger" data-action="emergencyExit">🚨 Emergency exit</button>
+            <p>You get one exit per rest period. You will be asked for a reason, and the exit is logged.</p>
+          </div>
+        </div>
+
+        <script src="${scriptUri}"></script>
+      </body>
+      </html>`;
+  }
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { EisenhowerPriority } from '../types';
+import { advancedScheduler } from '../services/activityIntegration/advancedSchedulerService';
+import {
+  QUADRANTS,
+  addTaskInteractive,
+  moveTask,
+  completeTask,
+  deleteTask,
+  startFocusOnTask,
+  startFocusOnRecommendedTask,
+  getFocusTask,
+  describeTask,
+  openTaskSource
+} from '../services/taskQueueService';
+import { Logger } from '../utils/logger';
+
+export class TaskMatrixPanel {
+  public static currentPanel: TaskMatrixPanel | undefined;
+  public static readonly viewType = 'taskMatrix';
+
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private _disposables: vscode.Disposable[] = [];
+
+  public static createOrShow(extensionUri: vscode.Uri) {
+    const column = vscode.window.activeTextEditor
+      ? vscode.window.activeTextEditor.viewColumn
+      : undefined;
+
+    if (TaskMatrixPanel.currentPanel) {
+      TaskMatrixPanel.currentPanel._panel.reveal(column);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      TaskMatrixPanel.viewType,
+      'Task Matrix',
+      column || vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out', 'src', 'views')]
+      }
+    );
+
+    TaskMatrixPanel.currentPanel = new TaskMatrixPanel(panel, extensionUri);
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    if (advancedScheduler) {
+      advancedScheduler.onDidChangeTasks(() => this.sendTasks(), null, this._disposables);
+    }
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'getTasks':
+            break;
+
+          case 'addTask':
+            await addTaskInteractive(message.data?.priority as EisenhowerPriority | undefined);
+            break;
+
+          case 'moveTask':
+            moveTask(message.data.id, message.data.priority);
+            break;
+
+          case 'focusTask':
+            startFocusOnTask(message.data.id);
+            break;
+
+          case 'focusRecommended':
+            startFocusOnRecommendedTask();
+            break;
+
+          case 'completeTask':
+            completeTask(message.data.id);
+            break;
+
+          case 'deleteTask':
+            deleteTask(message.data.id);
+            break;
+
+          case 'openTaskSource':
+            await openTaskSource(message.data.id);
+            return;
+
+          default:
+            Logger.log('Unknown command:', message.command);
+            return;
+        }
+        this.sendTasks();
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  private sendTasks(): void {
+    const tasks = advancedScheduler?.getTasks() || [];
+    const recommended = advancedScheduler?.getRecommendedTask();
+
+    this._panel.webview.postMessage({
+      command: 'tasksUpdated',
+      data: {
+        // Dates do not survive postMessage, so details are formatted here
+        tasks: tasks.map(task => ({
+          id: task.id,
+          name: task.name,
+          priority: task.priority,
+          detail: describeTask(task),
+          hasSource: !!task.source,
+          overdue: !!task.deadline && task.deadline.getTime() < Date.now()
+        })),
+        recommendedId: recommended?.id ?? null,
+        focusId: getFocusTask()?.id ?? null,
+        available: !!advancedScheduler
+      }
+    });
+  }
+
+  public dispose() {
+    TaskMatrixPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview) {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'src', 'views', 'taskMatrix.js'));
+    const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'src', 'views', 'taskMatrix.css'));
+
+    const quadrants = QUADRANTS.map(quadrant => `
+            <section class="quadrant quadrant-${quadrant.priority}" data-priority="${quadrant.priority}">
+              <header>
+                <h2>${quadrant.label}</h2>
+                <span>${quadrant.description}</span>
+                <button class="add-in-quadrant" data-add-priority="${quadrant.priority}" title="Add task here">➕</button>
+              </header>
+              <div class="task-list" data-priority="${quadrant.priority}"></div>
+            </section>`).join('');
+
+    return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'self' 'unsafe-inline' vscode-resource: https:; script-src 'self' vscode-resource: https:;">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <link href="${styleUri}" rel="stylesheet">
+        <title>Task Matrix</title>
+      </head>
+      <body>
+        <div class="task-matrix-container">
+          <div class="header">
+            <h1>🧭 Task Matrix</h1>
+            <p>Drag tasks between quadrants, then focus a work period on the recommended one</p>
+          </div>
+
+          <div class="controls">
+            <button class="btn btn-primary" data-action="addTask">➕ Add Task</button>
+            <button class="btn btn-secondary" data-action="focusRecommended">🎯 Focus on Recommended</button>
+          </div>
+
+          <div class="matrix" id="matrix">${quadrants}
+          </div>
+        </div>
+
+        <script src="${scriptUri}"></script>
+      </body>
+      </html>`;
+  }
+}
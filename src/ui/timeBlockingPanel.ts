@@ -6,8 +6,16 @@ import {
   SchedulingModelType
 } from '../types';
 import { advancedScheduler } from '../services/activityIntegration/advancedSchedulerService';
+import { getMeetingTimeBlocks, isCalendarBlock, onDidChangeMeetings } from '../services/calendarService';
+import { exportScheduleToFile } from '../services/calendarExportService';
+import { applyScheduleTemplateInteractive, saveDayAsTemplateInteractive } from '../services/scheduleTemplateService';
+import { getBlocksForDay, hasTimeConflict } from '../utils/timeBlocks';
 import { Logger } from '../utils/logger';
 
+// Fires when the panel saves blocks, so other views of the plan can refresh
+const timeBlocksChanged = new vscode.EventEmitter<void>();
+export const onDidChangeTimeBlocks = timeBlocksChanged.event;
+
 export class TimeBlockingPanel {
   public static currentPanel: TimeBlockingPanel | undefined;
   public static readonly viewType = 'timeBlocking';
@@ -56,6 +64,9 @@ export class TimeBlockingPanel {
     // Listen for when the panel is disposed
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
+    // Imported calendar meetings show up as read-only blocks
+    onDidChangeMeetings(() => this.sendTimeBlocks(), null, this._disposables);
+
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -81,8 +92,15 @@ export class TimeBlockingPanel {
             this.sendTimeBlocks();
             break;
 
-          case 'createDefaultSchedule':
-            this.createDefaultSchedule();
+          case 'chooseTemplate':
+            if (await applyScheduleTemplateInteractive(this.currentDay)) {
+              this.loadTimeBlocks();
+              timeBlocksChanged.fire();
+            }
+            break;
+
+          case 'saveAsTemplate':
+            await saveDayAsTemplateInteractive(this.getDayBlocks());
             break;
 
           case 'applyToScheduler':
@@ -98,6 +116,10 @@ export class TimeBlockingPanel {
             this.clearAllBlocks();
             break;
 
+          case 'exportCalendar':
+            await exportScheduleToFile();
+            break;
+
           default:
             Logger.log('Unknown command:', message.command);
         }
@@ -122,7 +144,8 @@ export class TimeBlockingPanel {
   private sendTimeBlocks(): void {
     const dayBlocks = this.timeBlocks.filter(block =>
       !block.daysOfWeek || block.daysOfWeek.includes(this.currentDay)
-    ).sort((a, b) => a.startTime - b.startTime);
+    ).concat(getMeetingTimeBlocks(this.getCurrentDayDate()))
+      .sort((a, b) => a.startTime - b.startTime);
 
     this._panel.webview.postMessage({
       command: 'timeBlocksUpdated',
@@ -133,6 +156,18 @@ export class TimeBlockingPanel {
     });
   }
 
+  // Everything planned on the selected weekday, wherever it is stored
+  private getDayBlocks(): TimeBlock[] {
+    return getBlocksForDay(state.storage?.loadTimeBlocks() || {}, this.currentDay);
+  }
+
+  // Next occurrence of the selected weekday, counting today
+  private getCurrentDayDate(): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + (this.currentDay - date.getDay() + 7) % 7);
+    return date;
+  }
+
   private sendCurrentModel(model: AdvancedWorkRestModel | null): void {
     this._panel.webview.postMessage({
       command: 'currentModel',
@@ -166,6 +201,11 @@ export class TimeBlockingPanel {
   }
 
   private updateTimeBlock(blockId: string, updates: Partial<TimeBlock>): void {
+    if (isCalendarBlock(blockId)) {
+      vscode.window.showWarningMessage('This block comes from your calendar - edit the meeting in your calendar app instead.');
+      return;
+    }
+
     const blockIndex = this.timeBlocks.findIndex(b => b.id === blockId);
     if (blockIndex >= 0) {
       // Create updated block for conflict checking
@@ -185,6 +225,11 @@ export class TimeBlockingPanel {
   }
 
   private deleteTimeBlock(blockId: string): void {
+    if (isCalendarBlock(blockId)) {
+      vscode.window.showWarningMessage('This block comes from your calendar - edit the meeting in your calendar app instead.');
+      return;
+    }
+
     const blockIndex = this.timeBlocks.findIndex(b => b.id === blockId);
     if (blockIndex >= 0) {
       const deletedBlock = this.timeBlocks[blockIndex];
@@ -197,18 +242,7 @@ export class TimeBlockingPanel {
   }
 
   private hasTimeConflict(newBlock: TimeBlock, excludeId?: string): boolean {
-    const newStart = newBlock.startTime;
-    const newEnd = newBlock.startTime + newBlock.duration;
-
-    return this.timeBlocks.some(block => {
-      if (excludeId && block.id === excludeId) return false;
-      if (block.daysOfWeek && !block.daysOfWeek.includes(this.currentDay)) return false;
-
-      const blockStart = block.startTime;
-      const blockEnd = block.startTime + block.duration;
-
-      return !(newEnd <= blockStart || newStart >= blockEnd);
-    });
+    return hasTimeConflict(this.timeBlocks, newBlock, this.currentDay, excludeId);
   }
 
   private saveTimeBlocks(): void {
@@ -216,78 +250,12 @@ export class TimeBlockingPanel {
       const allBlocks: {[key: number]: TimeBlock[]} = state.storage?.loadCustomSetting('timeBlocking.blocks', {}) || {};
       allBlocks[this.currentDay] = this.timeBlocks;
       state.storage?.saveCustomSetting('timeBlocking.blocks', allBlocks);
+      timeBlocksChanged.fire();
     } catch (error) {
       Logger.error('Failed to save time blocks:', error);
     }
   }
 
-  private createDefaultSchedule(): void {
-    const defaultBlocks: TimeBlock[] = [
-      {
-        id: `default_deep_${Date.now()}_1`,
-        name: 'Deep Work',
-        startTime: 9 * 60, // 9 AM
-        duration: 90, // 90 minutes
-        type: 'deep-work',
-        priority: 5,
-        recurring: true,
-        daysOfWeek: [1, 2, 3, 4, 5] // Monday to Friday
-      },
-      {
-        id: `default_meeting_${Date.now()}_2`,
-        name: 'Meeting Time',
-        startTime: 11 * 60, // 11 AM
-        duration: 60,
-        type: 'meetings',
-        priority: 4,
-        recurring: true,
-        daysOfWeek: [1, 2, 3, 4, 5]
-      },
-      {
-        id: `default_lunch_${Date.now()}_3`,
-        name: 'Break & Lunch',
-        startTime: 12 * 60, // 12 PM
-        duration: 60,
-        type: 'breaks',
-        priority: 3,
-        recurring: true,
-        daysOfWeek: [0, 1, 2, 3, 4, 5, 6] // All days
-      },
-      {
-        id: `default_afternoon_${Date.now()}_4`,
-        name: 'Afternoon Focus',
-        startTime: 13 * 60, // 1 PM
-        duration: 120,
-        type: 'deep-work',
-        priority: 4,
-        recurring: true,
-        daysOfWeek: [1, 2, 3, 4, 5]
-      },
-      {
-        id: `default_admin_${Date.now()}_5`,
-        name: 'Admin & Communication',
-        startTime: 16 * 60, // 4 PM
-        duration: 60,
-        type: 'admin',
-        priority: 3,
-        recurring: true,
-        daysOfWeek: [1, 2, 3, 4, 5]
-      }
-    ];
-
-    // Only add blocks that don't conflict
-    for (const block of defaultBlocks) {
-      if (!this.hasTimeConflict(block)) {
-        this.timeBlocks.push(block);
-      }
-    }
-
-    this.saveTimeBlocks();
-    this.sendTimeBlocks();
-
-    vscode.window.showInformationMessage('Created default schedule with work-life balance blocks!');
-  }
-
   private clearAllBlocks(): void {
     this.timeBlocks = this.timeBlocks.filter(block =>
       block.daysOfWeek && !block.daysOfWeek.includes(this.currentDay)
@@ -390,12 +358,18 @@ export class TimeBlockingPanel {
             <button class="btn btn-primary" data-action="addNewBlock">
               ➕ Add Block
             </button>
-            <button class="btn btn-secondary" data-action="createDefaultSchedule">
-              🎯 Default Schedule
+            <button class="btn btn-secondary" data-action="chooseTemplate">
+              📚 Templates
+            </button>
+            <button class="btn btn-secondary" data-action="saveAsTemplate">
+              💾 Save as Template
             </button>
             <button class="btn btn-tertiary" data-action="applyToScheduler">
               🚀 Apply to Scheduler
             </button>
+            <button class="btn btn-secondary" data-action="exportCalendar">
+              📤 Export .ics
+            </button>
             <button class="btn btn-danger" data-action="clearAllBlocks">
               🗑️ Clear All
             </button>
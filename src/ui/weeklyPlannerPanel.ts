@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import { advancedScheduler } from '../services/activityIntegration/advancedSchedulerService';
+import { onDidChangeMeetings } from '../services/calendarService';
+import { onDidChangeSessionState } from '../services/workRestService';
+import { buildWeeklyPlan, autoFillDeepWork } from '../services/weeklyPlannerService';
+import { onDidChangeTimeBlocks } from './timeBlockingPanel';
+import { Logger } from '../utils/logger';
+
+export class WeeklyPlannerPanel {
+  public static currentPanel: WeeklyPlannerPanel | undefined;
+  public static readonly viewType = 'weeklyPlanner';
+
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private _disposables: vscode.Disposable[] = [];
+
+  public static createOrShow(extensionUri: vscode.Uri) {
+    const column = vscode.window.activeTextEditor
+      ? vscode.window.activeTextEditor.viewColumn
+      : undefined;
+
+    if (WeeklyPlannerPanel.currentPanel) {
+      WeeklyPlannerPanel.currentPanel._panel.reveal(column);
+      WeeklyPlannerPanel.currentPanel.sendPlan();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      WeeklyPlannerPanel.viewType,
+      'Weekly Planner',
+      column || vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out', 'src', 'views')]
+      }
+    );
+
+    WeeklyPlannerPanel.currentPanel = new WeeklyPlannerPanel(panel, extensionUri);
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    onDidChangeMeetings(() => this.sendPlan(), null, this._disposables);
+    onDidChangeSessionState(() => this.sendPlan(), null, this._disposables);
+    onDidChangeTimeBlocks(() => this.sendPlan(), null, this._disposables);
+    if (advancedScheduler) {
+      advancedScheduler.onDidChangeTasks(() => this.sendPlan(), null, this._disposables);
+    }
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case 'getPlan':
+            break;
+
+          case 'autoFillDeepWork':
+            this.autoFill();
+            break;
+
+          case 'scheduleTask':
+            // The plan refreshes through onDidChangeTasks
+            await vscode.commands.executeCommand('dotsense.scheduleTask');
+            return;
+
+          case 'openTimeBlocking':
+            await vscode.commands.executeCommand('dotsense.openTimeBlocking');
+            return;
+
+          case 'checkInEnergy':
+            await vscode.commands.executeCommand('dotsense.checkInEnergy');
+            break;
+
+          default:
+            Logger.log('Unknown command:', message.command);
+            return;
+        }
+        this.sendPlan();
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  private autoFill(): void {
+    const profile = advancedScheduler?.getEnergyProfile();
+    if (!profile || profile.peakHours.length === 0) {
+      vscode.window.showInformationMessage('No peak hours yet - check in your energy a few times a day so DotSense can learn them.');
+      return;
+    }
+
+    const added = autoFillDeepWork();
+    if (added === 0) {
+      vscode.window.showInformationMessage('Your peak hours are already booked this week - nothing to add.');
+      return;
+    }
+    vscode.window.showInformationMessage(`Added ${added} deep-work block(s) in your peak hours.`);
+  }
+
+  private sendPlan(): void {
+    const plan = buildWeeklyPlan();
+
+    this._panel.webview.postMessage({
+      command: 'planUpdated',
+      data: {
+        ...plan,
+        // Dates do not survive postMessage, so day labels are formatted here
+        days: plan.days.map(day => ({
+          ...day,
+          date: undefined,
+          label: day.date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+        }))
+      }
+    });
+  }
+
+  public dispose() {
+    WeeklyPlannerPanel.currentPanel = undefined;
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview) {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'src', 'views', 'weeklyPlanner.js'));
+    const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'src', 'views', 'weeklyPlanner.css'));
+
+    return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'self' 'unsafe-inline' vscode-resource: https:; script-src 'self' vscode-resource: https:;">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <link href="${styleUri}" rel="stylesheet">
+        <title>Weekly Planner</title>
+      </head>
+      <body>
+        <div class="weekly-planner-container">
+          <div class="header">
+            <h1>🗓️ Weekly Planner</h1>
+            <p>Time blocks, meetings, tasks and predicted energy for the next seven days</p>
+          </div>
+
+          <div class="controls">
+            <button class="btn btn-primary" data-action="autoFillDeepWork">⚡ Auto-fill Deep Work</button>
+            <button class="btn btn-secondary" data-action="scheduleTask">📝 Schedule Task</button>
+            <button class="btn btn-secondary" data-action="openTimeBlocking">🕐 Edit Time Blocks</button>
+            <button class="btn btn-secondary" data-action="checkInEnergy">🔋 Check In Energy</button>
+          </div>
+
+          <div class="summary" id="summary"></div>
+          <div class="week" id="week"></div>
+        </div>
+
+        <script src="${scriptUri}"></script>
+      </body>
+      </html>`;
+  }
+}
@@ -66,19 +66,33 @@ function encryptWithKey(data: string, key: Buffer): string {
   }
 }
 
+// scrypt is deliberately slow (~30ms), so derived keys are kept per salt/key pair
+const MAX_CACHED_KEYS = 64;
+const derivedKeyCache = new Map<string, Buffer>();
+
 // Derive a key from user-specific data (deterministic but unique per user/installation)
 function deriveKey(salt: string, userId: string, length = KEY_LENGTH): Buffer {
   const input = `${userId}.${salt}`;
-  return crypto.scryptSync(input, 'dotsenseSalt2024', length);
+  const cacheKey = `${length}:${input}`;
+  const cached = derivedKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const key = crypto.scryptSync(input, 'dotsenseSalt2024', length);
+  if (derivedKeyCache.size >= MAX_CACHED_KEYS) {
+    derivedKeyCache.clear();
+  }
+  derivedKeyCache.set(cacheKey, key);
+  return key;
 }
 
 /**
  * Encrypt data using AES-256-GCM with HMAC-SHA256 integrity
- * Returns base64-encoded encrypted data with IV, auth tag, and HMAC
+ * Returns base64-encoded encrypted data with IV, auth tag, and HMAC.
+ * Callers that encrypt often may reuse a salt so the derived keys come from the cache;
+ * the IV stays random per call.
  */
-export function encryptData(data: string, userId: string): string {
+export function encryptData(data: string, userId: string, salt: string = generateSalt()): string {
   try {
-    const salt = crypto.randomBytes(16).toString('hex');
     const key = deriveKey(salt, userId);
     const hmacKey = deriveKey(salt + 'hmac', userId, HMAC_KEY_LENGTH);
     const iv = crypto.randomBytes(IV_LENGTH);
@@ -110,6 +124,10 @@ export function encryptData(data: string, userId: string): string {
   }
 }
 
+export function generateSalt(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
 /**
  * Decrypt data using AES-256-GCM with HMAC integrity verification
  * Expects base64-encoded data with embedded IV, auth tag, and HMAC
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+
+// The slice of the built-in Git extension API needed to read checked-out branches
+interface GitRepository {
+  rootUri: vscode.Uri;
+  state: { HEAD?: { name?: string } };
+}
+
+interface GitAPI {
+  repositories: readonly GitRepository[];
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+export interface CheckedOutBranch {
+  name: string;
+  repository: string; // Absolute path of the repository root
+}
+
+/**
+ * Branches checked out in the open repositories. Empty until the Git extension has activated.
+ */
+export function getCurrentBranches(): CheckedOutBranch[] {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+  if (!extension?.isActive) return [];
+
+  try {
+    return extension.exports.getAPI(1).repositories
+      .flatMap(repo => {
+        const name = repo.state.HEAD?.name;
+        return name ? [{ name, repository: repo.rootUri.fsPath }] : [];
+      });
+  } catch {
+    return [];
+  }
+}
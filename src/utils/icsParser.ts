@@ -0,0 +1,642 @@
+import { Logger } from './logger';
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for meeting import.
+ * Handles line folding, VEVENT, all-day and floating times, TZID (IANA names or the
+ * file's own VTIMEZONE definitions), RRULE, RDATE, EXDATE and RECURRENCE-ID overrides.
+ *
+ * Recurrences are expanded in "wall time" (local clock fields stored as a UTC timestamp)
+ * so a 09:00 meeting stays at 09:00 across DST changes, then converted to real instants.
+ */
+
+export interface IcsOccurrence {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  transparent: boolean; // TRANSP:TRANSPARENT - the organiser marked it as free time
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  properties: ContentLine[];
+  children: Component[];
+}
+
+type Zone = { kind: 'utc' } | { kind: 'floating' } | { kind: 'tzid'; tzid: string };
+
+interface IcsDateTime {
+  wall: number; // Local clock fields encoded with Date.UTC
+  zone: Zone;
+  dateOnly: boolean;
+}
+
+interface Recurrence {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsDateTime;
+  byDay: Array<{ weekday: number; ordinal: number }>; // ordinal 0 = every such weekday
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+  weekStart: number;
+}
+
+interface TimezoneObservance {
+  start: number; // Wall time of the onset
+  offsetFrom: number; // ms
+  offsetTo: number; // ms
+  rule?: Recurrence;
+  rdates: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_RECURRENCE_PERIODS = 5000;
+
+// ===== PUBLIC API =====
+
+/**
+ * Returns every event instance overlapping [rangeStart, rangeEnd), sorted by start
+ */
+export function expandIcsEvents(text: string, rangeStart: Date, rangeEnd: Date): IcsOccurrence[] {
+  const calendar = parseComponents(unfoldLines(text));
+  const timezones = new Map<string, TimezoneObservance[]>();
+  const events: Component[] = [];
+
+  collect(calendar, component => {
+    if (component.type === 'VTIMEZONE') {
+      const tzid = getProperty(component, 'TZID')?.value;
+      if (tzid) timezones.set(tzid, parseTimezone(component));
+    } else if (component.type === 'VEVENT') {
+      events.push(component);
+    }
+  });
+
+  const converter = new ZoneConverter(timezones);
+  const masters = events.filter(event => !getProperty(event, 'RECURRENCE-ID'));
+  const overrides = events.filter(event => getProperty(event, 'RECURRENCE-ID'));
+  const occurrences: IcsOccurrence[] = [];
+
+  for (const event of masters) {
+    try {
+      const uid = getProperty(event, 'UID')?.value || '';
+      const eventOverrides = overrides.filter(override => getProperty(override, 'UID')?.value === uid);
+      occurrences.push(...expandEvent(event, eventOverrides, converter, rangeStart, rangeEnd));
+    } catch (error) {
+      Logger.warn('Skipping unreadable calendar event:', error);
+    }
+  }
+
+  // Overrides whose master is missing from the file still describe real meetings
+  for (const override of overrides) {
+    const uid = getProperty(override, 'UID')?.value;
+    if (masters.some(master => getProperty(master, 'UID')?.value === uid)) continue;
+    const single = toOccurrence(override, converter);
+    if (single && overlaps(single, rangeStart, rangeEnd)) occurrences.push(single);
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// ===== LINE & COMPONENT PARSING =====
+
+function unfoldLines(text: string): ContentLine[] {
+  const rawLines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const unfolded: string[] = [];
+
+  rawLines.forEach(line => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && unfolded.length > 0) {
+      unfolded[unfolded.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      unfolded.push(line);
+    }
+  });
+
+  return unfolded.map(parseContentLine).filter((line): line is ContentLine => line !== null);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) {
+      params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(lines: ContentLine[]): Component {
+  const root: Component = { type: 'ROOT', properties: [], children: [] };
+  const stack: Component[] = [root];
+
+  lines.forEach(line => {
+    const current = stack[stack.length - 1];
+    if (line.name === 'BEGIN') {
+      const child: Component = { type: line.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (line.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(line);
+    }
+  });
+
+  return root;
+}
+
+function collect(component: Component, visit: (component: Component) => void): void {
+  component.children.forEach(child => {
+    visit(child);
+    collect(child, visit);
+  });
+}
+
+function getProperty(component: Component, name: string): ContentLine | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+function getProperties(component: Component, name: string): ContentLine[] {
+  return component.properties.filter(property => property.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+// ===== DATES & DURATIONS =====
+
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall = Date.UTC(+year, +month - 1, +day, +(hour || 0), +(minute || 0), +(second || 0));
+  const dateOnly = hour === undefined;
+
+  let zone: Zone = { kind: 'floating' };
+  if (utc) {
+    zone = { kind: 'utc' };
+  } else if (params.TZID && !dateOnly) {
+    zone = { kind: 'tzid', tzid: params.TZID };
+  }
+
+  return { wall, zone, dateOnly };
+}
+
+function parseDateTimeList(line: ContentLine): IcsDateTime[] {
+  return line.value.split(',')
+    .map(value => parseDateTime(value, line.params))
+    .filter((dateTime): dateTime is IcsDateTime => dateTime !== null);
+}
+
+// ISO 8601 durations as used by DURATION, e.g. PT1H30M, P1D, -PT15M
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (+(weeks || 0) * 7 * DAY_MS) + (+(days || 0) * DAY_MS) +
+    (+(hours || 0) * 3600000) + (+(minutes || 0) * 60000) + (+(seconds || 0) * 1000);
+  return sign === '-' ? -ms : ms;
+}
+
+function parseOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) return 0;
+  const ms = (+match[2] * 3600 + +match[3] * 60 + +(match[4] || 0)) * 1000;
+  return match[1] === '-' ? -ms : ms;
+}
+
+// ===== TIME ZONES =====
+
+class ZoneConverter {
+  private formatters = new Map<string, Intl.DateTimeFormat | null>();
+  private warned = new Set<string>();
+
+  constructor(private readonly timezones: Map<string, TimezoneObservance[]>) {}
+
+  toInstant(dateTime: IcsDateTime): Date {
+    const { wall, zone } = dateTime;
+
+    if (zone.kind === 'utc') return new Date(wall);
+    if (zone.kind === 'floating') return wallToLocal(wall);
+
+    const formatter = this.getFormatter(zone.tzid);
+    if (formatter) {
+      // Two passes settle the offset on either side of a DST change
+      let instant = wall - zoneOffset(formatter, wall);
+      instant = wall - zoneOffset(formatter, instant);
+      return new Date(instant);
+    }
+
+    const observances = this.timezones.get(zone.tzid);
+    if (observances && observances.length > 0) {
+      return new Date(wall - observanceOffset(observances, wall));
+    }
+
+    if (!this.warned.has(zone.tzid)) {
+      Logger.warn(`Unknown calendar time zone "${zone.tzid}", using local time`);
+      this.warned.add(zone.tzid);
+    }
+    return wallToLocal(wall);
+  }
+
+  private getFormatter(tzid: string): Intl.DateTimeFormat | null {
+    if (this.formatters.has(tzid)) return this.formatters.get(tzid)!;
+
+    let formatter: Intl.DateTimeFormat | null = null;
+    // Some exporters prefix IANA names, e.g. /mozilla.org/20050126_1/Europe/Berlin
+    const candidates = [tzid, tzid.split('/').slice(-2).join('/')];
+    for (const candidate of candidates) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: candidate,
+          hourCycle: 'h23',
+          year: 'numeric', month: 'numeric', day: 'numeric',
+          hour: 'numeric', minute: 'numeric', second: 'numeric'
+        });
+        break;
+      } catch {
+        formatter = null;
+      }
+    }
+
+    this.formatters.set(tzid, formatter);
+    return formatter;
+  }
+}
+
+function wallToLocal(wall: number): Date {
+  const fields = new Date(wall);
+  return new Date(fields.getUTCFullYear(), fields.getUTCMonth(), fields.getUTCDate(),
+    fields.getUTCHours(), fields.getUTCMinutes(), fields.getUTCSeconds());
+}
+
+// Offset of an IANA zone at an instant: its wall clock minus UTC
+function zoneOffset(formatter: Intl.DateTimeFormat, instant: number): number {
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(new Date(instant)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  });
+  const asWall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return asWall - Math.floor(instant / 1000) * 1000;
+}
+
+function parseTimezone(component: Component): TimezoneObservance[] {
+  return component.children
+    .filter(child => child.type === 'STANDARD' || child.type === 'DAYLIGHT')
+    .map(child => {
+      const start = parseDateTime(getProperty(child, 'DTSTART')?.value || '', {});
+      const ruleLine = getProperty(child, 'RRULE');
+      const observance: TimezoneObservance = {
+        start: start?.wall ?? 0,
+        offsetFrom: parseOffset(getProperty(child, 'TZOFFSETFROM')?.value || '+0000'),
+        offsetTo: parseOffset(getProperty(child, 'TZOFFSETTO')?.value || '+0000'),
+        rdates: getProperties(child, 'RDATE').flatMap(line => parseDateTimeList(line).map(date => date.wall))
+      };
+      const rule = ruleLine ? parseRecurrence(ruleLine.value) : null;
+      if (rule) observance.rule = rule;
+      return observance;
+    });
+}
+
+// The observance with the latest onset at or before the wall time decides the offset
+function observanceOffset(observances: TimezoneObservance[], wall: number): number {
+  let latestOnset = -Infinity;
+  let offset = observances[0].offsetFrom;
+
+  observances.forEach(observance => {
+    const onsets = observance.rule
+      ? expandRecurrence(observance.start, observance.rule, wall - 400 * DAY_MS, wall, () => 0)
+      : [observance.start];
+    [...onsets, ...observance.rdates]
+      .filter(onset => onset <= wall && onset > latestOnset)
+      .forEach(onset => {
+        latestOnset = onset;
+        offset = observance.offsetTo;
+      });
+  });
+
+  return offset;
+}
+
+// ===== RECURRENCE =====
+
+function parseRecurrence(value: string): Recurrence | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) parts[key.toUpperCase()] = val;
+  });
+
+  const freq = parts.FREQ as Recurrence['freq'];
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const numbers = (list?: string): number[] => (list ? list.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n)) : []);
+  const rule: Recurrence = {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : []).map(day => {
+      const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(day.trim().toUpperCase());
+      return match ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? parseInt(match[1], 10) : 0 } : null;
+    }).filter((day): day is { weekday: number; ordinal: number } => day !== null && day.weekday >= 0),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST.toUpperCase())) : 1
+  };
+
+  if (parts.COUNT) rule.count = parseInt(parts.COUNT, 10);
+  if (parts.UNTIL) {
+    const until = parseDateTime(parts.UNTIL, {});
+    if (until) rule.until = until;
+  }
+  return rule;
+}
+
+/**
+ * Expands a rule into wall-time starts up to rangeEndWall. `untilInWall` converts UNTIL,
+ * which may be UTC, into the event's wall time so the comparison is like for like.
+ */
+function expandRecurrence(
+  startWall: number,
+  rule: Recurrence,
+  rangeStartWall: number,
+  rangeEndWall: number,
+  wallOffsetAt: (wall: number) => number
+): number[] {
+  const results: number[] = [];
+  const start = new Date(startWall);
+  const timeOfDay = startWall - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  let untilWall = Infinity;
+  if (rule.until) {
+    untilWall = rule.until.zone.kind === 'utc' ? rule.until.wall + wallOffsetAt(rule.until.wall) : rule.until.wall;
+    if (rule.until.dateOnly) untilWall += DAY_MS - 1;
+  }
+
+  // Without COUNT, fixed-length periods before the range cannot matter, so skip them
+  let firstPeriod = 0;
+  if (rule.count === undefined && rule.bySetPos.length === 0 && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    const periodMs = (rule.freq === 'DAILY' ? 1 : 7) * rule.interval * DAY_MS;
+    firstPeriod = Math.max(0, Math.floor((rangeStartWall - startWall) / periodMs) - 1);
+  }
+
+  let emitted = 0;
+  for (let period = firstPeriod; period < firstPeriod + MAX_RECURRENCE_PERIODS; period++) {
+    const candidates = periodCandidates(start, rule, period)
+      .map(day => day + timeOfDay)
+      .filter(wall => wall >= startWall)
+      .sort((a, b) => a - b);
+
+    const selected = rule.bySetPos.length > 0
+      ? rule.bySetPos.map(pos => candidates[pos > 0 ? pos - 1 : candidates.length + pos]).filter(wall => wall !== undefined)
+      : candidates;
+
+    for (const wall of selected) {
+      if (wall > untilWall || (rule.count !== undefined && emitted >= rule.count)) return results;
+      emitted++;
+      if (wall >= rangeStartWall && wall <= rangeEndWall) results.push(wall);
+    }
+
+    // Every candidate of the next period is later than this one's first day
+    if (firstDayOfPeriod(start, rule, period + 1) > Math.min(rangeEndWall, untilWall)) break;
+  }
+
+  return results;
+}
+
+function firstDayOfPeriod(start: Date, rule: Recurrence, period: number): number {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return Date.UTC(year, month, day + step);
+    case 'WEEKLY': {
+      const weekday = start.getUTCDay();
+      const backToWeekStart = (weekday - rule.weekStart + 7) % 7;
+      return Date.UTC(year, month, day - backToWeekStart + step * 7);
+    }
+    case 'MONTHLY':
+      return Date.UTC(year, month + step, 1);
+    case 'YEARLY':
+      return Date.UTC(year + step, 0, 1);
+  }
+}
+
+// Day starts (wall time, midnight) produced by one period of the rule
+function periodCandidates(start: Date, rule: Recurrence, period: number): number[] {
+  const periodStart = firstDayOfPeriod(start, rule, period);
+  const inMonth = (day: number): boolean => rule.byMonth.length === 0 || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+  const plainWeekdays = rule.byDay.filter(day => day.ordinal === 0).map(day => day.weekday);
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const matchesDay = (plainWeekdays.length === 0 || plainWeekdays.includes(new Date(periodStart).getUTCDay())) &&
+        (rule.byMonthDay.length === 0 || matchesMonthDay(periodStart, rule.byMonthDay));
+      return matchesDay && inMonth(periodStart) ? [periodStart] : [];
+    }
+    case 'WEEKLY': {
+      const weekdays = plainWeekdays.length > 0 ? plainWeekdays : [start.getUTCDay()];
+      const days: number[] = [];
+      for (let offset = 0; offset < 7; offset++) {
+        const day = periodStart + offset * DAY_MS;
+        if (weekdays.includes(new Date(day).getUTCDay()) && inMonth(day)) days.push(day);
+      }
+      return days;
+    }
+    case 'MONTHLY': {
+      if (!inMonth(periodStart)) return [];
+      return monthCandidates(periodStart, rule, start.getUTCDate());
+    }
+    case 'YEARLY': {
+      const year = new Date(periodStart).getUTCFullYear();
+      if (rule.byMonth.length === 0 && rule.byDay.length > 0 && rule.byMonthDay.length === 0) {
+        // e.g. FREQ=YEARLY;BYDAY=20MO - weekdays counted across the whole year
+        return weekdaysInSpan(Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1), rule.byDay);
+      }
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [start.getUTCMonth() + 1];
+      const hasDayRule = rule.byDay.length > 0 || rule.byMonthDay.length > 0;
+      return months.flatMap(month => {
+        const monthStart = Date.UTC(year, month - 1, 1);
+        return hasDayRule ? monthCandidates(monthStart, rule, start.getUTCDate()) : dayOfMonth(monthStart, start.getUTCDate());
+      });
+    }
+  }
+}
+
+function monthCandidates(monthStart: number, rule: Recurrence, defaultDay: number): number[] {
+  const date = new Date(monthStart);
+  const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+
+  if (rule.byDay.length > 0) {
+    const days = weekdaysInSpan(monthStart, nextMonth, rule.byDay);
+    return rule.byMonthDay.length > 0 ? days.filter(day => matchesMonthDay(day, rule.byMonthDay)) : days;
+  }
+  if (rule.byMonthDay.length > 0) {
+    const daysInMonth = (nextMonth - monthStart) / DAY_MS;
+    return rule.byMonthDay
+      .map(n => (n > 0 ? n : daysInMonth + n + 1))
+      .filter(n => n >= 1 && n <= daysInMonth)
+      .map(n => monthStart + (n - 1) * DAY_MS);
+  }
+  return dayOfMonth(monthStart, defaultDay);
+}
+
+// Months without the day (e.g. the 31st) are skipped, as RFC 5545 requires
+function dayOfMonth(monthStart: number, day: number): number[] {
+  const candidate = monthStart + (day - 1) * DAY_MS;
+  return new Date(candidate).getUTCMonth() === new Date(monthStart).getUTCMonth() ? [candidate] : [];
+}
+
+function matchesMonthDay(day: number, byMonthDay: number[]): boolean {
+  const date = new Date(day);
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  return byMonthDay.some(n => (n > 0 ? n : daysInMonth + n + 1) === date.getUTCDate());
+}
+
+function weekdaysInSpan(spanStart: number, spanEnd: number, byDay: Recurrence['byDay']): number[] {
+  const days = new Set<number>();
+
+  byDay.forEach(({ weekday, ordinal }) => {
+    const matching: number[] = [];
+    for (let day = spanStart; day < spanEnd; day += DAY_MS) {
+      if (new Date(day).getUTCDay() === weekday) matching.push(day);
+    }
+    if (ordinal === 0) {
+      matching.forEach(day => days.add(day));
+    } else {
+      const picked = matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal];
+      if (picked !== undefined) days.add(picked);
+    }
+  });
+
+  return Array.from(days);
+}
+
+// ===== EVENTS =====
+
+function toOccurrence(event: Component, converter: ZoneConverter): IcsOccurrence | null {
+  const startLine = getProperty(event, 'DTSTART');
+  const start = startLine ? parseDateTime(startLine.value, startLine.params) : null;
+  if (!start) return null;
+  if ((getProperty(event, 'STATUS')?.value || '').toUpperCase() === 'CANCELLED') return null;
+
+  const startInstant = converter.toInstant(start);
+  return {
+    uid: getProperty(event, 'UID')?.value || '',
+    summary: unescapeText(getProperty(event, 'SUMMARY')?.value || 'Busy'),
+    start: startInstant,
+    end: new Date(startInstant.getTime() + eventDuration(event, start, converter)),
+    allDay: start.dateOnly,
+    transparent: (getProperty(event, 'TRANSP')?.value || '').toUpperCase() === 'TRANSPARENT'
+  };
+}
+
+function eventDuration(event: Component, start: IcsDateTime, converter: ZoneConverter): number {
+  const endLine = getProperty(event, 'DTEND');
+  const end = endLine ? parseDateTime(endLine.value, endLine.params) : null;
+  if (end) {
+    return Math.max(0, converter.toInstant(end).getTime() - converter.toInstant(start).getTime());
+  }
+
+  const duration = getProperty(event, 'DURATION');
+  const parsed = duration ? parseDuration(duration.value) : null;
+  if (parsed !== null) return Math.max(0, parsed);
+
+  // RFC 5545 defaults: a date-only event lasts one day, a timed one has no duration
+  return start.dateOnly ? DAY_MS : 0;
+}
+
+function expandEvent(
+  event: Component,
+  overrides: Component[],
+  converter: ZoneConverter,
+  rangeStart: Date,
+  rangeEnd: Date
+): IcsOccurrence[] {
+  const master = toOccurrence(event, converter);
+  const startLine = getProperty(event, 'DTSTART');
+  const start = startLine ? parseDateTime(startLine.value, startLine.params) : null;
+  if (!master || !start) return [];
+
+  const duration = master.end.getTime() - master.start.getTime();
+  const ruleLine = getProperty(event, 'RRULE');
+  const rule = ruleLine ? parseRecurrence(ruleLine.value) : null;
+
+  // Wall-time window padded by a day on each side to absorb zone offsets and event length
+  const wallOffset = (wall: number): number => wall - converter.toInstant({ ...start, wall }).getTime();
+  const rangeStartWall = rangeStart.getTime() + wallOffset(rangeStart.getTime()) - duration - DAY_MS;
+  const rangeEndWall = rangeEnd.getTime() + wallOffset(rangeEnd.getTime()) + DAY_MS;
+
+  const startWalls = rule
+    ? expandRecurrence(start.wall, rule, rangeStartWall, rangeEndWall, wallOffset)
+    : [start.wall];
+  getProperties(event, 'RDATE').forEach(line => {
+    parseDateTimeList(line).forEach(rdate => startWalls.push(rdate.wall));
+  });
+
+  const excluded = new Set(getProperties(event, 'EXDATE')
+    .flatMap(line => parseDateTimeList(line))
+    .map(exdate => converter.toInstant({ ...exdate, zone: exdate.zone.kind === 'floating' ? start.zone : exdate.zone }).getTime()));
+
+  const overridden = new Map<number, Component>();
+  overrides.forEach(override => {
+    const line = getProperty(override, 'RECURRENCE-ID')!;
+    const recurrenceId = parseDateTime(line.value, line.params);
+    if (recurrenceId) overridden.set(converter.toInstant(recurrenceId).getTime(), override);
+  });
+
+  const occurrences: IcsOccurrence[] = [];
+  new Set(startWalls).forEach(wall => {
+    const instant = converter.toInstant({ ...start, wall }).getTime();
+    if (excluded.has(instant)) return;
+
+    const override = overridden.get(instant);
+    const occurrence = override
+      ? toOccurrence(override, converter)
+      : { ...master, start: new Date(instant), end: new Date(instant + duration) };
+
+    if (occurrence && overlaps(occurrence, rangeStart, rangeEnd)) occurrences.push(occurrence);
+  });
+
+  // Overrides can move an instance into the range from outside it
+  overridden.forEach((override, originalStart) => {
+    if (startWalls.some(wall => converter.toInstant({ ...start, wall }).getTime() === originalStart)) return;
+    const moved = toOccurrence(override, converter);
+    if (moved && overlaps(moved, rangeStart, rangeEnd)) occurrences.push(moved);
+  });
+
+  return occurrences;
+}
+
+function overlaps(occurrence: IcsOccurrence, rangeStart: Date, rangeEnd: Date): boolean {
+  return occurrence.start < rangeEnd && occurrence.end > rangeStart;
+}
@@ -0,0 +1,216 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for exporting the planned schedule.
+ * One-off events are written in UTC. Repeating events keep their local wall time across
+ * DST changes, so they are written with an IANA TZID and a matching VTIMEZONE built
+ * from the zone's transitions in the year the event starts.
+ */
+
+export interface IcsExportEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  timeZone?: string; // IANA name the weekly repeats follow - one-off events are always UTC
+  weeklyOn?: number[]; // Weekdays (0 = Sunday) the event repeats on, forever
+  transparent?: boolean; // Shown as free time in other people's calendars
+  categories?: string[];
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ZoneTransition {
+  at: number;
+  offsetFrom: number; // Minutes east of UTC
+  offsetTo: number;
+}
+
+export function buildIcsCalendar(events: IcsExportEvent[], calendarName: string): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DotSense//Schedule Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ];
+
+  // Earliest start per zone, which anchors its VTIMEZONE rules
+  const zoneStarts = new Map<string, Date>();
+  events.forEach(event => {
+    const zone = getEventZone(event);
+    if (zone && (!zoneStarts.has(zone) || event.start < zoneStarts.get(zone)!)) {
+      zoneStarts.set(zone, event.start);
+    }
+  });
+  zoneStarts.forEach((start, zone) => lines.push(...buildTimeZone(zone, start.getUTCFullYear())));
+
+  events.forEach(event => {
+    const zone = getEventZone(event);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      formatDateProperty('DTSTART', event.start, zone),
+      formatDateProperty('DTEND', event.end, zone),
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.weeklyOn && event.weeklyOn.length > 0) {
+      const days = [...new Set(event.weeklyOn)].sort().map(day => WEEKDAYS[day]);
+      lines.push(`RRULE:FREQ=WEEKLY;BYDAY=${days.join(',')}`);
+    }
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push(`TRANSP:${event.transparent ? 'TRANSPARENT' : 'OPAQUE'}`, 'END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// The zone an event is written in, or null for UTC
+function getEventZone(event: IcsExportEvent): string | null {
+  if (!event.timeZone || event.timeZone === 'UTC' || !event.weeklyOn || event.weeklyOn.length === 0) {
+    return null;
+  }
+  return event.timeZone;
+}
+
+function formatDateProperty(name: string, date: Date, timeZone: string | null): string {
+  if (!timeZone) {
+    return `${name}:${formatUtc(date)}`;
+  }
+  return `${name};TZID=${timeZone}:${formatWallTime(date, timeZone)}`;
+}
+
+// A VTIMEZONE whose yearly rules repeat the zone's DST changes in the given year
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const transitions = findTransitions(timeZone, year);
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getZoneOffset(Date.UTC(year, 0, 1), timeZone));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  transitions.forEach(transition => {
+    const component = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    // Onsets are local time in the offset being left
+    const onset = new Date(transition.at + transition.offsetFrom * 60 * 1000);
+    const day = onset.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)).getUTCDate();
+    const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatUtc(onset).replace('Z', '')}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[onset.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `END:${component}`
+    );
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// Offset changes during the year, to the minute
+function findTransitions(timeZone: string, year: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const offsetFrom = getZoneOffset(day, timeZone);
+    const offsetTo = getZoneOffset(day + DAY_MS, timeZone);
+    if (offsetFrom === offsetTo) continue;
+
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > 60 * 1000) {
+      const middle = low + Math.floor((high - low) / 2 / 60000) * 60000;
+      if (getZoneOffset(middle, timeZone) === offsetFrom) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ at: high, offsetFrom, offsetTo });
+  }
+
+  return transitions;
+}
+
+// Minutes the zone's wall clock is ahead of UTC at the instant
+function getZoneOffset(instant: number, timeZone: string): number {
+  const wall = formatWallTime(new Date(instant), timeZone);
+  const wallMs = Date.UTC(
+    Number(wall.slice(0, 4)), Number(wall.slice(4, 6)) - 1, Number(wall.slice(6, 8)),
+    Number(wall.slice(9, 11)), Number(wall.slice(11, 13)), Number(wall.slice(13, 15))
+  );
+  return Math.round((wallMs - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Clock fields of the instant as seen in the given zone
+function formatWallTime(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const field = (type: string) => parts.find(part => part.type === type)?.value || '00';
+
+  return `${field('year')}${field('month')}${field('day')}T${field('hour')}${field('minute')}${field('second')}`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space, never splitting a character
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
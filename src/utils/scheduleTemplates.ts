@@ -0,0 +1,146 @@
+import { ScheduleTemplate, ScheduleTemplateBlock, TimeBlock } from '../types';
+import { TimeBlocksByDay } from './storage';
+
+/**
+ * Day schedule templates: validation of shared JSON files and applying a template
+ * to a set of weekdays
+ */
+
+export const SCHEDULE_TEMPLATE_FORMAT_VERSION = 1;
+
+const BLOCK_TYPES: TimeBlock['type'][] = ['deep-work', 'meetings', 'admin', 'breaks', 'flexible'];
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ScheduleTemplateFile {
+  version: number;
+  templates: ScheduleTemplate[];
+}
+
+export interface ScheduleTemplateParseResult {
+  templates: ScheduleTemplate[];
+  errors: string[];
+}
+
+/**
+ * Reads templates from a parsed JSON file. Accepts an export file ({ version, templates }),
+ * a bare list or a single template. Invalid templates are skipped and reported.
+ */
+export function parseScheduleTemplates(data: unknown): ScheduleTemplateParseResult {
+  const record = isObject(data) ? data as Record<string, unknown> : null;
+  if (record && typeof record.version === 'number' && record.version > SCHEDULE_TEMPLATE_FORMAT_VERSION) {
+    return { templates: [], errors: [`Template format ${record.version} is newer than this version of DotSense supports`] };
+  }
+
+  const entries: unknown[] = Array.isArray(data) ? data
+    : record && Array.isArray(record.templates) ? record.templates
+      : record ? [record]
+        : [];
+  if (entries.length === 0) {
+    return { templates: [], errors: ['File contains no schedule templates'] };
+  }
+
+  const templates: ScheduleTemplate[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const result = validateTemplate(entry);
+    if (typeof result === 'string') {
+      errors.push(`Template ${index + 1}: ${result}`);
+    } else {
+      templates.push(result);
+    }
+  });
+
+  return { templates, errors };
+}
+
+function validateTemplate(entry: unknown): ScheduleTemplate | string {
+  if (!isObject(entry)) return 'not an object';
+
+  const template = entry as Record<string, unknown>;
+  if (typeof template.name !== 'string' || template.name.trim() === '') return 'needs a name';
+  if (!Array.isArray(template.blocks) || template.blocks.length === 0) return `"${template.name}" has no blocks`;
+
+  const blocks: ScheduleTemplateBlock[] = [];
+  for (const value of template.blocks) {
+    const block = isObject(value) ? value as Record<string, unknown> : {};
+    if (typeof block.name !== 'string' || !BLOCK_TYPES.includes(block.type as TimeBlock['type'])) {
+      return `"${template.name}" has a block without a name or with an unknown type`;
+    }
+    if (typeof block.startTime !== 'number' || typeof block.duration !== 'number' ||
+      block.startTime < 0 || block.duration <= 0 || block.startTime + block.duration > MINUTES_PER_DAY) {
+      return `block "${block.name}" in "${template.name}" must start and end within the day`;
+    }
+    blocks.push({
+      name: block.name,
+      startTime: Math.round(block.startTime),
+      duration: Math.round(block.duration),
+      type: block.type as TimeBlock['type'],
+      priority: typeof block.priority === 'number' ? Math.min(10, Math.max(1, Math.round(block.priority))) : 3
+    });
+  }
+
+  blocks.sort((a, b) => a.startTime - b.startTime);
+  const overlapping = blocks.find((block, index) =>
+    index > 0 && block.startTime < blocks[index - 1].startTime + blocks[index - 1].duration);
+  if (overlapping) return `block "${overlapping.name}" in "${template.name}" overlaps another block`;
+
+  return {
+    id: typeof template.id === 'string' && template.id.trim() !== '' ? template.id : toTemplateId(template.name),
+    name: template.name.trim(),
+    ...(typeof template.description === 'string' ? { description: template.description } : {}),
+    blocks
+  };
+}
+
+export function toTemplateId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+}
+
+/**
+ * Template capturing the blocks of one day, dropping ids and recurrence
+ */
+export function createTemplateFromBlocks(name: string, blocks: TimeBlock[], description?: string): ScheduleTemplate {
+  return {
+    id: toTemplateId(name),
+    name,
+    ...(description ? { description } : {}),
+    blocks: blocks
+      .map(({ name: blockName, startTime, duration, type, priority }) => ({ name: blockName, startTime, duration, type, priority }))
+      .sort((a, b) => a.startTime - b.startTime)
+  };
+}
+
+/**
+ * Replaces everything planned on the given weekdays with the template's blocks. Recurring
+ * blocks keep their other weekdays.
+ */
+export function applyTemplateToDays(allBlocks: TimeBlocksByDay, template: ScheduleTemplate, days: number[]): TimeBlocksByDay {
+  const result: TimeBlocksByDay = {};
+
+  Object.entries(allBlocks).forEach(([storedDay, dayBlocks]) => {
+    const kept = (dayBlocks || []).flatMap(block => {
+      if (!block.daysOfWeek) {
+        return days.includes(Number(storedDay)) ? [] : [block];
+      }
+      const daysOfWeek = block.daysOfWeek.filter(day => !days.includes(day));
+      return daysOfWeek.length > 0 ? [{ ...block, daysOfWeek }] : [];
+    });
+    result[Number(storedDay)] = kept;
+  });
+
+  const stamp = Date.now();
+  days.forEach(day => {
+    const blocks: TimeBlock[] = template.blocks.map((block, index) => ({
+      ...block,
+      id: `template_${template.id}_${day}_${index}_${stamp}`,
+      recurring: false
+    }));
+    result[day] = [...(result[day] || []), ...blocks];
+  });
+
+  return result;
+}
+
+function isObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
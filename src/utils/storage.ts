@@ -1,7 +1,71 @@
 import * as vscode from 'vscode';
-import { BreakStats, WellnessGoal, WellnessChallenge, CustomExercise, SmartNotificationsData, ScreenTimeStats, Achievement, DailyWellnessData } from '../types';
+import { BreakStats, WellnessGoal, WellnessChallenge, CustomExercise, SmartNotificationsData, ScreenTimeStats, Achievement, DailyWellnessData, StoredWorkRestSession, TimeBlock } from '../types';
 import { ActivityEvent, ActivityContext, ActivityType } from '../services/activityIntegration/activityTypes';
 import { Logger } from './logger';
+import { runStorageMigrations, scrubMigrationBackups, MigrationResult, STORAGE_SCHEMA_VERSION, SCHEMA_VERSION_KEY } from './storageMigrations';
+import { encryptData, decryptData, generateSalt } from './cryptography';
+
+export const BACKUP_FORMAT_VERSION = '2.0.0';
+
+// Custom settings holding learned models and the history they are trained on
+export const ML_MODEL_SETTING_KEYS = [
+  'intelligentModelSwitcher',
+  'userAssessmentPersonalModels',
+  'activePersonalModel',
+  'lastUserAssessment',
+  'federatedML.globalModel',
+  'federatedML.privacyConfig',
+  'advancedScheduler.tasks',
+  'advancedScheduler.energyReadings',
+  'advancedScheduler.adaptationRules',
+  'advancedScheduler.intelligence',
+  'advancedScheduler.currentModel',
+  'advancedScheduler.dataSharing',
+  'advancedScheduler.ultradianProfile',
+  'advancedScheduler.deadlines',
+  'advancedScheduler.energyProfile',
+  'timeBlocking.templates',
+  'restEnforcement.emergencyExits',
+  'restEnforcement.emergencyUnblocks',
+  'contextualPreferences',
+  'energyAdaptations',
+  'behavioralAdaptations',
+  'finalAdaptationResults',
+  'usageAnalyticsData'
+];
+
+// globalState keys holding behavioural data (typing metrics, mood analysis, usage history, assessments)
+export const ENCRYPTED_STORE_KEYS = [
+  'activityEvents',
+  'smartNotifications',
+  'dailyWellnessData',
+  'custom_usageAnalyticsData',
+  'custom_lastUserAssessment',
+  'custom_userAssessmentPersonalModels',
+  'custom_advancedScheduler.energyReadings',
+  'custom_advancedScheduler.energyProfile',
+  'custom_advancedScheduler.tasks',
+  // Emergency exit and unblock reasons are free-text notes
+  'custom_restEnforcement.emergencyExits',
+  'custom_restEnforcement.emergencyUnblocks'
+];
+
+// Raw globalState keys a backup import may write
+const IMPORTED_KEYS = [
+  'breakStats', 'wellnessGoals', 'wellnessChallenges', 'customExercises', 'smartNotifications',
+  'screenTimeStats', 'achievements', 'dailyWellnessData', 'workRestSession', 'custom_timeBlocking.blocks',
+  ...ML_MODEL_SETTING_KEYS.map(key => `custom_${key}`),
+  SCHEMA_VERSION_KEY
+];
+
+interface EncryptedValue {
+  __dotsenseEncrypted: 1;
+  payload: string;
+}
+
+export type TimeBlocksByDay = { [day: number]: TimeBlock[] };
+
+export type BackupImportMode = 'merge' | 'replace';
 
 export interface BackupData {
   breakStats: BreakStats;
@@ -12,8 +76,17 @@ export interface BackupData {
   screenTimeStats: ScreenTimeStats;
   achievements: Achievement[];
   dailyWellnessData: DailyWellnessData[];
+  timeBlocks?: TimeBlocksByDay;
+  mlModels?: Record<string, unknown>;
+  settings?: Record<string, unknown>; // dotsense.* user settings, keyed without the prefix
   exportDate: string;
   version: string;
+  schemaVersion?: number; // Absent in backups written before schema versioning
+}
+
+export interface BackupValidationResult {
+  valid: boolean;
+  errors: string[];
 }
 
 export interface StorageInfo {
@@ -40,8 +113,151 @@ export interface CompressedActivityEvent {
 
 
 export class ExtensionStorage {
+  private encryptionKey: string | null = null;
+  // One salt per key, so writes reuse the derived keys instead of running scrypt each time
+  private encryptionSalt = generateSalt();
+  // Encrypted stores already known to open with the current key
+  private readableStores = new Set<string>();
+  private lockWarningShown = false;
+
   constructor(private context: vscode.ExtensionContext) {}
 
+  // ===== ENCRYPTION AT REST =====
+
+  // Key comes from SecretStorage; null keeps sensitive stores in plaintext
+  setEncryptionKey(key: string | null): void {
+    this.encryptionKey = key;
+    this.encryptionSalt = generateSalt();
+    this.readableStores.clear();
+    this.lockWarningShown = false;
+  }
+
+  isEncryptionActive(): boolean {
+    return this.encryptionKey !== null;
+  }
+
+  hasEncryptedStores(): boolean {
+    return ENCRYPTED_STORE_KEYS.some(key => isEncryptedValue(this.context.globalState.get(key)));
+  }
+
+  hasPlaintextSensitiveStores(): boolean {
+    return ENCRYPTED_STORE_KEYS.some(key => {
+      const stored = this.context.globalState.get(key);
+      return stored !== undefined && !isEncryptedValue(stored);
+    });
+  }
+
+  // True when encrypted data exists but the current key cannot open it
+  isEncryptedDataLocked(): boolean {
+    return ENCRYPTED_STORE_KEYS.some(key => {
+      const stored = this.context.globalState.get(key);
+      return isEncryptedValue(stored) && !this.readableStores.has(key) && this.tryDecrypt(stored) === undefined;
+    });
+  }
+
+  /**
+   * Re-writes every sensitive store under a new key (or in plaintext when null).
+   * Everything is decrypted before anything is written, so a bad current key aborts cleanly.
+   * Pass the key the data is under when the active key may already have been swapped.
+   */
+  reencryptSensitiveStores(newKey: string | null, currentKey: string | null = this.encryptionKey): void {
+    const plaintext = new Map<string, unknown>();
+    ENCRYPTED_STORE_KEYS.forEach(key => {
+      const stored = this.context.globalState.get(key);
+      if (stored === undefined) return;
+      if (isEncryptedValue(stored)) {
+        const value = this.tryDecrypt(stored, currentKey);
+        if (value === undefined) {
+          throw new Error(`Cannot decrypt stored data for ${key}`);
+        }
+        plaintext.set(key, value);
+      } else {
+        plaintext.set(key, stored);
+      }
+    });
+
+    this.setEncryptionKey(newKey);
+    plaintext.forEach((value, key) => this.writeValue(key, value));
+
+    // Pre-encryption migration snapshots would otherwise keep plaintext copies around
+    if (newKey) {
+      scrubMigrationBackups(this.context.globalState, ENCRYPTED_STORE_KEYS);
+    }
+  }
+
+  // Clean failure path when the key is gone: drop what can no longer be read
+  discardEncryptedStores(): void {
+    ENCRYPTED_STORE_KEYS.forEach(key => {
+      if (isEncryptedValue(this.context.globalState.get(key))) {
+        this.context.globalState.update(key, undefined);
+      }
+    });
+    this.readableStores.clear();
+    this.lockWarningShown = false;
+  }
+
+  private read<T>(key: string, defaultValue: T): T {
+    const stored = this.context.globalState.get<T | EncryptedValue>(key);
+    if (stored === undefined) return defaultValue;
+    if (!isEncryptedValue(stored)) return stored;
+
+    const value = this.tryDecrypt(stored);
+    if (value === undefined) return defaultValue;
+    this.readableStores.add(key);
+    return value as T;
+  }
+
+  private write(key: string, value: unknown): void {
+    if (value === undefined || !ENCRYPTED_STORE_KEYS.includes(key)) {
+      this.context.globalState.update(key, value);
+      return;
+    }
+
+    // Never overwrite encrypted data we could not read - it may still be recoverable
+    const stored = this.context.globalState.get(key);
+    if (isEncryptedValue(stored) && !this.readableStores.has(key) && this.tryDecrypt(stored) === undefined) {
+      if (!this.lockWarningShown) {
+        Logger.warn('Encrypted storage is locked; sensitive data will not be saved until it is unlocked or reset');
+        this.lockWarningShown = true;
+      }
+      return;
+    }
+
+    this.writeValue(key, value);
+  }
+
+  private writeValue(key: string, value: unknown): void {
+    if (!this.encryptionKey) {
+      this.context.globalState.update(key, value);
+      return;
+    }
+
+    const encrypted: EncryptedValue = {
+      __dotsenseEncrypted: 1,
+      payload: encryptData(JSON.stringify(value), this.encryptionKey, this.encryptionSalt)
+    };
+    this.context.globalState.update(key, encrypted);
+    this.readableStores.add(key);
+  }
+
+  private tryDecrypt(stored: EncryptedValue, key: string | null = this.encryptionKey): unknown {
+    if (!key) return undefined;
+    try {
+      return JSON.parse(decryptData(stored.payload, key));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Schema migrations - run once on activation before anything is loaded
+  migrateSchema(): MigrationResult {
+    const result = runStorageMigrations(this.context.globalState);
+    if (result.applied.length > 0) {
+      Logger.log(`Storage migrated from v${result.fromVersion} to v${result.toVersion}`);
+    }
+    return result;
+  }
+
   // Break Statistics
   saveBreakStats(stats: BreakStats): void {
     this.context.globalState.update('breakStats', stats);
@@ -55,7 +271,11 @@ export class ExtensionStorage {
       lastBreakDate: null
     };
 
-    return this.context.globalState.get('breakStats', defaultStats);
+    const loadedStats = this.context.globalState.get('breakStats', defaultStats);
+    return {
+      ...loadedStats,
+      lastBreakDate: reviveDate(loadedStats.lastBreakDate)
+    };
   }
 
   // Wellness Goals
@@ -64,7 +284,7 @@ export class ExtensionStorage {
   }
 
   loadWellnessGoals(): WellnessGoal[] {
-    return this.context.globalState.get('wellnessGoals', []);
+    return this.context.globalState.get<WellnessGoal[]>('wellnessGoals', []).map(reviveGoalDates);
   }
 
   // Wellness Challenges
@@ -73,7 +293,12 @@ export class ExtensionStorage {
   }
 
   loadWellnessChallenges(): WellnessChallenge[] {
-    return this.context.globalState.get('wellnessChallenges', []);
+    return this.context.globalState.get<WellnessChallenge[]>('wellnessChallenges', []).map(challenge => ({
+      ...challenge,
+      startDate: reviveDate(challenge.startDate) ?? new Date(),
+      endDate: reviveDate(challenge.endDate) ?? new Date(),
+      goals: (challenge.goals || []).map(reviveGoalDates)
+    }));
   }
 
   // Custom Exercises
@@ -87,7 +312,7 @@ export class ExtensionStorage {
 
   // Smart Notifications Data
   saveSmartNotifications(data: SmartNotificationsData): void {
-    this.context.globalState.update('smartNotifications', data);
+    this.write('smartNotifications', data);
   }
 
   loadSmartNotifications(): SmartNotificationsData {
@@ -103,7 +328,7 @@ export class ExtensionStorage {
       }
     };
 
-    return this.context.globalState.get('smartNotifications', defaultData);
+    return this.read('smartNotifications', defaultData);
   }
 
   // Screen Time Statistics
@@ -128,10 +353,10 @@ export class ExtensionStorage {
     // Convert date strings back to Date objects after loading from storage
     return {
       ...loadedStats,
-      sessionStartTime: loadedStats.sessionStartTime ? new Date(loadedStats.sessionStartTime) : null,
-      lastBreakTime: loadedStats.lastBreakTime ? new Date(loadedStats.lastBreakTime) : null,
-      lastActivityTime: loadedStats.lastActivityTime ? new Date(loadedStats.lastActivityTime) : loadedStats.lastActivityTime,
-      codingSessionStart: loadedStats.codingSessionStart ? new Date(loadedStats.codingSessionStart) : null
+      sessionStartTime: reviveDate(loadedStats.sessionStartTime),
+      lastBreakTime: reviveDate(loadedStats.lastBreakTime),
+      lastActivityTime: reviveDate(loadedStats.lastActivityTime),
+      codingSessionStart: reviveDate(loadedStats.codingSessionStart)
     };
   }
 
@@ -141,20 +366,46 @@ export class ExtensionStorage {
   }
 
   loadAchievements(): Achievement[] {
-    return this.context.globalState.get('achievements', []);
+    return this.context.globalState.get<Achievement[]>('achievements', []).map(achievement => {
+      const revived: Achievement = { ...achievement };
+      const unlockedAt = reviveDate(achievement.unlockedAt);
+      if (unlockedAt) {
+        revived.unlockedAt = unlockedAt;
+      } else {
+        delete revived.unlockedAt;
+      }
+      return revived;
+    });
   }
 
   // Daily Wellness Data
   saveDailyWellnessData(data: DailyWellnessData[]): void {
-    this.context.globalState.update('dailyWellnessData', data);
+    this.write('dailyWellnessData', data);
   }
 
   loadDailyWellnessData(): DailyWellnessData[] {
-    return this.context.globalState.get('dailyWellnessData', []);
+    return this.read<DailyWellnessData[]>('dailyWellnessData', []);
+  }
+
+  // Work-Rest Session (resumed on activation)
+  saveWorkRestSession(session: StoredWorkRestSession | null): void {
+    this.context.globalState.update('workRestSession', session ?? undefined);
+  }
+
+  loadWorkRestSession(): StoredWorkRestSession | null {
+    return this.context.globalState.get<StoredWorkRestSession | null>('workRestSession', null);
   }
 
   // Data Export/Import for backup
   exportAllData(): BackupData {
+    const mlModels: Record<string, unknown> = {};
+    ML_MODEL_SETTING_KEYS.forEach(key => {
+      const value = this.loadCustomSetting(key);
+      if (value !== undefined && value !== null) {
+        mlModels[key] = value;
+      }
+    });
+
     return {
       breakStats: this.loadBreakStats(),
       wellnessGoals: this.loadWellnessGoals(),
@@ -164,29 +415,83 @@ export class ExtensionStorage {
       screenTimeStats: this.loadScreenTimeStats(),
       achievements: this.loadAchievements(),
       dailyWellnessData: this.loadDailyWellnessData(),
+      timeBlocks: this.loadTimeBlocks(),
+      mlModels,
       exportDate: new Date().toISOString(),
-      version: '1.0.0'
+      version: BACKUP_FORMAT_VERSION,
+      schemaVersion: STORAGE_SCHEMA_VERSION
     };
   }
 
-  importAllData(data: Partial<BackupData>): boolean {
+  /**
+   * Writes a validated backup into storage. Replace wipes existing data first; merge keeps it
+   * and combines records by id/date so streaks and unlocked achievements are never lost.
+   * Every key the import touches is snapshotted first and put back if any step fails.
+   */
+  importAllData(data: Partial<BackupData>, mode: BackupImportMode = 'replace'): boolean {
+    const snapshot = new Map(IMPORTED_KEYS.map(key => [key, this.context.globalState.get(key)]));
+
     try {
-      if (data.breakStats) this.saveBreakStats(data.breakStats);
-      if (data.wellnessGoals) this.saveWellnessGoals(data.wellnessGoals);
-      if (data.wellnessChallenges) this.saveWellnessChallenges(data.wellnessChallenges);
-      if (data.customExercises) this.saveCustomExercises(data.customExercises);
+      if (mode === 'replace') {
+        // The running work-rest session belongs to this machine, not to the backup
+        const session = this.loadWorkRestSession();
+        this.clearAllData();
+        this.saveWorkRestSession(session);
+        this.context.globalState.update('custom_timeBlocking.blocks', undefined);
+        ML_MODEL_SETTING_KEYS.forEach(key => this.saveCustomSetting(key, undefined));
+      }
+
+      const merge = mode === 'merge';
+      if (data.breakStats) {
+        this.saveBreakStats(merge ? mergeBreakStats(this.loadBreakStats(), data.breakStats) : data.breakStats);
+      }
+      if (data.wellnessGoals) {
+        this.saveWellnessGoals(merge ? mergeById(this.loadWellnessGoals(), data.wellnessGoals) : data.wellnessGoals);
+      }
+      if (data.wellnessChallenges) {
+        this.saveWellnessChallenges(merge ? mergeById(this.loadWellnessChallenges(), data.wellnessChallenges) : data.wellnessChallenges);
+      }
+      if (data.customExercises) {
+        this.saveCustomExercises(merge ? mergeById(this.loadCustomExercises(), data.customExercises) : data.customExercises);
+      }
       if (data.smartNotifications) this.saveSmartNotifications(data.smartNotifications);
-      if (data.screenTimeStats) this.saveScreenTimeStats(data.screenTimeStats);
-      if (data.achievements) this.saveAchievements(data.achievements);
-      if (data.dailyWellnessData) this.saveDailyWellnessData(data.dailyWellnessData);
+      // Screen time describes the current session on this machine, so merging keeps it
+      if (data.screenTimeStats && !merge) this.saveScreenTimeStats(data.screenTimeStats);
+      if (data.achievements) {
+        this.saveAchievements(merge ? mergeAchievements(this.loadAchievements(), data.achievements) : data.achievements);
+      }
+      if (data.dailyWellnessData) {
+        this.saveDailyWellnessData(merge ? mergeDailyData(this.loadDailyWellnessData(), data.dailyWellnessData) : data.dailyWellnessData);
+      }
+      if (data.timeBlocks) {
+        this.saveCustomSetting('timeBlocking.blocks', merge ? { ...this.loadTimeBlocks(), ...data.timeBlocks } : data.timeBlocks);
+      }
+      if (data.mlModels) {
+        Object.entries(data.mlModels)
+          .filter(([key]) => ML_MODEL_SETTING_KEYS.includes(key))
+          .forEach(([key, value]) => this.saveCustomSetting(key, value));
+      }
+
+      // Older backups are upgraded by the same migrations as stored data
+      const backupSchema = data.schemaVersion ?? 0;
+      if (backupSchema < STORAGE_SCHEMA_VERSION) {
+        this.context.globalState.update(SCHEMA_VERSION_KEY, backupSchema);
+        this.migrateSchema();
+      }
 
       return true;
     } catch (error) {
-      Logger.error('Failed to import data:', error);
+      Logger.error('Failed to import data, restoring the previous data:', error);
+      snapshot.forEach((value, key) => this.context.globalState.update(key, value));
       return false;
     }
   }
 
+  // Time blocks are kept by the time blocking panel, keyed by day of week
+  loadTimeBlocks(): TimeBlocksByDay {
+    return this.loadCustomSetting<TimeBlocksByDay>('timeBlocking.blocks', {}) || {};
+  }
+
   // Clear all data (for reset functionality)
   clearAllData(): void {
     this.context.globalState.update('breakStats', undefined);
@@ -197,6 +502,7 @@ export class ExtensionStorage {
     this.context.globalState.update('screenTimeStats', undefined);
     this.context.globalState.update('achievements', undefined);
     this.context.globalState.update('dailyWellnessData', undefined);
+    this.context.globalState.update('workRestSession', undefined);
   }
 
   // Get storage info
@@ -209,11 +515,11 @@ export class ExtensionStorage {
 
   // Custom settings storage (for extension-specific settings)
   saveCustomSetting<T>(key: string, value: T): void {
-    this.context.globalState.update(`custom_${key}`, value);
+    this.write(`custom_${key}`, value);
   }
 
   loadCustomSetting<T>(key: string, defaultValue?: T): T | undefined {
-    return this.context.globalState.get(`custom_${key}`, defaultValue);
+    return this.read<T | undefined>(`custom_${key}`, defaultValue);
   }
 
   // ===== ACTIVITY MONITOR STORAGE & PRIVACY CONTROLS =====
@@ -227,7 +533,7 @@ export class ExtensionStorage {
     // Compress data for storage efficiency
     const compressedData = this.compressActivityData(filteredEvents);
 
-    this.context.globalState.update('activityEvents', compressedData);
+    this.write('activityEvents', compressedData);
 
     // Also save metadata about storage
     const metadata = {
@@ -241,7 +547,7 @@ export class ExtensionStorage {
 
   loadActivityEvents(): ActivityEvent[] {
     try {
-      const compressedData = this.context.globalState.get('activityEvents', null);
+      const compressedData = this.read<CompressedActivityEvent[] | null>('activityEvents', null);
       if (!compressedData) return [];
 
       // Decompress data
@@ -399,7 +705,7 @@ export class ExtensionStorage {
     const compressedSize = JSON.stringify(compressed).length;
 
     // Save compressed data
-    this.context.globalState.update('activityEvents', compressed);
+    this.write('activityEvents', compressed);
 
     const compressionRatio = compressedSize / originalSize;
 
@@ -567,3 +873,166 @@ export class ExtensionStorage {
     );
   }
 }
+
+function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return !!value && typeof value === 'object' && (value as EncryptedValue).__dotsenseEncrypted === 1;
+}
+
+// Dates come back from globalState as ISO strings
+function reviveDate(value: Date | string | number | null | undefined): Date | null {
+  if (value === null || value === undefined) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function reviveGoalDates(goal: WellnessGoal): WellnessGoal {
+  return {
+    ...goal,
+    deadline: reviveDate(goal.deadline) ?? new Date(),
+    createdAt: reviveDate(goal.createdAt) ?? new Date()
+  };
+}
+
+/**
+ * Checks a parsed backup file before anything is written to storage
+ */
+export function validateBackupData(data: unknown): BackupValidationResult {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, errors: ['Backup is not a JSON object'] };
+  }
+
+  const backup = data as Record<string, unknown>;
+  const isObject = (value: unknown): boolean => !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (typeof backup.version !== 'string') {
+    errors.push('Missing backup format version');
+  } else if (parseInt(backup.version, 10) > parseInt(BACKUP_FORMAT_VERSION, 10)) {
+    errors.push(`Backup format ${backup.version} is newer than this version of DotSense supports`);
+  }
+
+  if (backup.schemaVersion !== undefined &&
+    (typeof backup.schemaVersion !== 'number' || backup.schemaVersion > STORAGE_SCHEMA_VERSION)) {
+    errors.push(`Unsupported storage schema version: ${String(backup.schemaVersion)}`);
+  }
+
+  const sections = ['breakStats', 'wellnessGoals', 'wellnessChallenges', 'customExercises', 'achievements', 'dailyWellnessData'];
+  if (!sections.some(section => section in backup)) {
+    errors.push('Backup contains no DotSense data');
+  }
+
+  if (backup.breakStats !== undefined) {
+    const stats = backup.breakStats as Record<string, unknown>;
+    if (!isObject(stats) || ['breaksTaken', 'timeSaved', 'streakDays'].some(key => typeof stats[key] !== 'number')) {
+      errors.push('breakStats must contain numeric breaksTaken, timeSaved and streakDays');
+    }
+  }
+
+  const idLists = ['wellnessGoals', 'wellnessChallenges', 'achievements'];
+  idLists.forEach(key => {
+    const list = backup[key];
+    if (list === undefined) return;
+    if (!Array.isArray(list)) {
+      errors.push(`${key} must be a list`);
+    } else if (list.some(item => !isObject(item) || typeof (item as Record<string, unknown>).id !== 'string')) {
+      errors.push(`Every entry in ${key} needs a string id`);
+    }
+  });
+
+  if (backup.customExercises !== undefined &&
+    (!Array.isArray(backup.customExercises) || backup.customExercises.some(exercise => !isObject(exercise)))) {
+    errors.push('customExercises must be a list of exercises');
+  }
+
+  if (backup.dailyWellnessData !== undefined) {
+    const days = backup.dailyWellnessData;
+    if (!Array.isArray(days) || days.some(day => !isObject(day) || typeof (day as Record<string, unknown>).date !== 'string')) {
+      errors.push('dailyWellnessData must be a list of records with a date');
+    }
+  }
+
+  ['smartNotifications', 'screenTimeStats', 'timeBlocks', 'mlModels', 'settings'].forEach(key => {
+    if (backup[key] !== undefined && !isObject(backup[key])) {
+      errors.push(`${key} must be an object`);
+    }
+  });
+
+  if (isObject(backup.timeBlocks)) {
+    Object.entries(backup.timeBlocks as Record<string, unknown>).forEach(([day, blocks]) => {
+      if (!Array.isArray(blocks) || blocks.some(block => !isObject(block) || typeof (block as Record<string, unknown>).startTime !== 'number')) {
+        errors.push(`Time blocks for day ${day} are malformed`);
+      }
+    });
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ===== Backup merge helpers =====
+
+// Imported records win on id clashes; records without an id are kept as they are
+function mergeById<T extends { id?: string }>(existing: T[], imported: T[]): T[] {
+  const byId = new Map<string, T>();
+  const withoutId: T[] = [];
+  [...existing, ...imported].forEach(item => {
+    if (item.id) {
+      byId.set(item.id, item);
+    } else {
+      withoutId.push(item);
+    }
+  });
+  return [...byId.values(), ...withoutId];
+}
+
+function mergeBreakStats(existing: BreakStats, imported: BreakStats): BreakStats {
+  const existingDate = reviveDate(existing.lastBreakDate);
+  const importedDate = reviveDate(imported.lastBreakDate);
+  const latest = !existingDate ? importedDate : !importedDate ? existingDate
+    : (importedDate > existingDate ? importedDate : existingDate);
+
+  return {
+    breaksTaken: Math.max(existing.breaksTaken, imported.breaksTaken),
+    timeSaved: Math.max(existing.timeSaved, imported.timeSaved),
+    streakDays: Math.max(existing.streakDays, imported.streakDays),
+    lastBreakDate: latest
+  };
+}
+
+// An achievement unlocked on either machine stays unlocked, with its earliest date
+function mergeAchievements(existing: Achievement[], imported: Achievement[]): Achievement[] {
+  const byId = new Map<string, Achievement>();
+  existing.forEach(achievement => byId.set(achievement.id, achievement));
+
+  imported.forEach(incoming => {
+    const current = byId.get(incoming.id);
+    if (!current) {
+      byId.set(incoming.id, incoming);
+      return;
+    }
+
+    const merged: Achievement = {
+      ...current,
+      ...incoming,
+      progress: Math.max(current.progress ?? 0, incoming.progress ?? 0)
+    };
+    const unlockDates = [reviveDate(current.unlockedAt), reviveDate(incoming.unlockedAt)]
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (unlockDates.length > 0) {
+      merged.unlockedAt = unlockDates[0];
+    } else {
+      delete merged.unlockedAt;
+    }
+    byId.set(incoming.id, merged);
+  });
+
+  return Array.from(byId.values());
+}
+
+function mergeDailyData(existing: DailyWellnessData[], imported: DailyWellnessData[]): DailyWellnessData[] {
+  const byDate = new Map<string, DailyWellnessData>();
+  existing.forEach(day => byDate.set(day.date, day));
+  imported.forEach(day => byDate.set(day.date, day));
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
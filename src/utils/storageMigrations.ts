@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+
+/**
+ * Storage schema versioning
+ * Each migration upgrades globalState by exactly one version. A snapshot of every stored key
+ * is taken before a step runs and restored if it throws, so an upgrade can never leave
+ * user data half-converted.
+ */
+
+export const STORAGE_SCHEMA_VERSION = 1;
+
+export const SCHEMA_VERSION_KEY = 'storageSchemaVersion';
+const BACKUP_KEY_PREFIX = 'storageBackup_v';
+const MAX_MIGRATION_BACKUPS = 2;
+
+export interface StorageMigration {
+  version: number; // Schema version this step produces
+  description: string;
+  migrate(globalState: vscode.Memento): void;
+}
+
+export interface MigrationBackup {
+  fromVersion: number;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  failed?: { version: number; error: string };
+}
+
+// Keys written by every release before schema versioning existed
+const LEGACY_DATA_KEYS = [
+  'breakStats', 'wellnessGoals', 'wellnessChallenges', 'customExercises',
+  'smartNotifications', 'screenTimeStats', 'achievements', 'dailyWellnessData'
+];
+
+export const storageMigrations: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Fill fields missing from records saved by 1.2.x and de-duplicate daily history',
+    migrate: globalState => {
+      const breakStats = globalState.get<Record<string, unknown>>('breakStats');
+      if (breakStats) {
+        globalState.update('breakStats', {
+          breaksTaken: 0,
+          timeSaved: 0,
+          streakDays: 0,
+          lastBreakDate: null,
+          ...breakStats
+        });
+      }
+
+      const smartNotifications = globalState.get<Record<string, unknown>>('smartNotifications');
+      if (smartNotifications) {
+        const userPatterns = (smartNotifications.userPatterns || {}) as Record<string, unknown>;
+        globalState.update('smartNotifications', {
+          lastBreakResponseTime: 0,
+          breakAcceptanceRate: 0.5,
+          preferredBreakTimes: [],
+          notificationHistory: [],
+          ...smartNotifications,
+          userPatterns: {
+            productiveHours: [],
+            breakFrequency: 30,
+            responseTimeAverage: 30000,
+            ...userPatterns
+          }
+        });
+      }
+
+      const goals = globalState.get<Array<Record<string, unknown>>>('wellnessGoals');
+      if (Array.isArray(goals)) {
+        globalState.update('wellnessGoals', goals.filter(goal => typeof goal?.id === 'string'));
+      }
+
+      const achievements = globalState.get<Array<Record<string, unknown>>>('achievements');
+      if (Array.isArray(achievements)) {
+        globalState.update('achievements', achievements.map(achievement => ({ progress: 0, ...achievement })));
+      }
+
+      // Older builds appended a record on every activation; keep the latest per day
+      const dailyData = globalState.get<Array<{ date: string }>>('dailyWellnessData');
+      if (Array.isArray(dailyData)) {
+        const byDate = new Map<string, { date: string }>();
+        dailyData.filter(day => typeof day?.date === 'string').forEach(day => byDate.set(day.date, day));
+        globalState.update('dailyWellnessData', Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)));
+      }
+    }
+  }
+];
+
+export function getStoredSchemaVersion(globalState: vscode.Memento): number {
+  const stored = globalState.get<number>(SCHEMA_VERSION_KEY);
+  if (typeof stored === 'number') return stored;
+
+  // Unversioned: either a fresh install or data from before versioning
+  const hasLegacyData = globalState.keys().some(key => LEGACY_DATA_KEYS.includes(key));
+  return hasLegacyData ? 0 : STORAGE_SCHEMA_VERSION;
+}
+
+/**
+ * Brings stored data up to STORAGE_SCHEMA_VERSION, one backed-up step at a time
+ */
+export function runStorageMigrations(
+  globalState: vscode.Memento,
+  migrations: StorageMigration[] = storageMigrations
+): MigrationResult {
+  const fromVersion = getStoredSchemaVersion(globalState);
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [] };
+
+  if (fromVersion > STORAGE_SCHEMA_VERSION) {
+    // Written by a newer release - leave it alone rather than downgrade
+    Logger.warn(`Storage schema v${fromVersion} is newer than supported v${STORAGE_SCHEMA_VERSION}; skipping migrations`);
+    return result;
+  }
+
+  const pending = migrations
+    .filter(migration => migration.version > fromVersion && migration.version <= STORAGE_SCHEMA_VERSION)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const backup = createMigrationBackup(globalState, result.toVersion);
+
+    try {
+      Logger.log(`Migrating storage v${result.toVersion} → v${migration.version}: ${migration.description}`);
+      migration.migrate(globalState);
+      globalState.update(SCHEMA_VERSION_KEY, migration.version);
+      result.toVersion = migration.version;
+      result.applied.push(migration.version);
+    } catch (error) {
+      Logger.error(`Storage migration to v${migration.version} failed, restoring backup:`, error);
+      restoreMigrationBackup(globalState, backup);
+      result.failed = { version: migration.version, error: (error as Error).message };
+      return result;
+    }
+  }
+
+  if (globalState.get<number>(SCHEMA_VERSION_KEY) !== result.toVersion) {
+    globalState.update(SCHEMA_VERSION_KEY, result.toVersion);
+  }
+
+  return result;
+}
+
+export function getMigrationBackups(globalState: vscode.Memento): MigrationBackup[] {
+  return globalState.keys()
+    .filter(key => key.startsWith(BACKUP_KEY_PREFIX))
+    .map(key => globalState.get<MigrationBackup>(key))
+    .filter((backup): backup is MigrationBackup => !!backup)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Removes the given keys from every snapshot, e.g. once those stores are encrypted
+export function scrubMigrationBackups(globalState: vscode.Memento, keys: string[]): void {
+  getMigrationBackups(globalState).forEach(backup => {
+    keys.forEach(key => delete backup.data[key]);
+    globalState.update(`${BACKUP_KEY_PREFIX}${backup.fromVersion}`, backup);
+  });
+}
+
+function createMigrationBackup(globalState: vscode.Memento, fromVersion: number): MigrationBackup {
+  const data: Record<string, unknown> = {};
+  globalState.keys()
+    .filter(key => !key.startsWith(BACKUP_KEY_PREFIX))
+    .forEach(key => {
+      data[key] = globalState.get(key);
+    });
+
+  const backup: MigrationBackup = { fromVersion, createdAt: new Date().toISOString(), data };
+  globalState.update(`${BACKUP_KEY_PREFIX}${fromVersion}`, backup);
+
+  // Only the most recent backups are worth their storage
+  const stale = getMigrationBackups(globalState).slice(0, -MAX_MIGRATION_BACKUPS);
+  stale.forEach(old => globalState.update(`${BACKUP_KEY_PREFIX}${old.fromVersion}`, undefined));
+
+  return backup;
+}
+
+function restoreMigrationBackup(globalState: vscode.Memento, backup: MigrationBackup): void {
+  globalState.keys()
+    .filter(key => !key.startsWith(BACKUP_KEY_PREFIX) && !(key in backup.data))
+    .forEach(key => globalState.update(key, undefined));
+
+  Object.entries(backup.data).forEach(([key, value]) => globalState.update(key, value));
+}
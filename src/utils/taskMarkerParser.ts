@@ -0,0 +1,93 @@
+import { EisenhowerPriority, TaskSource } from '../types';
+
+/**
+ * Finds TODO / FIXME / HACK comments and Markdown checklist items in a file.
+ *
+ * Priority comes from markers in the text:
+ *  - `!!`, `critical`, `blocker`, `p0`  -> urgent and important
+ *  - `urgent`, `asap`                  -> urgent
+ *  - `!`, `important`, `p1`, any FIXME  -> important
+ */
+
+export type TaskMarkerKind = TaskSource['kind'];
+
+export interface TaskMarker {
+  kind: TaskMarkerKind;
+  text: string; // Description with priority markers stripped
+  line: number; // 0-based
+  done: boolean; // Checked checklist box
+  priority: EisenhowerPriority;
+}
+
+// A keyword after a comment leader (//, #, /*, *, <!--, --, ;), optionally tagged: TODO(urgent): ...
+const COMMENT_MARKER = /(?:\/\/+|#|\/\*+|^\s*\*|<!--|--|;)\s*(TODO|FIXME|HACK)\b(?:\(([^)]*)\))?[:\s-]*(.*)$/;
+// In Markdown `#` starts a heading, so `## TODO list` is not a task
+const MARKDOWN_COMMENT_MARKER = /(?:\/\/+|\/\*+|^\s*\*|<!--|--|;)\s*(TODO|FIXME|HACK)\b(?:\(([^)]*)\))?[:\s-]*(.*)$/;
+const CHECKLIST_ITEM = /^\s*(?:[-*+]|\d+\.)\s+\[( |x|X)\]\s+(.+)$/;
+const MARKDOWN_FILE = /\.(md|markdown|mdx)$/i;
+
+// `!` or `!!` standing on its own - not part of `!=`, `!==` or `!value`
+const BANG_MARKER = /(^|\s)!+(?=\s|$)/g;
+
+const CRITICAL_WORDS = /\b(critical|blocker|p0)\b/i;
+const URGENT_WORDS = /\b(urgent|asap)\b/i;
+const IMPORTANT_WORDS = /\b(important|p1)\b/i;
+
+export function parseTaskMarkers(text: string, fileName: string): TaskMarker[] {
+  const markers: TaskMarker[] = [];
+  const markdown = MARKDOWN_FILE.test(fileName);
+  const commentMarker = markdown ? MARKDOWN_COMMENT_MARKER : COMMENT_MARKER;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const comment = line.match(commentMarker);
+    if (comment) {
+      const kind = comment[1] as TaskMarkerKind;
+      const description = cleanDescription(comment[3]);
+      if (description) {
+        markers.push({
+          kind,
+          text: description,
+          line: index,
+          done: false,
+          priority: inferPriority(kind, `${comment[2] || ''} ${comment[3]}`)
+        });
+      }
+      return;
+    }
+
+    const item = markdown ? line.match(CHECKLIST_ITEM) : null;
+    if (item) {
+      const description = cleanDescription(item[2]);
+      if (description) {
+        markers.push({
+          kind: 'checklist',
+          text: description,
+          line: index,
+          done: item[1] !== ' ',
+          priority: inferPriority('checklist', item[2])
+        });
+      }
+    }
+  });
+
+  return markers;
+}
+
+export function inferPriority(kind: TaskMarkerKind, text: string): EisenhowerPriority {
+  const bangs = Math.max(0, ...Array.from(text.matchAll(BANG_MARKER), match => match[0].trim().length));
+  const critical = bangs >= 2 || CRITICAL_WORDS.test(text);
+  const urgent = critical || URGENT_WORDS.test(text);
+  const important = critical || kind === 'FIXME' || bangs === 1 || IMPORTANT_WORDS.test(text);
+
+  if (urgent) return important ? 'urgent-important' : 'urgent-not-important';
+  return important ? 'not-urgent-important' : 'not-urgent-not-important';
+}
+
+// Drops closing comment tokens and bare priority markers
+function cleanDescription(raw: string): string {
+  return raw
+    .replace(/\s*(\*\/|-->)\s*$/, '')
+    .replace(BANG_MARKER, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
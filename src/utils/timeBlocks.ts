@@ -0,0 +1,41 @@
+import { TimeBlock } from '../types';
+import { TimeBlocksByDay } from './storage';
+
+/**
+ * Blocks that fall on a weekday. Recurring blocks carry their weekdays; the rest apply to
+ * the day they are stored under.
+ */
+export function getBlocksForDay(allBlocks: TimeBlocksByDay, day: number): TimeBlock[] {
+  const seen = new Set<string>();
+  const blocks: TimeBlock[] = [];
+
+  Object.entries(allBlocks).forEach(([storedDay, dayBlocks]) => {
+    (dayBlocks || []).forEach(block => {
+      const onDay = block.daysOfWeek ? block.daysOfWeek.includes(day) : Number(storedDay) === day;
+      if (onDay && !seen.has(block.id)) {
+        seen.add(block.id);
+        blocks.push(block);
+      }
+    });
+  });
+
+  return blocks.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Whether a block overlaps any of the others on the given weekday
+ */
+export function hasTimeConflict(blocks: TimeBlock[], newBlock: TimeBlock, day: number, excludeId?: string): boolean {
+  const newStart = newBlock.startTime;
+  const newEnd = newBlock.startTime + newBlock.duration;
+
+  return blocks.some(block => {
+    if (excludeId && block.id === excludeId) return false;
+    if (block.daysOfWeek && !block.daysOfWeek.includes(day)) return false;
+
+    const blockStart = block.startTime;
+    const blockEnd = block.startTime + block.duration;
+
+    return !(newEnd <= blockStart || newStart >= blockEnd);
+  });
+}
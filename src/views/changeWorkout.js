@@ -312,6 +312,10 @@
             return '🏥 WHO Guidelines';
         }
 
+        if (model.basedOn === 'ultradian') {
+            return '🌊 Ultradian Rhythm';
+        }
+
         if (model.basedOn === 'custom') {
             return '📋 Custom Model';
         }
@@ -323,6 +327,7 @@
         const labelMap = {
             'pomodoro': 'Based on POMODORO guidelines',
             'who': 'Based on WHO guidelines',
+            'ultradian': 'Learned from your own activity',
             'custom': 'Custom configuration'
         };
 
@@ -62,6 +62,9 @@
             case 'updateActivityStatus':
                 updateActivityStatus(message.data);
                 break;
+            case 'updateUltradianRhythm':
+                updateUltradianRhythm(message.data);
+                break;
             case 'showTimer':
                 showTimer(message.data);
                 break;
@@ -0,0 +1,55 @@
+/**
+ * Rest Overlay Interface
+ * Countdown to the end of the rest period and a paced breathing guide
+ */
+
+const vscode = acquireVsCodeApi();
+
+// Matches the 8s breathing animation in restOverlay.css
+const BREATH_PHASE_MS = 4000;
+
+let endsAt = null;
+
+document.addEventListener('DOMContentLoaded', function() {
+  document.querySelectorAll('button[data-action]').forEach(button => {
+    button.addEventListener('click', () => {
+      vscode.postMessage({ command: button.getAttribute('data-action') });
+    });
+  });
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.command === 'restState') {
+      endsAt = message.data.endsAt;
+      document.getElementById('emergency').style.display = message.data.emergencyExitAvailable ? '' : 'none';
+      renderCountdown();
+    }
+  });
+
+  setInterval(renderCountdown, 1000);
+  startBreathingLabel();
+
+  vscode.postMessage({ command: 'ready' });
+});
+
+function renderCountdown() {
+  const countdown = document.getElementById('countdown');
+  if (!endsAt) {
+    countdown.textContent = 'Until the rest ends';
+    return;
+  }
+
+  const remaining = Math.max(0, Math.round((endsAt - Date.now()) / 1000));
+  const minutes = Math.floor(remaining / 60);
+  const seconds = remaining % 60;
+  countdown.textContent = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function startBreathingLabel() {
+  const label = document.getElementById('breathingLabel');
+  let inhale = true;
+  setInterval(() => {
+    inhale = !inhale;
+    label.textContent = inhale ? 'Breathe in' : 'Breathe out';
+  }, BREATH_PHASE_MS);
+}
@@ -0,0 +1,136 @@
+/**
+ * Task Matrix Interface
+ * Eisenhower quadrants with drag and drop triage
+ */
+
+const vscode = acquireVsCodeApi();
+
+let draggedTaskId = null;
+
+document.addEventListener('DOMContentLoaded', function() {
+  document.querySelectorAll('button[data-action]').forEach(button => {
+    button.addEventListener('click', () => {
+      vscode.postMessage({ command: button.getAttribute('data-action') });
+    });
+  });
+
+  document.querySelectorAll('button[data-add-priority]').forEach(button => {
+    button.addEventListener('click', () => {
+      vscode.postMessage({ command: 'addTask', data: { priority: button.getAttribute('data-add-priority') } });
+    });
+  });
+
+  document.querySelectorAll('.quadrant').forEach(setupDropZone);
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.command === 'tasksUpdated') {
+      renderTasks(message.data);
+    }
+  });
+
+  vscode.postMessage({ command: 'getTasks' });
+});
+
+function setupDropZone(quadrant) {
+  quadrant.addEventListener('dragover', event => {
+    event.preventDefault();
+    quadrant.classList.add('drop-target');
+  });
+
+  quadrant.addEventListener('dragleave', () => {
+    quadrant.classList.remove('drop-target');
+  });
+
+  quadrant.addEventListener('drop', event => {
+    event.preventDefault();
+    quadrant.classList.remove('drop-target');
+    if (!draggedTaskId) return;
+
+    vscode.postMessage({
+      command: 'moveTask',
+      data: { id: draggedTaskId, priority: quadrant.dataset.priority }
+    });
+    draggedTaskId = null;
+  });
+}
+
+function renderTasks(data) {
+  document.querySelectorAll('.task-list').forEach(list => {
+    list.innerHTML = '';
+  });
+
+  if (!data.available) {
+    document.getElementById('matrix').classList.add('unavailable');
+  }
+
+  data.tasks.forEach(task => {
+    const list = document.querySelector(`.task-list[data-priority="${task.priority}"]`);
+    if (list) {
+      list.appendChild(createTaskCard(task, task.id === data.recommendedId, task.id === data.focusId));
+    }
+  });
+
+  document.querySelectorAll('.task-list').forEach(list => {
+    if (!list.children.length) {
+      const empty = document.createElement('div');
+      empty.className = 'empty';
+      empty.textContent = 'Drop tasks here';
+      list.appendChild(empty);
+    }
+  });
+}
+
+function createTaskCard(task, recommended, focused) {
+  const card = document.createElement('div');
+  card.className = 'task-card';
+  if (recommended) card.classList.add('recommended');
+  if (focused) card.classList.add('focused');
+  if (task.overdue) card.classList.add('overdue');
+  card.draggable = true;
+
+  const title = document.createElement('div');
+  title.className = 'task-title';
+  title.textContent = task.name;
+  if (focused) title.textContent = `🎯 ${task.name}`;
+  else if (recommended) title.textContent = `⭐ ${task.name}`;
+
+  const detail = document.createElement('div');
+  detail.className = 'task-detail';
+  detail.textContent = task.detail;
+
+  const actions = document.createElement('div');
+  actions.className = 'task-actions';
+  actions.appendChild(createActionButton('▶', 'Focus on this task', 'focusTask', task.id));
+  actions.appendChild(createActionButton('✓', 'Mark as done', 'completeTask', task.id));
+  actions.appendChild(createActionButton('🗑️', 'Delete', 'deleteTask', task.id));
+  if (task.hasSource) {
+    actions.appendChild(createActionButton('📄', 'Open the comment or checklist item', 'openTaskSource', task.id));
+  }
+
+  card.appendChild(title);
+  card.appendChild(detail);
+  card.appendChild(actions);
+
+  card.addEventListener('dragstart', event => {
+    draggedTaskId = task.id;
+    event.dataTransfer.effectAllowed = 'move';
+    card.classList.add('dragging');
+  });
+  card.addEventListener('dragend', () => {
+    card.classList.remove('dragging');
+  });
+
+  return card;
+}
+
+function createActionButton(label, title, command, taskId) {
+  const button = document.createElement('button');
+  button.textContent = label;
+  button.title = title;
+  button.addEventListener('click', () => {
+    if (command === 'deleteTask' && !confirm('Delete this task?')) return;
+    vscode.postMessage({ command, data: { id: taskId } });
+  });
+  return button;
+}
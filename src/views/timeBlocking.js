@@ -207,9 +207,15 @@ function deleteBlock(blockId) {
   }
 }
 
-function createDefaultSchedule() {
+function chooseTemplate() {
   vscode.postMessage({
-    command: 'createDefaultSchedule'
+    command: 'chooseTemplate'
+  });
+}
+
+function saveAsTemplate() {
+  vscode.postMessage({
+    command: 'saveAsTemplate'
   });
 }
 
@@ -219,6 +225,12 @@ function applyToScheduler() {
   });
 }
 
+function exportCalendar() {
+  vscode.postMessage({
+    command: 'exportCalendar'
+  });
+}
+
 function clearAllBlocks() {
   if (confirm('Clear all blocks for current day? This cannot be undone.')) {
     vscode.postMessage({
@@ -465,9 +477,11 @@ function getPriorityColor(priority) {
 window.addNewBlock = addNewBlock;
 window.editBlock = editBlock;
 window.deleteBlock = deleteBlock;
-window.createDefaultSchedule = createDefaultSchedule;
+window.chooseTemplate = chooseTemplate;
+window.saveAsTemplate = saveAsTemplate;
 window.applyToScheduler = applyToScheduler;
 window.clearAllBlocks = clearAllBlocks;
+window.exportCalendar = exportCalendar;
 window.cancelEdit = cancelEdit;
 window.saveBlock = saveBlock;
 window.changeDay = changeDay;
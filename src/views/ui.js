@@ -184,6 +184,54 @@
         }
     }
 
+    function updateUltradianRhythm(data) {
+        const section = document.getElementById('ultradianSection');
+        const curve = document.getElementById('ultradianCurve');
+        const info = document.getElementById('ultradianInfo');
+        if (!section || !curve || !info) return;
+
+        section.classList.toggle('hidden', !data.visible);
+        if (!data.visible) return;
+
+        // viewBox is 240 x 60; high energy at the top
+        const span = data.to - data.from;
+        const x = time => ((time - data.from) / span) * 240;
+        const y = level => 54 - level * 48;
+        const svgNs = 'http://www.w3.org/2000/svg';
+
+        curve.innerHTML = '';
+
+        data.troughs.forEach(trough => {
+            const band = document.createElementNS(svgNs, 'line');
+            band.setAttribute('class', 'ultradian-trough');
+            band.setAttribute('x1', x(trough));
+            band.setAttribute('x2', x(trough));
+            band.setAttribute('y1', 0);
+            band.setAttribute('y2', 60);
+            curve.appendChild(band);
+        });
+
+        const line = document.createElementNS(svgNs, 'polyline');
+        line.setAttribute('class', 'ultradian-line');
+        line.setAttribute('points', data.points.map(point => `${x(point.time).toFixed(1)},${y(point.level).toFixed(1)}`).join(' '));
+        curve.appendChild(line);
+
+        const nowMarker = document.createElementNS(svgNs, 'line');
+        nowMarker.setAttribute('class', 'ultradian-now');
+        nowMarker.setAttribute('x1', x(data.now));
+        nowMarker.setAttribute('x2', x(data.now));
+        nowMarker.setAttribute('y1', 0);
+        nowMarker.setAttribute('y2', 60);
+        curve.appendChild(nowMarker);
+
+        const cycle = data.learned ?
+            `Your cycle: ${data.cycleMinutes} min (${Math.round(data.confidence * 100)}% confidence, ${data.daysAnalyzed} days)` :
+            `Default ${data.cycleMinutes} min cycle - learning from your activity (${data.daysAnalyzed} days so far)`;
+        const nextBreak = data.nextBreak ?
+            ` · Next break ${new Date(data.nextBreak).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : '';
+        info.textContent = cycle + nextBreak;
+    }
+
     // ===== WELLNESS FEATURES =====
     function updateWellnessGoals(goals) {
         const goalsSection = document.getElementById('goalsSection');
@@ -575,6 +623,7 @@
     window.updateStatus = updateStatus;
     window.updateScreenTime = updateScreenTime;
     window.updateActivityStatus = updateActivityStatus;
+    window.updateUltradianRhythm = updateUltradianRhythm;
     window.updateWellnessGoals = updateWellnessGoals;
     window.updateWellnessChallenges = updateWellnessChallenges;
     window.updateAchievements = updateAchievements;
@@ -0,0 +1,146 @@
+/**
+ * Weekly Planner Interface
+ * Seven day columns of blocks, tasks and predicted energy
+ */
+
+const vscode = acquireVsCodeApi();
+
+// Working hours shown in each column
+const FIRST_HOUR = 6;
+const LAST_HOUR = 22;
+
+document.addEventListener('DOMContentLoaded', function() {
+  document.querySelectorAll('button[data-action]').forEach(button => {
+    button.addEventListener('click', () => {
+      vscode.postMessage({ command: button.getAttribute('data-action') });
+    });
+  });
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.command === 'planUpdated') {
+      renderPlan(message.data);
+    }
+  });
+
+  vscode.postMessage({ command: 'getPlan' });
+});
+
+function renderPlan(plan) {
+  renderSummary(plan);
+
+  const week = document.getElementById('week');
+  week.innerHTML = '';
+  plan.days.forEach(day => week.appendChild(createDayColumn(day, plan.peakHours)));
+}
+
+function renderSummary(plan) {
+  const summary = document.getElementById('summary');
+  summary.innerHTML = '';
+
+  const cadence = plan.cadence;
+  let cadenceText = `⏱️ ${cadence.name}: ${cadence.workDuration} min work / ${cadence.restDuration} min rest`;
+  if (cadence.cycles && cadence.longRestDuration) {
+    cadenceText += `, ${cadence.longRestDuration} min rest every ${cadence.cycles} cycles`;
+  }
+  summary.appendChild(createSummaryItem(cadenceText));
+
+  summary.appendChild(createSummaryItem(plan.peakHours.length
+    ? `⚡ Peak hours: ${plan.peakHours.map(formatHour).join(', ')}${plan.energyLearned ? '' : ' (still learning)'}`
+    : '⚡ No peak hours yet - check in your energy to learn them'));
+
+  const conflicts = createSummaryItem(plan.conflictCount
+    ? `⚠️ ${plan.conflictCount} overlapping block(s)`
+    : '✅ No overlapping blocks');
+  if (plan.conflictCount) conflicts.classList.add('has-conflicts');
+  summary.appendChild(conflicts);
+}
+
+function createSummaryItem(text) {
+  const item = document.createElement('span');
+  item.className = 'summary-item';
+  item.textContent = text;
+  return item;
+}
+
+function createDayColumn(day, peakHours) {
+  const column = document.createElement('section');
+  column.className = 'day';
+
+  const header = document.createElement('header');
+  const title = document.createElement('h2');
+  title.textContent = day.label;
+  const detail = document.createElement('span');
+  detail.className = 'day-detail';
+  const energy = day.energyMultiplier === null ? 'energy unknown' : `energy ×${day.energyMultiplier}`;
+  detail.textContent = `${energy} · ${formatMinutes(day.focusMinutes)} focus · ${day.workPeriods} work period(s)`;
+  header.appendChild(title);
+  header.appendChild(detail);
+  column.appendChild(header);
+
+  const grid = document.createElement('div');
+  grid.className = 'day-grid';
+  for (let hour = FIRST_HOUR; hour < LAST_HOUR; hour++) {
+    const slot = document.createElement('div');
+    slot.className = 'hour-slot';
+    if (peakHours.includes(hour)) slot.classList.add('peak');
+    const predicted = day.hourlyEnergy[hour];
+    if (predicted !== undefined) {
+      slot.style.setProperty('--energy', String(predicted / 10));
+      slot.title = `${formatHour(hour)} - predicted energy ${predicted}/10`;
+    }
+    grid.appendChild(slot);
+  }
+
+  day.blocks.forEach(block => {
+    grid.appendChild(createEntry(block.name, block.startTime, block.duration, `block block-${block.type}`, day.conflicts.includes(block.id)));
+  });
+  day.tasks.filter(task => task.startTime !== null).forEach(task => {
+    grid.appendChild(createEntry(`📝 ${task.name}`, task.startTime, task.duration, `task task-${task.priority}`, false));
+  });
+  column.appendChild(grid);
+
+  const due = day.tasks.filter(task => task.startTime === null);
+  if (due.length) {
+    const list = document.createElement('ul');
+    list.className = 'due-tasks';
+    due.forEach(task => {
+      const item = document.createElement('li');
+      item.textContent = `⏰ Due: ${task.name}`;
+      list.appendChild(item);
+    });
+    column.appendChild(list);
+  }
+
+  return column;
+}
+
+function createEntry(name, startTime, duration, className, conflict) {
+  const start = Math.max(startTime, FIRST_HOUR * 60);
+  const end = Math.min(startTime + duration, LAST_HOUR * 60);
+  const span = (LAST_HOUR - FIRST_HOUR) * 60;
+
+  const entry = document.createElement('div');
+  entry.className = className;
+  if (conflict) entry.classList.add('conflict');
+  entry.style.top = `${((start - FIRST_HOUR * 60) / span) * 100}%`;
+  entry.style.height = `${(Math.max(end - start, 15) / span) * 100}%`;
+  entry.textContent = conflict ? `⚠️ ${name}` : name;
+  entry.title = `${formatTime(startTime)} - ${formatTime(startTime + duration)} ${name}${conflict ? ' (overlaps another block)' : ''}`;
+  if (end <= start) entry.classList.add('outside-hours');
+  return entry;
+}
+
+function formatHour(hour) {
+  return formatTime(hour * 60);
+}
+
+function formatTime(minutes) {
+  const hours = Math.floor(minutes / 60) % 24;
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+function formatMinutes(minutes) {
+  return minutes >= 60 ? `${Math.round(minutes / 6) / 10}h` : `${minutes}m`;
+}
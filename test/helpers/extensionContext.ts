@@ -0,0 +1,100 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+
+/**
+ * globalState stand-in. Values are stored as JSON, like VS Code does,
+ * so Dates come back as strings exactly as they would after a restart.
+ */
+export class MockMemento implements vscode.Memento {
+  private readonly data = new Map<string, string>();
+  syncedKeys: readonly string[] = [];
+
+  keys(): readonly string[] {
+    return Array.from(this.data.keys());
+  }
+
+  get<T>(key: string): T | undefined;
+  get<T>(key: string, defaultValue: T): T;
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    const raw = this.data.get(key);
+    return raw === undefined ? defaultValue : JSON.parse(raw) as T;
+  }
+
+  update(key: string, value: unknown): Thenable<void> {
+    if (value === undefined) {
+      this.data.delete(key);
+    } else {
+      this.data.set(key, JSON.stringify(value));
+    }
+    return Promise.resolve();
+  }
+
+  setKeysForSync(keys: readonly string[]): void {
+    this.syncedKeys = keys;
+  }
+}
+
+export class MockSecretStorage implements vscode.SecretStorage {
+  private readonly secrets = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  get(key: string): Thenable<string | undefined> {
+    return Promise.resolve(this.secrets.get(key));
+  }
+
+  keys(): Thenable<string[]> {
+    return Promise.resolve(Array.from(this.secrets.keys()));
+  }
+
+  store(key: string, value: string): Thenable<void> {
+    this.secrets.set(key, value);
+    this.changeEmitter.fire({ key });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Thenable<void> {
+    this.secrets.delete(key);
+    this.changeEmitter.fire({ key });
+    return Promise.resolve();
+  }
+}
+
+export interface MockExtensionContext {
+  context: vscode.ExtensionContext;
+  globalState: MockMemento;
+  secrets: MockSecretStorage;
+  storageDir: string;
+  dispose(): void;
+}
+
+export function createMockExtensionContext(): MockExtensionContext {
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dotsense-test-'));
+  const globalState = new MockMemento();
+  const secrets = new MockSecretStorage();
+  const subscriptions: Array<{ dispose(): unknown }> = [];
+
+  const context = {
+    subscriptions,
+    globalState,
+    workspaceState: new MockMemento(),
+    secrets,
+    extensionUri: vscode.Uri.file(path.resolve(__dirname, '..', '..', '..')),
+    extensionPath: path.resolve(__dirname, '..', '..', '..'),
+    globalStorageUri: vscode.Uri.file(storageDir),
+    globalStoragePath: storageDir
+  } as unknown as vscode.ExtensionContext;
+
+  return {
+    context,
+    globalState,
+    secrets,
+    storageDir,
+    dispose: () => {
+      subscriptions.forEach(subscription => subscription.dispose());
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    }
+  };
+}
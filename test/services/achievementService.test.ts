@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { initializeAchievements, checkAchievements, getUnlockedAchievements } from '../../src/services/achievementService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+suite('achievementService.checkAchievements', () => {
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    state.achievements = [];
+    state.wellnessGoals = [];
+    state.wellnessChallenges = [];
+    state.breakStats = { breaksTaken: 0, timeSaved: 0, streakDays: 0, lastBreakDate: null };
+    state.screenTimeStats = { ...state.screenTimeStats, totalScreenTimeToday: 600, codingSessionStart: null };
+    initializeAchievements();
+  });
+
+  teardown(() => {
+    mock.dispose();
+  });
+
+  const unlockedIds = (): string[] => getUnlockedAchievements().map(a => a.id);
+
+  test('unlocks nothing for a fresh user', () => {
+    checkAchievements();
+
+    assert.deepStrictEqual(unlockedIds(), []);
+  });
+
+  test('unlocks the first break achievement after one break', () => {
+    state.breakStats.breaksTaken = 1;
+
+    checkAchievements();
+
+    assert.ok(unlockedIds().includes('first-break'));
+    assert.ok(!unlockedIds().includes('breaks-50'));
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('Achievement Unlocked')));
+  });
+
+  test('an emergency unblock restarts the Unbreakable streak', () => {
+    state.breakStats.streakDays = 10;
+    const threeDaysAgo = new Date();
+    threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
+    state.storage!.saveCustomSetting('restEnforcement.emergencyUnblocks', [{
+      timestamp: threeDaysAgo.toISOString(),
+      category: 'production-incident',
+      reason: 'Pager alert',
+      annoyanceLevel: 'moderate',
+      restStartedAt: threeDaysAgo.toISOString(),
+      cooldownMinutes: 0
+    }]);
+
+    checkAchievements();
+
+    assert.ok(unlockedIds().includes('break-streak-7'));
+    assert.ok(!unlockedIds().includes('no-missed-breaks'));
+    assert.strictEqual(state.achievements.find(a => a.id === 'no-missed-breaks')?.progress, 3);
+  });
+
+  test('unlocks streak achievements from streak days', () => {
+    state.breakStats.streakDays = 7;
+
+    checkAchievements();
+
+    assert.ok(unlockedIds().includes('break-streak-3'));
+    assert.ok(unlockedIds().includes('break-streak-7'));
+    assert.ok(!unlockedIds().includes('break-streak-30'));
+  });
+
+  test('records progress toward locked achievements', () => {
+    state.breakStats.breaksTaken = 20;
+
+    checkAchievements();
+
+    const fifty = state.achievements.find(a => a.id === 'breaks-50');
+    assert.strictEqual(fifty?.progress, 20);
+    assert.strictEqual(fifty?.unlockedAt, undefined);
+  });
+
+  test('keeps the original unlock date on later checks', () => {
+    state.breakStats.breaksTaken = 1;
+    checkAchievements();
+    const firstUnlock = state.achievements.find(a => a.id === 'first-break')?.unlockedAt;
+
+    const messageCount = vscodeStub.__getMessages().length;
+    checkAchievements();
+
+    assert.strictEqual(state.achievements.find(a => a.id === 'first-break')?.unlockedAt, firstUnlock);
+    assert.strictEqual(vscodeStub.__getMessages().length, messageCount);
+  });
+
+  test('does nothing when achievements are disabled', () => {
+    vscodeStub.__setConfiguration({ 'dotsense.enableAchievements': false });
+    state.breakStats.breaksTaken = 100;
+
+    checkAchievements();
+
+    assert.deepStrictEqual(unlockedIds(), []);
+  });
+
+  test('persists unlocks to storage', () => {
+    state.breakStats.breaksTaken = 1;
+
+    checkAchievements();
+
+    const saved = state.storage?.loadAchievements().find(a => a.id === 'first-break');
+    assert.ok(saved?.unlockedAt);
+  });
+});
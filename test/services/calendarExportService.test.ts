@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { WorkRestModel } from '../../src/types';
+import { buildScheduleExport } from '../../src/services/calendarExportService';
+import { startWorkRestSession, stopWorkRestSession } from '../../src/services/workRestService';
+import { setMeetings } from '../../src/services/calendarService';
+import { expandIcsEvents } from '../../src/utils/icsParser';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const testModel: WorkRestModel = {
+  id: 'test-model',
+  name: 'Test Model',
+  description: 'Short cycles for tests',
+  workDuration: 50,
+  restDuration: 10,
+  basedOn: 'pomodoro'
+};
+
+suite('calendarExportService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  // Monday
+  const now = new Date('2026-03-02T08:00:00');
+  const weekEnd = new Date('2026-03-09T00:00:00');
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now, toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    state.storage.saveCustomSetting('timeBlocking.blocks', {
+      1: [
+        { id: 'focus', name: 'Deep Work', startTime: 9 * 60, duration: 90, type: 'deep-work', priority: 5, recurring: true, daysOfWeek: [1, 3, 5] },
+        { id: 'admin', name: 'Email', startTime: 16 * 60, duration: 30, type: 'admin', priority: 2, recurring: true, daysOfWeek: [1] }
+      ],
+      3: [
+        { id: 'focus', name: 'Deep Work', startTime: 9 * 60, duration: 90, type: 'deep-work', priority: 5, recurring: true, daysOfWeek: [1, 3, 5] },
+        { id: 'spike', name: 'Spike', startTime: 14 * 60, duration: 60, type: 'deep-work', priority: 3, recurring: false }
+      ]
+    });
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    setMeetings([]);
+    clock.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('exports recurring deep-work blocks once with a weekly RRULE', () => {
+    const { ics, focusBlocks } = buildScheduleExport('week');
+
+    assert.strictEqual(focusBlocks, 2);
+    assert.strictEqual(ics.match(/RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR/g)?.length, 1);
+    assert.ok(!ics.includes('Email'));
+
+    const starts = expandIcsEvents(ics, now, weekEnd).map(event => [event.summary, event.start.getTime()]);
+    assert.deepStrictEqual(starts, [
+      ['🎯 Focus: Deep Work', new Date('2026-03-02T09:00:00').getTime()],
+      ['🎯 Focus: Deep Work', new Date('2026-03-04T09:00:00').getTime()],
+      ['🎯 Focus: Spike', new Date('2026-03-04T14:00:00').getTime()],
+      ['🎯 Focus: Deep Work', new Date('2026-03-06T09:00:00').getTime()]
+    ]);
+  });
+
+  test('limits a today export to blocks happening today', () => {
+    const { ics } = buildScheduleExport('today');
+
+    assert.ok(ics.includes('Focus: Deep Work'));
+    assert.ok(!ics.includes('Spike'));
+  });
+
+  test('includes the active session break windows, moved out of meetings', () => {
+    // Keep the 09:00 deep-work block from stretching the work periods
+    vscodeStub.__setConfiguration({ 'dotsense.timeBlocks.driveTimer': false });
+    setMeetings([
+      { id: 'ics_m', title: 'Standup', start: new Date('2026-03-02T09:45:00'), end: new Date('2026-03-02T10:15:00') }
+    ]);
+    startWorkRestSession(testModel);
+
+    const { ics, breaks } = buildScheduleExport('today');
+    const breakStarts = expandIcsEvents(ics, now, weekEnd)
+      .filter(event => event.summary === '☕ Break')
+      .map(event => event.start.getTime());
+
+    assert.strictEqual(breaks, breakStarts.length);
+    // First break would start at 08:50 - clear of the 09:45 standup - the next lands in it and waits
+    assert.strictEqual(breakStarts[0], new Date('2026-03-02T08:50:00').getTime());
+    assert.strictEqual(breakStarts[1], new Date('2026-03-02T10:15:00').getTime());
+    assert.ok(ics.includes('TRANSP:TRANSPARENT'));
+  });
+});
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { AdvancedWorkRestModel, WorkRestModel } from '../../src/types';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import { advancedScheduler, initializeAdvancedScheduler } from '../../src/services/activityIntegration/advancedSchedulerService';
+import { getCurrentSession, startWorkRestSession, stopWorkRestSession, takeManualBreak } from '../../src/services/workRestService';
+import { checkDeadlineSafety, stopDeadlineChecks } from '../../src/services/deadlineService';
+import * as windowCoordinator from '../../src/services/windowCoordinator';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const MINUTE = 60 * 1000;
+
+const testModel: WorkRestModel = {
+  id: 'test-model',
+  name: 'Test Model',
+  description: 'Long breaks so compression is visible',
+  workDuration: 50,
+  restDuration: 20,
+  basedOn: 'custom'
+};
+
+function burnoutMonitor(riskLevel: 'low' | 'medium' | 'high'): BaseActivityMonitor {
+  return {
+    getBurnoutAnalysis: () => ({ riskLevel, warningSigns: [], recommendedInterventions: [], nextBreakSuggestion: { timeToNextBreak: 0, reason: '' } })
+  } as unknown as BaseActivityMonitor;
+}
+
+suite('deadlineService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+  let branch: string;
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T09:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+
+    branch = 'feature/login';
+    const git = { getAPI: () => ({ repositories: [{ rootUri: vscodeStub.Uri.file('/repo'), state: { HEAD: { name: branch } } }] }) };
+    sinon.stub(vscodeStub.extensions, 'getExtension').returns({ isActive: true, exports: git } as never);
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    stopDeadlineChecks();
+    sinon.restore();
+    clock.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('shortens breaks while the branch with a close deadline is checked out', () => {
+    initializeAdvancedScheduler(burnoutMonitor('low'));
+    advancedScheduler!.setContextDeadline({ scope: 'branch', target: 'feature/login', label: 'branch feature/login', deadline: new Date('2026-03-02T15:00:00') });
+
+    // 6 of 24 hours left: pressure 0.75, weight 0.5 -> breaks at 81%
+    startWorkRestSession(testModel);
+    takeManualBreak();
+    assert.strictEqual(getCurrentSession()!.endTime.getTime() - Date.now(), 16 * MINUTE);
+
+    stopWorkRestSession();
+    branch = 'main';
+    assert.strictEqual(advancedScheduler!.getTimePressure(), null);
+    startWorkRestSession(testModel);
+    takeManualBreak();
+    assert.strictEqual(getCurrentSession()!.endTime.getTime() - Date.now(), 20 * MINUTE);
+  });
+
+  test('matches branch deadlines on the repository as well as the branch name', () => {
+    initializeAdvancedScheduler(burnoutMonitor('low'));
+    advancedScheduler!.setContextDeadline({ scope: 'branch', target: 'feature/login', repository: '/other-repo', label: 'branch feature/login in other-repo', deadline: new Date('2026-03-02T15:00:00') });
+
+    assert.deepStrictEqual(advancedScheduler!.getActiveDeadlines(), []);
+
+    advancedScheduler!.setContextDeadline({ scope: 'branch', target: 'feature/login', repository: vscodeStub.Uri.file('/repo').fsPath, label: 'branch feature/login in repo', deadline: new Date('2026-03-02T16:00:00') });
+
+    assert.deepStrictEqual(advancedScheduler!.getActiveDeadlines().map(d => d.label), ['branch feature/login in repo']);
+    assert.strictEqual(advancedScheduler!.getContextDeadlines().length, 2);
+  });
+
+  test('counts branches checked out in other windows', () => {
+    initializeAdvancedScheduler(burnoutMonitor('low'));
+    advancedScheduler!.setContextDeadline({ scope: 'branch', target: 'release', repository: '/api', label: 'branch release', deadline: new Date('2026-03-02T15:00:00') });
+    assert.deepStrictEqual(advancedScheduler!.getActiveDeadlines(), []);
+
+    sinon.stub(windowCoordinator, 'getOtherWindows').returns([
+      { windowId: 'other', branches: [{ name: 'release', repository: '/api' }], folders: [], restBlockers: [], dataRevisions: {}, updatedAt: Date.now() }
+    ]);
+
+    assert.deepStrictEqual(advancedScheduler!.getActiveDeadlines().map(d => d.label), ['branch release']);
+  });
+
+  test('keeps deadlines another window saved in the meantime', () => {
+    initializeAdvancedScheduler(burnoutMonitor('low'));
+    advancedScheduler!.setContextDeadline({ scope: 'folder', target: '/web', label: 'folder web', deadline: new Date('2026-03-03T12:00:00') });
+
+    // Another window adds its own deadline to the stored list
+    const stored = state.storage!.loadCustomSetting<unknown[]>('advancedScheduler.deadlines', []) || [];
+    state.storage!.saveCustomSetting('advancedScheduler.deadlines', [
+      ...stored,
+      { id: 'deadline_other', scope: 'folder', target: '/api', label: 'folder api', deadline: new Date('2026-03-04T12:00:00') }
+    ]);
+
+    advancedScheduler!.setContextDeadline({ scope: 'folder', target: '/docs', label: 'folder docs', deadline: new Date('2026-03-05T12:00:00') });
+
+    assert.deepStrictEqual(advancedScheduler!.getContextDeadlines().map(d => d.label), ['folder web', 'folder api', 'folder docs']);
+  });
+
+  test('keeps full breaks and warns once when burnout risk is high', () => {
+    initializeAdvancedScheduler(burnoutMonitor('high'));
+    advancedScheduler!.addTask({
+      name: 'Release notes',
+      priority: 'urgent-important',
+      estimatedDuration: 45,
+      energyRequired: 'medium',
+      complexity: 'moderate',
+      deadline: new Date('2026-03-02T12:00:00')
+    });
+
+    const pressure = checkDeadlineSafety();
+    checkDeadlineSafety();
+
+    assert.ok(pressure?.unsafe);
+    assert.strictEqual(pressure.restFactor, 1);
+    const warnings = vscodeStub.__getMessages().filter(m => m.level === 'warning');
+    assert.strictEqual(warnings.length, 1);
+    assert.ok(warnings[0].message.includes('Release notes'));
+
+    const model: AdvancedWorkRestModel = {
+      ...testModel,
+      type: 'deadline-driven',
+      advancedConfig: { deadlineConfig: { enabled: true, priorityWeight: 1, timePressureThreshold: 8 } }
+    };
+    advancedScheduler!.setSchedulingModel(model);
+    assert.strictEqual(advancedScheduler!.getNextRecommendedAction().type, 'break');
+  });
+
+  test('recommends the task with the nearest deadline under pressure', () => {
+    initializeAdvancedScheduler(burnoutMonitor('low'));
+    const taskId = advancedScheduler!.addTask({
+      name: 'Fix checkout',
+      priority: 'urgent-important',
+      estimatedDuration: 40,
+      energyRequired: 'high',
+      complexity: 'complex',
+      deadline: new Date('2026-03-02T13:00:00')
+    });
+    advancedScheduler!.setSchedulingModel({
+      ...testModel,
+      type: 'deadline-driven',
+      advancedConfig: { deadlineConfig: { enabled: true, priorityWeight: 1, timePressureThreshold: 8 } }
+    });
+
+    const action = advancedScheduler!.getNextRecommendedAction();
+    assert.strictEqual(action.type, 'work');
+    assert.strictEqual(action.taskId, taskId);
+    assert.strictEqual(action.duration, 40);
+    assert.strictEqual(advancedScheduler!.getTimePressure()?.restFactor, 0.75);
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { WorkRestModel } from '../../src/types';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import { AdvancedSchedulerService, advancedScheduler, initializeAdvancedScheduler } from '../../src/services/activityIntegration/advancedSchedulerService';
+import { startWorkRestSession, stopWorkRestSession, switchToWorkRestModel } from '../../src/services/workRestService';
+import { initializeEnergyCheckIns, recordEnergyCheckIn, stopEnergyCheckIns } from '../../src/services/energyCheckInService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const HOUR = 60 * 60 * 1000;
+
+const testModel: WorkRestModel = {
+  id: 'test-model',
+  name: 'Test Model',
+  description: 'Short cycles for tests',
+  workDuration: 25,
+  restDuration: 5,
+  basedOn: 'pomodoro'
+};
+
+suite('energyCheckInService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T08:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    initializeAdvancedScheduler({} as BaseActivityMonitor);
+    initializeEnergyCheckIns(mock.context);
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    stopEnergyCheckIns();
+    sinon.restore();
+    clock.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('asks once for energy when a session starts, even across a model switch', async () => {
+    const picker = sinon.stub(vscodeStub.window, 'showQuickPick').callsFake(((items: Array<{ level: number }>) =>
+      Promise.resolve(items.find(item => item.level === 7))) as never);
+
+    startWorkRestSession(testModel);
+    switchToWorkRestModel({ ...testModel, id: 'other-model' });
+    await clock.tickAsync(0);
+
+    assert.strictEqual(picker.callCount, 1);
+    const reading = advancedScheduler!.getLatestEnergyReading('self-report');
+    assert.strictEqual(reading?.energyLevel, 7);
+    assert.strictEqual(reading?.activityType, 'check-in:session-start');
+  });
+
+  test('learns peak and low-energy hours from check-ins blended with inferred energy', async () => {
+    for (let day = 0; day < 3; day++) {
+      await clock.tickAsync(2 * HOUR); // 10:00
+      recordEnergyCheckIn(9, 'manual');
+      await clock.tickAsync(5 * HOUR); // 15:00
+      recordEnergyCheckIn(3, 'manual');
+      advancedScheduler!.recordEnergyReading({ hour: 15, energyLevel: 6, activityType: 'inferred:typing-intensity', completionRate: 0.5, source: 'inferred' });
+      await clock.tickAsync(2 * HOUR); // 17:00
+      recordEnergyCheckIn(6, 'manual');
+      await clock.tickAsync(15 * HOUR); // 08:00 next day
+    }
+
+    const profile = advancedScheduler!.getEnergyProfile();
+    assert.ok(profile.learned);
+    assert.deepStrictEqual(profile.peakHours, [10]);
+    assert.deepStrictEqual(profile.lowEnergyHours, [15]);
+    // Three self-reports of 3 outweigh three inferred readings of 6
+    assert.strictEqual(profile.hourlyEnergy[15], 3.8);
+    assert.strictEqual(profile.userType, 'morning-person');
+
+    // At 15:00 with no recent check-in the learned low hour calls for a break
+    await clock.tickAsync(7 * HOUR);
+    advancedScheduler!.setSchedulingModel({ ...testModel, type: 'energy-based' });
+    const action = advancedScheduler!.getNextRecommendedAction();
+    assert.strictEqual(action.type, 'break');
+  });
+
+  test('keeps check-ins another window saved in the meantime', () => {
+    recordEnergyCheckIn(8, 'manual');
+
+    // Another window, whose copy of the readings is stale, records a check-in
+    const otherWindow = new AdvancedSchedulerService({} as BaseActivityMonitor);
+    recordEnergyCheckIn(4, 'manual');
+    otherWindow.recordEnergyReading({ hour: 8, energyLevel: 5, activityType: 'inferred:typing-intensity', completionRate: 0.5, source: 'inferred' });
+
+    const stored = state.storage!.loadCustomSetting<Array<{ energyLevel: number }>>('advancedScheduler.energyReadings', []) || [];
+    assert.deepStrictEqual(stored.map(reading => reading.energyLevel), [8, 4, 5]);
+  });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import {
+  initializeGoals,
+  incrementBreakProgress,
+  incrementExerciseProgress,
+  incrementEyeBreakProgress,
+  updateGoalsProgress,
+  getCompletedGoalsToday
+} from '../../src/services/goalService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+suite('goalService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T10:00:00'), toFake: ['Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    state.wellnessGoals = [];
+    initializeGoals();
+  });
+
+  teardown(() => {
+    // Roll past the goal deadline so the module's daily counters reset for the next test
+    clock.tick(2 * DAY);
+    updateGoalsProgress();
+    clock.restore();
+    mock.dispose();
+  });
+
+  const goal = (id: string) => state.wellnessGoals.find(g => g.id === id)!;
+
+  test('creates the default daily goals at zero', () => {
+    assert.deepStrictEqual(state.wellnessGoals.map(g => [g.id, g.current, g.target]), [
+      ['daily-breaks', 0, 6],
+      ['daily-exercises', 0, 3],
+      ['screen-breaks', 0, 4]
+    ]);
+  });
+
+  test('counts breaks and saves progress', () => {
+    incrementBreakProgress();
+    incrementBreakProgress();
+
+    assert.strictEqual(goal('daily-breaks').current, 2);
+    assert.strictEqual(goal('daily-breaks').completed, false);
+    assert.strictEqual(state.storage?.loadWellnessGoals().find(g => g.id === 'daily-breaks')?.current, 2);
+  });
+
+  test('completes a goal at its target and announces it once', () => {
+    for (let i = 0; i < 3; i++) {
+      incrementExerciseProgress();
+    }
+    incrementExerciseProgress(); // ignored once completed
+
+    assert.strictEqual(goal('daily-exercises').current, 3);
+    assert.strictEqual(goal('daily-exercises').completed, true);
+    assert.strictEqual(getCompletedGoalsToday(), 1);
+    assert.strictEqual(vscodeStub.__getMessages().filter(m => m.message.includes('Exercise Goal Completed')).length, 1);
+  });
+
+  test('tracks eye breaks separately from regular breaks', () => {
+    incrementEyeBreakProgress();
+
+    assert.strictEqual(goal('screen-breaks').current, 1);
+    assert.strictEqual(goal('daily-breaks').current, 0);
+  });
+
+  test('resets daily progress once the deadline has passed', () => {
+    incrementBreakProgress();
+    clock.tick(2 * DAY);
+
+    updateGoalsProgress();
+
+    assert.strictEqual(goal('daily-breaks').current, 0);
+    assert.strictEqual(goal('daily-breaks').completed, false);
+    assert.ok(new Date(goal('daily-breaks').deadline).getTime() > Date.now());
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { performanceAnalytics } from '../../src/services/performanceAnalyticsEngine';
+import { usageAnalytics } from '../../src/services/usageAnalyticsService';
+import { ContextSnapshot, UsageEvent, UsageEventType } from '../../src/types/mlWorkRestTypes';
+
+const HOUR = 60 * 60 * 1000;
+const WEEK = 7 * 24 * HOUR;
+
+const context: ContextSnapshot = {
+  timeOfDay: 10,
+  dayOfWeek: 1,
+  workType: 'coding',
+  screenActivity: 5,
+  notificationLoad: 'low',
+  energyLevel: 'medium',
+  lastBreakTime: undefined,
+  openEditors: 2,
+  statusMessages: []
+};
+
+// One finished pomodoro session per entry, the first entry in the oldest week
+function weeklySessions(completionRates: number[]): UsageEvent[] {
+  const events: UsageEvent[] = [];
+  completionRates.forEach((completionRate, index) => {
+    const weeksAgo = completionRates.length - 1 - index;
+    const start = Date.now() - weeksAgo * WEEK - 2 * HOUR;
+    const event = (type: UsageEventType, at: number, metadata: Record<string, unknown> = {}): UsageEvent => ({
+      id: `${type}_${index}`, type, timestamp: new Date(at), modelId: 'pomodoro', context, metadata
+    });
+    events.push(
+      event(UsageEventType.SESSION_STARTED, start),
+      event(UsageEventType.SESSION_ENDED, start + HOUR, { completionRate })
+    );
+  });
+  return events;
+}
+
+suite('performanceAnalyticsEngine', () => {
+  let clock: sinon.SinonFakeTimers;
+
+  setup(() => {
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T12:00:00'), toFake: ['Date'] });
+  });
+
+  teardown(() => {
+    sinon.restore();
+    clock.restore();
+  });
+
+  test('reports no benchmark until enough weeks are recorded', () => {
+    sinon.stub(usageAnalytics, 'getRecordedEvents').returns(weeklySessions([0.5, 0.9]));
+
+    const benchmark = performanceAnalytics.generateBenchmarkReport();
+
+    assert.strictEqual(benchmark.dataAvailability.sufficient, false);
+    assert.ok(benchmark.dataAvailability.note);
+    assert.strictEqual(benchmark.productivityPercentile, null);
+    assert.strictEqual(benchmark.completionRatePercentile, null);
+    assert.deepStrictEqual(benchmark.strengths, []);
+    assert.deepStrictEqual(benchmark.comparedToYourAverage, {});
+  });
+
+  test('ranks the latest week against earlier recorded weeks', () => {
+    sinon.stub(usageAnalytics, 'getRecordedEvents').returns(weeklySessions([0.4, 0.6, 0.5, 0.8, 0.9]));
+
+    const benchmark = performanceAnalytics.generateBenchmarkReport();
+
+    assert.strictEqual(benchmark.dataAvailability.sufficient, true);
+    assert.strictEqual(benchmark.completionRatePercentile, 100);
+    // No ratings were recorded
+    assert.strictEqual(benchmark.satisfactionPercentile, null);
+    // 0.9 against an average of 0.575
+    assert.strictEqual(benchmark.comparedToYourAverage.sessionCompletion, '+57% vs your weekly average');
+    assert.ok(benchmark.strengths.some(strength => strength.startsWith('Session completion')));
+    assert.deepStrictEqual(benchmark.focusAreas, []);
+  });
+});
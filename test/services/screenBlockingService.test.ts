@@ -0,0 +1,287 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import {
+  initializeScreenBlocking,
+  startRestEnforcement,
+  stopRestEnforcement,
+  getBlockingState,
+  isRestEnforced,
+  forceUnblock,
+  toggleIncidentMode,
+  useEmergencyExit
+} from '../../src/services/screenBlockingService';
+import { getEmergencyUnblocks } from '../../src/services/emergencyUnblockService';
+import { usageAnalytics } from '../../src/services/usageAnalyticsService';
+import { RestOverlayPanel } from '../../src/ui/restOverlayPanel';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+// Typing in the focused editor
+function codeEdit(document: Record<string, unknown> = {}): unknown {
+  const edited = { fileName: '/project/index.ts', languageId: 'typescript', ...document };
+  vscodeStub.window.activeTextEditor = { document: edited };
+  return {
+    document: edited,
+    contentChanges: [{ text: 'x' }],
+    reason: undefined
+  };
+}
+
+suite('screenBlockingService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  suiteSetup(() => {
+    initializeScreenBlocking(vscodeStub.Uri.file('/extension') as never);
+  });
+
+  setup(() => {
+    vscodeStub.__reset();
+    vscodeStub.__setConfiguration({ 'dotsense.annoyanceLevel': 'moderate' });
+    clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+  });
+
+  teardown(() => {
+    stopRestEnforcement();
+    clock.restore();
+    sinon.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('starts rest enforcement without blocking input yet', () => {
+    startRestEnforcement();
+
+    assert.strictEqual(isRestEnforced(), true);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('REST PERIOD ACTIVE')));
+  });
+
+  test('ignores typing outside rest periods', () => {
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+
+    assert.strictEqual(getBlockingState(), null);
+    assert.ok(!vscodeStub.__getMessages().some(m => m.message.includes('CODING DETECTED')));
+  });
+
+  test('blocks after the grace period when coding continues during rest', () => {
+    startRestEnforcement();
+
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    assert.ok(getBlockingState()?.warningTime);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+
+    clock.tick(10000);
+
+    assert.strictEqual(getBlockingState()?.isActive, true);
+    assert.ok(vscodeStub.__isCommandRegistered('type'));
+  });
+
+  test('stopping enforcement clears the block and command overrides', () => {
+    startRestEnforcement();
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+
+    stopRestEnforcement();
+
+    assert.strictEqual(getBlockingState(), null);
+    assert.strictEqual(isRestEnforced(), false);
+    assert.ok(!vscodeStub.__isCommandRegistered('type'));
+  });
+
+  test('stopping during the grace period cancels the pending block', () => {
+    startRestEnforcement();
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+
+    stopRestEnforcement();
+    clock.tick(10000);
+
+    assert.strictEqual(getBlockingState(), null);
+    assert.ok(!vscodeStub.__isCommandRegistered('type'));
+  });
+
+  test('force unblock lifts the block but keeps the rest period', () => {
+    startRestEnforcement();
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+
+    forceUnblock();
+
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.strictEqual(isRestEnforced(), true);
+    assert.ok(!vscodeStub.__isCommandRegistered('type'));
+  });
+
+  test('notes and untitled scratch buffers stay editable during rest', () => {
+    const skipped = sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    startRestEnforcement();
+
+    vscodeStub.__fireTextDocumentChange(codeEdit({ fileName: '/project/journal.md', languageId: 'markdown' }));
+    vscodeStub.__fireTextDocumentChange(codeEdit({ fileName: '/project/journal.md', languageId: 'markdown' }));
+    vscodeStub.__fireTextDocumentChange(codeEdit({ fileName: 'Untitled-1', isUntitled: true }));
+    clock.tick(10000);
+
+    assert.strictEqual(getBlockingState()?.warningTime, undefined);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.deepStrictEqual(skipped.getCalls().map(call => [call.args[1], call.args[2]?.exemption]), [
+      ['rest_exemption', 'language'],
+      ['rest_exemption', 'untitled']
+    ]);
+  });
+
+  test('glob and workspace folder exemptions apply to matching files only', () => {
+    sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    vscodeStub.__setConfiguration({
+      'dotsense.annoyanceLevel': 'moderate',
+      'dotsense.restExemptions.globs': ['**/runbooks/**'],
+      'dotsense.restExemptions.workspaceFolders': ['ops']
+    });
+    sinon.stub(vscodeStub.languages, 'match').callsFake((...args: unknown[]) =>
+      (args[1] as { fileName: string }).fileName.includes('/runbooks/') ? 10 : 0);
+    sinon.stub(vscodeStub.workspace, 'getWorkspaceFolder').callsFake((...args: unknown[]) =>
+      (args[0] as vscodeStub.Uri).fsPath.startsWith('/ops/') ? { name: 'ops', uri: vscodeStub.Uri.file('/ops') } : undefined);
+    startRestEnforcement();
+
+    vscodeStub.__fireTextDocumentChange(codeEdit({ fileName: '/project/runbooks/restart.sh', languageId: 'shellscript' }));
+    vscodeStub.__fireTextDocumentChange(codeEdit({ fileName: '/ops/deploy.ts', uri: vscodeStub.Uri.file('/ops/deploy.ts') }));
+    assert.strictEqual(getBlockingState()?.warningTime, undefined);
+
+    vscodeStub.__fireTextDocumentChange(codeEdit({ uri: vscodeStub.Uri.file('/project/index.ts') }));
+    assert.ok(getBlockingState()?.warningTime);
+  });
+
+  test('incident mode lifts an active block and lets code be edited', async () => {
+    sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    startRestEnforcement();
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+    assert.strictEqual(getBlockingState()?.isActive, true);
+
+    await toggleIncidentMode();
+
+    assert.strictEqual(vscodeStub.__getConfiguration()['dotsense.restExemptions.incidentMode'], true);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.ok(!vscodeStub.__isCommandRegistered('type'));
+
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+  });
+
+  test('blocking shows the rest overlay and never rewrites documents', () => {
+    sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    startRestEnforcement(new Date(Date.now() + 5 * 60 * 1000));
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+
+    assert.ok(RestOverlayPanel.currentPanel);
+
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    assert.ok(!vscodeStub.__getExecutedCommands().some(c => c.command === 'undo'));
+
+    stopRestEnforcement();
+    assert.strictEqual(RestOverlayPanel.currentPanel, undefined);
+  });
+
+  test('edits that get through a block bring the overlay back and skip the rest once', () => {
+    const skipped = sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    startRestEnforcement();
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+    RestOverlayPanel.close();
+
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+
+    assert.ok(RestOverlayPanel.currentPanel);
+    assert.strictEqual(getBlockingState()?.editsWhileBlocked, 2);
+    assert.strictEqual(skipped.callCount, 1);
+    assert.strictEqual(skipped.firstCall.args[1], 'ignored');
+  });
+
+  test('programmatic edits and undo do not count as coding during rest', () => {
+    startRestEnforcement();
+
+    const formatterEdit = codeEdit({ fileName: '/project/other.ts' }) as { document: unknown };
+    vscodeStub.window.activeTextEditor = { document: { fileName: '/project/index.ts' } };
+    vscodeStub.__fireTextDocumentChange(formatterEdit);
+    vscodeStub.__fireTextDocumentChange({ ...(codeEdit() as object), reason: 1 });
+
+    assert.strictEqual(getBlockingState()?.warningTime, undefined);
+  });
+
+  function stubEmergencyReason(note: string): { quickPick: sinon.SinonStub; inputBox: sinon.SinonStub } {
+    const quickPick = sinon.stub(vscodeStub.window, 'showQuickPick').callsFake(((items: Array<{ category: string }>) =>
+      Promise.resolve(items.find(item => item.category === 'production-incident'))) as never);
+    const inputBox = sinon.stub(vscodeStub.window, 'showInputBox').resolves(note as never);
+    return { quickPick, inputBox };
+  }
+
+  function blockTyping(): void {
+    startRestEnforcement();
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+  }
+
+  test('the emergency exit asks for a reason, is logged and works once per rest', async () => {
+    const skipped = sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    const { quickPick } = stubEmergencyReason('Checkout is down');
+    blockTyping();
+
+    assert.strictEqual(await useEmergencyExit(), true);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.strictEqual(RestOverlayPanel.currentPanel, undefined);
+    assert.deepStrictEqual(getEmergencyUnblocks().map(unblock => [unblock.category, unblock.reason, unblock.cooldownMinutes]),
+      [['production-incident', 'Checkout is down', 0]]);
+    assert.strictEqual(skipped.firstCall.args[1], 'user_override');
+
+    // Editing stays unlocked for the rest of this rest period, and is still counted
+    vscodeStub.__fireTextDocumentChange(codeEdit());
+    clock.tick(10000);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.strictEqual(getBlockingState()?.editsWhileBlocked, 1);
+    assert.strictEqual(RestOverlayPanel.currentPanel, undefined);
+    assert.strictEqual(skipped.callCount, 1);
+
+    assert.strictEqual(await useEmergencyExit(), false);
+    assert.strictEqual(quickPick.callCount, 1);
+  });
+
+  test('cancelling the reason keeps the block and logs nothing', async () => {
+    sinon.stub(vscodeStub.window, 'showQuickPick').resolves(undefined);
+    blockTyping();
+
+    assert.strictEqual(await useEmergencyExit(), false);
+    assert.strictEqual(getBlockingState()?.isActive, true);
+    assert.deepStrictEqual(getEmergencyUnblocks(), []);
+  });
+
+  test('unblocks beyond the daily allowance wait for the cooldown', async () => {
+    sinon.stub(usageAnalytics, 'trackBreakSkipped');
+    vscodeStub.__setConfiguration({
+      'dotsense.annoyanceLevel': 'moderate',
+      'dotsense.restEnforcement.emergencyUnblocksPerDay': 1,
+      'dotsense.restEnforcement.emergencyCooldownMinutes': 5
+    });
+    stubEmergencyReason('');
+
+    blockTyping();
+    await useEmergencyExit();
+    stopRestEnforcement();
+    assert.strictEqual(getEmergencyUnblocks()[0].cooldownMinutes, 0);
+
+    blockTyping();
+    assert.strictEqual(await useEmergencyExit(), true);
+    assert.strictEqual(getBlockingState()?.isActive, true);
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('unblock #2 today')));
+
+    clock.tick(5 * 60 * 1000);
+    assert.strictEqual(getBlockingState()?.isActive, false);
+    assert.deepStrictEqual(getEmergencyUnblocks().map(unblock => [unblock.reason, unblock.cooldownMinutes]),
+      [['🔥 Production incident', 0], ['🔥 Production incident', 5]]);
+  });
+});
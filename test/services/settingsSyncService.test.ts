@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import {
+  initializeSettingsSync,
+  reconcileSyncProfile,
+  mergeThreeWay,
+  SYNC_PROFILE_KEY,
+  SyncProfile
+} from '../../src/services/settingsSyncService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+suite('settingsSyncService', () => {
+  let mock: MockExtensionContext;
+
+  const profile = (): SyncProfile => mock.globalState.get<SyncProfile>(SYNC_PROFILE_KEY)!;
+
+  // Simulates Settings Sync delivering another machine's profile
+  const receiveRemote = (update: (stores: SyncProfile['stores']) => void): void => {
+    const remote = JSON.parse(JSON.stringify(profile())) as SyncProfile;
+    update(remote.stores);
+    mock.globalState.update(SYNC_PROFILE_KEY, { ...remote, machineId: 'other-machine' });
+  };
+
+  setup(async () => {
+    vscodeStub.__reset();
+    vscodeStub.__setConfiguration({ 'dotsense.reminderType': 'funny' });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    state.storage.saveCustomSetting('timeBlocking.blocks', { 1: [{ id: 'b1', startTime: 540 }] });
+    initializeSettingsSync(mock.context);
+    await reconcileSyncProfile();
+  });
+
+  teardown(() => {
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('registers only the profile key for sync', () => {
+    assert.deepStrictEqual(mock.globalState.syncedKeys, [SYNC_PROFILE_KEY]);
+  });
+
+  test('publishes preferences and time blocks but no machine-local data', () => {
+    state.storage?.saveActivityEvents([]);
+    state.storage?.saveWorkRestSession(null);
+
+    assert.deepStrictEqual(profile().stores.preferences, { reminderType: 'funny' });
+    assert.deepStrictEqual(profile().stores.timeBlocks, { 1: [{ id: 'b1', startTime: 540 }] });
+    assert.ok(!JSON.stringify(profile()).includes('activityEvents'));
+  });
+
+  test('applies changes made on another machine', async () => {
+    receiveRemote(stores => {
+      stores.preferences = { reminderType: 'mindful', interval: 45 };
+    });
+
+    const result = await reconcileSyncProfile();
+
+    assert.deepStrictEqual(result.applied, ['preferences']);
+    assert.strictEqual(vscode.workspace.getConfiguration('dotsense').get('reminderType'), 'mindful');
+    assert.strictEqual(vscode.workspace.getConfiguration('dotsense').get('interval'), 45);
+  });
+
+  test('keeps local edits when both machines changed the same item', async () => {
+    receiveRemote(stores => {
+      stores.preferences = { reminderType: 'mindful' };
+      stores.timeBlocks = { ...stores.timeBlocks, 3: [{ id: 'remote', startTime: 600 }] };
+    });
+    await vscode.workspace.getConfiguration('dotsense').update('reminderType', 'annoying');
+
+    const result = await reconcileSyncProfile();
+
+    assert.strictEqual(result.conflicts, 1);
+    assert.strictEqual(vscode.workspace.getConfiguration('dotsense').get('reminderType'), 'annoying');
+    // Non-conflicting remote additions still arrive
+    assert.ok(state.storage?.loadTimeBlocks()[3]);
+    assert.strictEqual(profile().stores.preferences?.reminderType, 'annoying');
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('changed on both machines')));
+  });
+
+  test('syncs activity integration settings', async () => {
+    receiveRemote(stores => {
+      stores.preferences = { ...stores.preferences, activityFlowThreshold: 5, activityWeightGitCommit: 8, activityFlowStateAlerts: false };
+    });
+
+    await reconcileSyncProfile();
+
+    const config = vscode.workspace.getConfiguration('dotsense');
+    assert.strictEqual(config.get('activityFlowThreshold'), 5);
+    assert.strictEqual(config.get('activityWeightGitCommit'), 8);
+    assert.strictEqual(config.get('activityFlowStateAlerts'), false);
+  });
+
+  test('merges personal models per model and keeps assessment answers local', async () => {
+    const model = (id: string, workDuration: number) => ({ id: `personal-ml-${id}`, name: id, workDuration });
+    state.storage?.saveCustomSetting('userAssessmentPersonalModels', {
+      assessment: { answers: 'private' },
+      models: [model('a', 50), model('b', 30)],
+      alternatives: []
+    });
+    await reconcileSyncProfile();
+    assert.ok(!JSON.stringify(profile()).includes('private'));
+
+    receiveRemote(stores => {
+      stores.personalModels = {
+        ...stores.personalModels,
+        'personal-ml-a': { model: model('a', 40), alternative: false },
+        'personal-ml-c': { model: model('c', 90), alternative: true }
+      };
+    });
+    // Edited here too - this machine's version wins
+    state.storage?.saveCustomSetting('userAssessmentPersonalModels', {
+      assessment: { answers: 'private' },
+      models: [model('a', 45), model('b', 30)],
+      alternatives: []
+    });
+
+    const result = await reconcileSyncProfile();
+
+    const stored = state.storage?.loadCustomSetting<{ assessment: unknown; models: unknown[]; alternatives: unknown[] }>('userAssessmentPersonalModels');
+    assert.strictEqual(result.conflicts, 1);
+    assert.deepStrictEqual(stored?.models, [model('a', 45), model('b', 30)]);
+    assert.deepStrictEqual(stored?.alternatives, [model('c', 90)]);
+    assert.deepStrictEqual(stored?.assessment, { answers: 'private' });
+  });
+
+  test('leaves personal models out of the merge while encrypted storage is locked', async () => {
+    state.storage?.saveCustomSetting('userAssessmentPersonalModels', { models: [{ id: 'personal-ml-a' }] });
+    await reconcileSyncProfile();
+    const published = profile().stores.personalModels;
+
+    state.storage?.reencryptSensitiveStores('a'.repeat(64));
+    state.storage = new ExtensionStorage(mock.context);
+    await reconcileSyncProfile();
+
+    assert.deepStrictEqual(profile().stores.personalModels, published);
+  });
+
+  test('three-way merge takes deletions from the side that changed', () => {
+    const base = { a: 1, b: 2 };
+    const { entries, conflicts } = mergeThreeWay(base, { a: 1, b: 2 }, { a: 1 });
+
+    assert.deepStrictEqual(entries, { a: 1 });
+    assert.strictEqual(conflicts, 0);
+  });
+});
@@ -0,0 +1,310 @@
+import * as assert from 'assert';
+import { ExtensionStorage, validateBackupData } from '../../src/utils/storage';
+import { ActivityType } from '../../src/services/activityIntegration/activityTypes';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+suite('ExtensionStorage', () => {
+  let mock: MockExtensionContext;
+  let storage: ExtensionStorage;
+
+  setup(() => {
+    mock = createMockExtensionContext();
+    storage = new ExtensionStorage(mock.context);
+  });
+
+  teardown(() => {
+    mock.dispose();
+  });
+
+  test('returns defaults when nothing is stored', () => {
+    assert.deepStrictEqual(storage.loadBreakStats(), {
+      breaksTaken: 0,
+      timeSaved: 0,
+      streakDays: 0,
+      lastBreakDate: null
+    });
+    assert.deepStrictEqual(storage.loadWellnessGoals(), []);
+    assert.deepStrictEqual(storage.loadDailyWellnessData(), []);
+    assert.strictEqual(storage.loadWorkRestSession(), null);
+  });
+
+  test('round-trips break stats', () => {
+    const stats = { breaksTaken: 7, timeSaved: 35, streakDays: 2, lastBreakDate: null };
+    storage.saveBreakStats(stats);
+
+    assert.deepStrictEqual(new ExtensionStorage(mock.context).loadBreakStats(), stats);
+  });
+
+  test('revives screen time dates after a round-trip', () => {
+    const sessionStart = new Date('2026-03-02T09:00:00Z');
+    storage.saveScreenTimeStats({
+      sessionStartTime: sessionStart,
+      totalScreenTimeToday: 120,
+      continuousScreenTime: 40,
+      lastBreakTime: null,
+      lastActivityTime: sessionStart,
+      isIdle: false,
+      codingSessionStart: sessionStart,
+      longCodingSessionDetected: false
+    });
+
+    const loaded = storage.loadScreenTimeStats();
+    assert.ok(loaded.sessionStartTime instanceof Date);
+    assert.strictEqual(loaded.sessionStartTime.getTime(), sessionStart.getTime());
+    assert.strictEqual(loaded.lastBreakTime, null);
+    assert.strictEqual(loaded.totalScreenTimeToday, 120);
+  });
+
+  test('revives goal and achievement dates after a round-trip', () => {
+    const deadline = new Date('2026-03-03T00:00:00Z');
+    storage.saveWellnessGoals([{
+      id: 'daily-breaks', type: 'daily', category: 'breaks', target: 6, current: 1,
+      description: 'Take 6 breaks', deadline, completed: false, createdAt: deadline
+    }]);
+    storage.saveAchievements([
+      { id: 'first-break', name: 'First', description: '', icon: '', category: 'streaks', rarity: 'common', requirement: 1, unlockedAt: deadline },
+      { id: 'breaks-50', name: 'Fifty', description: '', icon: '', category: 'streaks', rarity: 'rare', requirement: 50 }
+    ]);
+
+    assert.ok(storage.loadWellnessGoals()[0].deadline instanceof Date);
+    assert.strictEqual(storage.loadWellnessGoals()[0].deadline.getTime(), deadline.getTime());
+    assert.ok(storage.loadAchievements()[0].unlockedAt instanceof Date);
+    assert.strictEqual(storage.loadAchievements()[1].unlockedAt, undefined);
+  });
+
+  test('round-trips custom settings under their own prefix', () => {
+    storage.saveCustomSetting('usageAnalyticsData', { events: [1, 2] });
+
+    assert.deepStrictEqual(storage.loadCustomSetting('usageAnalyticsData'), { events: [1, 2] });
+    assert.ok(mock.globalState.keys().includes('custom_usageAnalyticsData'));
+    assert.strictEqual(storage.loadCustomSetting('missing', 'fallback'), 'fallback');
+  });
+
+  test('round-trips the work-rest session and clears it', () => {
+    const session = {
+      model: { id: 'pomodoro-classic', name: 'Pomodoro', description: '', workDuration: 25, restDuration: 5, basedOn: 'pomodoro' as const },
+      currentCycle: 2,
+      isWorking: false,
+      startTime: '2026-03-02T09:25:00.000Z',
+      endTime: '2026-03-02T09:30:00.000Z',
+      totalCycles: 4,
+      savedAt: '2026-03-02T09:25:00.000Z'
+    };
+
+    storage.saveWorkRestSession(session);
+    assert.deepStrictEqual(storage.loadWorkRestSession(), session);
+
+    storage.saveWorkRestSession(null);
+    assert.strictEqual(storage.loadWorkRestSession(), null);
+  });
+
+  test('compresses activity events and restores them', () => {
+    const now = Date.now();
+    storage.saveActivityEvents([
+      { id: 'a', type: ActivityType.FILE_EDIT, timestamp: now - 1000, intensity: 5, context: { fileType: 'ts' } },
+      { id: 'b', type: ActivityType.FILE_SAVE, timestamp: now, intensity: 3, context: {} }
+    ]);
+
+    const loaded = storage.loadActivityEvents();
+    assert.strictEqual(loaded.length, 2);
+    assert.strictEqual(loaded[0].id, 'a');
+    assert.strictEqual(loaded[0].type, ActivityType.FILE_EDIT);
+    assert.strictEqual(loaded[0].context.fileType, 'ts');
+    assert.strictEqual(storage.getActivityEventsMetadata().totalEvents, 2);
+  });
+
+  test('drops activity events past the retention window', () => {
+    const now = Date.now();
+    storage.saveActivityEvents([
+      { id: 'old', type: ActivityType.FILE_EDIT, timestamp: now - 10 * 24 * 60 * 60 * 1000, intensity: 5, context: {} },
+      { id: 'new', type: ActivityType.FILE_EDIT, timestamp: now, intensity: 5, context: {} }
+    ], 7);
+
+    assert.deepStrictEqual(storage.loadActivityEvents().map(e => e.id), ['new']);
+  });
+
+  test('exports and re-imports all data', () => {
+    storage.saveBreakStats({ breaksTaken: 3, timeSaved: 15, streakDays: 1, lastBreakDate: null });
+    const backup = storage.exportAllData();
+
+    const target = createMockExtensionContext();
+    try {
+      const targetStorage = new ExtensionStorage(target.context);
+      assert.strictEqual(targetStorage.importAllData(backup), true);
+      assert.strictEqual(targetStorage.loadBreakStats().breaksTaken, 3);
+    } finally {
+      target.dispose();
+    }
+  });
+
+  test('backs up time blocks and learned models', () => {
+    const block = { id: 'b1', name: 'Focus', startTime: 540, duration: 90, type: 'deep-work' as const, priority: 8, recurring: true };
+    storage.saveCustomSetting('timeBlocking.blocks', { 1: [block] });
+    storage.saveCustomSetting('intelligentModelSwitcher', { currentModel: 'pomodoro-classic' });
+    storage.saveCustomSetting('advancedScheduler.deadlines', [{ id: 'd1', scope: 'folder', target: '/api', label: 'api', deadline: '2026-03-06T17:00:00.000Z' }]);
+    storage.saveCustomSetting('timeBlocking.templates', [{ id: 't1', name: 'Maker week' }]);
+
+    const backup = storage.exportAllData();
+    storage.importAllData({ ...backup }, 'replace');
+
+    assert.deepStrictEqual(storage.loadTimeBlocks(), { 1: [block] });
+    assert.deepStrictEqual(storage.loadCustomSetting('intelligentModelSwitcher'), { currentModel: 'pomodoro-classic' });
+    assert.strictEqual(storage.loadCustomSetting<Array<{ id: string }>>('advancedScheduler.deadlines')?.[0].id, 'd1');
+    assert.strictEqual(storage.loadCustomSetting<Array<{ id: string }>>('timeBlocking.templates')?.[0].id, 't1');
+  });
+
+  test('merge import keeps the better streak and every unlocked achievement', () => {
+    storage.saveBreakStats({ breaksTaken: 40, timeSaved: 200, streakDays: 2, lastBreakDate: new Date('2026-03-05T10:00:00Z') });
+    storage.saveAchievements([
+      { id: 'first-break', name: 'First', description: '', icon: '', category: 'streaks', rarity: 'common', requirement: 1, unlockedAt: new Date('2026-03-04T00:00:00Z') },
+      { id: 'streak-7', name: 'Week', description: '', icon: '', category: 'streaks', rarity: 'rare', requirement: 7 }
+    ]);
+    storage.saveDailyWellnessData([{ date: '2026-03-05', breaksTaken: 4, screenTimeMinutes: 300, goalsCompleted: 0, exercisesCompleted: 0, achievementsUnlocked: 0, streakDays: 2 }]);
+
+    const imported = storage.importAllData({
+      breakStats: { breaksTaken: 30, timeSaved: 150, streakDays: 9, lastBreakDate: new Date('2026-03-01T10:00:00Z') },
+      achievements: [
+        { id: 'first-break', name: 'First', description: '', icon: '', category: 'streaks', rarity: 'common', requirement: 1 },
+        { id: 'streak-7', name: 'Week', description: '', icon: '', category: 'streaks', rarity: 'rare', requirement: 7, unlockedAt: new Date('2026-02-20T00:00:00Z') }
+      ],
+      dailyWellnessData: [{ date: '2026-03-01', breaksTaken: 6, screenTimeMinutes: 280, goalsCompleted: 1, exercisesCompleted: 0, achievementsUnlocked: 0, streakDays: 9 }],
+      version: '2.0.0',
+      schemaVersion: 1
+    }, 'merge');
+
+    assert.strictEqual(imported, true);
+    const stats = storage.loadBreakStats();
+    assert.strictEqual(stats.breaksTaken, 40);
+    assert.strictEqual(stats.streakDays, 9);
+    assert.strictEqual(stats.lastBreakDate?.toISOString(), '2026-03-05T10:00:00.000Z');
+    assert.ok(storage.loadAchievements().every(achievement => achievement.unlockedAt instanceof Date));
+    assert.deepStrictEqual(storage.loadDailyWellnessData().map(day => day.date), ['2026-03-01', '2026-03-05']);
+  });
+
+  test('replace import discards data missing from the backup', () => {
+    storage.saveWellnessGoals([{
+      id: 'old-goal', type: 'daily', category: 'breaks', target: 6, current: 1,
+      description: 'Take 6 breaks', deadline: new Date(), completed: false, createdAt: new Date()
+    }]);
+    storage.saveCustomSetting('timeBlocking.blocks', { 2: [] });
+
+    storage.importAllData({ breakStats: { breaksTaken: 1, timeSaved: 5, streakDays: 1, lastBreakDate: null }, version: '2.0.0', schemaVersion: 1 }, 'replace');
+
+    assert.deepStrictEqual(storage.loadWellnessGoals(), []);
+    assert.deepStrictEqual(storage.loadTimeBlocks(), {});
+    assert.strictEqual(storage.loadBreakStats().breaksTaken, 1);
+  });
+
+  test('a failed replace import puts the previous data back', () => {
+    storage.saveBreakStats({ breaksTaken: 9, timeSaved: 45, streakDays: 3, lastBreakDate: null });
+    storage.saveCustomSetting('timeBlocking.blocks', { 2: [] });
+    storage.saveCustomSetting('intelligentModelSwitcher', { currentModel: 'pomodoro-classic' });
+    storage.saveAchievements = () => { throw new Error('disk full'); };
+
+    const imported = storage.importAllData({
+      breakStats: { breaksTaken: 1, timeSaved: 5, streakDays: 1, lastBreakDate: null },
+      achievements: [],
+      version: '2.0.0',
+      schemaVersion: 1
+    }, 'replace');
+
+    assert.strictEqual(imported, false);
+    assert.strictEqual(storage.loadBreakStats().breaksTaken, 9);
+    assert.deepStrictEqual(storage.loadTimeBlocks(), { 2: [] });
+    assert.deepStrictEqual(storage.loadCustomSetting('intelligentModelSwitcher'), { currentModel: 'pomodoro-classic' });
+  });
+
+  test('validates backup files before import', () => {
+    assert.strictEqual(validateBackupData(storage.exportAllData()).valid, true);
+    assert.strictEqual(validateBackupData([]).valid, false);
+    assert.strictEqual(validateBackupData({ version: '2.0.0' }).valid, false);
+    assert.strictEqual(validateBackupData({ version: '9.0.0', breakStats: { breaksTaken: 1, timeSaved: 0, streakDays: 0 } }).valid, false);
+
+    const result = validateBackupData({ version: '2.0.0', breakStats: { breaksTaken: 'lots' }, wellnessGoals: [{ name: 'no id' }] });
+    assert.strictEqual(result.valid, false);
+    assert.strictEqual(result.errors.length, 2);
+  });
+
+  test('encrypts sensitive stores and reads them back with the key', () => {
+    storage.setEncryptionKey('a'.repeat(64));
+    storage.saveCustomSetting('usageAnalyticsData', { events: [{ type: 'break_taken' }] });
+    storage.saveBreakStats({ breaksTaken: 2, timeSaved: 10, streakDays: 1, lastBreakDate: null });
+
+    storage.saveCustomSetting('advancedScheduler.energyProfile', { userType: 'morning-person' });
+
+    assert.ok(!JSON.stringify(mock.globalState.get('custom_usageAnalyticsData')).includes('break_taken'));
+    assert.ok(!JSON.stringify(mock.globalState.get('custom_advancedScheduler.energyProfile')).includes('morning-person'));
+    assert.deepStrictEqual(storage.loadCustomSetting('usageAnalyticsData'), { events: [{ type: 'break_taken' }] });
+    // Non-sensitive stores stay readable without the key
+    assert.strictEqual(mock.globalState.get<{ breaksTaken: number }>('breakStats')?.breaksTaken, 2);
+  });
+
+  test('treats encrypted data as locked without the key and refuses to overwrite it', () => {
+    storage.setEncryptionKey('a'.repeat(64));
+    storage.saveCustomSetting('usageAnalyticsData', { events: [1] });
+
+    const locked = new ExtensionStorage(mock.context);
+    assert.strictEqual(locked.isEncryptedDataLocked(), true);
+    assert.strictEqual(locked.hasEncryptedStores(), true);
+    assert.deepStrictEqual(locked.loadCustomSetting('usageAnalyticsData', { events: [] }), { events: [] });
+
+    locked.setEncryptionKey('b'.repeat(64));
+    assert.strictEqual(locked.isEncryptedDataLocked(), true);
+    locked.saveCustomSetting('usageAnalyticsData', { events: [2] });
+    assert.deepStrictEqual(storage.loadCustomSetting('usageAnalyticsData'), { events: [1] });
+
+    locked.discardEncryptedStores();
+    assert.strictEqual(locked.hasEncryptedStores(), false);
+  });
+
+  test('reuses one salt per key so writes skip key derivation', () => {
+    const saltOf = () => Buffer.from(
+      mock.globalState.get<{ payload: string }>('custom_usageAnalyticsData')?.payload ?? '', 'base64'
+    ).toString('utf8').split('|')[0];
+
+    storage.setEncryptionKey('a'.repeat(64));
+    storage.saveCustomSetting('usageAnalyticsData', { events: [1] });
+    const firstSalt = saltOf();
+    storage.saveCustomSetting('usageAnalyticsData', { events: [1, 2] });
+    assert.strictEqual(saltOf(), firstSalt);
+
+    storage.setEncryptionKey('a'.repeat(64));
+    storage.saveCustomSetting('usageAnalyticsData', { events: [1, 2, 3] });
+    assert.notStrictEqual(saltOf(), firstSalt);
+    assert.deepStrictEqual(storage.loadCustomSetting('usageAnalyticsData'), { events: [1, 2, 3] });
+  });
+
+  test('re-checks the lock after the key changes', () => {
+    storage.setEncryptionKey('a'.repeat(64));
+    storage.saveCustomSetting('usageAnalyticsData', { events: [1] });
+    assert.strictEqual(storage.isEncryptedDataLocked(), false);
+
+    storage.setEncryptionKey('b'.repeat(64));
+    assert.strictEqual(storage.isEncryptedDataLocked(), true);
+    storage.saveCustomSetting('usageAnalyticsData', { events: [2] });
+
+    storage.setEncryptionKey('a'.repeat(64));
+    assert.deepStrictEqual(storage.loadCustomSetting('usageAnalyticsData'), { events: [1] });
+  });
+
+  test('re-encrypts under a new key and back to plaintext', () => {
+    storage.saveDailyWellnessData([{ date: '2026-03-01', breaksTaken: 6, screenTimeMinutes: 280, goalsCompleted: 1, exercisesCompleted: 0, achievementsUnlocked: 0, streakDays: 9 }]);
+
+    storage.reencryptSensitiveStores('a'.repeat(64));
+    assert.strictEqual(storage.hasPlaintextSensitiveStores(), false);
+
+    storage.reencryptSensitiveStores('c'.repeat(64));
+    assert.strictEqual(storage.loadDailyWellnessData()[0].breaksTaken, 6);
+
+    storage.reencryptSensitiveStores(null);
+    assert.strictEqual(storage.hasEncryptedStores(), false);
+    assert.strictEqual(mock.globalState.get<Array<{ date: string }>>('dailyWellnessData')?.[0].date, '2026-03-01');
+  });
+
+  test('clearAllData removes stored values', () => {
+    storage.saveBreakStats({ breaksTaken: 3, timeSaved: 15, streakDays: 1, lastBreakDate: null });
+    storage.clearAllData();
+
+    assert.strictEqual(storage.loadBreakStats().breaksTaken, 0);
+  });
+});
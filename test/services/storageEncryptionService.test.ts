@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { initializeStorageEncryption, rotateStorageEncryptionKey, watchStorageEncryptionKey } from '../../src/services/storageEncryptionService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const SECRET = 'dotsense.storageEncryptionKey';
+
+suite('storageEncryptionService', () => {
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    state.storage.saveCustomSetting('usageAnalyticsData', { events: [1, 2] });
+  });
+
+  teardown(() => {
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('leaves storage in plaintext while the setting is off', async () => {
+    await initializeStorageEncryption(mock.context);
+
+    assert.strictEqual(await mock.secrets.get(SECRET), undefined);
+    assert.strictEqual(state.storage?.hasEncryptedStores(), false);
+  });
+
+  test('creates a key in SecretStorage and encrypts existing data when enabled', async () => {
+    vscodeStub.__setConfiguration({ 'dotsense.storage.encryptAtRest': true });
+
+    await initializeStorageEncryption(mock.context);
+
+    assert.ok(await mock.secrets.get(SECRET));
+    assert.strictEqual(state.storage?.hasPlaintextSensitiveStores(), false);
+    assert.deepStrictEqual(state.storage?.loadCustomSetting('usageAnalyticsData'), { events: [1, 2] });
+  });
+
+  test('decrypts and forgets the key when disabled again', async () => {
+    vscodeStub.__setConfiguration({ 'dotsense.storage.encryptAtRest': true });
+    await initializeStorageEncryption(mock.context);
+
+    vscodeStub.__setConfiguration({ 'dotsense.storage.encryptAtRest': false });
+    await initializeStorageEncryption(mock.context);
+
+    assert.strictEqual(await mock.secrets.get(SECRET), undefined);
+    assert.deepStrictEqual(mock.globalState.get('custom_usageAnalyticsData'), { events: [1, 2] });
+  });
+
+  test('rotates the key without losing data', async () => {
+    vscodeStub.__setConfiguration({ 'dotsense.storage.encryptAtRest': true });
+    await initializeStorageEncryption(mock.context);
+    const firstKey = await mock.secrets.get(SECRET);
+
+    await rotateStorageEncryptionKey(mock.context);
+
+    assert.notStrictEqual(await mock.secrets.get(SECRET), firstKey);
+    assert.deepStrictEqual(state.storage?.loadCustomSetting('usageAnalyticsData'), { events: [1, 2] });
+  });
+
+  test('rotates the key while the key watcher is registered', async () => {
+    vscodeStub.__setConfiguration({ 'dotsense.storage.encryptAtRest': true });
+    await initializeStorageEncryption(mock.context);
+    const firstKey = await mock.secrets.get(SECRET);
+    const watcher = watchStorageEncryptionKey(mock.context);
+
+    try {
+      await rotateStorageEncryptionKey(mock.context);
+    } finally {
+      watcher.dispose();
+    }
+
+    assert.notStrictEqual(await mock.secrets.get(SECRET), firstKey);
+    assert.strictEqual(vscodeStub.__getMessages().some(m => m.level === 'error'), false);
+    assert.strictEqual(state.storage?.isEncryptedDataLocked(), false);
+    assert.deepStrictEqual(state.storage?.loadCustomSetting('usageAnalyticsData'), { events: [1, 2] });
+  });
+
+  test('offers a reset when the key has been lost', async () => {
+    vscodeStub.__setConfiguration({ 'dotsense.storage.encryptAtRest': true });
+    await initializeStorageEncryption(mock.context);
+    await mock.secrets.delete(SECRET);
+
+    state.storage = new ExtensionStorage(mock.context);
+    await initializeStorageEncryption(mock.context);
+
+    const prompt = vscodeStub.__getMessages().find(m => m.level === 'error');
+    assert.ok(prompt?.items.includes('Reset Encrypted Data'));
+    // Nothing new was generated over the unreadable data
+    assert.strictEqual(await mock.secrets.get(SECRET), undefined);
+    assert.strictEqual(state.storage.hasEncryptedStores(), true);
+  });
+});
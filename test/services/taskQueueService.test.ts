@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { getDefaultWorkRestModel } from '../../src/constants/workRestModels';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import { advancedScheduler, initializeAdvancedScheduler } from '../../src/services/activityIntegration/advancedSchedulerService';
+import { getCurrentSession, stopWorkRestSession } from '../../src/services/workRestService';
+import { initializeTaskQueue, moveTask, parseDeadline, startFocusOnRecommendedTask } from '../../src/services/taskQueueService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const MINUTE = 60 * 1000;
+
+suite('taskQueueService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  const addTask = (name: string, priority: Parameters<typeof moveTask>[1], deadline?: Date): string =>
+    advancedScheduler!.addTask({
+      name,
+      priority,
+      estimatedDuration: 30,
+      energyRequired: 'medium',
+      complexity: 'moderate',
+      ...(deadline && { deadline })
+    });
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T09:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    initializeAdvancedScheduler({} as BaseActivityMonitor);
+    initializeTaskQueue(mock.context);
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    clock.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('recommends urgent-important work first, earliest deadline first', () => {
+    addTask('Write docs', 'not-urgent-important');
+    addTask('Hotfix', 'urgent-important', new Date('2026-03-03T12:00:00'));
+    const incident = addTask('Incident review', 'urgent-important', new Date('2026-03-02T17:00:00'));
+
+    assert.strictEqual(advancedScheduler!.getRecommendedTask()?.id, incident);
+
+    moveTask(incident, 'not-urgent-not-important');
+    assert.strictEqual(advancedScheduler!.getRecommendedTask()?.name, 'Hotfix');
+  });
+
+  test('records focused minutes on the task when the work period ends', async () => {
+    vscodeStub.__setMessageResponder(message =>
+      message.items.includes('Take Break Now') ? 'Take Break Now' : undefined
+    );
+    const taskId = addTask('Refactor parser', 'urgent-important');
+
+    startFocusOnRecommendedTask();
+    assert.ok(getCurrentSession()?.isWorking);
+
+    await clock.tickAsync(getDefaultWorkRestModel().workDuration * MINUTE);
+
+    const task = advancedScheduler!.getTasks().find(t => t.id === taskId);
+    assert.strictEqual(task?.actualDuration, getDefaultWorkRestModel().workDuration);
+    assert.ok(vscodeStub.__getMessages().some(m => m.items.includes('Mark Done')));
+  });
+
+  test('revives task deadlines after a reload', () => {
+    addTask('Ship release', 'urgent-important', new Date('2026-03-04T10:00:00'));
+
+    initializeAdvancedScheduler({} as BaseActivityMonitor);
+
+    const [task] = advancedScheduler!.getTasks();
+    assert.ok(task.deadline instanceof Date);
+    assert.strictEqual(task.deadline.getTime(), new Date('2026-03-04T10:00:00').getTime());
+  });
+
+  test('parses date-only deadlines as the end of that day', () => {
+    assert.strictEqual(parseDeadline('2026-03-05')?.getTime(), new Date(2026, 2, 5, 23, 59).getTime());
+    assert.strictEqual(parseDeadline('2026-03-05 14:30')?.getTime(), new Date(2026, 2, 5, 14, 30).getTime());
+    assert.strictEqual(parseDeadline('next friday'), null);
+  });
+});
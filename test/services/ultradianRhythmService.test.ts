@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { UltradianProfile } from '../../src/types';
+import { getWorkRestModelById } from '../../src/constants/workRestModels';
+import { ActivityEvent, ActivityType } from '../../src/services/activityIntegration/activityTypes';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import {
+  ULTRADIAN_MODEL_ID,
+  estimateUltradianProfile,
+  initializeUltradianRhythm,
+  stopUltradianRhythm
+} from '../../src/services/activityIntegration/ultradianRhythmService';
+import { getCurrentSession, getUpcomingBreaks, startWorkRestSession, stopWorkRestSession } from '../../src/services/workRestService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const MINUTE = 60 * 1000;
+
+// Six hours of typing from 09:00 whose intensity rises and falls with the given cycle
+function typingDays(startDate: string, days: number, cycleMinutes: number): ActivityEvent[] {
+  const events: ActivityEvent[] = [];
+  for (let day = 0; day < days; day++) {
+    const start = new Date(`${startDate}T09:00:00`).getTime() + day * 24 * 60 * MINUTE;
+    for (let minute = 0; minute < 6 * 60; minute++) {
+      const intensity = Math.round(5.5 + 4.5 * Math.cos((2 * Math.PI * minute) / cycleMinutes));
+      if (minute > 0 && intensity < 3) continue;
+      events.push({
+        id: `typing_${day}_${minute}`,
+        type: ActivityType.TYPING_BURST,
+        timestamp: start + minute * MINUTE,
+        intensity,
+        context: {}
+      });
+    }
+  }
+  return events;
+}
+
+suite('ultradianRhythmService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-09T09:10:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    stopUltradianRhythm();
+    clock.restore();
+    state.activityMonitor = undefined;
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('learns a personal cycle length and trough from several days of typing', () => {
+    const profile = estimateUltradianProfile(typingDays('2026-03-02', 5, 100), 7);
+
+    assert.ok(profile.learned);
+    assert.strictEqual(profile.daysAnalyzed, 5);
+    assert.ok(Math.abs(profile.cycleMinutes - 100) <= 5, `cycle ${profile.cycleMinutes}`);
+    assert.ok(Math.abs(profile.troughOffsetMinutes - 50) <= 10, `trough ${profile.troughOffsetMinutes}`);
+  });
+
+  test('keeps the 90-minute default until enough days are recorded', () => {
+    const profile = estimateUltradianProfile(typingDays('2026-03-02', 2, 100), 7);
+
+    assert.strictEqual(profile.learned, false);
+    assert.strictEqual(profile.cycleMinutes, 90);
+    assert.strictEqual(profile.daysAnalyzed, 2);
+  });
+
+  test('centres ultradian breaks on the predicted troughs', () => {
+    const learned: UltradianProfile = { cycleMinutes: 100, troughOffsetMinutes: 60, confidence: 0.8, daysAnalyzed: 6, learned: true, updatedAt: 0 };
+    state.storage!.saveCustomSetting('advancedScheduler.ultradianProfile', learned);
+    const firstActivity: ActivityEvent = { id: 'first', type: ActivityType.TYPING_BURST, timestamp: new Date('2026-03-09T09:00:00').getTime(), intensity: 6, context: {} };
+    state.activityMonitor = { getRecentEvents: () => [firstActivity] } as unknown as BaseActivityMonitor;
+
+    initializeUltradianRhythm(mock.context);
+    startWorkRestSession(getWorkRestModelById(ULTRADIAN_MODEL_ID)!);
+
+    // Troughs at 10:00 and 11:40, each with a 20-minute break around it
+    assert.strictEqual(getCurrentSession()?.endTime.getTime(), new Date('2026-03-09T09:50:00').getTime());
+    assert.deepStrictEqual(
+      getUpcomingBreaks(new Date('2026-03-09T12:00:00')).map(b => [b.start.toTimeString().slice(0, 5), b.end.toTimeString().slice(0, 5)]),
+      [['09:50', '10:10'], ['11:30', '11:50']]
+    );
+  });
+});
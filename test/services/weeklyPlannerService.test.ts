@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { WorkRestModel } from '../../src/types';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import { advancedScheduler, initializeAdvancedScheduler } from '../../src/services/activityIntegration/advancedSchedulerService';
+import { startWorkRestSession, stopWorkRestSession } from '../../src/services/workRestService';
+import { buildWeeklyPlan, autoFillDeepWork } from '../../src/services/weeklyPlannerService';
+import { scheduleTaskInteractive } from '../../src/services/taskQueueService';
+import { setMeetings } from '../../src/services/calendarService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const HOUR = 60 * 60 * 1000;
+
+const testModel: WorkRestModel = {
+  id: 'test-model',
+  name: 'Test Model',
+  description: 'Short cycles for tests',
+  workDuration: 50,
+  restDuration: 10,
+  basedOn: 'pomodoro'
+};
+
+suite('weeklyPlannerService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    // Monday
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T08:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    initializeAdvancedScheduler({} as BaseActivityMonitor);
+    startWorkRestSession(testModel);
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    setMeetings([]);
+    sinon.restore();
+    clock.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  const learnPeakHours = async (): Promise<void> => {
+    for (let day = 0; day < 2; day++) {
+      await clock.tickAsync(1 * HOUR); // 09:00
+      advancedScheduler!.recordEnergyReading({ hour: 9, energyLevel: 9, activityType: 'check-in:manual', completionRate: 1, source: 'self-report' });
+      await clock.tickAsync(1 * HOUR); // 10:00
+      advancedScheduler!.recordEnergyReading({ hour: 10, energyLevel: 8, activityType: 'check-in:manual', completionRate: 1, source: 'self-report' });
+      await clock.tickAsync(5 * HOUR); // 15:00
+      advancedScheduler!.recordEnergyReading({ hour: 15, energyLevel: 3, activityType: 'check-in:manual', completionRate: 1, source: 'self-report' });
+      await clock.tickAsync(17 * HOUR); // 08:00 next day
+    }
+  };
+
+  test('lays out recurring blocks, tasks and cadence over seven days and flags overlaps per day', () => {
+    state.storage!.saveCustomSetting('timeBlocking.blocks', {
+      1: [{ id: 'focus', name: 'Deep Work', startTime: 9 * 60, duration: 90, type: 'deep-work', priority: 5, recurring: true, daysOfWeek: [1, 3] }],
+      3: [{ id: 'standup', name: 'Standup', startTime: 10 * 60, duration: 30, type: 'meetings', priority: 3, recurring: false }]
+    });
+    advancedScheduler!.addTask({ name: 'Review PR', priority: 'urgent-important', estimatedDuration: 45, energyRequired: 'medium', complexity: 'moderate', scheduledTime: new Date('2026-03-03T14:00:00') });
+    advancedScheduler!.addTask({ name: 'Release', priority: 'not-urgent-important', estimatedDuration: 60, energyRequired: 'high', complexity: 'complex', deadline: new Date('2026-03-05T17:00:00') });
+
+    const plan = buildWeeklyPlan();
+
+    assert.deepStrictEqual(plan.days.map(day => day.day), [1, 2, 3, 4, 5, 6, 0]);
+    assert.deepStrictEqual(plan.days[0].blocks.map(block => block.id), ['focus']);
+    assert.deepStrictEqual(plan.days[0].conflicts, []);
+    assert.deepStrictEqual(plan.days[2].conflicts, ['focus', 'standup']);
+    assert.strictEqual(plan.conflictCount, 2);
+
+    assert.deepStrictEqual(plan.days[1].tasks.map(task => [task.name, task.startTime, task.due]), [['Review PR', 14 * 60, false]]);
+    assert.deepStrictEqual(plan.days[3].tasks.map(task => [task.name, task.startTime, task.due]), [['Release', null, true]]);
+
+    assert.strictEqual(plan.cadence.id, 'test-model');
+    assert.strictEqual(plan.days[0].focusMinutes, 90);
+    assert.strictEqual(plan.days[0].workPeriods, 1);
+  });
+
+  test('places a task scheduled from the command onto the chosen day and time', async () => {
+    advancedScheduler!.addTask({ name: 'Write RFC', priority: 'not-urgent-important', estimatedDuration: 90, energyRequired: 'high', complexity: 'complex' });
+    sinon.stub(vscodeStub.window, 'showQuickPick').callsFake(((items: Array<{ label: string }>) =>
+      Promise.resolve(items.find(item => item.label === 'Write RFC' || item.label === 'Tomorrow'))) as never);
+    sinon.stub(vscodeStub.window, 'showInputBox').resolves('9:30' as never);
+
+    await scheduleTaskInteractive();
+
+    const plan = buildWeeklyPlan();
+    assert.deepStrictEqual(plan.days[0].tasks, []);
+    assert.deepStrictEqual(plan.days[1].tasks.map(task => [task.name, task.startTime, task.duration]), [['Write RFC', 9 * 60 + 30, 90]]);
+  });
+
+  test('auto-fills deep work into free peak hours in whole work periods', async () => {
+    await learnPeakHours();
+    state.storage!.saveCustomSetting('timeBlocking.blocks', {
+      2: [{ id: 'busy', name: 'Workshop', startTime: 10 * 60, duration: 60, type: 'meetings', priority: 4, recurring: false }]
+    });
+
+    const plan = buildWeeklyPlan();
+    assert.deepStrictEqual(plan.peakHours, [9, 10]);
+    assert.ok(plan.days[0].hourlyEnergy[9] > plan.days[0].hourlyEnergy[15]);
+
+    // Tuesday is taken by the workshop; the other workdays get 9:00 plus two 50-minute periods
+    assert.strictEqual(autoFillDeepWork(), 4);
+    const stored = state.storage!.loadTimeBlocks();
+    assert.deepStrictEqual(Object.keys(stored).map(Number).sort(), [1, 2, 3, 4, 5]);
+    assert.strictEqual(stored[2].length, 1);
+    assert.deepStrictEqual([stored[1][0].startTime, stored[1][0].duration, stored[1][0].type], [9 * 60, 100, 'deep-work']);
+
+    // Running it again finds the peak hours booked
+    assert.strictEqual(autoFillDeepWork(), 0);
+  });
+
+  test('clips auto-filled deep work to the peak run and ignores one-off meetings', () => {
+    sinon.stub(advancedScheduler!, 'getEnergyProfile').returns({ peakHours: [14] } as never);
+    stopWorkRestSession();
+    startWorkRestSession({ ...testModel, workDuration: 90 });
+    // A meeting this Wednesday does not stop the weekly block
+    setMeetings([
+      { id: 'ics_review', title: 'Review', start: new Date('2026-03-04T14:15:00'), end: new Date('2026-03-04T14:45:00') }
+    ]);
+
+    assert.strictEqual(autoFillDeepWork(), 5);
+    const stored = state.storage!.loadTimeBlocks();
+    assert.deepStrictEqual([stored[3][0].startTime, stored[3][0].duration], [14 * 60, 60]);
+  });
+});
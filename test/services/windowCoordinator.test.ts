@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { WorkRestModel } from '../../src/types';
+import {
+  initializeWindowCoordinator,
+  isLeaderWindow,
+  getOtherWindows,
+  onDidChangeSharedData,
+  SessionCommand,
+  WindowRoleHandlers
+} from '../../src/services/windowCoordinator';
+import { getCurrentSession, startWorkRestSession, takeManualBreak } from '../../src/services/workRestService';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const testModel: WorkRestModel = {
+  id: 'test-model',
+  name: 'Test Model',
+  description: 'Short cycles for tests',
+  workDuration: 25,
+  restDuration: 5,
+  basedOn: 'pomodoro'
+};
+
+suite('windowCoordinator', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+  let commands: SessionCommand[];
+  let sharedPhase: 'work' | 'rest' | null;
+
+  function handlers(): WindowRoleHandlers {
+    return {
+      onBecomeLeader: () => undefined,
+      onBecomeFollower: () => undefined,
+      publishState: () => ({ statusBarText: '', nextReminder: null, phase: null }),
+      applyState: () => undefined,
+      ingestActivity: () => undefined,
+      runSessionCommand: command => { commands.push(command); },
+      describeWindow: () => ({ branches: [], folders: ['/here'], restBlockers: [] })
+    };
+  }
+
+  // Another window holds a fresh lock and publishes its session phase
+  function writeOtherLeader(): void {
+    const now = Date.now();
+    fs.writeFileSync(path.join(mock.storageDir, 'leader.lock'), JSON.stringify({ windowId: 'other', pid: 1, heartbeat: now }));
+    fs.writeFileSync(path.join(mock.storageDir, 'shared-state.json'), JSON.stringify({
+      windowId: 'other', statusBarText: '', nextReminder: null, phase: sharedPhase, updatedAt: now
+    }));
+  }
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T09:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    commands = [];
+    sharedPhase = null;
+  });
+
+  teardown(() => {
+    // Disposes the coordinator along with the context subscriptions
+    mock.dispose();
+    clock.restore();
+  });
+
+  test('a follower forwards session commands instead of running them', () => {
+    writeOtherLeader();
+    initializeWindowCoordinator(mock.context, handlers());
+    assert.strictEqual(isLeaderWindow(), false);
+
+    startWorkRestSession(testModel);
+
+    assert.strictEqual(getCurrentSession(), null);
+    assert.strictEqual(fs.readdirSync(path.join(mock.storageDir, 'forwarded-commands')).length, 1);
+  });
+
+  test('a follower only forwards a break while the leader is working', () => {
+    writeOtherLeader();
+    initializeWindowCoordinator(mock.context, handlers());
+
+    assert.strictEqual(takeManualBreak(), false);
+
+    sharedPhase = 'work';
+    writeOtherLeader();
+    clock.tick(5000);
+
+    assert.strictEqual(takeManualBreak(), true);
+  });
+
+  test('the leader replays forwarded commands in order', () => {
+    writeOtherLeader();
+    initializeWindowCoordinator(mock.context, handlers());
+    startWorkRestSession(testModel);
+    takeManualBreak();
+
+    // The other window stops renewing its lock, so this one takes over
+    clock.tick(20000);
+
+    assert.strictEqual(isLeaderWindow(), true);
+    assert.deepStrictEqual(commands, [{ type: 'start', model: testModel }]);
+    assert.deepStrictEqual(fs.readdirSync(path.join(mock.storageDir, 'forwarded-commands')), []);
+  });
+
+  test('reports other windows and the data they saved', () => {
+    initializeWindowCoordinator(mock.context, handlers());
+    const changed: string[] = [];
+    const subscription = onDidChangeSharedData(area => changed.push(area));
+
+    const otherWindow = (revision: number) => fs.writeFileSync(path.join(mock.storageDir, 'windows', 'other.json'), JSON.stringify({
+      windowId: 'other', branches: [{ name: 'main', repository: '/api' }], folders: ['/api'], dataRevisions: { tasks: revision }, updatedAt: Date.now()
+    }));
+
+    otherWindow(1);
+    clock.tick(5000);
+    otherWindow(1);
+    clock.tick(5000);
+    otherWindow(2);
+    clock.tick(5000);
+
+    assert.deepStrictEqual(getOtherWindows().map(window => window.folders), [['/api']]);
+    assert.deepStrictEqual(changed, ['tasks', 'tasks']);
+
+    // Once the other window stops publishing it no longer counts
+    clock.tick(15000);
+    assert.deepStrictEqual(getOtherWindows(), []);
+    subscription.dispose();
+  });
+});
@@ -0,0 +1,451 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { WorkRestModel } from '../../src/types';
+import {
+  startWorkRestSession,
+  stopWorkRestSession,
+  getCurrentSession,
+  getTimeRemaining,
+  takeManualBreak,
+  endRestEarly,
+  initializeWorkRestModel,
+  offerBreakAfterMeetings
+} from '../../src/services/workRestService';
+import { setMeetings, getMeetingRuns } from '../../src/services/calendarService';
+import { isRestEnforced } from '../../src/services/screenBlockingService';
+import { initializeRestDeferral, RestDeferralBlocker } from '../../src/services/restDeferralService';
+import { initializeWindowCoordinator } from '../../src/services/windowCoordinator';
+import { SmartScheduler } from '../../src/services/activityIntegration/smartScheduler';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const MINUTE = 60 * 1000;
+
+const testModel: WorkRestModel = {
+  id: 'test-model',
+  name: 'Test Model',
+  description: 'Short cycles for tests',
+  workDuration: 25,
+  restDuration: 5,
+  cycles: 2,
+  longRestDuration: 15,
+  basedOn: 'pomodoro'
+};
+
+suite('workRestService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  setup(() => {
+    vscodeStub.__reset();
+    vscodeStub.__setConfiguration({ 'dotsense.annoyanceLevel': 'mild', 'dotsense.workRestModel': testModel.id });
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T09:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    state.statusBarItem = undefined;
+  });
+
+  teardown(() => {
+    stopWorkRestSession();
+    setMeetings([]);
+    sinon.restore();
+    state.activityMonitor = undefined;
+    clock.restore();
+    mock.dispose();
+  });
+
+  // A real monitor, since rest deferral follows debug sessions through it
+  function trackDebugSessions(): BaseActivityMonitor {
+    const monitor = new BaseActivityMonitor(mock.context);
+    mock.context.subscriptions.push(monitor);
+    return monitor;
+  }
+
+  function acceptBreaks(): void {
+    vscodeStub.__setMessageResponder(message =>
+      message.items.includes('Take Break Now') ? 'Take Break Now' : undefined
+    );
+  }
+
+  test('starts in a work period with the model work duration', () => {
+    startWorkRestSession(testModel);
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, true);
+    assert.strictEqual(session.currentCycle, 1);
+    assert.strictEqual(session.endTime.getTime() - Date.now(), 25 * MINUTE);
+    assert.deepStrictEqual(getTimeRemaining(), { minutes: 25, seconds: 0, phase: 'work' });
+  });
+
+  test('enters rest when the user accepts the break prompt', async () => {
+    acceptBreaks();
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE);
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, false);
+    assert.strictEqual(session.endTime.getTime() - Date.now(), 5 * MINUTE);
+    assert.strictEqual(isRestEnforced(), true);
+  });
+
+  test('starts the next cycle when rest ends', async () => {
+    acceptBreaks();
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE);
+    await clock.tickAsync(5 * MINUTE);
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, true);
+    assert.strictEqual(session.currentCycle, 2);
+    assert.strictEqual(isRestEnforced(), false);
+  });
+
+  test('uses the long rest after the last cycle', async () => {
+    acceptBreaks();
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE); // cycle 1 work
+    await clock.tickAsync(5 * MINUTE); // cycle 1 rest
+    await clock.tickAsync(25 * MINUTE); // cycle 2 work
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, false);
+    assert.strictEqual(session.endTime.getTime() - Date.now(), 15 * MINUTE);
+
+    await clock.tickAsync(15 * MINUTE);
+    assert.strictEqual(getCurrentSession()?.currentCycle, 1);
+    assert.strictEqual(getCurrentSession()?.isWorking, true);
+  });
+
+  test('snoozing the prompt re-prompts five minutes later', async () => {
+    vscodeStub.__setMessageResponder(message =>
+      message.items.includes('Snooze 5 min') ? 'Snooze 5 min' : undefined
+    );
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE);
+    assert.strictEqual(getCurrentSession()?.isWorking, true);
+
+    const prompts = (): number => vscodeStub.__getMessages().filter(m => m.items.includes('Snooze 5 min')).length;
+    assert.strictEqual(prompts(), 1);
+
+    await clock.tickAsync(5 * MINUTE);
+    assert.strictEqual(prompts(), 2);
+  });
+
+  test('manual break and early rest end switch phases immediately', () => {
+    startWorkRestSession(testModel);
+
+    assert.strictEqual(endRestEarly(), false);
+    assert.strictEqual(takeManualBreak(), true);
+    assert.strictEqual(getCurrentSession()?.isWorking, false);
+    assert.strictEqual(takeManualBreak(), false);
+
+    assert.strictEqual(endRestEarly(), true);
+    assert.strictEqual(getCurrentSession()?.isWorking, true);
+    assert.strictEqual(isRestEnforced(), false);
+  });
+
+  test('stopping clears the session and its saved copy', () => {
+    startWorkRestSession(testModel);
+    assert.ok(state.storage?.loadWorkRestSession());
+
+    stopWorkRestSession();
+
+    assert.strictEqual(getCurrentSession(), null);
+    assert.strictEqual(state.storage?.loadWorkRestSession(), null);
+  });
+
+  test('resumes a saved session with the time that was left', async () => {
+    acceptBreaks();
+    startWorkRestSession(testModel);
+    await clock.tickAsync(10 * MINUTE);
+
+    // Simulate a window reload: forget in-memory state, keep storage
+    const saved = state.storage?.loadWorkRestSession();
+    stopWorkRestSession();
+    state.storage?.saveWorkRestSession(saved ?? null);
+
+    initializeWorkRestModel();
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, true);
+    assert.strictEqual(session.endTime.getTime() - Date.now(), 15 * MINUTE);
+
+    await clock.tickAsync(15 * MINUTE);
+    assert.strictEqual(getCurrentSession()?.isWorking, false);
+  });
+
+  test('resumes a session running a model other than the configured one', () => {
+    const oneOff: WorkRestModel = { ...testModel, id: 'ai-generated', name: 'AI Model' };
+    startWorkRestSession(oneOff);
+    const saved = state.storage?.loadWorkRestSession();
+    stopWorkRestSession();
+    state.storage?.saveWorkRestSession(saved ?? null);
+
+    initializeWorkRestModel();
+    assert.strictEqual(getCurrentSession()?.model.id, 'ai-generated');
+
+    // Changing the setting while VS Code was closed starts over with the new model
+    stopWorkRestSession();
+    state.storage?.saveWorkRestSession(saved ?? null);
+    vscodeStub.__setConfiguration({ 'dotsense.workRestModel': 'who-45min-work-15min-rest' });
+
+    initializeWorkRestModel();
+    assert.strictEqual(getCurrentSession()?.model.id, 'who-45min-work-15min-rest');
+  });
+
+  test('credits a rest that happened while VS Code was closed', () => {
+    startWorkRestSession(testModel);
+    const saved = state.storage?.loadWorkRestSession();
+    stopWorkRestSession();
+    state.storage?.saveWorkRestSession(saved ?? null);
+
+    // Work deadline passed 30 minutes ago - longer than the 5 minute rest
+    clock.tick(55 * MINUTE);
+    initializeWorkRestModel();
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, true);
+    assert.strictEqual(session.currentCycle, 2);
+  });
+
+  test('moves a break that would overlap a meeting to the end of the meeting run', async () => {
+    acceptBreaks();
+    setMeetings([
+      { id: 'ics_a', title: 'Planning', start: new Date('2026-03-02T09:27:00'), end: new Date('2026-03-02T10:00:00') },
+      { id: 'ics_b', title: 'Review', start: new Date('2026-03-02T10:05:00'), end: new Date('2026-03-02T10:30:00') }
+    ]);
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE);
+
+    const session = getCurrentSession();
+    assert.ok(session);
+    assert.strictEqual(session.isWorking, true);
+    assert.strictEqual(session.endTime.getTime(), new Date('2026-03-02T10:30:00').getTime());
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('Break moved to after "Planning"')));
+
+    await clock.tickAsync(65 * MINUTE);
+    assert.strictEqual(getCurrentSession()?.isWorking, false);
+  });
+
+  test('offers a break after a long run of meetings', async () => {
+    vscodeStub.__setMessageResponder(message => message.items.includes('Take Break') ? 'Take Break' : undefined);
+    setMeetings([
+      { id: 'ics_a', title: 'Workshop', start: new Date('2026-03-02T07:00:00'), end: new Date('2026-03-02T09:00:00') }
+    ]);
+    startWorkRestSession(testModel);
+
+    offerBreakAfterMeetings(getMeetingRuns()[0]);
+    await clock.tickAsync(0);
+
+    assert.strictEqual(getCurrentSession()?.isWorking, false);
+    assert.strictEqual(isRestEnforced(), true);
+  });
+
+  test('follows today\'s time blocks: long deep work, short admin cycles, named in the status bar', async () => {
+    acceptBreaks();
+    const statusBarItem = { text: '', show: () => undefined };
+    state.statusBarItem = statusBarItem as never;
+    state.storage!.saveCustomSetting('timeBlocking.blocks', {
+      1: [
+        { id: 'focus', name: 'Deep Work', startTime: 9 * 60, duration: 120, type: 'deep-work', priority: 5, recurring: true, daysOfWeek: [1] },
+        { id: 'admin', name: 'Email', startTime: 11 * 60, duration: 60, type: 'admin', priority: 2, recurring: false }
+      ]
+    });
+    startWorkRestSession(testModel);
+
+    assert.strictEqual(getCurrentSession()!.endTime.getTime() - Date.now(), 90 * MINUTE);
+    assert.ok(statusBarItem.text.includes('🎯 Deep Work'));
+
+    // After the break the rest of the block is all that is left to work
+    await clock.tickAsync(95 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.endTime.getTime(), new Date('2026-03-02T11:00:00').getTime());
+
+    // Long rest until 11:15, then admin work in short cycles
+    await clock.tickAsync(40 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.endTime.getTime() - Date.now(), 20 * MINUTE);
+    assert.ok(statusBarItem.text.includes('📋 Email'));
+  });
+
+  test('holds breaks through meeting blocks and rests through break blocks', async () => {
+    acceptBreaks();
+    state.storage!.saveCustomSetting('timeBlocking.blocks', {
+      1: [
+        { id: 'sync', name: 'Team Sync', startTime: 9 * 60 + 20, duration: 40, type: 'meetings', priority: 4, recurring: false },
+        { id: 'lunch', name: 'Lunch', startTime: 10 * 60 + 30, duration: 45, type: 'breaks', priority: 3, recurring: false }
+      ]
+    });
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+    assert.strictEqual(getCurrentSession()!.endTime.getTime(), new Date('2026-03-02T10:00:00').getTime());
+
+    // Break at 10:00, back to work at 10:05, then lunch starts mid work period
+    await clock.tickAsync(40 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+    await clock.tickAsync(25 * MINUTE);
+    const session = getCurrentSession()!;
+    assert.strictEqual(session.isWorking, false);
+    assert.strictEqual(session.endTime.getTime(), new Date('2026-03-02T11:15:00').getTime());
+    assert.strictEqual(isRestEnforced(), true);
+  });
+
+  test('holds a break through a debug session and starts rest when it ends', async () => {
+    acceptBreaks();
+    initializeRestDeferral(mock.context, trackDebugSessions());
+    const session = { id: 'debug-1', name: 'Launch API' };
+    startWorkRestSession(testModel);
+
+    vscodeStub.__fireDebugSession(true, session);
+    await clock.tickAsync(25 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+    assert.strictEqual(getCurrentSession()!.endTime.getTime() - Date.now(), 20 * MINUTE);
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('debug session "Launch API"')));
+
+    await clock.tickAsync(7 * MINUTE);
+    vscodeStub.__fireDebugSession(false, session);
+
+    assert.strictEqual(getCurrentSession()!.isWorking, false);
+    assert.strictEqual(isRestEnforced(), true);
+  });
+
+  test('long tasks hold a break only up to the limit, and watch tasks never do', async () => {
+    acceptBreaks();
+    vscodeStub.__setConfiguration({ 'dotsense.annoyanceLevel': 'mild', 'dotsense.restDeferral.maxMinutes': 10 });
+    initializeRestDeferral(mock.context, trackDebugSessions());
+    const deploy = { task: { name: 'deploy', isBackground: false } };
+    const watch = { task: { name: 'tsc: watch', isBackground: true } };
+    startWorkRestSession(testModel);
+
+    vscodeStub.__fireTask(true, watch);
+    vscodeStub.__fireTask(true, deploy);
+    await clock.tickAsync(25 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+
+    // Deploy still running when the limit runs out - the break is offered anyway
+    await clock.tickAsync(10 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, false);
+
+    vscodeStub.__fireTask(false, deploy);
+    vscodeStub.__fireTask(false, watch);
+  });
+
+  test('tasks that only just started do not hold a break', async () => {
+    acceptBreaks();
+    initializeRestDeferral(mock.context, trackDebugSessions());
+    const lint = { task: { name: 'lint', isBackground: false } };
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE - 10 * 1000);
+    vscodeStub.__fireTask(true, lint);
+    await clock.tickAsync(10 * 1000);
+
+    assert.strictEqual(getCurrentSession()!.isWorking, false);
+    vscodeStub.__fireTask(false, lint);
+  });
+
+  test('holds a break while another window runs a task and starts rest when it ends', async () => {
+    acceptBreaks();
+    initializeRestDeferral(mock.context, trackDebugSessions());
+    initializeWindowCoordinator(mock.context, {
+      onBecomeLeader: () => undefined,
+      onBecomeFollower: () => undefined,
+      publishState: () => ({ statusBarText: '', nextReminder: null, phase: null }),
+      applyState: () => undefined,
+      ingestActivity: () => undefined,
+      runSessionCommand: () => undefined,
+      describeWindow: () => ({ branches: [], folders: [], restBlockers: [] })
+    });
+    const otherWindow = (restBlockers: RestDeferralBlocker[]) => fs.writeFileSync(
+      path.join(mock.storageDir, 'windows', 'other.json'),
+      JSON.stringify({ windowId: 'other', branches: [], folders: [], restBlockers, dataRevisions: {}, updatedAt: Date.now() })
+    );
+    startWorkRestSession(testModel);
+
+    await clock.tickAsync(25 * MINUTE - 10 * 1000);
+    otherWindow([{ kind: 'task', name: 'deploy' }]);
+    await clock.tickAsync(10 * 1000);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('task "deploy"')));
+
+    otherWindow([]);
+    await clock.tickAsync(5 * 1000);
+    assert.strictEqual(getCurrentSession()!.isWorking, false);
+  });
+
+  test('no more deferrals once the daily limit is used', async () => {
+    acceptBreaks();
+    vscodeStub.__setConfiguration({ 'dotsense.annoyanceLevel': 'mild', 'dotsense.restDeferral.maxPerDay': 0 });
+    initializeRestDeferral(mock.context, trackDebugSessions());
+    const session = { id: 'debug-2', name: 'Tests' };
+    startWorkRestSession(testModel);
+
+    vscodeStub.__fireDebugSession(true, session);
+    await clock.tickAsync(25 * MINUTE);
+
+    assert.strictEqual(getCurrentSession()!.isWorking, false);
+    vscodeStub.__fireDebugSession(false, session);
+  });
+
+  test('extends work in steps while in flow, up to the cap, and lengthens the break to match', async () => {
+    acceptBreaks();
+    state.activityMonitor = {} as never;
+    const delay = sinon.stub(SmartScheduler.prototype, 'getBreakDelayMinutes').returns(15);
+    startWorkRestSession(testModel);
+
+    // Default activity settings: 5 minute steps, at most 15 minutes in total
+    await clock.tickAsync(25 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+    assert.strictEqual(getCurrentSession()!.flowExtensionMinutes, 5);
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('in flow')));
+
+    await clock.tickAsync(10 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.isWorking, true);
+    await clock.tickAsync(5 * MINUTE);
+
+    // 15 extra minutes at the model's 25:5 ratio earn 3 more minutes of rest
+    const session = getCurrentSession()!;
+    assert.strictEqual(session.isWorking, false);
+    assert.strictEqual(session.endTime.getTime() - Date.now(), 8 * MINUTE);
+    assert.strictEqual(delay.callCount, 3);
+
+    // The next work period starts without an extension
+    delay.returns(0);
+    await clock.tickAsync(8 * MINUTE);
+    assert.strictEqual(getCurrentSession()!.flowExtensionMinutes, 0);
+    assert.strictEqual(getCurrentSession()!.endTime.getTime() - Date.now(), 25 * MINUTE);
+  });
+
+  test('credits flow extensions to the break at the work:rest ratio, at least one minute', async () => {
+    acceptBreaks();
+    state.activityMonitor = {} as never;
+    const delay = sinon.stub(SmartScheduler.prototype, 'getBreakDelayMinutes').returns(0);
+    delay.onFirstCall().returns(15);
+    startWorkRestSession({ ...testModel, workDuration: 90 });
+
+    await clock.tickAsync(95 * MINUTE);
+
+    // 5 extra minutes on 90:5 earn under 20 seconds, rounded up to a whole minute
+    const session = getCurrentSession()!;
+    assert.strictEqual(session.isWorking, false);
+    assert.strictEqual(session.flowExtensionMinutes, 5);
+    assert.strictEqual(session.endTime.getTime() - Date.now(), 6 * MINUTE);
+    assert.ok(vscodeStub.__getMessages().some(m => m.message.includes('grows in proportion')));
+  });
+});
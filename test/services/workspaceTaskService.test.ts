@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscodeStub from '../stubs/vscode';
+import { state } from '../../src/models/state';
+import { ExtensionStorage } from '../../src/utils/storage';
+import { BaseActivityMonitor } from '../../src/services/activityIntegration/baseActivityMonitor';
+import { AdvancedSchedulerService, advancedScheduler, initializeAdvancedScheduler } from '../../src/services/activityIntegration/advancedSchedulerService';
+import { applyTaskMarkers, initializeWorkspaceTasks } from '../../src/services/workspaceTaskService';
+import { parseTaskMarkers } from '../../src/utils/taskMarkerParser';
+import { createMockExtensionContext, MockExtensionContext } from '../helpers/extensionContext';
+
+const FILE = '/workspace/src/app.ts';
+const NOTES = '/workspace/NOTES.md';
+
+suite('workspaceTaskService', () => {
+  let clock: sinon.SinonFakeTimers;
+  let mock: MockExtensionContext;
+
+  const sync = (file: string, text: string) => applyTaskMarkers(new Map([[file, parseTaskMarkers(text, file)]]));
+  const tasks = (includeCompleted = false) => advancedScheduler!.getTasks(includeCompleted);
+
+  setup(() => {
+    vscodeStub.__reset();
+    clock = sinon.useFakeTimers({ now: new Date('2026-03-02T09:00:00'), toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date'] });
+    mock = createMockExtensionContext();
+    state.storage = new ExtensionStorage(mock.context);
+    initializeAdvancedScheduler({} as BaseActivityMonitor);
+  });
+
+  teardown(() => {
+    sinon.restore();
+    clock.restore();
+    state.storage = undefined;
+    mock.dispose();
+  });
+
+  test('imports open markers once and follows them when lines move', () => {
+    assert.deepStrictEqual(sync(FILE, '// TODO first\n// FIXME second'), { added: 2, completed: 0, reopened: 0 });
+    assert.deepStrictEqual(sync(FILE, '\n\n// TODO first\n// FIXME second'), { added: 0, completed: 0, reopened: 0 });
+
+    const first = tasks().find(t => t.name === 'first');
+    assert.strictEqual(first?.source?.line, 2);
+    assert.strictEqual(first?.source?.file, FILE);
+  });
+
+  test('completes a task when its comment is removed and reopens it when it returns', () => {
+    sync(FILE, '// TODO first\n// TODO second');
+
+    assert.deepStrictEqual(sync(FILE, '// TODO second'), { added: 0, completed: 1, reopened: 0 });
+    assert.deepStrictEqual(tasks().map(t => t.name), ['second']);
+
+    assert.deepStrictEqual(sync(FILE, '// TODO first\n// TODO second'), { added: 0, completed: 0, reopened: 1 });
+    assert.strictEqual(tasks().length, 2);
+  });
+
+  test('completes checklist items when the box is checked', () => {
+    sync(NOTES, '- [ ] Write changelog\n- [ ] Tag release');
+    sync(NOTES, '- [x] Write changelog\n- [ ] Tag release');
+
+    assert.deepStrictEqual(tasks().map(t => t.name), ['Tag release']);
+    assert.ok(tasks(true).find(t => t.name === 'Write changelog')?.completed);
+  });
+
+  test('keeps triage done in the task matrix and leaves other files alone', () => {
+    sync(FILE, '// TODO tidy imports');
+    sync(NOTES, '- [ ] Write changelog');
+    const [task] = tasks().filter(t => t.source?.file === FILE);
+    advancedScheduler!.updateTask(task.id, { priority: 'urgent-important' });
+
+    sync(FILE, '// TODO tidy imports');
+
+    assert.strictEqual(tasks().find(t => t.id === task.id)?.priority, 'urgent-important');
+    assert.strictEqual(tasks().length, 2);
+  });
+
+  test('keeps tasks and triage another window saved in the meantime', () => {
+    sync(FILE, '// TODO tidy imports');
+    const otherWindow = new AdvancedSchedulerService({} as BaseActivityMonitor);
+    const [task] = tasks();
+
+    // This window triages while the other, already loaded, imports a new file and moves the line
+    advancedScheduler!.updateTask(task.id, { priority: 'urgent-important' });
+    otherWindow.addTask({ name: 'Write changelog', priority: 'not-urgent-important', estimatedDuration: 30, energyRequired: 'medium', complexity: 'moderate' });
+    otherWindow.updateTask(task.id, { source: { ...task.source!, line: 4 } });
+
+    const stored = new AdvancedSchedulerService({} as BaseActivityMonitor).getTasks();
+    assert.deepStrictEqual(stored.map(t => t.name), ['tidy imports', 'Write changelog']);
+    assert.strictEqual(stored[0].priority, 'urgent-important');
+    assert.strictEqual(stored[0].source?.line, 4);
+  });
+
+  test('syncs files that change on disk without a save', async () => {
+    const file = path.join(mock.storageDir, 'TODO.md');
+    sinon.stub(vscodeStub.workspace, 'getWorkspaceFolder').returns({ uri: vscodeStub.Uri.file(mock.storageDir) });
+    sinon.stub(vscodeStub.workspace, 'findFiles').callsFake((() => Promise.resolve([vscodeStub.Uri.file(file)])) as never);
+    initializeWorkspaceTasks(mock.context);
+    await clock.tickAsync(0);
+
+    fs.writeFileSync(file, '- [ ] Tag release');
+    vscodeStub.__fireFileChange('create', vscodeStub.Uri.file(file));
+    await clock.tickAsync(1000);
+    assert.deepStrictEqual(tasks().map(t => t.name), ['Tag release']);
+
+    fs.unlinkSync(file);
+    vscodeStub.__fireFileChange('delete', vscodeStub.Uri.file(file));
+    await clock.tickAsync(1000);
+    assert.deepStrictEqual(tasks(), []);
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Mocha bootstrap: point every `require('vscode')` at the stand-in before any service loads.
+ */
+import * as path from 'path';
+import Module = require('module');
+
+type ResolveFilename = (request: string, ...rest: unknown[]) => string;
+
+const moduleInternals = Module as unknown as { _resolveFilename: ResolveFilename };
+const originalResolveFilename = moduleInternals._resolveFilename;
+const vscodeStubPath = path.join(__dirname, 'stubs', 'vscode.js');
+
+moduleInternals._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]): string {
+  if (request === 'vscode') {
+    return vscodeStubPath;
+  }
+  return originalResolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,382 @@
+/**
+ * Minimal stand-in for the `vscode` module so services can be unit tested in plain Node.
+ * Only the API surface DotSense touches at import time or in the tested code paths is implemented.
+ * Test helpers are exported with a `__` prefix.
+ */
+
+import * as nodeFs from 'fs';
+
+type Listener<T> = (event: T) => unknown;
+
+export class Disposable {
+  constructor(private readonly callOnDispose: () => void = () => undefined) {}
+
+  static from(...disposables: Array<{ dispose(): unknown }>): Disposable {
+    return new Disposable(() => disposables.forEach(d => d.dispose()));
+  }
+
+  dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners: Listener<T>[] = [];
+
+  event = (listener: Listener<T>): Disposable => {
+    this.listeners.push(listener);
+    return new Disposable(() => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    });
+  };
+
+  fire(data: T): void {
+    [...this.listeners].forEach(listener => listener(data));
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+export class Position {
+  constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+  constructor(readonly start: Position, readonly end: Position) {}
+}
+
+export class ThemeColor {
+  constructor(readonly id: string) {}
+}
+
+export class Uri {
+  private constructor(readonly scheme: string, readonly fsPath: string) {}
+
+  get path(): string {
+    return this.fsPath;
+  }
+
+  static file(fsPath: string): Uri {
+    return new Uri('file', fsPath);
+  }
+
+  static parse(value: string): Uri {
+    return new Uri(value.split(':')[0] || 'file', value.replace(/^[a-z]+:\/\//, ''));
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(base.scheme, [base.fsPath, ...segments].join('/'));
+  }
+
+  toString(): string {
+    return `${this.scheme}://${this.fsPath}`;
+  }
+}
+
+export class RelativePattern {
+  constructor(readonly base: unknown, readonly pattern: string) {}
+}
+
+export enum StatusBarAlignment { Left = 1, Right = 2 }
+export enum ConfigurationTarget { Global = 1, Workspace = 2, WorkspaceFolder = 3 }
+export enum ViewColumn { Active = -1, Beside = -2, One = 1, Two = 2, Three = 3 }
+export enum DecorationRangeBehavior { OpenOpen = 0, ClosedClosed = 1, OpenClosed = 2, ClosedOpen = 3 }
+export enum OverviewRulerLane { Left = 1, Center = 2, Right = 4, Full = 7 }
+export enum ProgressLocation { SourceControl = 1, Window = 10, Notification = 15 }
+
+// ===== Configuration =====
+
+let configurationValues: Record<string, unknown> = {};
+
+function createConfiguration(section?: string) {
+  const fullKey = (key: string): string => section ? `${section}.${key}` : key;
+
+  return {
+    get<T>(key: string, defaultValue?: T): T | undefined {
+      const value = configurationValues[fullKey(key)];
+      return value === undefined ? defaultValue : value as T;
+    },
+    has(key: string): boolean {
+      return fullKey(key) in configurationValues;
+    },
+    inspect(key: string) {
+      return { key: fullKey(key), globalValue: configurationValues[fullKey(key)] };
+    },
+    update(key: string, value: unknown): Promise<void> {
+      configurationValues[fullKey(key)] = value;
+      return Promise.resolve();
+    }
+  };
+}
+
+// ===== Window =====
+
+export interface RecordedMessage {
+  level: 'info' | 'warning' | 'error';
+  message: string;
+  items: string[];
+}
+
+const recordedMessages: RecordedMessage[] = [];
+let messageResponder: (message: RecordedMessage) => string | undefined = () => undefined;
+
+function showMessage(level: RecordedMessage['level']) {
+  return (message: string, ...items: unknown[]): Promise<string | undefined> => {
+    const recorded: RecordedMessage = {
+      level,
+      message,
+      items: items.filter((item): item is string => typeof item === 'string')
+    };
+    recordedMessages.push(recorded);
+    return Promise.resolve(messageResponder(recorded));
+  };
+}
+
+const windowEvents = {
+  activeTextEditor: new EventEmitter<unknown>(),
+  windowState: new EventEmitter<{ focused: boolean }>(),
+  textEditorSelection: new EventEmitter<unknown>(),
+  visibleTextEditors: new EventEmitter<unknown>()
+};
+
+export const window = {
+  state: { focused: true },
+  activeTextEditor: undefined as unknown,
+  visibleTextEditors: [] as unknown[],
+  showInformationMessage: showMessage('info'),
+  showWarningMessage: showMessage('warning'),
+  showErrorMessage: showMessage('error'),
+  showQuickPick: (): Promise<undefined> => Promise.resolve(undefined),
+  showInputBox: (): Promise<undefined> => Promise.resolve(undefined),
+  showSaveDialog: (): Promise<undefined> => Promise.resolve(undefined),
+  showOpenDialog: (): Promise<undefined> => Promise.resolve(undefined),
+  withProgress: <T>(_options: unknown, task: (progress: { report(): void }) => Promise<T>): Promise<T> =>
+    task({ report: () => undefined }),
+  createStatusBarItem: () => ({
+    text: '',
+    tooltip: '' as string | undefined,
+    command: undefined as string | undefined,
+    visible: false,
+    show(): void { this.visible = true; },
+    hide(): void { this.visible = false; },
+    dispose(): void { this.visible = false; }
+  }),
+  createOutputChannel: (name: string) => ({
+    name,
+    lines: [] as string[],
+    append(value: string): void { this.lines.push(value); },
+    appendLine(value: string): void { this.lines.push(value); },
+    clear(): void { this.lines = []; },
+    show: (): void => undefined,
+    hide: (): void => undefined,
+    dispose: (): void => undefined
+  }),
+  createTextEditorDecorationType: () => new Disposable(),
+  createWebviewPanel: () => {
+    const disposeEmitter = new EventEmitter<void>();
+    let disposed = false;
+    return {
+      webview: {
+        html: '',
+        cspSource: 'vscode-resource:',
+        options: {},
+        asWebviewUri: (uri: Uri) => uri,
+        postMessage: (): Promise<boolean> => Promise.resolve(true),
+        onDidReceiveMessage: new EventEmitter<unknown>().event
+      },
+      reveal: (): void => undefined,
+      onDidDispose: disposeEmitter.event,
+      onDidChangeViewState: new EventEmitter<unknown>().event,
+      // Like VS Code, a panel reports disposal once
+      dispose: (): void => {
+        if (!disposed) {
+          disposed = true;
+          disposeEmitter.fire();
+        }
+      }
+    };
+  },
+  registerWebviewViewProvider: () => new Disposable(),
+  onDidChangeActiveTextEditor: windowEvents.activeTextEditor.event,
+  onDidChangeWindowState: windowEvents.windowState.event,
+  onDidChangeTextEditorSelection: windowEvents.textEditorSelection.event,
+  onDidChangeVisibleTextEditors: windowEvents.visibleTextEditors.event
+};
+
+// ===== Workspace =====
+
+const workspaceEvents = {
+  textDocumentChanged: new EventEmitter<unknown>(),
+  textDocumentSaved: new EventEmitter<unknown>(),
+  textDocumentOpened: new EventEmitter<unknown>(),
+  textDocumentClosed: new EventEmitter<unknown>(),
+  willSaveTextDocument: new EventEmitter<unknown>(),
+  configurationChanged: new EventEmitter<{ affectsConfiguration(section: string): boolean }>()
+};
+
+type FileChangeKind = 'create' | 'change' | 'delete';
+
+const fileWatchers = new Set<Record<FileChangeKind, EventEmitter<Uri>>>();
+
+function createFileSystemWatcher(globPattern: string) {
+  const emitters = { create: new EventEmitter<Uri>(), change: new EventEmitter<Uri>(), delete: new EventEmitter<Uri>() };
+  fileWatchers.add(emitters);
+  return {
+    globPattern,
+    onDidCreate: emitters.create.event,
+    onDidChange: emitters.change.event,
+    onDidDelete: emitters.delete.event,
+    dispose: (): void => { fileWatchers.delete(emitters); }
+  };
+}
+
+export const workspace = {
+  workspaceFolders: undefined as unknown,
+  textDocuments: [] as unknown[],
+  getConfiguration: createConfiguration,
+  onDidChangeTextDocument: workspaceEvents.textDocumentChanged.event,
+  onDidSaveTextDocument: workspaceEvents.textDocumentSaved.event,
+  onDidOpenTextDocument: workspaceEvents.textDocumentOpened.event,
+  onDidCloseTextDocument: workspaceEvents.textDocumentClosed.event,
+  onWillSaveTextDocument: workspaceEvents.willSaveTextDocument.event,
+  onDidChangeConfiguration: workspaceEvents.configurationChanged.event,
+  getWorkspaceFolder: (): unknown => undefined,
+  findFiles: (): Promise<Uri[]> => Promise.resolve([]),
+  createFileSystemWatcher,
+  asRelativePath: (uri: Uri): string => uri.fsPath,
+  fs: {
+    readFile: (uri: Uri): Promise<Uint8Array> => Promise.resolve(nodeFs.readFileSync(uri.fsPath))
+  },
+  openTextDocument: (): Promise<unknown> => Promise.resolve({ getText: () => '' })
+};
+
+// ===== Commands =====
+
+const registeredCommands = new Map<string, (...args: unknown[]) => unknown>();
+const executedCommands: Array<{ command: string; args: unknown[] }> = [];
+
+export const commands = {
+  registerCommand(command: string, callback: (...args: unknown[]) => unknown): Disposable {
+    registeredCommands.set(command, callback);
+    return new Disposable(() => registeredCommands.delete(command));
+  },
+  executeCommand(command: string, ...args: unknown[]): Promise<unknown> {
+    executedCommands.push({ command, args });
+    const handler = registeredCommands.get(command);
+    return Promise.resolve(handler ? handler(...args) : undefined);
+  },
+  getCommands: (): Promise<string[]> => Promise.resolve(Array.from(registeredCommands.keys()))
+};
+
+// ===== Misc namespaces =====
+
+export const env = {
+  machineId: 'test-machine-id',
+  language: 'en',
+  appName: 'Visual Studio Code',
+  clipboard: {
+    text: '',
+    writeText(value: string): Promise<void> {
+      this.text = value;
+      return Promise.resolve();
+    },
+    readText(): Promise<string> {
+      return Promise.resolve(this.text);
+    }
+  },
+  openExternal: (): Promise<boolean> => Promise.resolve(true)
+};
+
+export const extensions = {
+  getExtension: (): undefined => undefined,
+  all: [] as unknown[]
+};
+
+const debugEvents = {
+  sessionStarted: new EventEmitter<unknown>(),
+  sessionTerminated: new EventEmitter<unknown>()
+};
+
+export const debug = {
+  activeDebugSession: undefined as unknown,
+  onDidStartDebugSession: debugEvents.sessionStarted.event,
+  onDidTerminateDebugSession: debugEvents.sessionTerminated.event,
+  onDidChangeActiveDebugSession: new EventEmitter<unknown>().event,
+  breakpoints: [] as unknown[],
+  onDidChangeBreakpoints: new EventEmitter<unknown>().event
+};
+
+const taskEvents = {
+  taskStarted: new EventEmitter<unknown>(),
+  taskEnded: new EventEmitter<unknown>()
+};
+
+export const tasks = {
+  taskExecutions: [] as unknown[],
+  onDidStartTask: taskEvents.taskStarted.event,
+  onDidEndTask: taskEvents.taskEnded.event,
+  onDidStartTaskProcess: new EventEmitter<unknown>().event,
+  onDidEndTaskProcess: new EventEmitter<unknown>().event
+};
+
+export const languages = {
+  getDiagnostics: (): unknown[] => [],
+  match: (): number => 0,
+  onDidChangeDiagnostics: new EventEmitter<unknown>().event
+};
+
+export const version = '1.90.0';
+
+// ===== Test helpers =====
+
+export function __setConfiguration(values: Record<string, unknown>): void {
+  configurationValues = { ...values };
+}
+
+export function __getConfiguration(): Record<string, unknown> {
+  return configurationValues;
+}
+
+export function __getMessages(): RecordedMessage[] {
+  return recordedMessages;
+}
+
+/** Decides which button the "user" clicks on each notification */
+export function __setMessageResponder(responder: (message: RecordedMessage) => string | undefined): void {
+  messageResponder = responder;
+}
+
+export function __getExecutedCommands(): Array<{ command: string; args: unknown[] }> {
+  return executedCommands;
+}
+
+export function __isCommandRegistered(command: string): boolean {
+  return registeredCommands.has(command);
+}
+
+export function __fireTextDocumentChange(event: unknown): void {
+  workspaceEvents.textDocumentChanged.fire(event);
+}
+
+export function __fireFileChange(kind: FileChangeKind, uri: Uri): void {
+  fileWatchers.forEach(watcher => watcher[kind].fire(uri));
+}
+
+export function __fireDebugSession(started: boolean, session: unknown): void {
+  (started ? debugEvents.sessionStarted : debugEvents.sessionTerminated).fire(session);
+}
+
+export function __fireTask(started: boolean, execution: unknown): void {
+  (started ? taskEvents.taskStarted : taskEvents.taskEnded).fire({ execution });
+}
+
+export function __reset(): void {
+  configurationValues = {};
+  recordedMessages.length = 0;
+  executedCommands.length = 0;
+  messageResponder = () => undefined;
+  window.activeTextEditor = undefined;
+  window.visibleTextEditors = [];
+}
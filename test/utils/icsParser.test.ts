@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import { expandIcsEvents } from '../../src/utils/icsParser';
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+const rangeStart = new Date('2026-03-01T00:00:00Z');
+const rangeEnd = new Date('2026-04-01T00:00:00Z');
+
+suite('icsParser', () => {
+  test('reads a single UTC event with folded lines', () => {
+    const events = expandIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:standup-1',
+      'SUMMARY:Design ',
+      ' review',
+      'DTSTART:20260310T140000Z',
+      'DTEND:20260310T150000Z',
+      'END:VEVENT'
+    ), rangeStart, rangeEnd);
+
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].summary, 'Design review');
+    assert.strictEqual(events[0].start.toISOString(), '2026-03-10T14:00:00.000Z');
+    assert.strictEqual(events[0].end.toISOString(), '2026-03-10T15:00:00.000Z');
+    assert.strictEqual(events[0].allDay, false);
+  });
+
+  test('converts IANA TZID times and keeps wall time across DST', () => {
+    const events = expandIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:sync',
+      'SUMMARY:Team sync',
+      'DTSTART;TZID=America/New_York:20260305T090000',
+      'DURATION:PT30M',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+      'END:VEVENT'
+    ), rangeStart, rangeEnd);
+
+    // US clocks change on 8 March 2026, the meeting stays at 09:00 local
+    assert.deepStrictEqual(events.map(e => e.start.toISOString()), [
+      '2026-03-05T14:00:00.000Z',
+      '2026-03-12T13:00:00.000Z'
+    ]);
+    assert.strictEqual(events[0].end.getTime() - events[0].start.getTime(), 30 * 60 * 1000);
+  });
+
+  test('uses VTIMEZONE definitions from the file', () => {
+    const events = expandIcsEvents(calendar(
+      'BEGIN:VTIMEZONE',
+      'TZID:Custom Standard Time',
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0200',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'UID:custom',
+      'SUMMARY:Planning',
+      'DTSTART;TZID="Custom Standard Time":20260310T100000',
+      'DTEND;TZID="Custom Standard Time":20260310T110000',
+      'END:VEVENT'
+    ), rangeStart, rangeEnd);
+
+    assert.strictEqual(events[0].start.toISOString(), '2026-03-10T08:00:00.000Z');
+  });
+
+  test('expands weekly rules with EXDATE and moved RECURRENCE-ID instances', () => {
+    const events = expandIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:weekly',
+      'SUMMARY:1:1',
+      'DTSTART:20260302T100000Z',
+      'DTEND:20260302T103000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260312T000000Z',
+      'EXDATE:20260304T100000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:weekly',
+      'RECURRENCE-ID:20260309T100000Z',
+      'SUMMARY:1:1 (moved)',
+      'DTSTART:20260309T150000Z',
+      'DTEND:20260309T153000Z',
+      'END:VEVENT'
+    ), rangeStart, rangeEnd);
+
+    assert.deepStrictEqual(events.map(e => [e.summary, e.start.toISOString()]), [
+      ['1:1', '2026-03-02T10:00:00.000Z'],
+      ['1:1 (moved)', '2026-03-09T15:00:00.000Z'],
+      ['1:1', '2026-03-11T10:00:00.000Z']
+    ]);
+  });
+
+  test('expands monthly rules on the last Friday', () => {
+    const events = expandIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:retro',
+      'SUMMARY:Retro',
+      'DTSTART:20260130T160000Z',
+      'DTEND:20260130T170000Z',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR',
+      'END:VEVENT'
+    ), rangeStart, new Date('2026-06-01T00:00:00Z'));
+
+    assert.deepStrictEqual(events.map(e => e.start.toISOString().slice(0, 10)), [
+      '2026-03-27',
+      '2026-04-24',
+      '2026-05-29'
+    ]);
+  });
+
+  test('drops cancelled events and flags transparent and all-day ones', () => {
+    const events = expandIcsEvents(calendar(
+      'BEGIN:VEVENT',
+      'UID:cancelled',
+      'SUMMARY:Cancelled',
+      'STATUS:CANCELLED',
+      'DTSTART:20260310T090000Z',
+      'DTEND:20260310T100000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:focus',
+      'SUMMARY:Focus time',
+      'TRANSP:TRANSPARENT',
+      'DTSTART:20260310T110000Z',
+      'DTEND:20260310T120000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:holiday',
+      'SUMMARY:Holiday',
+      'DTSTART;VALUE=DATE:20260311',
+      'END:VEVENT'
+    ), rangeStart, rangeEnd);
+
+    assert.deepStrictEqual(events.map(e => [e.uid, e.transparent, e.allDay]), [
+      ['focus', true, false],
+      ['holiday', false, true]
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { buildIcsCalendar } from '../../src/utils/icsWriter';
+import { expandIcsEvents } from '../../src/utils/icsParser';
+
+const rangeStart = new Date('2026-03-01T00:00:00Z');
+const rangeEnd = new Date('2026-04-01T00:00:00Z');
+
+suite('icsWriter', () => {
+  test('writes one-off events in UTC', () => {
+    const ics = buildIcsCalendar([{
+      uid: 'spike',
+      summary: 'Spike',
+      start: new Date('2026-03-10T14:00:00Z'),
+      end: new Date('2026-03-10T15:00:00Z'),
+      timeZone: 'America/New_York'
+    }], 'Test');
+
+    assert.ok(ics.includes('DTSTART:20260310T140000Z'));
+    assert.ok(!ics.includes('TZID'));
+  });
+
+  test('defines each time zone repeating events use', () => {
+    const ics = buildIcsCalendar([{
+      uid: 'focus',
+      summary: 'Deep Work',
+      start: new Date('2026-03-02T14:00:00Z'),
+      end: new Date('2026-03-02T15:30:00Z'),
+      timeZone: 'America/New_York',
+      weeklyOn: [1]
+    }], 'Test');
+
+    assert.ok(ics.includes('DTSTART;TZID=America/New_York:20260302T090000'));
+    assert.strictEqual(ics.match(/BEGIN:VTIMEZONE/g)?.length, 1);
+    assert.ok(ics.includes('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU\r\nTZOFFSETFROM:-0500\r\nTZOFFSETTO:-0400'));
+    assert.ok(ics.includes('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU\r\nTZOFFSETFROM:-0400\r\nTZOFFSETTO:-0500'));
+
+    // Read through the VTIMEZONE alone, the Monday after the change keeps its 09:00 wall time
+    const starts = expandIcsEvents(ics.replace(/America\/New_York/g, 'Eastern'), rangeStart, rangeEnd)
+      .map(event => event.start.toISOString());
+    assert.strictEqual(starts[0], '2026-03-02T14:00:00.000Z');
+    assert.strictEqual(starts[1], '2026-03-09T13:00:00.000Z');
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { TimeBlock } from '../../src/types';
+import { parseScheduleTemplates, applyTemplateToDays, createTemplateFromBlocks } from '../../src/utils/scheduleTemplates';
+import { getBlocksForDay } from '../../src/utils/timeBlocks';
+import { BUILT_IN_TEMPLATES } from '../../src/services/scheduleTemplateService';
+
+suite('scheduleTemplates', () => {
+  test('reads export files, bare lists and single templates, skipping invalid ones', () => {
+    const makerDay = { name: 'Maker Day!', blocks: [{ name: 'Focus', startTime: 540, duration: 180, type: 'deep-work', priority: 12 }] };
+
+    const fromFile = parseScheduleTemplates({
+      version: 1,
+      templates: [
+        makerDay,
+        { name: 'Broken', blocks: [{ name: 'Late', startTime: 1400, duration: 60, type: 'admin' }] },
+        { name: 'Overlap', blocks: [
+          { name: 'A', startTime: 540, duration: 60, type: 'admin' },
+          { name: 'B', startTime: 570, duration: 60, type: 'meetings' }
+        ] },
+        { name: 'Odd', blocks: [{ name: 'Nap', startTime: 600, duration: 30, type: 'siesta' }] }
+      ]
+    });
+    assert.deepStrictEqual(fromFile.templates.map(t => [t.id, t.name, t.blocks[0].priority]), [['maker-day', 'Maker Day!', 10]]);
+    assert.strictEqual(fromFile.errors.length, 3);
+    assert.ok(fromFile.errors[1].includes('overlaps'));
+
+    assert.strictEqual(parseScheduleTemplates([makerDay]).templates.length, 1);
+    assert.strictEqual(parseScheduleTemplates(makerDay).templates.length, 1);
+    assert.deepStrictEqual(parseScheduleTemplates({ version: 2, templates: [makerDay] }).templates, []);
+  });
+
+  test('applying a template replaces the chosen weekdays and keeps recurring blocks elsewhere', () => {
+    const recurring: TimeBlock = { id: 'standup', name: 'Standup', startTime: 570, duration: 15, type: 'meetings', priority: 3, recurring: true, daysOfWeek: [1, 2, 3] };
+    const oneOff: TimeBlock = { id: 'demo', name: 'Demo', startTime: 900, duration: 60, type: 'meetings', priority: 4, recurring: false };
+    const halfDay = BUILT_IN_TEMPLATES.find(template => template.id === 'half-day')!;
+
+    const result = applyTemplateToDays({ 1: [recurring], 2: [oneOff] }, halfDay, [2, 5]);
+
+    assert.deepStrictEqual(getBlocksForDay(result, 1).map(b => b.id), ['standup']);
+    assert.deepStrictEqual(getBlocksForDay(result, 3).map(b => b.id), ['standup']);
+    assert.deepStrictEqual(getBlocksForDay(result, 2).map(b => b.name), halfDay.blocks.map(b => b.name));
+    assert.deepStrictEqual(getBlocksForDay(result, 5).map(b => b.name), halfDay.blocks.map(b => b.name));
+    assert.ok(getBlocksForDay(result, 2).every(b => !b.recurring && !b.daysOfWeek));
+  });
+
+  test('a saved day round-trips through a template', () => {
+    const blocks: TimeBlock[] = [
+      { id: 'b', name: 'Review', startTime: 780, duration: 60, type: 'admin', priority: 2, recurring: false },
+      { id: 'a', name: 'Build', startTime: 540, duration: 120, type: 'deep-work', priority: 5, recurring: true, daysOfWeek: [4] }
+    ];
+
+    const template = createTemplateFromBlocks('Release day', blocks);
+    const parsed = parseScheduleTemplates(JSON.parse(JSON.stringify(template)));
+
+    assert.deepStrictEqual(parsed.errors, []);
+    assert.deepStrictEqual(parsed.templates[0], template);
+    assert.deepStrictEqual(template.blocks.map(b => b.name), ['Build', 'Review']);
+  });
+
+  test('built-in templates are valid', () => {
+    assert.deepStrictEqual(parseScheduleTemplates(BUILT_IN_TEMPLATES).errors, []);
+    assert.deepStrictEqual(BUILT_IN_TEMPLATES.map(t => t.name), ['Balanced day', 'Maker day', 'Manager day', 'On-call', 'Half day']);
+  });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import {
+  runStorageMigrations,
+  getStoredSchemaVersion,
+  getMigrationBackups,
+  STORAGE_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  StorageMigration
+} from '../../src/utils/storageMigrations';
+import { MockMemento } from '../helpers/extensionContext';
+
+suite('storageMigrations', () => {
+  let globalState: MockMemento;
+
+  setup(() => {
+    globalState = new MockMemento();
+  });
+
+  test('treats a fresh install as current without running migrations', () => {
+    const result = runStorageMigrations(globalState);
+
+    assert.strictEqual(result.fromVersion, STORAGE_SCHEMA_VERSION);
+    assert.deepStrictEqual(result.applied, []);
+    assert.strictEqual(globalState.get(SCHEMA_VERSION_KEY), STORAGE_SCHEMA_VERSION);
+  });
+
+  test('treats unversioned data as schema v0', () => {
+    globalState.update('breakStats', { breaksTaken: 4 });
+
+    assert.strictEqual(getStoredSchemaVersion(globalState), 0);
+  });
+
+  test('fills missing fields and de-duplicates daily history from 1.2.x data', () => {
+    globalState.update('breakStats', { breaksTaken: 4 });
+    globalState.update('dailyWellnessData', [
+      { date: '2026-03-02', breaksTaken: 1 },
+      { date: '2026-03-01', breaksTaken: 0 },
+      { date: '2026-03-02', breaksTaken: 3 }
+    ]);
+
+    const result = runStorageMigrations(globalState);
+
+    assert.deepStrictEqual(result.applied, [1]);
+    assert.deepStrictEqual(globalState.get('breakStats'), { breaksTaken: 4, timeSaved: 0, streakDays: 0, lastBreakDate: null });
+    assert.deepStrictEqual(globalState.get('dailyWellnessData'), [
+      { date: '2026-03-01', breaksTaken: 0 },
+      { date: '2026-03-02', breaksTaken: 3 }
+    ]);
+    assert.strictEqual(globalState.get(SCHEMA_VERSION_KEY), 1);
+  });
+
+  test('backs up data before each migration', () => {
+    globalState.update('breakStats', { breaksTaken: 4 });
+
+    runStorageMigrations(globalState);
+
+    const backups = getMigrationBackups(globalState);
+    assert.strictEqual(backups.length, 1);
+    assert.strictEqual(backups[0].fromVersion, 0);
+    assert.deepStrictEqual(backups[0].data.breakStats, { breaksTaken: 4 });
+  });
+
+  test('restores the backup and keeps the old version when a step fails', () => {
+    globalState.update('breakStats', { breaksTaken: 4 });
+    const failing: StorageMigration = {
+      version: 1,
+      description: 'Broken step',
+      migrate: state => {
+        state.update('breakStats', { corrupted: true });
+        state.update('newKey', 'partial');
+        throw new Error('boom');
+      }
+    };
+
+    const result = runStorageMigrations(globalState, [failing]);
+
+    assert.deepStrictEqual(result.failed, { version: 1, error: 'boom' });
+    assert.deepStrictEqual(globalState.get('breakStats'), { breaksTaken: 4 });
+    assert.strictEqual(globalState.get('newKey'), undefined);
+    assert.strictEqual(globalState.get(SCHEMA_VERSION_KEY), undefined);
+  });
+
+  test('leaves data from a newer release untouched', () => {
+    globalState.update(SCHEMA_VERSION_KEY, STORAGE_SCHEMA_VERSION + 1);
+    globalState.update('breakStats', { breaksTaken: 4 });
+
+    const result = runStorageMigrations(globalState);
+
+    assert.deepStrictEqual(result.applied, []);
+    assert.deepStrictEqual(globalState.get('breakStats'), { breaksTaken: 4 });
+  });
+});
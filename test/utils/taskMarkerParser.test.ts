@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { parseTaskMarkers, inferPriority } from '../../src/utils/taskMarkerParser';
+
+suite('taskMarkerParser', () => {
+  test('finds TODO, FIXME and HACK comments in common comment styles', () => {
+    const markers = parseTaskMarkers([
+      'const a = 1; // TODO: rename this',
+      '# FIXME handle empty input',
+      '/* HACK - works around a driver bug */',
+      'const todo = "TODO in a string";'
+    ].join('\n'), 'src/file.ts');
+
+    assert.deepStrictEqual(markers.map(m => [m.kind, m.text, m.line]), [
+      ['TODO', 'rename this', 0],
+      ['FIXME', 'handle empty input', 1],
+      ['HACK', 'works around a driver bug', 2]
+    ]);
+  });
+
+  test('reads Markdown checklist items and their state', () => {
+    const markers = parseTaskMarkers('- [ ] Write changelog\n* [x] Tag release\n- plain bullet', 'NOTES.md');
+
+    assert.deepStrictEqual(markers.map(m => [m.text, m.done]), [
+      ['Write changelog', false],
+      ['Tag release', true]
+    ]);
+    assert.strictEqual(parseTaskMarkers('- [ ] not markdown', 'file.ts').length, 0);
+  });
+
+  test('does not read Markdown headings as comments', () => {
+    const markers = parseTaskMarkers('## TODO list\n<!-- TODO: add screenshots -->\n- [ ] Ship it', 'README.md');
+
+    assert.deepStrictEqual(markers.map(m => [m.kind, m.text]), [
+      ['TODO', 'add screenshots'],
+      ['checklist', 'Ship it']
+    ]);
+  });
+
+  test('infers the quadrant from priority markers', () => {
+    const [urgentTag, bang, plain] = parseTaskMarkers([
+      '// TODO(urgent): reply to security report',
+      '// TODO !! fix data loss',
+      '// TODO tidy imports'
+    ].join('\n'), 'a.ts');
+
+    assert.strictEqual(urgentTag.priority, 'urgent-not-important');
+    assert.strictEqual(bang.priority, 'urgent-important');
+    assert.strictEqual(bang.text, 'fix data loss');
+    assert.strictEqual(plain.priority, 'not-urgent-not-important');
+    assert.strictEqual(inferPriority('FIXME', 'crash on save'), 'not-urgent-important');
+  });
+
+  test('ignores exclamation marks that are part of code', () => {
+    assert.strictEqual(inferPriority('TODO', 'handle a !== b when ids differ'), 'not-urgent-not-important');
+    assert.strictEqual(inferPriority('TODO', 'check if (!user) earlier'), 'not-urgent-not-important');
+    assert.strictEqual(inferPriority('TODO', 'skip when x != y'), 'not-urgent-not-important');
+    assert.strictEqual(inferPriority('TODO', 'retry the upload !'), 'not-urgent-important');
+  });
+});